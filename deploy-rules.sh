@@ -1,7 +1,7 @@
 #!/bin/bash
-# Script to deploy Firestore security rules
+# Script to deploy Firestore and Storage security rules
 
-echo "Deploying Firestore security rules..."
-firebase deploy --only firestore:rules
+echo "Deploying Firestore and Storage security rules..."
+firebase deploy --only firestore:rules,storage
 
 echo "Rules deployment complete!"
@@ -163,6 +163,14 @@ self.addEventListener('notificationclick', (event) => {
     }
   }
   
+  // Confirm/reject buttons of a repayment request open it with the chosen action
+  if (data.type === 'settlement_request' && fundId && transactionId) {
+    targetUrl = `/funds/${fundId}?settlement=${transactionId}`;
+    if (event.action === 'confirm' || event.action === 'reject') {
+      targetUrl += `&action=${event.action}`;
+    }
+  }
+  
   event.waitUntil(
     clients.matchAll({ type: 'window' }).then((clientList) => {
       // If a window is already open, focus it
@@ -19,6 +19,8 @@ const LoginPage = lazy(() => import("./pages/LoginPage").then(module => ({ defau
 const Dashboard = lazy(() => import("./pages/Dashboard" /* webpackChunkName: "dashboard" */));
 const CreateFund = lazy(() => import("./pages/CreateFund" /* webpackChunkName: "create-fund" */));
 const FundDetails = lazy(() => import("./pages/FundDetails" /* webpackChunkName: "fund-details" */));
+const MyBalances = lazy(() => import("./pages/MyBalances" /* webpackChunkName: "my-balances" */));
+const JoinFund = lazy(() => import("./pages/JoinFund" /* webpackChunkName: "join-fund" */));
 const NotFound = lazy(() => import("./pages/NotFound" /* webpackChunkName: "not-found" */));
 
 // Create a more optimized QueryClient
@@ -76,6 +78,17 @@ const App = () => (
                       <FundDetails />
                     </Suspense>
                   } />
+                  <Route path="/balances" element={
+                    <Suspense fallback={<DashboardSkeleton />}>
+                      <MyBalances />
+                    </Suspense>
+                  } />
+                  {/* Invite links; the login form keeps the token in the redirect path */}
+                  <Route path="/join/:token" element={
+                    <Suspense fallback={<DashboardSkeleton />}>
+                      <JoinFund />
+                    </Suspense>
+                  } />
 
                 </Route>
               </Route>
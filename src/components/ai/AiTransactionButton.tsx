@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { Fund, Split } from "@/types";
 import { Button } from "@/components/ui/button";
-import { SparklesIcon, Loader2Icon } from "lucide-react";
+import { SparklesIcon, Loader2Icon, CameraIcon, ReceiptTextIcon } from "lucide-react";
 import { useApp } from "@/context/AppContext";
 import {
   Dialog,
@@ -16,7 +16,9 @@ import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { parseTransactionWithLLM, LLMTransactionResponse, AIModel, getAvailableModels } from "@/services/aiService";
 import { saveAIPrompt } from "@/services/aiPromptStorage";
+import { scanReceiptWithAI, parseReceiptFromText } from "@/services/receiptService";
 import { CreateTransactionSheet } from "@/components/transactions/CreateTransactionSheet";
+import { getFundCategories } from "@/utils/categoryUtils";
 import { Textarea } from "../ui/textarea";
 
 interface AiTransactionButtonProps {
@@ -42,6 +44,8 @@ export function AiTransactionButton({
   const [showApiInfo, setShowApiInfo] = useState(false);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [currentPrompt, setCurrentPrompt] = useState("");
+  const [receiptImage, setReceiptImage] = useState<File | null>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
 
   const { createTransaction, getUserById, currentUser } = useApp();
 
@@ -111,6 +115,7 @@ export function AiTransactionButton({
     // of the transaction sheet when response is set
     setResponse(null);
     setOpenTransactionSheet(false);
+    setReceiptImage(null);
     
     // Save a copy of the input for later use
     const currentInput = input.trim();
@@ -175,6 +180,60 @@ export function AiTransactionButton({
     }
   };
 
+  // Show a processed result in the transaction sheet
+  const openResultInSheet = (result: LLMTransactionResponse, prompt: string) => {
+    const processedResult = processAIResult(result);
+    if (!processedResult) return;
+
+    setCurrentPrompt(prompt);
+    setIsOpen(false);
+    setInput("");
+    setResponse(processedResult);
+  };
+
+  // Read a bill photo with Gemini; the text box can hold a note on who paid and who had what
+  const processReceiptImage = async (image: File) => {
+    if (processing || !currentUser) return;
+
+    if (!availableProviders.includes('google')) {
+      toast.error('Quét ảnh hóa đơn cần API key Google (Gemini)', {
+        description: 'Bạn có thể dán văn bản hóa đơn vào ô nhập và chọn "Đọc văn bản hóa đơn"'
+      });
+      return;
+    }
+
+    setResponse(null);
+    setOpenTransactionSheet(false);
+    setProcessing(true);
+
+    try {
+      const result = await scanReceiptWithAI(image, fund, memberUsers, currentUser.id, input);
+      setReceiptImage(image);
+      openResultInSheet(result, "");
+    } catch (error) {
+      console.error('Error scanning receipt:', error);
+      toast.error(error instanceof Error ? error.message : 'Không thể đọc hóa đơn', {
+        duration: 5000,
+        description: 'Vui lòng chụp lại ảnh rõ hơn'
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Read pasted OCR text of a bill without calling the AI
+  const processReceiptText = () => {
+    if (!input.trim() || processing || !currentUser) return;
+
+    try {
+      const result = parseReceiptFromText(input, fund, memberUsers, currentUser.id);
+      setReceiptImage(null);
+      openResultInSheet(result, "");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Không thể đọc hóa đơn');
+    }
+  };
+
   // Pure function to process AI response without side effects
   const processAIResult = (result: LLMTransactionResponse): LLMTransactionResponse | null => {
     if (!result) return null;
@@ -201,6 +260,8 @@ export function AiTransactionButton({
         ...result,
         payer: payerUser.id,
         desc: result.desc || 'Giao dịch mới',
+        // Drop categories the fund doesn't have so the form falls back to keyword rules
+        category: getFundCategories(fund).some(c => c.name === result.category) ? result.category : undefined,
         // Ensure we have proper splits
         users: Object.fromEntries(
           processedSplits.map(split => [split.userId, split.amount.toString()])
@@ -310,6 +371,43 @@ export function AiTransactionButton({
                 className="w-full min-h-[80px]"
                 disabled={processing}
               />
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-1 text-xs"
+                  onClick={() => receiptInputRef.current?.click()}
+                  disabled={processing}
+                >
+                  <CameraIcon className="h-3.5 w-3.5" />
+                  Quét hóa đơn
+                </Button>
+                {input.trim().split("\n").length >= 3 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-8 gap-1 text-xs"
+                    onClick={processReceiptText}
+                    disabled={processing}
+                  >
+                    <ReceiptTextIcon className="h-3.5 w-3.5" />
+                    Đọc văn bản hóa đơn
+                  </Button>
+                )}
+              </div>
+              <input
+                ref={receiptInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) processReceiptImage(file);
+                }}
+              />
             </div>
 
             {/* Suggested prompts */}
@@ -428,6 +526,7 @@ export function AiTransactionButton({
                 <li>Chi tiết về người trả tiền</li>
                 <li>Số tiền của giao dịch</li>
                 <li>Cách chia tiền giữa các thành viên</li>
+                <li>Ảnh chụp hóa đơn: ghi chú ai trả, ai gọi món gì vào ô nhập rồi bấm "Quét hóa đơn"</li>
               </ul>
             </div>
           </div>
@@ -467,15 +566,22 @@ export function AiTransactionButton({
         initialData={response ? {
           description: response.desc,
           amount: response.totalAmount.toString(),
+          payers: Object.keys(response.payers || {}).length > 1
+            ? Object.entries(response.payers).map(([userId, amountStr]) => ({ userId, amount: parseInt(amountStr) || 0 }))
+            : [{ userId: response.payer, amount: 0 }],
           splits: fund.members.map(memberId => {
             // Get amount directly using member ID as key in the response
             const amountStr = response.users[memberId];
             const amount = amountStr ? parseInt(amountStr) : 0;
             return { userId: memberId, amount };
           }),
+          category: response.category,
+          items: response.items,
+          date: response.date,
+          pendingAttachments: receiptImage ? [receiptImage] : undefined,
           reasoning: response.reasoning, // Pass the reasoning from AI response
           aiGenerated: true, // Flag to indicate this was generated by AI
-          aiPrompt: currentPrompt // Save the original prompt
+          aiPrompt: currentPrompt || undefined // Save the original prompt; bills read from a photo have none
         } : undefined}
         openSheet={openTransactionSheet}
         onOpenChange={(open) => {
@@ -490,6 +596,7 @@ export function AiTransactionButton({
             setResponse(null);
             // Clear the prompt as well
             setCurrentPrompt("");
+            setReceiptImage(null);
           } else {
             // Sheet is being opened
             console.log("Sheet opened with response data:", response ? "exists" : "null");
@@ -17,7 +17,10 @@ export function LoginForm() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   
-  const from = (location.state as any)?.from || "/dashboard";
+  // Go back to the page that asked for login (e.g. an invite link) once signed in
+  const from = sessionStorage.getItem('redirectPath') ||
+               (location.state as any)?.from ||
+               "/dashboard";
 
   const handleGoogleLogin = async () => {
     try {
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useApp } from "@/context/AppContext";
+import { Fund, PaymentReminderSchedule, PaymentReminderSetting } from "@/types";
+import { DEFAULT_REMINDER_DAYS, MAX_REMINDER_DAYS, MIN_REMINDER_DAYS } from "@/utils/reminderUtils";
+import { BellRing, Loader2 } from "lucide-react";
+
+interface PaymentReminderSettingsProps {
+  fund: Fund;
+}
+
+// Select value for "no automatic reminders"
+const REMINDERS_OFF = "off";
+
+/**
+ * The current user's automatic reminders for the people who owe them in a fund
+ */
+export function PaymentReminderSettings({ fund }: PaymentReminderSettingsProps) {
+  const { currentUser, updatePaymentReminderSetting } = useApp();
+  const savedSetting = currentUser ? fund.paymentReminderSettings?.[currentUser.id] : undefined;
+  const [schedule, setSchedule] = useState<string>(savedSetting?.schedule || REMINDERS_OFF);
+  const [days, setDays] = useState((savedSetting?.days || DEFAULT_REMINDER_DAYS).toString());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow changes saved from another device
+  useEffect(() => {
+    setSchedule(savedSetting?.schedule || REMINDERS_OFF);
+    setDays((savedSetting?.days || DEFAULT_REMINDER_DAYS).toString());
+  }, [savedSetting?.schedule, savedSetting?.days]);
+
+  const parsedDays = parseInt(days);
+  const isDaysValid = parsedDays >= MIN_REMINDER_DAYS && parsedDays <= MAX_REMINDER_DAYS;
+  const isChanged = schedule !== (savedSetting?.schedule || REMINDERS_OFF) ||
+    (schedule === PaymentReminderSchedule.AFTER_DAYS && parsedDays !== savedSetting?.days);
+
+  const handleSave = async () => {
+    let setting: PaymentReminderSetting | null = null;
+    if (schedule === PaymentReminderSchedule.WEEKLY) {
+      setting = { schedule: PaymentReminderSchedule.WEEKLY };
+    } else if (schedule === PaymentReminderSchedule.AFTER_DAYS) {
+      setting = { schedule: PaymentReminderSchedule.AFTER_DAYS, days: parsedDays };
+    }
+
+    setIsSaving(true);
+    await updatePaymentReminderSetting(fund.id, setting);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-2">
+      <Label className="text-sm flex items-center gap-2">
+        <BellRing className="h-4 w-4 text-amber-500" />
+        Tự động nhắc người nợ bạn
+      </Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={schedule} onValueChange={setSchedule}>
+          <SelectTrigger className="w-[180px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={REMINDERS_OFF}>Tắt</SelectItem>
+            <SelectItem value={PaymentReminderSchedule.WEEKLY}>Hằng tuần</SelectItem>
+            <SelectItem value={PaymentReminderSchedule.AFTER_DAYS}>Sau số ngày</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {schedule === PaymentReminderSchedule.AFTER_DAYS && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={MIN_REMINDER_DAYS}
+              max={MAX_REMINDER_DAYS}
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              className="w-20 h-9"
+            />
+            <span className="text-sm text-muted-foreground">ngày</span>
+          </div>
+        )}
+
+        <Button
+          size="sm"
+          className="h-9"
+          onClick={handleSave}
+          disabled={!isChanged || isSaving || (schedule === PaymentReminderSchedule.AFTER_DAYS && !isDaysValid)}
+        >
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Lưu
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Lời nhắc kèm số tiền và mã QR nhận tiền của bạn, mỗi khoản nợ nhiều nhất một lần mỗi ngày,
+        và dừng khi khoản nợ đã được thanh toán. Lời nhắc đến hạn được gửi vào lần tới bạn mở quỹ này.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useApp } from "@/context/AppContext";
+import { SettlementStatus, Transaction } from "@/types";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import { format } from "date-fns";
+import { ArrowRight, Check, Clock, Loader2, X } from "lucide-react";
+
+export type SettlementAction = "confirm" | "reject";
+
+interface PendingSettlementsProps {
+  transactions: Transaction[];
+  focusTransactionId?: string; // Repayment opened from a notification
+  requestedAction?: SettlementAction; // Action picked on that notification
+  getFundName?: (fundId: string) => string; // Shown when the list spans several funds
+  onResponded?: () => void;
+}
+
+// Rejected repayments stay visible to the payer for this long
+const REJECTED_VISIBLE_DAYS = 14;
+
+/**
+ * Repayments waiting for their recipient. The recipient confirms or rejects them here,
+ * the payer sees which ones are still pending and why one was rejected.
+ */
+export function PendingSettlements({
+  transactions,
+  focusTransactionId,
+  requestedAction,
+  getFundName,
+  onResponded,
+}: PendingSettlementsProps) {
+  const { currentUser, getUserById, respondToSettlement } = useApp();
+  const [dialog, setDialog] = useState<{ transaction: Transaction; action: SettlementAction } | null>(null);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Notification action already opened, so later transaction updates don't reopen a closed dialog
+  const handledRequestRef = useRef<string | null>(null);
+  const currentUserId = currentUser?.id;
+
+  const rejectedSince = Date.now() - REJECTED_VISIBLE_DAYS * 24 * 60 * 60 * 1000;
+  const settlements = transactions
+    .filter(t => {
+      if (!currentUser || !t.settlementStatus) return false;
+      const isRecipient = t.settlementRecipientId === currentUser.id;
+      const isPayer = t.paidBy === currentUser.id || t.createdBy === currentUser.id;
+
+      if (t.settlementStatus === SettlementStatus.PENDING) return isRecipient || isPayer;
+      return t.settlementStatus === SettlementStatus.REJECTED && isPayer
+        && (t.settlementRespondedAt || 0) >= rejectedSince;
+    })
+    .sort((a, b) => (b.date || b.createdAt) - (a.date || a.createdAt));
+
+  // Open the dialog for the repayment a notification action pointed at
+  useEffect(() => {
+    if (!focusTransactionId || !requestedAction || !currentUserId) return;
+
+    const requestKey = `${focusTransactionId}:${requestedAction}`;
+    if (handledRequestRef.current === requestKey) return;
+
+    const transaction = transactions.find(t => t.id === focusTransactionId);
+    if (transaction?.settlementStatus === SettlementStatus.PENDING
+      && transaction.settlementRecipientId === currentUserId) {
+      handledRequestRef.current = requestKey;
+      setReason("");
+      setDialog({ transaction, action: requestedAction });
+    }
+  }, [focusTransactionId, requestedAction, currentUserId, transactions]);
+
+  if (settlements.length === 0) return null;
+
+  const openDialog = (transaction: Transaction, action: SettlementAction) => {
+    setReason("");
+    setDialog({ transaction, action });
+  };
+
+  const handleRespond = async () => {
+    if (!dialog) return;
+
+    setIsSubmitting(true);
+    const confirmed = dialog.action === "confirm";
+    const success = await respondToSettlement(dialog.transaction, confirmed, confirmed ? undefined : reason.trim());
+    setIsSubmitting(false);
+
+    if (success) {
+      setDialog(null);
+      onResponded?.();
+    }
+  };
+
+  const dialogPayer = dialog ? getUserById(dialog.transaction.paidBy) : null;
+
+  return (
+    <Card className="mb-4 border-amber-200">
+      <CardHeader className="pb-2 border-b">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Clock className="h-4 w-4 text-amber-500" />
+          <span>Thanh toán chờ xác nhận</span>
+          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+            {settlements.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="pt-4 space-y-2">
+        {settlements.map(transaction => {
+          const payer = getUserById(transaction.paidBy);
+          const recipient = getUserById(transaction.settlementRecipientId);
+          const isRecipient = transaction.settlementRecipientId === currentUser?.id;
+          const isRejected = transaction.settlementStatus === SettlementStatus.REJECTED;
+
+          return (
+            <div
+              key={transaction.id}
+              className={cn(
+                "p-3 rounded-lg border space-y-2",
+                isRejected ? "bg-rose-50/60 border-rose-200" : "bg-amber-50/40 border-amber-200",
+                transaction.id === focusTransactionId && "ring-2 ring-amber-300"
+              )}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={payer.photoURL} alt={payer.displayName} />
+                    <AvatarFallback>{payer.displayName.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium truncate max-w-[90px]">{payer.displayName}</span>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={recipient.photoURL} alt={recipient.displayName} />
+                    <AvatarFallback>{recipient.displayName.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium truncate max-w-[90px]">{recipient.displayName}</span>
+                </div>
+                <span className="text-sm font-bold flex-shrink-0">{formatCurrency(transaction.amount)}</span>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                  <span>{format(transaction.date || transaction.createdAt, "dd/MM/yyyy")}</span>
+                  {getFundName && <span>· {getFundName(transaction.fundId)}</span>}
+                  {isRejected ? (
+                    <Badge variant="destructive" className="h-5 text-[11px]">Bị từ chối</Badge>
+                  ) : (
+                    <Badge variant="outline" className="h-5 text-[11px] bg-amber-50 text-amber-700 border-amber-200">
+                      Chờ xác nhận
+                    </Badge>
+                  )}
+                </div>
+
+                {isRecipient && !isRejected && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 text-rose-600 border-rose-200 hover:bg-rose-50"
+                      onClick={() => openDialog(transaction, "reject")}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Chưa nhận
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-8 bg-emerald-600 hover:bg-emerald-700 text-white"
+                      onClick={() => openDialog(transaction, "confirm")}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Đã nhận
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {isRejected && transaction.settlementRejectReason && (
+                <p className="text-xs text-rose-700">Lý do: {transaction.settlementRejectReason}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.action === "confirm" ? "Xác nhận đã nhận tiền" : "Từ chối khoản thanh toán"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog && dialogPayer && (dialog.action === "confirm"
+                ? `Bạn đã nhận ${formatCurrency(dialog.transaction.amount)} từ ${dialogPayer.displayName}? Khoản này sẽ được tính vào số dư.`
+                : `Cho ${dialogPayer.displayName} biết vì sao bạn chưa nhận được ${formatCurrency(dialog.transaction.amount)}.`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialog?.action === "reject" && (
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ví dụ: chưa thấy tiền vào tài khoản"
+              rows={3}
+            />
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isSubmitting}>
+              Hủy
+            </Button>
+            <Button
+              onClick={handleRespond}
+              disabled={isSubmitting || (dialog?.action === "reject" && !reason.trim())}
+              variant={dialog?.action === "reject" ? "destructive" : "default"}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {dialog?.action === "confirm" ? "Đã nhận" : "Từ chối"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
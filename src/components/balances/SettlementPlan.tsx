@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ReturnMoneyButton } from "@/components/transactions/ReturnMoneyButton";
+import { PaymentReminderSettings } from "@/components/balances/PaymentReminderSettings";
+import { useApp } from "@/context/AppContext";
+import { Fund } from "@/types";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import {
+  calculateSettlements,
+  EXACT_SETTLEMENT_MAX_PARTICIPANTS,
+  Settlement,
+} from "@/utils/settlementUtils";
+import { canSendPaymentReminder, getReminderPairKey, getRemindableDebts } from "@/utils/reminderUtils";
+import { ArrowRight, BellRing, CheckCircle2, Loader2, Route } from "lucide-react";
+import { motion } from "framer-motion";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
+
+interface SettlementPlanProps {
+  fund: Fund;
+  payToUserId?: string; // Open the payment to this creditor right away, e.g. from a reminder
+}
+
+/**
+ * Shows the minimal "who pays whom" plan for a fund.
+ * Rows where the current user is the debtor open ReturnMoneyButton pre-filled
+ * with the recipient and amount; creditors can remind their debtor.
+ */
+export function SettlementPlan({ fund, payToUserId }: SettlementPlanProps) {
+  const { calculateBalances, getUserById, currentUser, transactions, paymentReminders, sendPaymentReminder } = useApp();
+  const [useExactMode, setUseExactMode] = useState(false);
+  const [remindingKey, setRemindingKey] = useState<string | null>(null);
+  const { canContribute } = useFundPermissions(fund);
+
+  const balances = calculateBalances(fund.id);
+  const participantCount = balances.filter(b => Math.round(b.amount) !== 0).length;
+  const canUseExactMode = participantCount <= EXACT_SETTLEMENT_MAX_PARTICIPANTS;
+
+  const settlements = calculateSettlements(
+    balances,
+    useExactMode && canUseExactMode ? "exact" : "greedy"
+  );
+  const remindableKeys = new Set(
+    getRemindableDebts(transactions.filter(t => t.fundId === fund.id), settlements)
+      .map(debt => getReminderPairKey(debt.from, debt.to))
+  );
+  const showReminderSettings = !!currentUser &&
+    (settlements.some(s => s.to === currentUser.id) || !!fund.paymentReminderSettings?.[currentUser.id]);
+
+  const handleRemind = async (settlement: Settlement) => {
+    setRemindingKey(getReminderPairKey(settlement.from, settlement.to));
+    await sendPaymentReminder(fund, settlement);
+    setRemindingKey(null);
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-2 border-b">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Route className="h-4 w-4 text-blue-500" />
+            <span>Kế hoạch thanh toán</span>
+            {settlements.length > 0 && (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                {settlements.length} giao dịch
+              </Badge>
+            )}
+          </CardTitle>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="exact-settlement"
+              checked={useExactMode && canUseExactMode}
+              onCheckedChange={setUseExactMode}
+              disabled={!canUseExactMode}
+            />
+            <Label htmlFor="exact-settlement" className="text-xs cursor-pointer">
+              {canUseExactMode
+                ? "Tối ưu số lần chuyển"
+                : `Tối ưu chỉ hỗ trợ nhóm ≤ ${EXACT_SETTLEMENT_MAX_PARTICIPANTS} người`}
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-4">
+        {settlements.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+            <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+            <span>Mọi người đã thanh toán xong</span>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {settlements.map((settlement, index) => {
+              const debtor = getUserById(settlement.from);
+              const creditor = getUserById(settlement.to);
+              const isCurrentUserDebtor = settlement.from === currentUser?.id;
+              const isCurrentUserCreditor = settlement.to === currentUser?.id;
+              const pairKey = getReminderPairKey(settlement.from, settlement.to);
+              const canRemind = isCurrentUserCreditor && !fund.isArchived && remindableKeys.has(pairKey);
+
+              return (
+                <motion.div
+                  key={`${settlement.from}-${settlement.to}`}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className={cn(
+                    "flex items-center justify-between gap-3 p-3 rounded-lg border",
+                    isCurrentUserDebtor
+                      ? "bg-rose-50/60 border-rose-200"
+                      : isCurrentUserCreditor
+                        ? "bg-emerald-50/60 border-emerald-200"
+                        : "bg-card border-border/40"
+                  )}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={debtor.photoURL} alt={debtor.displayName} />
+                      <AvatarFallback>{debtor.displayName.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium truncate max-w-[90px]">{debtor.displayName}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={creditor.photoURL} alt={creditor.displayName} />
+                      <AvatarFallback>{creditor.displayName.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium truncate max-w-[90px]">{creditor.displayName}</span>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="text-sm font-bold text-rose-600">
+                      {formatCurrency(settlement.amount)}
+                    </span>
+                    {canRemind && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 text-amber-700 border-amber-200 hover:bg-amber-50"
+                        onClick={() => handleRemind(settlement)}
+                        disabled={remindingKey === pairKey || !canSendPaymentReminder(paymentReminders[pairKey])}
+                        title="Gửi lời nhắc kèm mã QR nhận tiền của bạn"
+                      >
+                        {remindingKey === pairKey
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <BellRing className="h-4 w-4 mr-1" />}
+                        Nhắc
+                      </Button>
+                    )}
+                    {isCurrentUserDebtor && canContribute && (
+                      <ReturnMoneyButton
+                        fund={fund}
+                        initialRecipientId={settlement.to}
+                        initialAmount={settlement.amount}
+                        defaultOpen={settlement.to === payToUserId}
+                        trigger={
+                          <Button size="sm" className="h-8 bg-emerald-600 hover:bg-emerald-700 text-white">
+                            Trả
+                          </Button>
+                        }
+                      />
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+
+        {showReminderSettings && !fund.isArchived && <PaymentReminderSettings fund={fund} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import { useApp } from "@/context/AppContext";
+import { Fund } from "@/types";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Archive, ArchiveRestore } from "lucide-react";
+
+interface ArchiveFundDialogProps {
+  fund: Fund;
+  children?: React.ReactNode;
+  onArchivedChange?: (isArchived: boolean) => void;
+}
+
+/**
+ * Confirm archiving a fund, or restoring it when it is already archived
+ */
+export function ArchiveFundDialog({ fund, children, onArchivedChange }: ArchiveFundDialogProps) {
+  const { setFundArchived } = useApp();
+  const [isSaving, setIsSaving] = useState(false);
+  const isArchived = !!fund.isArchived;
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    const success = await setFundArchived(fund.id, !isArchived);
+    setIsSaving(false);
+
+    if (success) {
+      onArchivedChange?.(!isArchived);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        {children || (
+          <Button variant="outline" size="sm" className="gap-1" disabled={isSaving}>
+            {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            <span>{isArchived ? "Khôi phục quỹ" : "Lưu trữ quỹ"}</span>
+          </Button>
+        )}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isArchived ? "Khôi phục quỹ?" : "Lưu trữ quỹ?"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isArchived ? (
+              <>
+                Quỹ <strong>"{fund.name}"</strong> sẽ trở lại danh sách quỹ của bạn và các thành viên có thể tiếp tục thêm giao dịch.
+              </>
+            ) : (
+              <>
+                Quỹ <strong>"{fund.name}"</strong> sẽ được chuyển vào mục "Đã lưu trữ" và chỉ có thể xem.
+                Bạn có thể khôi phục quỹ bất cứ lúc nào.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Hủy</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm}>
+            {isArchived ? "Khôi phục" : "Lưu trữ"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
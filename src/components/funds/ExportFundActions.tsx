@@ -0,0 +1,87 @@
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/context/AppContext";
+import { DateRange, Fund, Transaction } from "@/types";
+import {
+  buildBalanceRows,
+  buildTransactionRows,
+  createFundWorkbook,
+  downloadFile,
+  filterTransactionsByDateRange,
+  getExportFileName,
+  toCsv,
+} from "@/utils/exportUtils";
+import { FileSpreadsheet, FileText } from "lucide-react";
+import { toast } from "sonner";
+
+interface ExportFundActionsProps {
+  fund: Fund;
+  dateRange?: DateRange; // Date range selected on the transactions/debts tabs
+}
+
+/**
+ * Menu entries that export the fund's transactions, balances and settlement plan
+ * as an Excel workbook or CSV files
+ */
+export function ExportFundActions({ fund, dateRange }: ExportFundActionsProps) {
+  const { transactions, getUserById } = useApp();
+
+  const runExport = (
+    exportFile: (fundTransactions: Transaction[], getUserName: (userId: string) => string) => void
+  ) => {
+    const fundTransactions = filterTransactionsByDateRange(
+      transactions.filter(t => t.fundId === fund.id),
+      dateRange
+    );
+    if (fundTransactions.length === 0) {
+      toast.error("Không có giao dịch nào để xuất");
+      return;
+    }
+
+    try {
+      exportFile(fundTransactions, (userId) => getUserById(userId)?.displayName || userId);
+      toast.success(`Đã xuất ${fundTransactions.length} giao dịch`);
+    } catch (error) {
+      console.error("Error exporting fund:", error);
+      toast.error("Không thể xuất dữ liệu");
+    }
+  };
+
+  const exportExcel = () => runExport((fundTransactions, getUserName) => {
+    downloadFile(
+      createFundWorkbook(fund, fundTransactions, getUserName),
+      getExportFileName(fund, "bao-cao", "xlsx")
+    );
+  });
+
+  const exportTransactionsCsv = () => runExport((fundTransactions, getUserName) => {
+    const csv = toCsv(buildTransactionRows(fund, fundTransactions, getUserName));
+    downloadFile(new Blob([csv], { type: "text/csv;charset=utf-8" }), getExportFileName(fund, "giao-dich", "csv"));
+  });
+
+  const exportBalancesCsv = () => runExport((fundTransactions, getUserName) => {
+    const csv = toCsv(buildBalanceRows(fundTransactions, getUserName));
+    downloadFile(new Blob([csv], { type: "text/csv;charset=utf-8" }), getExportFileName(fund, "so-du", "csv"));
+  });
+
+  return (
+    <>
+      <Button variant="ghost" className="w-full justify-start text-left" onClick={exportExcel}>
+        <FileSpreadsheet className="h-4 w-4 mr-2" />
+        <span>Xuất Excel</span>
+      </Button>
+      <Button variant="ghost" className="w-full justify-start text-left" onClick={exportTransactionsCsv}>
+        <FileText className="h-4 w-4 mr-2" />
+        <span>Xuất CSV giao dịch</span>
+      </Button>
+      <Button variant="ghost" className="w-full justify-start text-left" onClick={exportBalancesCsv}>
+        <FileText className="h-4 w-4 mr-2" />
+        <span>Xuất CSV số dư</span>
+      </Button>
+      {dateRange?.from && (
+        <p className="px-4 text-[11px] text-muted-foreground">
+          Chỉ xuất giao dịch trong khoảng thời gian đã chọn
+        </p>
+      )}
+    </>
+  );
+}
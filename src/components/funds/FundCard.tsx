@@ -2,14 +2,18 @@
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Fund, User } from "@/types";
-import { Clock, Users, ArrowRight } from "lucide-react";
+import { Clock, Users, ArrowRight, Archive, ArchiveRestore } from "lucide-react";
 import { useApp } from "@/context/AppContext";
 import { useNavigate } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
 import { vi } from "date-fns/locale";
 import { motion } from "framer-motion";
 import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
+import { ArchiveFundDialog } from "@/components/funds/ArchiveFundDialog";
 
 interface FundCardProps {
   fund: Fund;
@@ -19,6 +23,7 @@ interface FundCardProps {
 export function FundCard({ fund, delay = 0 }: FundCardProps) {
   const { setSelectedFund, getUserById } = useApp();
   const navigate = useNavigate();
+  const { canArchive } = useFundPermissions(fund);
 
   // Convert member IDs to user objects for display
   const memberUsers = useMemo(() => {
@@ -49,18 +54,34 @@ export function FundCard({ fund, delay = 0 }: FundCardProps) {
         stiffness: 100 
       }}
     >
-      <Card className="overflow-hidden transition-all duration-300 hover:shadow-lg group">
+      <Card className={cn(
+        "overflow-hidden transition-all duration-300 hover:shadow-lg group",
+        fund.isArchived && "bg-muted/40"
+      )}>
         <CardHeader className="pb-2 relative">
           <div className="flex justify-between items-center">
             <div className="flex items-center gap-3">
               <div className="text-4xl group-hover:scale-110 transition-transform duration-300">{fund.icon}</div>
               <div>
-                <CardTitle className="text-lg sm:text-xl">{fund.name}</CardTitle>
+                <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+                  {fund.name}
+                  {fund.isArchived && <Badge variant="secondary" className="text-[10px]">Đã lưu trữ</Badge>}
+                </CardTitle>
                 <CardDescription className="line-clamp-2">{fund.description}</CardDescription>
               </div>
             </div>
+            {canArchive && (
+              <ArchiveFundDialog fund={fund}>
+                <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0 text-muted-foreground">
+                  {fund.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  <span className="sr-only">{fund.isArchived ? "Khôi phục quỹ" : "Lưu trữ quỹ"}</span>
+                </Button>
+              </ArchiveFundDialog>
+            )}
           </div>
-          <div className="absolute top-3 right-3 w-2 h-2 rounded-full bg-blue-500 shadow-lg shadow-blue-200 animate-pulse-subtle"></div>
+          {!fund.isArchived && (
+            <div className="absolute top-3 right-3 w-2 h-2 rounded-full bg-blue-500 shadow-lg shadow-blue-200 animate-pulse-subtle"></div>
+          )}
         </CardHeader>
         <CardContent className="pb-2">
           <div className="flex flex-col sm:flex-row sm:items-center sm:gap-4 text-sm text-muted-foreground">
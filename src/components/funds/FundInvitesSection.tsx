@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { Fund, FundInvite, FundRole } from "@/types";
+import { useApp } from "@/context/AppContext";
+import { createFundInvite, getFundInvites, revokeFundInvite } from "@/firebase/inviteService";
+import { getInviteUnavailableReason, getInviteUrl } from "@/utils/inviteUtils";
+import { FUND_ROLE_LABELS } from "@/constants/roleConstants";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { QRCode } from "@/components/ui/qr-code";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Check, Copy, Link2, Loader2, QrCode } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface FundInvitesSectionProps {
+  fund: Fund;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expiry choices, in days; 0 means the link never expires
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 ngày" },
+  { value: "7", label: "7 ngày" },
+  { value: "30", label: "30 ngày" },
+  { value: "0", label: "Không hết hạn" },
+];
+
+const INVITE_ROLES = [FundRole.MEMBER, FundRole.VIEWER];
+
+/**
+ * Invite links and QR codes of a fund: create them with an expiry and a use limit, share or revoke them
+ */
+export function FundInvitesSection({ fund }: FundInvitesSectionProps) {
+  const { currentUser } = useApp();
+  const [invites, setInvites] = useState<FundInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiryDays, setExpiryDays] = useState("7");
+  const [maxUses, setMaxUses] = useState("");
+  const [role, setRole] = useState<FundRole>(FundRole.MEMBER);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setInvites(await getFundInvites(fund.id));
+    } catch (error) {
+      console.error("Error loading fund invites:", error);
+      toast.error("Không thể tải danh sách lời mời");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fund.id]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleCreate = async () => {
+    if (!currentUser) return;
+
+    const parsedMaxUses = parseInt(maxUses, 10);
+    const days = Number(expiryDays);
+
+    try {
+      setIsCreating(true);
+      const invite = await createFundInvite({
+        fundId: fund.id,
+        role,
+        createdBy: currentUser.id,
+        expiresAt: days > 0 ? Date.now() + days * DAY_MS : undefined,
+        maxUses: parsedMaxUses > 0 ? parsedMaxUses : undefined,
+      });
+      setInvites(prev => [invite, ...prev]);
+      setMaxUses("");
+      await handleCopy(invite);
+    } catch (error) {
+      console.error("Error creating fund invite:", error);
+      toast.error("Không thể tạo liên kết mời");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (invite: FundInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.id));
+      setCopiedId(invite.id);
+      toast.success("Đã sao chép liên kết mời");
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Error copying invite link:", error);
+      toast.error("Không thể sao chép liên kết");
+    }
+  };
+
+  const handleRevoke = async (invite: FundInvite) => {
+    try {
+      await revokeFundInvite(invite.id);
+      setInvites(prev => prev.map(i => i.id === invite.id ? { ...i, revokedAt: Date.now() } : i));
+      toast.success("Đã thu hồi liên kết mời");
+    } catch (error) {
+      console.error("Error revoking fund invite:", error);
+      toast.error("Không thể thu hồi liên kết mời");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-1.5">
+        <Link2 className="h-4 w-4" />
+        Liên kết mời
+      </h3>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Select value={expiryDays} onValueChange={setExpiryDays}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={1}
+          value={maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+          placeholder="Số lượt"
+          className="h-9 text-xs"
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as FundRole)}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INVITE_ROLES.map(inviteRole => (
+              <SelectItem key={inviteRole} value={inviteRole}>{FUND_ROLE_LABELS[inviteRole]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button variant="outline" className="w-full" onClick={handleCreate} disabled={isCreating}>
+        {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+        Tạo liên kết mời
+      </Button>
+
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : invites.length > 0 && (
+        <div className="space-y-2 max-h-[220px] overflow-y-auto pr-1">
+          {invites.map(invite => {
+            const unavailableReason = getInviteUnavailableReason(invite);
+
+            return (
+              <div
+                key={invite.id}
+                className={cn(
+                  "flex items-center justify-between gap-2 rounded-md border p-2",
+                  unavailableReason && "opacity-60"
+                )}
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-1.5">
+                    <Badge variant="secondary" className="text-[10px]">{FUND_ROLE_LABELS[invite.role]}</Badge>
+                    {unavailableReason && (
+                      <span className="text-xs text-destructive truncate">{unavailableReason}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {invite.expiresAt
+                      ? `Hết hạn ${format(invite.expiresAt, "dd/MM/yyyy HH:mm")}`
+                      : "Không hết hạn"}
+                    {" · "}
+                    {invite.maxUses
+                      ? `Đã dùng ${invite.useCount}/${invite.maxUses}`
+                      : `Đã dùng ${invite.useCount} lần`}
+                  </div>
+                </div>
+
+                {!unavailableReason && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleCopy(invite)}
+                    >
+                      {copiedId === invite.id ? <Check className="h-3.5 w-3.5 text-emerald-600" /> : <Copy className="h-3.5 w-3.5" />}
+                      <span className="sr-only">Sao chép liên kết</span>
+                    </Button>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <QrCode className="h-3.5 w-3.5" />
+                          <span className="sr-only">Hiện mã QR</span>
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent align="end" className="w-auto p-3 flex flex-col items-center gap-2">
+                        <QRCode value={getInviteUrl(invite.id)} size={200} />
+                        <span className="text-xs text-muted-foreground">Quét để tham gia "{fund.name}"</span>
+                      </PopoverContent>
+                    </Popover>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleRevoke(invite)}
+                    >
+                      <Ban className="h-3.5 w-3.5" />
+                      <span className="sr-only">Thu hồi</span>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
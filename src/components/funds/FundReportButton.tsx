@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/context/AppContext";
+import { Fund } from "@/types";
+import { buildFundReportData } from "@/utils/reportUtils";
+import { generateFundReportPdf } from "@/services/fundReportService";
+import { downloadFile, getExportFileName } from "@/utils/exportUtils";
+import { FileDown, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface FundReportButtonProps {
+  fund: Fund;
+}
+
+/**
+ * Menu entry that generates the end-of-trip PDF report of a fund
+ */
+export function FundReportButton({ fund }: FundReportButtonProps) {
+  const { transactions, getUserById } = useApp();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    const fundTransactions = transactions.filter(t => t.fundId === fund.id);
+    if (fundTransactions.length === 0) {
+      toast.error("Không có giao dịch nào để tạo báo cáo");
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const reportData = buildFundReportData(fund, fundTransactions, getUserById);
+      const pdf = await generateFundReportPdf(reportData, (userId) => getUserById(userId)?.displayName || userId);
+      downloadFile(pdf, getExportFileName(fund, "bao-cao", "pdf"));
+      toast.success("Đã tạo báo cáo PDF");
+    } catch (error) {
+      console.error("Error creating fund report:", error);
+      toast.error("Không thể tạo báo cáo PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      className="w-full justify-start text-left"
+      onClick={handleGenerate}
+      disabled={isGenerating}
+    >
+      {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+      <span>{isGenerating ? "Đang tạo báo cáo..." : "Xuất báo cáo PDF"}</span>
+    </Button>
+  );
+}
@@ -9,13 +9,13 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
-import { Fund, User } from "@/types";
+import { Fund, FundRole, User } from "@/types";
 import { useApp } from "@/context/AppContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
-import { Search, UserPlus, X, UserMinus, Loader2, Mail, User as UserIcon } from "lucide-react";
+import { Search, UserPlus, X, UserMinus, UserCheck, Loader2, Mail, User as UserIcon } from "lucide-react";
 import { toast } from "sonner";
-import { addFundMember, removeFundMember } from "@/firebase/fundService";
+import { addFundMember, removeFundMember, updateMemberRole } from "@/firebase/fundService";
 import { searchUsers, createUserSuggestionFromEmail } from "@/firebase/userService";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -30,6 +30,19 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
+import { FundInvitesSection } from "./FundInvitesSection";
+import { getMemberRole } from "@/utils/permissionUtils";
+import { ASSIGNABLE_FUND_ROLES, FUND_ROLE_DESCRIPTIONS, FUND_ROLE_LABELS } from "@/constants/roleConstants";
+import {
+  addPlaceholderMember,
+  mergePlaceholderMember,
+  rejectPlaceholderClaim,
+  requestPlaceholderClaim
+} from "@/firebase/placeholderMemberService";
+import { isPlaceholderMember, toPlaceholderUser } from "@/utils/placeholderUtils";
 
 interface ManageMembersSheetProps {
   fund: Fund;
@@ -46,6 +59,14 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
   const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState(false);
   const [emailError, setEmailError] = useState<string | null>(null);
   const [localFund, setLocalFund] = useState<Fund>(fund);
+  const [updatingRoleFor, setUpdatingRoleFor] = useState<string | null>(null);
+  const [guestName, setGuestName] = useState("");
+  const [isAddingGuest, setIsAddingGuest] = useState(false);
+  // Placeholder being claimed and the user taking it over: the current user, or a claimant being approved
+  const [claimToConfirm, setClaimToConfirm] = useState<{ placeholderId: string; userId: string } | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [rejectingClaimOf, setRejectingClaimOf] = useState<string | null>(null);
+  const permissions = useFundPermissions(localFund);
   
   // User search functionality
   const [userSearchQuery, setUserSearchQuery] = useState("");
@@ -61,6 +82,11 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
 
   // Get member users
   const memberUsers = localFund.members.map(memberId => {
+    const placeholder = localFund.placeholderMembers?.[memberId];
+    if (placeholder) {
+      return toPlaceholderUser(memberId, placeholder);
+    }
+
     const user = getUserById(memberId);
     return user || {
       id: memberId,
@@ -70,6 +96,11 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
     };
   });
 
+  // Claims waiting for an owner or admin, for placeholders that still exist
+  const pendingClaims = Object.entries(localFund.placeholderClaims || {})
+    .filter(([, placeholderId]) => !!localFund.placeholderMembers?.[placeholderId])
+    .map(([userId, placeholderId]) => ({ userId, placeholderId }));
+
   // Filter members based on search term
   const filteredMembers = searchTerm 
     ? memberUsers.filter(user => 
@@ -216,6 +247,130 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
     setIsRemoveDialogOpen(true);
   };
 
+  // Admins manage regular members and viewers; only the owner can remove an admin
+  const canRemoveMember = (memberId: string) => {
+    if (memberId === currentUser?.id || !permissions.canManageMembers) return false;
+    const memberRole = getMemberRole(localFund, memberId);
+    if (memberRole === FundRole.OWNER) return false;
+    return permissions.isOwner || memberRole !== FundRole.ADMIN;
+  };
+
+  const handleRoleChange = async (memberId: string, role: FundRole) => {
+    if (!localFund.id) return;
+
+    try {
+      setUpdatingRoleFor(memberId);
+      await updateMemberRole(localFund.id, memberId, role);
+
+      setLocalFund(prev => ({
+        ...prev,
+        memberRoles: { ...prev.memberRoles, [memberId]: role }
+      }));
+
+      toast.success(`Đã chuyển thành ${FUND_ROLE_LABELS[role].toLowerCase()}`);
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể cập nhật quyền thành viên";
+      toast.error(errorMessage);
+    } finally {
+      setUpdatingRoleFor(null);
+    }
+  };
+
+  const handleAddGuest = async () => {
+    const displayName = guestName.trim();
+    if (!displayName || !localFund.id || !currentUser) return;
+
+    try {
+      setIsAddingGuest(true);
+      const placeholderId = await addPlaceholderMember(localFund.id, displayName, currentUser.id);
+
+      setLocalFund(prev => ({
+        ...prev,
+        members: [...prev.members, placeholderId],
+        placeholderMembers: {
+          ...prev.placeholderMembers,
+          [placeholderId]: { displayName, createdBy: currentUser.id, createdAt: Date.now() }
+        }
+      }));
+
+      setGuestName("");
+      toast.success(`Đã thêm ${displayName} vào quỹ`);
+    } catch (error) {
+      console.error("Error adding placeholder member:", error);
+      toast.error("Không thể thêm thành viên tạm");
+    } finally {
+      setIsAddingGuest(false);
+    }
+  };
+
+  const confirmClaimPlaceholder = async () => {
+    if (!claimToConfirm || !localFund.id || !currentUser) return;
+
+    const { placeholderId, userId } = claimToConfirm;
+    const placeholderName = localFund.placeholderMembers?.[placeholderId]?.displayName;
+
+    try {
+      setIsClaiming(true);
+
+      // Members ask for the claim; owners and admins merge right away
+      if (!permissions.canManageMembers) {
+        await requestPlaceholderClaim(localFund.id, placeholderId, userId);
+        setLocalFund(prev => ({
+          ...prev,
+          placeholderClaims: { ...prev.placeholderClaims, [userId]: placeholderId }
+        }));
+        toast.success(`Đã gửi yêu cầu nhận ${placeholderName}, chờ chủ quỹ hoặc quản trị viên duyệt`);
+        setClaimToConfirm(null);
+        return;
+      }
+
+      const transactionCount = await mergePlaceholderMember(localFund.id, placeholderId, userId);
+
+      setLocalFund(prev => ({
+        ...prev,
+        members: [...new Set(prev.members.map(id => id === placeholderId ? userId : id))],
+        placeholderMembers: Object.fromEntries(
+          Object.entries(prev.placeholderMembers || {}).filter(([id]) => id !== placeholderId)
+        ),
+        placeholderClaims: Object.fromEntries(
+          Object.entries(prev.placeholderClaims || {}).filter(([id, claimedId]) => id !== userId && claimedId !== placeholderId)
+        )
+      }));
+
+      const target = userId === currentUser.id ? "bạn" : getUserById(userId)?.displayName || "thành viên";
+      toast.success(`Đã chuyển ${placeholderName} sang ${target} (${transactionCount} giao dịch được cập nhật)`);
+      setClaimToConfirm(null);
+    } catch (error) {
+      console.error("Error claiming placeholder member:", error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể nhận thành viên tạm";
+      toast.error(errorMessage);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleRejectClaim = async (userId: string) => {
+    if (!localFund.id) return;
+
+    try {
+      setRejectingClaimOf(userId);
+      await rejectPlaceholderClaim(localFund.id, userId);
+      setLocalFund(prev => ({
+        ...prev,
+        placeholderClaims: Object.fromEntries(
+          Object.entries(prev.placeholderClaims || {}).filter(([id]) => id !== userId)
+        )
+      }));
+      toast.success("Đã từ chối yêu cầu");
+    } catch (error) {
+      console.error("Error rejecting placeholder claim:", error);
+      toast.error("Không thể từ chối yêu cầu");
+    } finally {
+      setRejectingClaimOf(null);
+    }
+  };
+
   const confirmRemoveMember = async () => {
     if (!memberToRemove || !localFund.id) return;
     
@@ -226,7 +381,10 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
       // Update local state immediately
       setLocalFund(prev => ({
         ...prev,
-        members: prev.members.filter(id => id !== memberToRemove)
+        members: prev.members.filter(id => id !== memberToRemove),
+        memberRoles: Object.fromEntries(
+          Object.entries(prev.memberRoles || {}).filter(([id]) => id !== memberToRemove)
+        )
       }));
       
       // Also reload funds in the background to keep global state in sync
@@ -251,7 +409,7 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
         <SheetTrigger asChild>
           {children}
         </SheetTrigger>
-        <SheetContent className="sm:max-w-md">
+        <SheetContent className="sm:max-w-md overflow-y-auto">
           <SheetHeader>
             <SheetTitle>Quản lý thành viên</SheetTitle>
             <SheetDescription>
@@ -280,138 +438,259 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
             </div>
             
             {/* Add new member */}
-            <div>
-              <h3 className="text-sm font-medium mb-2">Thêm thành viên mới</h3>
-              <div className="flex gap-2">
-                <div className="relative flex-1">
-                <Popover open={isUserSearchOpen} onOpenChange={setIsUserSearchOpen}>
-                  <PopoverTrigger asChild>
-                    <div className="relative">
-                      <UserPlus className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        placeholder="Tìm kiếm người dùng hoặc nhập email..."
-                        className={`pl-10 ${emailError ? 'border-destructive focus-visible:ring-destructive' : ''}`}
-                        value={newMemberEmail}
-                        onChange={(e) => {
-                          setNewMemberEmail(e.target.value);
-                          setUserSearchQuery(e.target.value);
-                          setEmailError(null); // Clear error when typing
-                          if (e.target.value.length > 1) {
-                            setIsUserSearchOpen(true);
-                          } else {
-                            setIsUserSearchOpen(false);
-                          }
-                        }}
-                        onClick={() => {
-                          if (newMemberEmail.length > 1) {
-                            setIsUserSearchOpen(true);
-                          }
-                        }}
-                      />
-                    </div>
-                  </PopoverTrigger>
-                  <PopoverContent className="p-0" align="start" sideOffset={5}>
-                    <Command>
-                      <CommandList>
-                        {isSearching ? (
-                          <div className="flex items-center justify-center py-6">
-                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
-                          </div>
-                        ) : userSearchResults.length > 0 ? (
-                          <CommandGroup heading="Kết quả tìm kiếm">
-                            {userSearchResults.map((user) => (
-                              <CommandItem
-                                key={user.id}
-                                onSelect={() => handleSelectUser(user)}
-                                className="flex items-center gap-2 py-2"
-                              >
-                                <Avatar className="h-8 w-8">
-                                  <AvatarImage src={user.photoURL} alt={user.displayName} />
-                                  <AvatarFallback>{user.displayName.charAt(0)}</AvatarFallback>
-                                </Avatar>
-                                <div className="flex flex-col">
-                                  <span className="font-medium">{user.displayName}</span>
-                                  <span className="text-xs text-muted-foreground">{user.email}</span>
-                                </div>
-                                {user.id.startsWith('suggestion_') && (
-                                  <div className="ml-auto flex items-center">
-                                    <span className="text-xs text-muted-foreground">Mời mới</span>
+            {permissions.canManageMembers && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Thêm thành viên mới</h3>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                  <Popover open={isUserSearchOpen} onOpenChange={setIsUserSearchOpen}>
+                    <PopoverTrigger asChild>
+                      <div className="relative">
+                        <UserPlus className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="Tìm kiếm người dùng hoặc nhập email..."
+                          className={`pl-10 ${emailError ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+                          value={newMemberEmail}
+                          onChange={(e) => {
+                            setNewMemberEmail(e.target.value);
+                            setUserSearchQuery(e.target.value);
+                            setEmailError(null); // Clear error when typing
+                            if (e.target.value.length > 1) {
+                              setIsUserSearchOpen(true);
+                            } else {
+                              setIsUserSearchOpen(false);
+                            }
+                          }}
+                          onClick={() => {
+                            if (newMemberEmail.length > 1) {
+                              setIsUserSearchOpen(true);
+                            }
+                          }}
+                        />
+                      </div>
+                    </PopoverTrigger>
+                    <PopoverContent className="p-0" align="start" sideOffset={5}>
+                      <Command>
+                        <CommandList>
+                          {isSearching ? (
+                            <div className="flex items-center justify-center py-6">
+                              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                            </div>
+                          ) : userSearchResults.length > 0 ? (
+                            <CommandGroup heading="Kết quả tìm kiếm">
+                              {userSearchResults.map((user) => (
+                                <CommandItem
+                                  key={user.id}
+                                  onSelect={() => handleSelectUser(user)}
+                                  className="flex items-center gap-2 py-2"
+                                >
+                                  <Avatar className="h-8 w-8">
+                                    <AvatarImage src={user.photoURL} alt={user.displayName} />
+                                    <AvatarFallback>{user.displayName.charAt(0)}</AvatarFallback>
+                                  </Avatar>
+                                  <div className="flex flex-col">
+                                    <span className="font-medium">{user.displayName}</span>
+                                    <span className="text-xs text-muted-foreground">{user.email}</span>
                                   </div>
+                                  {user.id.startsWith('suggestion_') && (
+                                    <div className="ml-auto flex items-center">
+                                      <span className="text-xs text-muted-foreground">Mời mới</span>
+                                    </div>
+                                  )}
+                                </CommandItem>
+                              ))}
+                            </CommandGroup>
+                          ) : userSearchQuery.length > 1 ? (
+                            <CommandEmpty>
+                              <div className="flex flex-col items-center justify-center py-6">
+                                <UserIcon className="h-8 w-8 text-muted-foreground mb-2" />
+                                <p className="text-sm text-muted-foreground">Không tìm thấy người dùng</p>
+                                {validateEmail(userSearchQuery) && (
+                                  <Button 
+                                    variant="link" 
+                                    className="mt-2"
+                                    onClick={() => {
+                                      handleSelectUser(createUserSuggestionFromEmail(userSearchQuery));
+                                    }}
+                                  >
+                                    Mời người dùng mới
+                                  </Button>
                                 )}
-                              </CommandItem>
-                            ))}
-                          </CommandGroup>
-                        ) : userSearchQuery.length > 1 ? (
-                          <CommandEmpty>
-                            <div className="flex flex-col items-center justify-center py-6">
-                              <UserIcon className="h-8 w-8 text-muted-foreground mb-2" />
-                              <p className="text-sm text-muted-foreground">Không tìm thấy người dùng</p>
-                              {validateEmail(userSearchQuery) && (
-                                <Button 
-                                  variant="link" 
-                                  className="mt-2"
-                                  onClick={() => {
-                                    handleSelectUser(createUserSuggestionFromEmail(userSearchQuery));
-                                  }}
-                                >
-                                  Mời người dùng mới
-                                </Button>
-                              )}
-                            </div>
-                          </CommandEmpty>
-                        ) : null}
-                      </CommandList>
-                    </Command>
-                  </PopoverContent>
-                </Popover>
-                {emailError && (
-                  <div className="text-xs text-destructive mt-1">{emailError}</div>
-                )}
+                              </div>
+                            </CommandEmpty>
+                          ) : null}
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                  {emailError && (
+                    <div className="text-xs text-destructive mt-1">{emailError}</div>
+                  )}
+                </div>
+                  <Button 
+                    onClick={handleAddMember} 
+                    disabled={!newMemberEmail.trim() || isLoading}
+                    className="flex-shrink-0"
+                  >
+                    {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Thêm"}
+                  </Button>
+                </div>
               </div>
-                <Button 
-                  onClick={handleAddMember} 
-                  disabled={!newMemberEmail.trim() || isLoading}
-                  className="flex-shrink-0"
-                >
-                  {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Thêm"}
-                </Button>
+            )}
+            
+            {/* Add placeholder member */}
+            {permissions.canManageMembers && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Thêm thành viên tạm</h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Cho người chưa có tài khoản; họ có thể nhận lại các giao dịch khi đăng ký sau
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Tên, ví dụ: Bà nội"
+                    value={guestName}
+                    onChange={(e) => setGuestName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleAddGuest();
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleAddGuest}
+                    disabled={!guestName.trim() || isAddingGuest}
+                    className="flex-shrink-0"
+                  >
+                    {isAddingGuest ? <Loader2 className="h-4 w-4 animate-spin" /> : "Thêm"}
+                  </Button>
+                </div>
               </div>
-            </div>
+            )}
+            
+            {/* Placeholder claims waiting for approval */}
+            {permissions.canManageMembers && pendingClaims.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Yêu cầu nhận thành viên tạm</h3>
+                <div className="space-y-2">
+                  {pendingClaims.map(({ userId, placeholderId }) => (
+                    <div key={userId} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+                      <span className="text-sm min-w-0">
+                        <span className="font-medium">{getUserById(userId)?.displayName || "Thành viên"}</span>
+                        {" là "}
+                        <span className="font-medium">{localFund.placeholderMembers?.[placeholderId]?.displayName}</span>
+                      </span>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => handleRejectClaim(userId)}
+                          disabled={rejectingClaimOf === userId}
+                        >
+                          Từ chối
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => setClaimToConfirm({ placeholderId, userId })}
+                        >
+                          Duyệt
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {/* Invite links */}
+            {permissions.canManageMembers && <FundInvitesSection fund={localFund} />}
             
             {/* Member list */}
             <div>
               <h3 className="text-sm font-medium mb-2">Danh sách thành viên ({filteredMembers.length})</h3>
               <div className="space-y-2 max-h-[300px] overflow-y-auto pr-1">
                 {filteredMembers.length > 0 ? (
-                  filteredMembers.map((user) => (
-                    <div 
-                      key={user.id} 
-                      className="flex items-center justify-between p-2 rounded-md hover:bg-accent group"
-                    >
-                      <div className="flex items-center gap-3">
-                        <Avatar className="h-8 w-8">
-                          <AvatarImage src={user.photoURL} alt={user.displayName} />
-                          <AvatarFallback>{user.displayName.charAt(0)}</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <div className="font-medium text-sm">{user.displayName}</div>
-                          <div className="text-xs text-muted-foreground">{user.email}</div>
+                  filteredMembers.map((user) => {
+                    const memberRole = getMemberRole(localFund, user.id) || FundRole.MEMBER;
+                    const isPlaceholder = isPlaceholderMember(user.id);
+
+                    return (
+                      <div 
+                        key={user.id} 
+                        className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-accent group"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage src={user.photoURL} alt={user.displayName} />
+                            <AvatarFallback>{user.displayName.charAt(0)}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div className="font-medium text-sm">{user.displayName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {isPlaceholder ? "Chưa có tài khoản" : user.email}
+                            </div>
+                          </div>
+                        </div>
+                        
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {isPlaceholder ? (
+                            <>
+                              <Badge variant="outline" className="text-xs">Khách</Badge>
+                              {currentUser && localFund.placeholderClaims?.[currentUser.id] === user.id ? (
+                                <Badge variant="secondary" className="text-xs">Chờ duyệt</Badge>
+                              ) : currentUser && permissions.canContribute && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 px-2 text-xs"
+                                  onClick={() => setClaimToConfirm({ placeholderId: user.id, userId: currentUser.id })}
+                                >
+                                  <UserCheck className="h-3.5 w-3.5 mr-1" />
+                                  Đây là tôi
+                                </Button>
+                              )}
+                            </>
+                          ) : permissions.isOwner && memberRole !== FundRole.OWNER ? (
+                            <Select
+                              value={memberRole}
+                              onValueChange={(value) => handleRoleChange(user.id, value as FundRole)}
+                              disabled={updatingRoleFor === user.id}
+                            >
+                              <SelectTrigger className="h-8 w-[130px] text-xs">
+                                <SelectValue>{FUND_ROLE_LABELS[memberRole]}</SelectValue>
+                              </SelectTrigger>
+                              <SelectContent align="end">
+                                {ASSIGNABLE_FUND_ROLES.map(role => (
+                                  <SelectItem key={role} value={role}>
+                                    <div className="flex flex-col">
+                                      <span>{FUND_ROLE_LABELS[role]}</span>
+                                      <span className="text-xs text-muted-foreground">{FUND_ROLE_DESCRIPTIONS[role]}</span>
+                                    </div>
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant={memberRole === FundRole.OWNER ? "default" : "secondary"} className="text-xs">
+                              {FUND_ROLE_LABELS[memberRole]}
+                            </Badge>
+                          )}
+
+                          {canRemoveMember(user.id) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="opacity-0 group-hover:opacity-100 transition-opacity"
+                              onClick={() => handleRemoveMember(user.id)}
+                            >
+                              <UserMinus className="h-4 w-4 text-destructive" />
+                              <span className="sr-only">Xóa thành viên</span>
+                            </Button>
+                          )}
                         </div>
                       </div>
-                      
-                      {user.id !== currentUser?.id && (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={() => handleRemoveMember(user.id)}
-                        >
-                          <UserMinus className="h-4 w-4 text-destructive" />
-                          <span className="sr-only">Xóa thành viên</span>
-                        </Button>
-                      )}
-                    </div>
-                  ))
+                    );
+                  })
                 ) : (
                   <div className="text-center py-4 text-sm text-muted-foreground">
                     {searchTerm ? "Không tìm thấy thành viên" : "Chưa có thành viên nào"}
@@ -447,6 +726,36 @@ export function ManageMembersSheet({ fund, children }: ManageMembersSheetProps)
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      
+      {/* Confirmation dialog for claiming a placeholder member */}
+      <AlertDialog open={!!claimToConfirm} onOpenChange={(open) => !open && setClaimToConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {claimToConfirm?.userId === currentUser?.id ? "Bạn" : getUserById(claimToConfirm?.userId)?.displayName} là{" "}
+              {claimToConfirm && localFund.placeholderMembers?.[claimToConfirm.placeholderId]?.displayName}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {permissions.canManageMembers
+                ? "Mọi khoản chi và khoản nợ của thành viên tạm này trong quỹ sẽ được chuyển sang tài khoản này. Hành động này không thể hoàn tác."
+                : "Chủ quỹ hoặc quản trị viên sẽ duyệt yêu cầu trước khi các khoản chi và khoản nợ của thành viên tạm này được chuyển sang tài khoản của bạn."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                confirmClaimPlaceholder();
+              }}
+              disabled={isClaiming}
+            >
+              {isClaiming ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Xác nhận
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
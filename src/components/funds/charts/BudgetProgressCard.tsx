@@ -0,0 +1,89 @@
+import { Transaction, Fund } from "@/types";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Target } from "lucide-react";
+import { formatCompactCurrency, formatCurrency } from "./utils";
+import { getCategoryByName, getFundCategories } from "@/utils/categoryUtils";
+import { getBudgetProjection, getBudgetUsage, TOTAL_BUDGET_SCOPE } from "@/utils/budgetUtils";
+import { cn } from "@/lib/utils";
+
+// Progress bar color by how much of the limit is spent
+const getProgressColor = (percent: number) => {
+  if (percent >= 100) return "[&>div]:bg-destructive";
+  if (percent >= 80) return "[&>div]:bg-amber-500";
+  return "[&>div]:bg-emerald-500";
+};
+
+export function BudgetProgressCard({
+  transactions,
+  fund
+}: {
+  transactions: Transaction[],
+  fund: Fund
+}) {
+  const categories = getFundCategories(fund);
+  const usage = getBudgetUsage(fund, transactions, categories);
+  const projection = getBudgetProjection(fund.budget, transactions, fund.members.length, categories);
+
+  if (usage.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="p-3 pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center space-x-2">
+            <Target className="h-4 w-4 text-emerald-600" />
+            <span className="text-sm font-medium">Ngân sách</span>
+          </div>
+          {fund.budget?.endDate && (
+            <span className="text-xs text-muted-foreground">
+              Đến {format(fund.budget.endDate, "dd/MM/yyyy")}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-3 pt-0 space-y-3">
+        {usage.map(item => {
+          const label = item.scope === TOTAL_BUDGET_SCOPE
+            ? "Tổng"
+            : `${getCategoryByName(item.scope, categories).icon} ${item.scope}`;
+
+          return (
+            <div key={item.scope} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className={cn("truncate", item.scope === TOTAL_BUDGET_SCOPE && "font-medium")}>{label}</span>
+                <span className={cn("flex-shrink-0", item.percent >= 100 ? "text-destructive font-medium" : "text-muted-foreground")}>
+                  {formatCompactCurrency(item.spent)} / {formatCompactCurrency(item.limit)} ({Math.round(item.percent)}%)
+                </span>
+              </div>
+              <Progress value={Math.min(100, item.percent)} className={cn("h-2", getProgressColor(item.percent))} />
+            </div>
+          );
+        })}
+
+        {projection && (
+          <div className="rounded-md bg-muted/50 p-2 text-xs text-muted-foreground space-y-0.5">
+            {projection.remaining < 0 ? (
+              <p className="text-destructive">Đã vượt ngân sách {formatCurrency(-projection.remaining)}</p>
+            ) : (
+              <p>Còn lại {formatCurrency(projection.remaining)}</p>
+            )}
+            {projection.remainingPerPersonPerDay !== undefined && (
+              <p>
+                Mỗi người còn <span className="font-medium text-foreground">{formatCurrency(projection.remainingPerPersonPerDay)}</span>/ngày
+                trong {projection.daysLeft} ngày tới
+              </p>
+            )}
+            {projection.daysUntilExhausted !== undefined && (
+              <p>
+                Với mức chi {formatCompactCurrency(projection.dailyRate)}/ngày, ngân sách còn đủ
+                {projection.daysUntilExhausted > 0 ? ` khoảng ${projection.daysUntilExhausted} ngày` : " chưa đến 1 ngày"}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip } from "recharts";
+import { format, startOfDay, endOfDay } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Fund, Transaction } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon, PieChart as PieChartIcon, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getCategoryByName, getFundCategories } from "@/utils/categoryUtils";
+import { COLORS, formatCurrency, getExpensesByCategory } from "./utils";
+
+interface CategoryBreakdownChartProps {
+  transactions: Transaction[];
+  fund: Fund;
+}
+
+/**
+ * Spending per category as a donut chart, filterable by date range
+ */
+export function CategoryBreakdownChart({ transactions, fund }: CategoryBreakdownChartProps) {
+  const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined } | undefined>(undefined);
+  const categories = getFundCategories(fund);
+
+  const filteredTransactions = transactions.filter(transaction => {
+    if (!dateRange?.from) return true;
+    const transactionDate = new Date(transaction.date || transaction.createdAt);
+    return transactionDate >= startOfDay(dateRange.from) && transactionDate <= endOfDay(dateRange.to || dateRange.from);
+  });
+
+  const categoryData = getExpensesByCategory(filteredTransactions, categories);
+  const total = categoryData.reduce((sum, item) => sum + item.value, 0);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center gap-2">
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <PieChartIcon className="h-4 w-4 text-blue-500" />
+            Chi tiêu theo danh mục
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn("h-8 text-xs font-normal", !dateRange?.from && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-1.5 h-3.5 w-3.5" />
+                  {dateRange?.from ? (
+                    dateRange.to
+                      ? <>{format(dateRange.from, "dd/MM")} - {format(dateRange.to, "dd/MM/yyyy")}</>
+                      : format(dateRange.from, "dd/MM/yyyy")
+                  ) : (
+                    "Tất cả thời gian"
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={(value) => setDateRange(value ? { from: value.from, to: value.to } : undefined)}
+                  initialFocus
+                  locale={vi}
+                  className={cn("p-3 pointer-events-auto")}
+                />
+              </PopoverContent>
+            </Popover>
+            {dateRange?.from && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDateRange(undefined)}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-2">
+        {categoryData.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            Không có chi tiêu trong khoảng thời gian này
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <div className="h-[220px] w-full sm:w-1/2">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={categoryData}
+                    dataKey="value"
+                    nameKey="name"
+                    innerRadius="55%"
+                    outerRadius="85%"
+                    paddingAngle={2}
+                  >
+                    {categoryData.map((item, index) => (
+                      <Cell key={item.name} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      if (active && payload && payload.length) {
+                        const data = payload[0].payload;
+                        return (
+                          <div className="rounded-lg border bg-background p-2 shadow-sm text-xs">
+                            <div className="font-medium">{data.name}</div>
+                            <div>{formatCurrency(data.value)}</div>
+                          </div>
+                        );
+                      }
+                      return null;
+                    }}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="w-full sm:w-1/2 space-y-2">
+              {categoryData.map((item, index) => (
+                <div key={item.name} className="flex items-center gap-2 text-sm">
+                  <span
+                    className="h-2.5 w-2.5 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                  />
+                  <span className="flex-1 truncate">
+                    {getCategoryByName(item.name, categories).icon} {item.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {Math.round((item.value / total) * 100)}%
+                  </span>
+                  <span className="font-medium">{formatCurrency(item.value)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
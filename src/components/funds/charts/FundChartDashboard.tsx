@@ -3,6 +3,7 @@ import { useApp } from "@/context/AppContext";
 import { useMediaQuery } from "@/hooks/use-media-query";
 import { DailySpendingChart } from "./DailySpendingChart";
 import { SummaryStatsCards } from "./SummaryStatsCards";
+import { CategoryBreakdownChart } from "./CategoryBreakdownChart";
 
 export function FundChartDashboard({ fund }: { fund: Fund }) {
   const { transactions } = useApp();
@@ -24,6 +25,11 @@ export function FundChartDashboard({ fund }: { fund: Fund }) {
           transactions={fundTransactions} 
           days={21}
         />
+        
+        <CategoryBreakdownChart 
+          transactions={fundTransactions} 
+          fund={fund}
+        />
       </div>
     </div>
   );
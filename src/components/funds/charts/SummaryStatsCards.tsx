@@ -10,6 +10,7 @@ import {
 } from "lucide-react";
 import { formatCompactCurrency, formatCurrency } from "./utils";
 import { calculateTotalExpense } from "@/utils/transactionUtils";
+import { BudgetProgressCard } from "./BudgetProgressCard";
 
 export function SummaryStatsCards({
   transactions,
@@ -53,60 +54,64 @@ export function SummaryStatsCards({
   const memberCount = fund.members.length;
 
   return (
-    <div className="grid grid-cols-3 gap-2 md:gap-4">
-      {/* Expense Card */}
-      <Card className="flex flex-col justify-between">
-        <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
-          <div className="flex items-center space-x-2">
-            <TrendingDown className="h-4 w-4 text-destructive" />
-            <span className="text-xs font-medium md:text-sm">Chi tiêu</span>
-          </div>
-        </CardHeader>
-        <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
-          <div className="text-sm md:text-base font-bold truncate">
-            {formatCurrency(totalExpense)}
-          </div>
-          <div className="text-xs text-muted-foreground">
-            TB {formatCompactCurrency(avgDailyExpense)}/ngày
-          </div>
-        </CardContent>
-      </Card>
+    <div className="space-y-2 md:space-y-4">
+      <div className="grid grid-cols-3 gap-2 md:gap-4">
+        {/* Expense Card */}
+        <Card className="flex flex-col justify-between">
+          <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
+            <div className="flex items-center space-x-2">
+              <TrendingDown className="h-4 w-4 text-destructive" />
+              <span className="text-xs font-medium md:text-sm">Chi tiêu</span>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
+            <div className="text-sm md:text-base font-bold truncate">
+              {formatCurrency(totalExpense)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              TB {formatCompactCurrency(avgDailyExpense)}/ngày
+            </div>
+          </CardContent>
+        </Card>
       
-      {/* Date Range Card */}
-      <Card className="flex flex-col justify-between">
-        <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
-          <div className="flex items-center space-x-2">
-            <CalendarDays className="h-4 w-4 text-blue-500" />
-            <span className="text-xs font-medium md:text-sm">Khoảng thời gian</span>
-          </div>
-        </CardHeader>
-        <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
-          <div className="text-sm md:text-base font-bold truncate">
-            30 ngày qua
-          </div>
-          <div className="text-xs text-muted-foreground">
-            {format(startDate, 'dd/MM')} - {format(currentDate, 'dd/MM')}
-          </div>
-        </CardContent>
-      </Card>
+        {/* Date Range Card */}
+        <Card className="flex flex-col justify-between">
+          <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
+            <div className="flex items-center space-x-2">
+              <CalendarDays className="h-4 w-4 text-blue-500" />
+              <span className="text-xs font-medium md:text-sm">Khoảng thời gian</span>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
+            <div className="text-sm md:text-base font-bold truncate">
+              30 ngày qua
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {format(startDate, 'dd/MM')} - {format(currentDate, 'dd/MM')}
+            </div>
+          </CardContent>
+        </Card>
       
-      {/* Transaction Card */}
-      <Card className="flex flex-col justify-between">
-        <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
-          <div className="flex items-center space-x-2">
-            <Users className="h-4 w-4 text-purple-500" />
-            <span className="text-xs font-medium md:text-sm">Giao dịch</span>
-          </div>
-        </CardHeader>
-        <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
-          <div className="text-sm md:text-base font-bold truncate">
-            {transactionCount} giao dịch
-          </div>
-          <div className="text-xs text-muted-foreground truncate">
-            {memberCount} thành viên
-          </div>
-        </CardContent>
-      </Card>
+        {/* Transaction Card */}
+        <Card className="flex flex-col justify-between">
+          <CardHeader className="p-2 pb-1 md:p-3 md:pb-2">
+            <div className="flex items-center space-x-2">
+              <Users className="h-4 w-4 text-purple-500" />
+              <span className="text-xs font-medium md:text-sm">Giao dịch</span>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 pt-0 md:p-3 md:pt-0">
+            <div className="text-sm md:text-base font-bold truncate">
+              {transactionCount} giao dịch
+            </div>
+            <div className="text-xs text-muted-foreground truncate">
+              {memberCount} thành viên
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BudgetProgressCard transactions={transactions} fund={fund} />
     </div>
   );
 }
@@ -1,5 +1,7 @@
 // Export all chart components from this central file
 export * from './DailySpendingChart';
 export * from './SummaryStatsCards';
+export * from './BudgetProgressCard';
+export * from './CategoryBreakdownChart';
 export * from './FundChartDashboard';
 export * from './utils';
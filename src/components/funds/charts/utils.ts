@@ -1,4 +1,6 @@
-import { Transaction } from "@/types";
+import { Transaction, TransactionCategory } from "@/types";
+import { REPAYMENT_CATEGORY } from "@/constants/categoryConstants";
+import { getTransactionCategory } from "@/utils/categoryUtils";
 import { format } from "date-fns";
 import { vi } from "date-fns/locale";
 
@@ -27,19 +29,20 @@ export const getDayName = (date: Date) => {
 
 
 
-// Get expense by category
-export const getExpensesByCategory = (transactions: Transaction[]) => {
+// Get expense by category (repayments between members are not spending)
+export const getExpensesByCategory = (transactions: Transaction[], categories?: TransactionCategory[]) => {
   const categoryExpenses: Record<string, number> = {};
   
-  // Filter negative transactions (expenses) and group by category
+  // Group by category, inferring it for transactions created before categories existed
   transactions
-    .filter(t => t.amount < 0)
+    .filter(t => t.amount > 0)
     .forEach(t => {
-      const category = t.category || "Khác";
+      const category = getTransactionCategory(t, categories);
+      if (category === REPAYMENT_CATEGORY) return;
       if (!categoryExpenses[category]) {
         categoryExpenses[category] = 0;
       }
-      categoryExpenses[category] += Math.abs(t.amount);
+      categoryExpenses[category] += t.amount;
     });
   
   // Convert to array and sort by value (highest first)
@@ -0,0 +1,389 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useApp } from "@/context/AppContext";
+import { Fund } from "@/types";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import {
+  buildGenericRows,
+  buildSplitwiseRows,
+  collectExternalNames,
+  guessColumnMapping,
+  ImportColumnMapping,
+  isSplitwiseHeader,
+  matchMemberNames,
+  NameMapping,
+  parseCsv,
+} from "@/utils/importUtils";
+import { format } from "date-fns";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ImportTransactionsSheetProps {
+  fund: Fund;
+  children: React.ReactNode;
+}
+
+type ImportStep = "upload" | "columns" | "members" | "preview";
+
+const NOT_MAPPED = "none";
+
+const COLUMN_FIELDS: { key: keyof Omit<ImportColumnMapping, "shareColumns">; label: string; required?: boolean }[] = [
+  { key: "date", label: "Ngày", required: true },
+  { key: "description", label: "Mô tả" },
+  { key: "amount", label: "Số tiền", required: true },
+  { key: "payer", label: "Người trả", required: true },
+  { key: "participants", label: "Người tham gia" },
+  { key: "category", label: "Danh mục" },
+];
+
+/**
+ * Wizard that imports transactions from a Splitwise export or any CSV:
+ * upload → map columns (generic CSV only) → map names to members → preview and confirm
+ */
+export function ImportTransactionsSheet({ fund, children }: ImportTransactionsSheetProps) {
+  const { currentUser, getUserById, importTransactions } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [isSplitwise, setIsSplitwise] = useState(false);
+  const [columnMapping, setColumnMapping] = useState<ImportColumnMapping | null>(null);
+  const [nameMapping, setNameMapping] = useState<NameMapping>({});
+  const [exchangeRate, setExchangeRate] = useState("1");
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const members = fund.members.map(memberId => getUserById(memberId));
+
+  const resetWizard = () => {
+    setStep("upload");
+    setFileName("");
+    setHeader([]);
+    setRows([]);
+    setColumnMapping(null);
+    setNameMapping({});
+    setExchangeRate("1");
+    setExcludedRows(new Set());
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) resetWizard();
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        toast.error("Tệp không có dòng dữ liệu nào");
+        return;
+      }
+
+      const [fileHeader, ...dataRows] = parsed;
+      const splitwise = isSplitwiseHeader(fileHeader);
+      setFileName(file.name);
+      setHeader(fileHeader);
+      setRows(dataRows);
+      setIsSplitwise(splitwise);
+
+      if (splitwise) {
+        setColumnMapping(null);
+        setNameMapping(matchMemberNames(collectExternalNames(fileHeader, dataRows, null), members));
+        setStep("members");
+      } else {
+        setColumnMapping(guessColumnMapping(fileHeader));
+        setStep("columns");
+      }
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error("Không thể đọc tệp CSV");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const confirmColumns = () => {
+    const names = collectExternalNames(header, rows, columnMapping);
+    setNameMapping(matchMemberNames(names, members));
+    setStep("members");
+  };
+
+  const buildRows = () => {
+    if (!currentUser) return [];
+    return isSplitwise
+      ? buildSplitwiseRows(header, rows, nameMapping, fund, currentUser.id, parseFloat(exchangeRate) || 1)
+      : buildGenericRows(header, rows, columnMapping, nameMapping, fund, currentUser.id);
+  };
+
+  const importRows = step === "preview" ? buildRows() : [];
+
+  const hasForeignCurrency = isSplitwise && rows.some(row => row[4] && row[4].toUpperCase() !== "VND");
+
+  const openPreview = () => {
+    // Unbalanced rows start unselected; the user can still include them on purpose
+    const unbalancedRows = buildRows().filter(row => row.splitDifference !== 0);
+    setExcludedRows(new Set(unbalancedRows.map(row => row.rowNumber)));
+    setStep("preview");
+  };
+
+  const selectedRows = importRows.filter(row => row.transaction && !excludedRows.has(row.rowNumber));
+
+  const toggleRow = (rowNumber: number) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    setIsImporting(true);
+    const success = await importTransactions(selectedRows.map(row => row.transaction));
+    setIsImporting(false);
+
+    if (success) {
+      handleOpenChange(false);
+    }
+  };
+
+  const updateColumn = (key: keyof ImportColumnMapping, value: string) => {
+    setColumnMapping(prev => ({ ...prev, [key]: value === NOT_MAPPED ? -1 : Number(value) }));
+  };
+
+  const toggleShareColumn = (column: number) => {
+    setColumnMapping(prev => ({
+      ...prev,
+      shareColumns: prev.shareColumns.includes(column)
+        ? prev.shareColumns.filter(c => c !== column)
+        : [...prev.shareColumns, column],
+    }));
+  };
+
+  const canConfirmColumns = columnMapping
+    && COLUMN_FIELDS.filter(field => field.required).every(field => columnMapping[field.key] >= 0);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Nhập giao dịch từ tệp CSV</SheetTitle>
+          <SheetDescription>
+            Hỗ trợ tệp xuất từ Splitwise và bảng tính bất kỳ (Google Sheets, Excel lưu dạng CSV)
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="py-4 space-y-4">
+          {step === "upload" && (
+            <div
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:bg-accent/30"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUp className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+              <p className="font-medium">Chọn tệp CSV</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Splitwise: Nhóm → Cài đặt → Xuất dạng bảng tính
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+            </div>
+          )}
+
+          {step === "columns" && columnMapping && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {fileName} · {rows.length} dòng. Chọn cột tương ứng với từng thông tin:
+              </p>
+              {COLUMN_FIELDS.map(field => (
+                <div key={field.key} className="grid grid-cols-3 items-center gap-3">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={columnMapping[field.key] >= 0 ? String(columnMapping[field.key]) : NOT_MAPPED}
+                    onValueChange={(value) => updateColumn(field.key, value)}
+                  >
+                    <SelectTrigger className="col-span-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Không dùng</SelectItem>
+                      {header.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>{name || `Cột ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Cột số tiền từng người phải trả (không bắt buộc)</Label>
+                <p className="text-xs text-muted-foreground">
+                  Nếu bảng có một cột cho mỗi người, chọn các cột đó. Nếu không, số tiền được chia đều cho người tham gia.
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {header.map((name, index) => (
+                    <label key={index} className="flex items-center gap-1.5 text-sm">
+                      <Checkbox
+                        checked={columnMapping.shareColumns.includes(index)}
+                        onCheckedChange={() => toggleShareColumn(index)}
+                      />
+                      {name || `Cột ${index + 1}`}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === "members" && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {isSplitwise ? "Tệp Splitwise" : fileName} · Ghép tên trong tệp với thành viên của quỹ:
+              </p>
+              {Object.keys(nameMapping).length === 0 && (
+                <p className="text-sm">Không có tên nào cần ghép.</p>
+              )}
+              {Object.entries(nameMapping).map(([name, userId]) => (
+                <div key={name} className="grid grid-cols-2 items-center gap-3">
+                  <span className="text-sm font-medium truncate">{name}</span>
+                  <Select
+                    value={userId || NOT_MAPPED}
+                    onValueChange={(value) => setNameMapping(prev => ({ ...prev, [name]: value === NOT_MAPPED ? null : value }))}
+                  >
+                    <SelectTrigger className={cn(!userId && "border-amber-400")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Chưa chọn</SelectItem>
+                      {members.map(member => (
+                        <SelectItem key={member.id} value={member.id}>{member.displayName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              {hasForeignCurrency && (
+                <div className="grid grid-cols-2 items-center gap-3 pt-2">
+                  <Label>Tỷ giá quy đổi sang VND</Label>
+                  <Input
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value.replace(/[^\d.]/g, ""))}
+                    inputMode="decimal"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === "preview" && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {selectedRows.length}/{importRows.length} dòng sẽ được nhập
+              </p>
+              {importRows.map(row => {
+                const isUnbalanced = row.splitDifference !== 0;
+                return (
+                  <div
+                    key={row.rowNumber}
+                    className={cn(
+                      "flex items-start gap-3 p-3 rounded-md border text-sm",
+                      !row.transaction && "bg-muted/50 text-muted-foreground",
+                      isUnbalanced && "border-amber-300 bg-amber-50/60"
+                    )}
+                  >
+                    <Checkbox
+                      className="mt-0.5"
+                      disabled={!row.transaction}
+                      checked={!!row.transaction && !excludedRows.has(row.rowNumber)}
+                      onCheckedChange={() => toggleRow(row.rowNumber)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      {row.transaction ? (
+                        <>
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium truncate">{row.transaction.description}</span>
+                            <span className="font-medium whitespace-nowrap">{formatCurrency(row.transaction.amount)}</span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(row.transaction.date, "dd/MM/yyyy")} · {getUserById(row.transaction.paidBy).displayName} trả
+                            {row.transaction.currencyCode && ` · ${row.transaction.originalAmount} ${row.transaction.currencyCode}`}
+                          </div>
+                          {isUnbalanced && (
+                            <div className="flex items-center gap-1 text-xs text-amber-700 mt-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Tổng số tiền chia lệch {formatCurrency(row.splitDifference)}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <div>
+                          <Badge variant="outline" className="mr-2">Dòng {row.rowNumber}</Badge>
+                          {row.error}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <SheetFooter className="gap-2">
+          {step !== "upload" && (
+            <Button variant="outline" onClick={resetWizard} disabled={isImporting}>
+              Chọn tệp khác
+            </Button>
+          )}
+          {step === "columns" && (
+            <Button onClick={confirmColumns} disabled={!canConfirmColumns}>
+              Tiếp tục
+            </Button>
+          )}
+          {step === "members" && (
+            <Button onClick={openPreview}>Xem trước</Button>
+          )}
+          {step === "preview" && (
+            <Button onClick={handleImport} disabled={selectedRows.length === 0 || isImporting}>
+              {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Nhập {selectedRows.length} giao dịch
+            </Button>
+          )}
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -15,7 +15,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useApp } from "@/context/AppContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { LogOut, Plus, Home, PiggyBank, X, Search } from "lucide-react";
+import { LogOut, Plus, Home, PiggyBank, X, Search, Scale } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
@@ -83,6 +83,17 @@ export function AppSidebar() {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          <SidebarMenuItem key="balances">
+            <SidebarMenuButton 
+              asChild
+              isActive={location.pathname === "/balances"}
+            >
+              <Link to="/balances" onClick={handleNavigation} className="flex items-center gap-3">
+                <Scale className="h-4 w-4" />
+                <span>Công nợ của tôi</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
         </SidebarMenu>
 
         <SidebarGroup>
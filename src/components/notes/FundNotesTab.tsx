@@ -1,11 +1,12 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Note } from "@/types";
 import { Fund } from "@/types";
 import { useApp } from "@/context/AppContext";
-import { getFundNotes, createNote, updateNote, deleteNote } from "@/firebase/noteService";
+import { subscribeToFundNotes, createNote, updateNote, deleteNote } from "@/firebase/noteService";
 import { NoteList } from "@/components/notes/NoteList";
 import { NoteEditor } from "@/components/notes/NoteEditor";
 import { NoteViewer } from "@/components/notes/NoteViewer";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
@@ -16,6 +17,7 @@ interface FundNotesTabProps {
 
 export function FundNotesTab({ fund }: FundNotesTabProps) {
   const { currentUser } = useApp();
+  const { canContribute, canEditNote } = useFundPermissions(fund);
   const [notes, setNotes] = useState<Note[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -26,23 +28,26 @@ export function FundNotesTab({ fund }: FundNotesTabProps) {
   const [viewerOpen, setViewerOpen] = useState(false);
   const [viewingNote, setViewingNote] = useState<Note | null>(null);
 
-  const loadNotes = useCallback(async () => {
-    if (!fund) return;
-    try {
-      setIsLoading(true);
-      const fundNotes = await getFundNotes(fund.id);
-      setNotes(fundNotes);
-    } catch (error) {
-      console.error("Error loading notes:", error);
-      toast.error("Không thể tải ghi chú");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [fund.id]);
-
+  // Notes stay in sync with edits made by other members
+  const fundId = fund?.id;
   useEffect(() => {
-    loadNotes();
-  }, [loadNotes]);
+    if (!fundId) return;
+    setIsLoading(true);
+
+    const unsubscribe = subscribeToFundNotes(
+      fundId,
+      (fundNotes) => {
+        setNotes(fundNotes);
+        setIsLoading(false);
+      },
+      () => {
+        toast.error("Không thể tải ghi chú");
+        setIsLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [fundId]);
 
   const handleCreateNew = () => {
     setEditingNote(null);
@@ -65,21 +70,13 @@ export function FundNotesTab({ fund }: FundNotesTabProps) {
       setIsSaving(true);
       if (editingNote) {
         await updateNote(editingNote.id, data);
-        setNotes((prev) =>
-          prev.map((n) =>
-            n.id === editingNote.id
-              ? { ...n, ...data, updatedAt: Date.now() }
-              : n
-          )
-        );
         toast.success("Đã cập nhật ghi chú!");
       } else {
-        const newNote = await createNote({
+        await createNote({
           fundId: fund.id,
           createdBy: currentUser.id,
           ...data,
         });
-        setNotes((prev) => [newNote, ...prev]);
         toast.success("Đã tạo ghi chú mới!");
       }
       setEditorOpen(false);
@@ -95,7 +92,6 @@ export function FundNotesTab({ fund }: FundNotesTabProps) {
   const handleDelete = async (noteId: string) => {
     try {
       await deleteNote(noteId);
-      setNotes((prev) => prev.filter((n) => n.id !== noteId));
       toast.success("Đã xóa ghi chú!");
     } catch (error) {
       console.error("Error deleting note:", error);
@@ -109,18 +105,21 @@ export function FundNotesTab({ fund }: FundNotesTabProps) {
         <p className="text-sm text-muted-foreground">
           {notes.length} ghi chú trong quỹ
         </p>
-        <Button onClick={handleCreateNew} size="sm" className="gap-1.5">
-          <Plus className="h-4 w-4" />
-          Tạo ghi chú
-        </Button>
+        {canContribute && (
+          <Button onClick={handleCreateNew} size="sm" className="gap-1.5">
+            <Plus className="h-4 w-4" />
+            Tạo ghi chú
+          </Button>
+        )}
       </div>
 
       <NoteList
         notes={notes}
         isLoading={isLoading}
         onView={handleView}
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canContribute ? handleEdit : undefined}
+        onDelete={canContribute ? handleDelete : undefined}
+        canEditNote={canEditNote}
       />
 
       <NoteEditor
@@ -141,7 +140,7 @@ export function FundNotesTab({ fund }: FundNotesTabProps) {
           setViewingNote(null);
         }}
         note={viewingNote}
-        onEdit={handleEdit}
+        onEdit={viewingNote && canEditNote(viewingNote) ? handleEdit : undefined}
       />
     </div>
   );
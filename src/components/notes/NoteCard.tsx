@@ -21,8 +21,8 @@ import {
 interface NoteCardProps {
   note: Note;
   onView: (note: Note) => void;
-  onEdit: (note: Note) => void;
-  onDelete: (noteId: string) => void;
+  onEdit?: (note: Note) => void; // Omitted when the user cannot change notes
+  onDelete?: (noteId: string) => void;
 }
 
 function formatDate(timestamp: number): string {
@@ -119,38 +119,40 @@ export function NoteCard({ note, onView, onEdit, onDelete }: NoteCardProps) {
               >
                 <Copy className="h-3.5 w-3.5" />
               </Button>
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-7 w-7 text-destructive hover:text-destructive"
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent onClick={(e) => e.stopPropagation()}>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Xóa ghi chú?</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      Bạn có chắc muốn xóa "{note.title}"? Hành động này không thể hoàn tác.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Hủy</AlertDialogCancel>
-                    <AlertDialogAction
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDelete(note.id);
-                      }}
+              {onDelete && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={(e) => e.stopPropagation()}
                     >
-                      Xóa
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Xóa ghi chú?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Bạn có chắc muốn xóa "{note.title}"? Hành động này không thể hoàn tác.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Hủy</AlertDialogCancel>
+                      <AlertDialogAction
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(note.id);
+                        }}
+                      >
+                        Xóa
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
             </div>
           </div>
         </CardFooter>
@@ -9,11 +9,12 @@ interface NoteListProps {
   notes: Note[];
   isLoading: boolean;
   onView: (note: Note) => void;
-  onEdit: (note: Note) => void;
-  onDelete: (noteId: string) => void;
+  onEdit?: (note: Note) => void; // Omitted when the user cannot change notes
+  onDelete?: (noteId: string) => void;
+  canEditNote?: (note: Note) => boolean; // Notes the user can change; all of them when omitted
 }
 
-export function NoteList({ notes, isLoading, onView, onEdit, onDelete }: NoteListProps) {
+export function NoteList({ notes, isLoading, onView, onEdit, onDelete, canEditNote }: NoteListProps) {
   const [searchTerm, setSearchTerm] = useState("");
 
   const filteredNotes = notes.filter((note) =>
@@ -50,15 +51,18 @@ export function NoteList({ notes, isLoading, onView, onEdit, onDelete }: NoteLis
       ) : filteredNotes.length > 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           <AnimatePresence mode="popLayout">
-            {filteredNotes.map((note) => (
-              <NoteCard
-                key={note.id}
-                note={note}
-                onView={onView}
-                onEdit={onEdit}
-                onDelete={onDelete}
-              />
-            ))}
+            {filteredNotes.map((note) => {
+              const isEditable = !canEditNote || canEditNote(note);
+              return (
+                <NoteCard
+                  key={note.id}
+                  note={note}
+                  onView={onView}
+                  onEdit={isEditable ? onEdit : undefined}
+                  onDelete={isEditable ? onDelete : undefined}
+                />
+              );
+            })}
           </AnimatePresence>
         </div>
       ) : (
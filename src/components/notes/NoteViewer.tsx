@@ -17,7 +17,7 @@ interface NoteViewerProps {
   open: boolean;
   onClose: () => void;
   note: Note | null;
-  onEdit: (note: Note) => void;
+  onEdit?: (note: Note) => void; // Omitted when the user cannot change notes
 }
 
 function formatDate(timestamp: number): string {
@@ -77,17 +77,19 @@ export function NoteViewer({ open, onClose, note, onEdit }: NoteViewerProps) {
               <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopy}>
                 <Copy className="h-4 w-4" />
               </Button>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-8 w-8"
-                onClick={() => {
-                  onClose();
-                  setTimeout(() => onEdit(note), 200);
-                }}
-              >
-                <Pencil className="h-4 w-4" />
-              </Button>
+              {onEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => {
+                    onClose();
+                    setTimeout(() => onEdit(note), 200);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </DialogHeader>
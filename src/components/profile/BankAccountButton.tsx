@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Sheet,
@@ -10,42 +10,89 @@ import {
 } from "@/components/ui/sheet";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, CreditCard, Save, Download } from "lucide-react";
+import { Loader2, CreditCard, Save, ScanLine, AlertTriangle, Plus, Pencil, Trash2, Star, QrCode } from "lucide-react";
 import { useApp } from "@/context/AppContext";
 import { toast } from "sonner";
-import { fetchVietnameseBanks, Bank, generateQRCodeUrl } from "@/services/bankService";
-import { doc, updateDoc, getDoc } from "firebase/firestore";
+import { fetchVietnameseBanks, Bank, getBankByBin } from "@/services/bankService";
+import { savePayoutMethods } from "@/firebase/userService";
+import { ScannedVietQr } from "@/utils/vietQrUtils";
+import { createPayoutMethodId, getPayoutMethods, getPayoutMethodTitle } from "@/utils/payoutUtils";
+import { EWALLET_TYPES, PAYOUT_METHOD_TYPE_LABELS } from "@/constants/payoutConstants";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/firebase/config";
-import { User } from "@/types";
+import { PayoutMethod, PayoutMethodType, User } from "@/types";
 import { Avatar, AvatarImage, AvatarFallback } from "@radix-ui/react-avatar";
 import { QRCodeDisplay } from "./QRCodeDisplay";
+import { VietQrScanDialog } from "./VietQrScanDialog";
 
 interface BankAccountButtonProps {
   trigger?: React.ReactNode;
 }
 
+// Bank account read from a scanned VietQR code
+interface ScannedAccount {
+  bank: Bank;
+  accountNumber: string;
+  accountName?: string;
+}
+
+// Select value for funds that use the default payout method
+const DEFAULT_FUND_METHOD = "default";
+
 export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>) {
-  const { currentUser } = useApp();
+  const { currentUser, funds, refreshCurrentUser } = useApp();
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [banks, setBanks] = useState<Bank[]>([]);
   const [currentUserData, setCurrentUserData] = useState<User | null>(null);
-  const [qrImageLoading, setQrImageLoading] = useState(false);
-  const [showQRCode, setShowQRCode] = useState(false);
-  
-  // Form state
+  const [qrMethod, setQrMethod] = useState<PayoutMethod | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannedAccount, setScannedAccount] = useState<ScannedAccount | null>(null);
+
+  // Saved payout methods, edited locally until "Lưu thay đổi"
+  const [methods, setMethods] = useState<PayoutMethod[]>([]);
+  const [defaultMethodId, setDefaultMethodId] = useState<string | null>(null);
+  const [fundMethodIds, setFundMethodIds] = useState<Record<string, string>>({});
+
+  // Form state for the method being added or edited
   const [displayName, setDisplayName] = useState(currentUser?.displayName || "");
-  const [accountNumber, setAccountNumber] = useState(currentUser?.bankAccount?.accountNumber || "");
-  const [selectedBankCode, setSelectedBankCode] = useState(currentUser?.bankAccount?.bankCode || "");
-  const [accountName, setAccountName] = useState(currentUser?.bankAccount?.accountName || currentUser?.displayName || "");
+  const [editingMethodId, setEditingMethodId] = useState<string | null>(null);
+  const [methodType, setMethodType] = useState<PayoutMethodType>(PayoutMethodType.BANK);
+  const [accountNumber, setAccountNumber] = useState("");
+  const [selectedBankCode, setSelectedBankCode] = useState("");
+  const [accountName, setAccountName] = useState("");
+  const [label, setLabel] = useState("");
+
+  const isBank = methodType === PayoutMethodType.BANK;
+  const activeFunds = funds.filter(fund => !fund.isArchived);
+
+  const loadMethods = (user: User) => {
+    const userMethods = getPayoutMethods(user);
+    setMethods(userMethods);
+    setDefaultMethodId(user.defaultPayoutMethodId || userMethods[0]?.id || null);
+    setFundMethodIds(user.fundPayoutMethods || {});
+  };
+
+  // Clear the method form, prefilling the account holder name
+  const resetForm = useCallback((name: string) => {
+    setEditingMethodId(null);
+    setMethodType(PayoutMethodType.BANK);
+    setAccountNumber("");
+    setSelectedBankCode("");
+    setAccountName(name);
+    setLabel("");
+    setScannedAccount(null);
+  }, []);
+  const defaultAccountName = currentUserData?.displayName || "";
 
   // Load banks and current user data on component mount
   useEffect(() => {
     const loadData = async () => {
       if (!isOpen || !currentUser) return;
-      
+
       setIsLoading(true);
       try {
         // Load banks
@@ -55,7 +102,7 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
         // Fetch fresh user data from Firestore
         const userRef = doc(db, "users", currentUser.id);
         const userDoc = await getDoc(userRef);
-        
+
         if (userDoc.exists()) {
           const userData = userDoc.data();
           const freshUserData: User = {
@@ -64,21 +111,22 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
             email: userData.email || currentUser.email,
             photoURL: userData.photoURL || currentUser.photoURL,
             bankAccount: userData.bankAccount || undefined,
+            payoutMethods: userData.payoutMethods || undefined,
+            defaultPayoutMethodId: userData.defaultPayoutMethodId || undefined,
+            fundPayoutMethods: userData.fundPayoutMethods || undefined,
           };
           setCurrentUserData(freshUserData);
-          
+
           // Update form fields with fresh data
           setDisplayName(freshUserData.displayName);
-          setAccountNumber(freshUserData.bankAccount?.accountNumber || "");
-          setSelectedBankCode(freshUserData.bankAccount?.bankCode || "");
-          setAccountName(freshUserData.bankAccount?.accountName || freshUserData.displayName);
+          loadMethods(freshUserData);
+          resetForm(freshUserData.displayName);
         } else {
           // Use current user data if no Firestore document exists
           setCurrentUserData(currentUser);
           setDisplayName(currentUser.displayName);
-          setAccountNumber("");
-          setSelectedBankCode("");
-          setAccountName(currentUser.displayName);
+          loadMethods(currentUser);
+          resetForm(currentUser.displayName);
         }
       } catch (error) {
         console.error("Error loading data:", error);
@@ -86,46 +134,34 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
         // Fallback to current user data
         setCurrentUserData(currentUser);
         setDisplayName(currentUser.displayName);
-        setAccountNumber("");
-        setSelectedBankCode("");
-        setAccountName(currentUser.displayName);
+        loadMethods(currentUser);
+        resetForm(currentUser.displayName);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadData();
-  }, [isOpen, currentUser]);
+  }, [isOpen, currentUser, resetForm]);
 
   // Reset form when user changes or sheet closes
   useEffect(() => {
     if (!isOpen) {
       // Reset form state when sheet closes
       setDisplayName(currentUser?.displayName || "");
-      setAccountNumber("");
-      setSelectedBankCode("");
-      setAccountName("");
+      setMethods([]);
+      setDefaultMethodId(null);
+      setFundMethodIds({});
+      resetForm("");
       setCurrentUserData(null);
     }
-  }, [isOpen, currentUser]);
-
-  // Set QR loading state when bank account data changes
-  useEffect(() => {
-    if (currentUserData?.bankAccount) {
-      setQrImageLoading(true);
-    }
-  }, [currentUserData?.bankAccount]);
+  }, [isOpen, currentUser, resetForm]);
 
   const selectedBank = banks.find(bank => bank.code === selectedBankCode);
-
-  const copyToClipboard = async (text: string, label: string) => {
-    try {
-      await navigator.clipboard.writeText(text);
-      toast.success(`Đã copy ${label}`);
-    } catch (error) {
-      toast.error("Không thể copy");
-    }
-  };
+  // The scanned code stays the reference, so later typos in the form are flagged too
+  const hasScanMismatch = !!scannedAccount && (
+    scannedAccount.bank.code !== selectedBankCode || scannedAccount.accountNumber !== accountNumber
+  );
 
   const handleAccountNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let value = e.target.value;
@@ -134,58 +170,132 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
     setAccountNumber(value);
   };
 
-  const handleSave = async () => {
-    if (!currentUser) {
-      toast.error("Không tìm thấy thông tin người dùng");
+  const applyScannedAccount = (scanned: ScannedAccount) => {
+    setMethodType(PayoutMethodType.BANK);
+    setSelectedBankCode(scanned.bank.code);
+    setAccountNumber(scanned.accountNumber);
+    if (scanned.accountName) {
+      setAccountName(scanned.accountName);
+    }
+  };
+
+  const handleScan = (result: ScannedVietQr) => {
+    const bank = banks.find(b => b.bin === result.bankBin) || getBankByBin(result.bankBin);
+    if (!bank) {
+      toast.error("Ngân hàng trong mã QR chưa được hỗ trợ");
       return;
     }
 
-    // Skip display name validation since it's disabled
-    // if (!displayName.trim()) {
-    //   toast.error("Vui lòng nhập tên hiển thị");
-    //   return;
-    // }
+    const scanned: ScannedAccount = {
+      bank,
+      accountNumber: result.accountNumber,
+      accountName: result.accountName,
+    };
+    setScannedAccount(scanned);
+
+    // Fill an empty form right away; otherwise the user decides which details to keep
+    if (!isBank || (!selectedBankCode && !accountNumber)) {
+      applyScannedAccount(scanned);
+      toast.success("Đã điền thông tin từ mã QR");
+    } else if (bank.code === selectedBankCode && result.accountNumber === accountNumber) {
+      toast.success("Thông tin tài khoản khớp với mã QR");
+    }
+  };
 
+  const handleEditMethod = (method: PayoutMethod) => {
+    setEditingMethodId(method.id);
+    setMethodType(method.type);
+    setSelectedBankCode(method.bankCode || "");
+    setAccountNumber(method.accountNumber);
+    setAccountName(method.accountName || "");
+    setLabel(method.label || "");
+    setScannedAccount(null);
+  };
+
+  const handleRemoveMethod = (methodId: string) => {
+    const remaining = methods.filter(method => method.id !== methodId);
+    setMethods(remaining);
+    if (defaultMethodId === methodId) {
+      setDefaultMethodId(remaining[0]?.id || null);
+    }
+    // Funds that used the removed method go back to the default
+    setFundMethodIds(prev => Object.fromEntries(Object.entries(prev).filter(([, id]) => id !== methodId)));
+    if (editingMethodId === methodId) {
+      resetForm(defaultAccountName);
+    }
+  };
+
+  const hasFormInput = !!accountNumber.trim() || (isBank && !!selectedBankCode);
+
+  /**
+   * Validate the form and add or update the method in the local list
+   * @returns The updated list, or null when the form is invalid
+   */
+  const commitForm = (): PayoutMethod[] | null => {
     // If bank is selected, account number is required
-    if (selectedBankCode && !accountNumber.trim()) {
+    if (isBank && selectedBankCode && !accountNumber.trim()) {
       toast.error("Vui lòng nhập số tài khoản khi đã chọn ngân hàng");
-      return;
+      return null;
     }
 
     // If account number is provided, bank must be selected
-    if (accountNumber.trim() && !selectedBankCode) {
+    if (isBank && accountNumber.trim() && !selectedBankCode) {
       toast.error("Vui lòng chọn ngân hàng khi đã nhập số tài khoản");
+      return null;
+    }
+
+    if (!isBank && !/^0\d{9}$/.test(accountNumber.trim())) {
+      toast.error("Vui lòng nhập số điện thoại ví hợp lệ (10 số, bắt đầu bằng 0)");
+      return null;
+    }
+
+    const method: PayoutMethod = {
+      id: editingMethodId || createPayoutMethodId(),
+      type: methodType,
+      accountNumber: accountNumber.trim(),
+      bankCode: isBank ? selectedBankCode : undefined,
+      bankName: isBank ? selectedBank?.name || "" : undefined,
+      accountName: accountName.trim() || currentUser?.displayName,
+      label: label.trim() || undefined,
+    };
+
+    const updated = editingMethodId
+      ? methods.map(m => m.id === editingMethodId ? method : m)
+      : [...methods, method];
+
+    setMethods(updated);
+    if (!defaultMethodId) {
+      setDefaultMethodId(method.id);
+    }
+    resetForm(defaultAccountName);
+    return updated;
+  };
+
+  const handleSave = async () => {
+    if (!currentUser) {
+      toast.error("Không tìm thấy thông tin người dùng");
       return;
     }
 
+    // A filled-in form is saved along with the list
+    let methodsToSave = methods;
+    if (hasFormInput) {
+      const updated = commitForm();
+      if (!updated) return;
+      methodsToSave = updated;
+    }
+
+    const savedDefaultId = methodsToSave.some(method => method.id === defaultMethodId)
+      ? defaultMethodId
+      : methodsToSave[0]?.id || null;
+
     setIsSaving(true);
     try {
-      const userRef = doc(db, "users", currentUser.id);
-      
-      const updateData: Record<string, unknown> = {
-        // Don't update display name since it's disabled
-        // displayName: displayName.trim(),
-        updatedAt: Date.now(),
-      };
-
-      // Only include bank account if both bank and account number are provided
-      if (selectedBankCode && accountNumber.trim()) {
-        updateData.bankAccount = {
-          accountNumber: accountNumber.trim(),
-          bankCode: selectedBankCode,
-          bankName: selectedBank?.name || "",
-          accountName: accountName.trim() || currentUser.displayName,
-        };
-      } else {
-        // Remove bank account if incomplete
-        updateData.bankAccount = null;
-      }
+      await savePayoutMethods(currentUser.id, methodsToSave, savedDefaultId, fundMethodIds);
+      await refreshCurrentUser();
 
-      await updateDoc(userRef, updateData);
-      
       toast.success("Cập nhật thông tin thành công");
       setIsOpen(false);
-      // Note: Page will need to be refreshed to see changes or we need to update the context
     } catch (error) {
       console.error("Error updating user profile:", error);
       toast.error("Không thể cập nhật thông tin");
@@ -194,32 +304,16 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
     }
   };
 
-  const handleDownloadQR = async () => {
-    if (!currentUserData?.bankAccount) return;
-
-    try {
-      const qrUrl = generateQRCodeUrl(
-        currentUserData.bankAccount.bankCode,
-        currentUserData.bankAccount.accountNumber,
-        undefined,
-        undefined,
-        currentUserData.bankAccount.accountName || currentUserData.displayName,
-        'compact2'
-      );
-
-      // Create a temporary link element to download the image
-      const link = document.createElement('a');
-      link.href = qrUrl;
-      link.download = `QR_${currentUserData.bankAccount.bankName}_${currentUserData.bankAccount.accountNumber}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      toast.success("Đã tải xuống mã QR");
-    } catch (error) {
-      console.error("Error downloading QR code:", error);
-      toast.error("Không thể tải xuống mã QR");
-    }
+  const handleFundMethodChange = (fundId: string, value: string) => {
+    setFundMethodIds(prev => {
+      const next = { ...prev };
+      if (value === DEFAULT_FUND_METHOD) {
+        delete next[fundId];
+      } else {
+        next[fundId] = value;
+      }
+      return next;
+    });
   };
 
   return (
@@ -236,7 +330,7 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
         <SheetHeader className="flex-shrink-0">
           <SheetTitle>Thông tin cá nhân</SheetTitle>
           <SheetDescription>
-            Cập nhật tên hiển thị và thông tin tài khoản ngân hàng
+            Cập nhật tên hiển thị và các tài khoản nhận tiền
           </SheetDescription>
         </SheetHeader>
 
@@ -269,173 +363,251 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
             />
           </div>
 
-          {/* Bank selection */}
-          <div className="space-y-2">
-            <Label htmlFor="bank">Ngân hàng</Label>
-            {isLoading ? (
-              <div className="flex items-center justify-center py-3">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span className="ml-2 text-sm">Đang tải danh sách ngân hàng...</span>
-              </div>
-            ) : (
-              <Select value={selectedBankCode} onValueChange={setSelectedBankCode}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Chọn ngân hàng (không bắt buộc)" />
-                </SelectTrigger>
-                <SelectContent>
-                  {banks.map((bank) => (
-                    <SelectItem key={bank.code} value={bank.code}>
-                      <div className="flex items-center gap-2">
-                        <img 
-                          src={bank.logo} 
-                          alt={bank.shortName}
-                          className="w-6 h-6 object-contain"
-                          onError={(e) => {
-                            (e.target as HTMLImageElement).style.display = 'none';
-                          }}
-                        />
-                        <span>{bank.shortName}</span>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            )}
-          </div>
-
-          {/* Account number */}
-          <div className="space-y-2">
-            <Label htmlFor="accountNumber">
-              Số tài khoản
-              {selectedBankCode && <span className="text-destructive"> *</span>}
-            </Label>
-            <Input
-              id="accountNumber"
-              value={accountNumber}
-              onChange={handleAccountNumberChange}
-              placeholder="Nhập số tài khoản"
-              inputMode="numeric"
-              disabled={!selectedBankCode}
-            />
-            {!selectedBankCode && (
-              <p className="text-xs text-muted-foreground">
-                Chọn ngân hàng trước để nhập số tài khoản
-              </p>
-            )}
-          </div>
-
-          {/* Account name */}
-          {selectedBankCode && accountNumber && (
+          {/* Saved payout methods */}
+          {methods.length > 0 && (
             <div className="space-y-2">
-              <Label htmlFor="accountName">Tên chủ tài khoản</Label>
-              <Input
-                id="accountName"
-                value={accountName}
-                onChange={(e) => setAccountName(e.target.value)}
-                placeholder="Tên chủ tài khoản (sẽ hiển thị trên QR code)"
-              />
-            </div>
-          )}
-
-          {/* Bank account info and QR code preview */}
-          {currentUserData?.bankAccount && (
-            <div className="p-4 rounded-lg bg-green-50 border border-green-200 space-y-4">
-              <div className="flex items-center justify-between">
-                <h4 className="font-medium text-green-800">Thông tin tài khoản hiện tại:</h4>
-              </div>
-              
-              {/* Bank account details */}
-              <div className="text-sm space-y-2">
-                <div className="flex items-center justify-between">
-                  <span className="font-medium">Ngân hàng:</span>
-                  <div className="flex items-center gap-2">
-                    <span>{currentUserData.bankAccount.bankName}</span>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      className="h-6 w-6 p-0"
-                      onClick={() => copyToClipboard(currentUserData.bankAccount?.bankName || "", "tên ngân hàng")}
-                    >
-                      📋
-                    </Button>
+              <Label>Tài khoản nhận tiền</Label>
+              {methods.map(method => (
+                <div
+                  key={method.id}
+                  className="flex items-center justify-between gap-2 rounded-lg border p-3"
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-sm font-medium truncate">
+                        {method.label || PAYOUT_METHOD_TYPE_LABELS[method.type]}
+                      </span>
+                      {method.id === defaultMethodId && (
+                        <Badge variant="secondary" className="text-[10px]">Mặc định</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {method.type === PayoutMethodType.BANK ? method.bankName : PAYOUT_METHOD_TYPE_LABELS[method.type]}
+                      {" · "}
+                      <span className="font-mono">{method.accountNumber}</span>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="font-medium">Số TK:</span>
-                  <div className="flex items-center gap-2">
-                    <span className="font-mono">{currentUserData.bankAccount.accountNumber}</span>
+                  <div className="flex items-center flex-shrink-0">
+                    {method.id !== defaultMethodId && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDefaultMethodId(method.id)}>
+                        <Star className="h-3.5 w-3.5" />
+                        <span className="sr-only">Đặt làm mặc định</span>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setQrMethod(method)}>
+                      <QrCode className="h-3.5 w-3.5" />
+                      <span className="sr-only">Xem mã QR</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditMethod(method)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                      <span className="sr-only">Sửa</span>
+                    </Button>
                     <Button
-                      size="sm"
                       variant="ghost"
-                      className="h-6 w-6 p-0"
-                      onClick={() => copyToClipboard(currentUserData.bankAccount?.accountNumber || "", "số tài khoản")}
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleRemoveMethod(method.id)}
                     >
-                      📋
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="sr-only">Xoá</span>
                     </Button>
                   </div>
                 </div>
-                {currentUserData.bankAccount.accountName && (
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">Tên TK:</span>
-                    <div className="flex items-center gap-2">
-                      <span>{currentUserData.bankAccount.accountName}</span>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="h-6 w-6 p-0"
-                        onClick={() => copyToClipboard(currentUserData.bankAccount?.accountName || "", "tên chủ tài khoản")}
-                      >
-                        📋
+              ))}
+            </div>
+          )}
+
+          {/* Add or edit a payout method */}
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">
+                {editingMethodId ? "Sửa tài khoản nhận tiền" : "Thêm tài khoản nhận tiền"}
+              </h4>
+              {editingMethodId && (
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => resetForm(defaultAccountName)}>
+                  Huỷ sửa
+                </Button>
+              )}
+            </div>
+
+            <Select
+              value={methodType}
+              onValueChange={(value) => {
+                setMethodType(value as PayoutMethodType);
+                setScannedAccount(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[PayoutMethodType.BANK, ...EWALLET_TYPES].map(type => (
+                  <SelectItem key={type} value={type}>{PAYOUT_METHOD_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isBank ? (
+              <>
+                {/* Scan an existing VietQR code instead of typing the account */}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowScanner(true)}
+                  disabled={isLoading}
+                >
+                  <ScanLine className="h-4 w-4 mr-2" />
+                  Quét mã VietQR từ ứng dụng ngân hàng
+                </Button>
+
+                {/* Bank selection */}
+                <div className="space-y-2">
+                  <Label htmlFor="bank">Ngân hàng</Label>
+                  {isLoading ? (
+                    <div className="flex items-center justify-center py-3">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="ml-2 text-sm">Đang tải danh sách ngân hàng...</span>
+                    </div>
+                  ) : (
+                    <Select value={selectedBankCode} onValueChange={setSelectedBankCode}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Chọn ngân hàng" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {banks.map((bank) => (
+                          <SelectItem key={bank.code} value={bank.code}>
+                            <div className="flex items-center gap-2">
+                              <img
+                                src={bank.logo}
+                                alt={bank.shortName}
+                                className="w-6 h-6 object-contain"
+                                onError={(e) => {
+                                  (e.target as HTMLImageElement).style.display = 'none';
+                                }}
+                              />
+                              <span>{bank.shortName}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
+                {/* Account number */}
+                <div className="space-y-2">
+                  <Label htmlFor="accountNumber">
+                    Số tài khoản
+                    {selectedBankCode && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Input
+                    id="accountNumber"
+                    value={accountNumber}
+                    onChange={handleAccountNumberChange}
+                    placeholder="Nhập số tài khoản"
+                    inputMode="numeric"
+                    disabled={!selectedBankCode}
+                  />
+                  {!selectedBankCode && (
+                    <p className="text-xs text-muted-foreground">
+                      Chọn ngân hàng trước để nhập số tài khoản
+                    </p>
+                  )}
+                </div>
+
+                {/* Warn when the form disagrees with the scanned code */}
+                {scannedAccount && hasScanMismatch && (
+                  <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 space-y-2 text-sm">
+                    <div className="flex items-center gap-2 font-medium text-amber-800">
+                      <AlertTriangle className="h-4 w-4" />
+                      Thông tin không khớp với mã QR
+                    </div>
+                    <p className="text-amber-800">
+                      Mã QR: {scannedAccount.bank.shortName} · <span className="font-mono">{scannedAccount.accountNumber}</span>
+                      <br />
+                      Đã nhập: {selectedBank?.shortName || "chưa chọn ngân hàng"} · <span className="font-mono">{accountNumber || "—"}</span>
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => applyScannedAccount(scannedAccount)}>
+                        Dùng thông tin từ mã QR
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setScannedAccount(null)}>
+                        Giữ thông tin đã nhập
                       </Button>
                     </div>
                   </div>
                 )}
+              </>
+            ) : (
+              /* E-wallets receive money on a phone number */
+              <div className="space-y-2">
+                <Label htmlFor="walletPhone">Số điện thoại ví *</Label>
+                <Input
+                  id="walletPhone"
+                  value={accountNumber}
+                  onChange={handleAccountNumberChange}
+                  placeholder="Nhập số điện thoại đăng ký ví"
+                  inputMode="tel"
+                />
               </div>
+            )}
 
-              {/* QR Code Display */}
-              <div className="flex justify-center">
-                <div className="bg-white p-3 rounded-lg border shadow-sm">
-                  <div className="relative">
-                    {qrImageLoading && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-white/80 rounded">
-                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                      </div>
-                    )}
-                    <img
-                      src={generateQRCodeUrl(
-                        currentUserData.bankAccount.bankCode,
-                        currentUserData.bankAccount.accountNumber,
-                        undefined,
-                        undefined,
-                        currentUserData.bankAccount.accountName || currentUserData.displayName,
-                        'compact2'
-                      )}
-                      alt="QR Code"
-                      className="max-w-[200px] h-auto"
-                      onLoad={() => setQrImageLoading(false)}
-                      onError={(e) => {
-                        setQrImageLoading(false);
-                        (e.target as HTMLImageElement).src = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2Y5ZmFmYiIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTQiIGZpbGw9IiM2YjczODAiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIwLjNlbSI+S2jDtG5nIHRo4buDIHThuqNpIFFSIGNvZGU8L3RleHQ+PC9zdmc+";
-                      }}
-                    />
-                  </div>
-                  <p className="text-xs text-center text-muted-foreground mt-2">
-                    Mã QR chuyển tiền
-                  </p>
+            {/* Account name and label */}
+            {accountNumber && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="accountName">Tên chủ tài khoản</Label>
+                  <Input
+                    id="accountName"
+                    value={accountName}
+                    onChange={(e) => setAccountName(e.target.value)}
+                    placeholder="Tên chủ tài khoản (sẽ hiển thị trên QR code)"
+                  />
                 </div>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="methodLabel">Tên gợi nhớ</Label>
+                  <Input
+                    id="methodLabel"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder="Ví dụ: Tài khoản công ty (không bắt buộc)"
+                  />
+                </div>
+              </>
+            )}
 
-              {/* Download QR Code button */}
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                className="w-full mt-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-                onClick={handleDownloadQR}
-                disabled={isSaving}
-              >
-                <Download className="h-3 w-3 mr-1" />
-                Tải xuống mã QR
-              </Button>
+            <Button variant="outline" className="w-full" onClick={commitForm} disabled={!hasFormInput}>
+              {editingMethodId ? <Pencil className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              {editingMethodId ? "Cập nhật tài khoản" : "Thêm vào danh sách"}
+            </Button>
+          </div>
+
+          {/* Per-fund override of the default method */}
+          {methods.length > 1 && activeFunds.length > 0 && (
+            <div className="space-y-2">
+              <Label>Tài khoản nhận tiền theo quỹ</Label>
+              <p className="text-xs text-muted-foreground">
+                Thành viên sẽ thấy tài khoản này khi trả tiền cho bạn trong quỹ
+              </p>
+              {activeFunds.map(fund => (
+                <div key={fund.id} className="flex items-center justify-between gap-2">
+                  <span className="text-sm truncate">{fund.icon} {fund.name}</span>
+                  <Select
+                    value={methods.some(m => m.id === fundMethodIds[fund.id]) ? fundMethodIds[fund.id] : DEFAULT_FUND_METHOD}
+                    onValueChange={(value) => handleFundMethodChange(fund.id, value)}
+                  >
+                    <SelectTrigger className="h-8 w-[190px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_FUND_METHOD}>Mặc định</SelectItem>
+                      {methods.map(method => (
+                        <SelectItem key={method.id} value={method.id}>{getPayoutMethodTitle(method)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
             </div>
           )}
         </div>
@@ -460,14 +632,21 @@ export function BankAccountButton({ trigger }: Readonly<BankAccountButtonProps>)
         </div>
       </SheetContent>
 
-      {/* QR Code Display for current user's bank account */}
-      {currentUserData?.bankAccount && (
+      {/* QR code of a payout method */}
+      {currentUserData && qrMethod && (
         <QRCodeDisplay
           user={currentUserData}
-          isOpen={showQRCode}
-          onClose={() => setShowQRCode(false)}
+          payoutMethod={qrMethod}
+          isOpen={!!qrMethod}
+          onClose={() => setQrMethod(null)}
         />
       )}
+
+      <VietQrScanDialog
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScan={handleScan}
+      />
     </Sheet>
   );
 }
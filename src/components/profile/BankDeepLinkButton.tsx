@@ -2,6 +2,8 @@ import { Button } from "@/components/ui/button";
 import { useApp } from "@/context/AppContext";
 import { Smartphone } from "lucide-react";
 import { useState, useEffect } from "react";
+import { PayoutMethodType } from "@/types";
+import { getPayoutMethodForFund } from "@/utils/payoutUtils";
 
 interface BankApp {
   appId: string;
@@ -17,13 +19,18 @@ interface BankAppsResponse {
   apps: BankApp[];
 }
 
-export function BankDeepLinkButton() {
+interface BankDeepLinkButtonProps {
+  fundId?: string; // Open the bank of the account the user set for this fund
+}
+
+export function BankDeepLinkButton({ fundId }: Readonly<BankDeepLinkButtonProps>) {
   const { currentUser } = useApp();
   const [isLoading, setIsLoading] = useState(false);
   const [userBankApp, setUserBankApp] = useState<BankApp | null>(null);
 
   // Check if user has bank account info
-  const hasBankAccount = currentUser?.bankAccount?.bankName && currentUser?.bankAccount?.accountNumber;
+  const bankAccount = getPayoutMethodForFund(currentUser, fundId, PayoutMethodType.BANK);
+  const hasBankAccount = bankAccount?.bankName && bankAccount?.accountNumber;
 
   // Detect platform
   const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
@@ -49,27 +56,27 @@ export function BankDeepLinkButton() {
         console.log('BankDeepLinkButton: Loaded bank apps:', data.apps?.length || 0);
 
         // Try to find matching bank app based on user's bank code first, then bank name
-        if (currentUser?.bankAccount) {
+        if (bankAccount) {
           let matchingApp: BankApp | undefined;
           
           console.log('BankDeepLinkButton: User bank account:', {
-            bankCode: currentUser.bankAccount.bankCode,
-            bankName: currentUser.bankAccount.bankName
+            bankCode: bankAccount.bankCode,
+            bankName: bankAccount.bankName
           });
           
           // Try to match by bank code first (more reliable)
-          if (currentUser.bankAccount.bankCode) {
+          if (bankAccount.bankCode) {
             matchingApp = data.apps.find(app => 
-              app.appId.toLowerCase() === currentUser.bankAccount.bankCode.toLowerCase()
+              app.appId.toLowerCase() === bankAccount.bankCode.toLowerCase()
             );
             console.log('BankDeepLinkButton: Match by bank code:', matchingApp?.appName || 'Not found');
           }
           
           // If no match by bank code, try to match by bank name
-          if (!matchingApp && currentUser.bankAccount.bankName) {
+          if (!matchingApp && bankAccount.bankName) {
             matchingApp = data.apps.find(app => 
-              app.bankName.toLowerCase().includes(currentUser.bankAccount.bankName.toLowerCase()) ||
-              currentUser.bankAccount.bankName.toLowerCase().includes(app.bankName.toLowerCase())
+              app.bankName.toLowerCase().includes(bankAccount.bankName.toLowerCase()) ||
+              bankAccount.bankName.toLowerCase().includes(app.bankName.toLowerCase())
             );
             console.log('BankDeepLinkButton: Match by bank name:', matchingApp?.appName || 'Not found');
           }
@@ -84,7 +91,7 @@ export function BankDeepLinkButton() {
     };
 
     loadBankApps();
-  }, [hasBankAccount, isMobile, isIOS, currentUser?.bankAccount?.bankCode, currentUser?.bankAccount?.bankName]);
+  }, [hasBankAccount, isMobile, isIOS, bankAccount?.bankCode, bankAccount?.bankName]);
 
   // Don't show if user doesn't have bank account or not on mobile
   if (!hasBankAccount || !isMobile) {
@@ -9,35 +9,50 @@ import {
 } from "@/components/ui/dialog";
 import { Copy, Download, Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { generateQRCodeUrl } from "@/services/bankService";
-import { User } from "@/types";
+import { generateQRCodeUrl, generateVietQrPayload } from "@/services/bankService";
+import { QRCode } from "@/components/ui/qr-code";
+import { createQrCodeCanvas } from "@/utils/qrCodeUtils";
+import { PayoutMethod, PayoutMethodType, User } from "@/types";
+import { getEWalletTransferUrl, getPayoutMethodForFund } from "@/utils/payoutUtils";
+import { PAYOUT_METHOD_TYPE_LABELS } from "@/constants/payoutConstants";
 import { BankDeepLinkButton } from "@/components/profile/BankDeepLinkButton";
 
 interface QRCodeDisplayProps {
   user: User;
+  fundId?: string; // Fund being settled, to use the recipient's account for that fund
+  payoutMethod?: PayoutMethod; // Show this method instead of picking one
   amount?: number;
   description?: string;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function QRCodeDisplay({ user, amount, description, isOpen, onClose }: Readonly<QRCodeDisplayProps>) {
+export function QRCodeDisplay({
+  user,
+  fundId,
+  payoutMethod,
+  amount,
+  description,
+  isOpen,
+  onClose,
+}: Readonly<QRCodeDisplayProps>) {
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
 
-  if (!user.bankAccount) {
+  const method = payoutMethod || getPayoutMethodForFund(user, fundId);
+  if (!method) {
     return null;
   }
 
-  const { bankCode, accountNumber, bankName, accountName } = user.bankAccount;
-  const qrUrl = generateQRCodeUrl(
-    bankCode,
-    accountNumber,
-    amount,
-    description,
-    accountName || user.displayName,
-    'print'
-  );
+  const { type, bankCode, accountNumber, accountName } = method;
+  const isBank = type === PayoutMethodType.BANK;
+  const providerName = isBank ? method.bankName : PAYOUT_METHOD_TYPE_LABELS[type];
+  const qrUrl = isBank
+    ? generateQRCodeUrl(bankCode, accountNumber, amount, description, accountName || user.displayName, 'print')
+    : getEWalletTransferUrl(method);
+  // Drawn on the device so the code also works offline; the image service is only
+  // used for banks whose BIN is unknown
+  const qrPayload = isBank ? generateVietQrPayload(bankCode, accountNumber, amount, description) : qrUrl;
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -52,10 +67,20 @@ export function QRCodeDisplay({ user, amount, description, isOpen, onClose }: Re
   const downloadQRCode = async () => {
     setIsDownloading(true);
     try {
-      const response = await fetch(qrUrl);
-      if (!response.ok) throw new Error('Failed to fetch QR code');
+      let blob: Blob;
+      if (qrPayload) {
+        blob = await new Promise<Blob>((resolve, reject) => {
+          createQrCodeCanvas(qrPayload, 600).toBlob(
+            result => result ? resolve(result) : reject(new Error('Failed to render QR code')),
+            'image/png'
+          );
+        });
+      } else {
+        const response = await fetch(qrUrl);
+        if (!response.ok) throw new Error('Failed to fetch QR code');
+        blob = await response.blob();
+      }
       
-      const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       
       const a = document.createElement('a');
@@ -87,37 +112,49 @@ export function QRCodeDisplay({ user, amount, description, isOpen, onClose }: Re
 
         <div className="space-y-4">
           {/* QR Code Image */}
-          <div className="flex justify-center">
-            <div className="relative bg-white p-2 rounded-lg border">
-              {isLoading && (
-                <div className="absolute inset-0 flex items-center justify-center bg-white/80 rounded-lg">
-                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-                </div>
-              )}
-              <img
-                src={qrUrl}
-                alt="QR Code"
-                className="max-w-full h-auto"
-                onLoad={() => setIsLoading(false)}
-                onError={(e) => {
-                  setIsLoading(false);
-                  (e.target as HTMLImageElement).src = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2Y5ZmFmYiIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTQiIGZpbGw9IiM2YjczODAiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIwLjNlbSI+S2jDtG5nIHRo4buDIHThuqNpIFFSIGNvZGU8L3RleHQ+PC9zdmc+";
-                }}
-              />
+          {qrUrl ? (
+            <div className="flex justify-center">
+              <div className="relative bg-white p-2 rounded-lg border">
+                {qrPayload ? (
+                  <QRCode value={qrPayload} size={260} />
+                ) : (
+                  <>
+                    {isLoading && (
+                      <div className="absolute inset-0 flex items-center justify-center bg-white/80 rounded-lg">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                      </div>
+                    )}
+                    <img
+                      src={qrUrl}
+                      alt="QR Code"
+                      className="max-w-full h-auto"
+                      onLoad={() => setIsLoading(false)}
+                      onError={(e) => {
+                        setIsLoading(false);
+                        (e.target as HTMLImageElement).src = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2Y5ZmFmYiIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTQiIGZpbGw9IiM2YjczODAiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIwLjNlbSI+S2jDtG5nIHRo4buDIHThuqNpIFFSIGNvZGU8L3RleHQ+PC9zdmc+";
+                      }}
+                    />
+                  </>
+                )}
+              </div>
             </div>
-          </div>
+          ) : (
+            <p className="text-sm text-center text-muted-foreground">
+              Mở {providerName} và chuyển tiền tới số điện thoại bên dưới
+            </p>
+          )}
 
           {/* Bank Information */}
           <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium">Ngân hàng:</span>
+              <span className="text-sm font-medium">{isBank ? "Ngân hàng:" : "Ví điện tử:"}</span>
               <div className="flex items-center gap-2">
-                <span className="text-sm">{bankName}</span>
+                <span className="text-sm">{providerName}</span>
                 <Button
                   size="sm"
                   variant="ghost"
                   className="h-6 w-6 p-0"
-                  onClick={() => copyToClipboard(bankName, "tên ngân hàng")}
+                  onClick={() => copyToClipboard(providerName, isBank ? "tên ngân hàng" : "tên ví")}
                 >
                   <Copy className="h-3 w-3" />
                 </Button>
@@ -125,14 +162,14 @@ export function QRCodeDisplay({ user, amount, description, isOpen, onClose }: Re
             </div>
 
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium">Số tài khoản:</span>
+              <span className="text-sm font-medium">{isBank ? "Số tài khoản:" : "Số điện thoại:"}</span>
               <div className="flex items-center gap-2">
                 <span className="text-sm font-mono">{accountNumber}</span>
                 <Button
                   size="sm"
                   variant="ghost"
                   className="h-6 w-6 p-0"
-                  onClick={() => copyToClipboard(accountNumber, "số tài khoản")}
+                  onClick={() => copyToClipboard(accountNumber, isBank ? "số tài khoản" : "số điện thoại")}
                 >
                   <Copy className="h-3 w-3" />
                 </Button>
@@ -182,37 +219,39 @@ export function QRCodeDisplay({ user, amount, description, isOpen, onClose }: Re
           </div>
 
           {/* Actions */}
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              className="flex-1"
-              onClick={downloadQRCode}
-              disabled={isDownloading || isLoading}
-            >
-              {isDownloading ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Đang tải...
-                </>
-              ) : (
-                <>
-                  <Download className="h-4 w-4 mr-2" />
-                  Tải xuống
-                </>
-              )}
-            </Button>
-            <Button
-              variant="outline"
-              className="flex-1"
-              onClick={() => copyToClipboard(qrUrl, "link QR code")}
-            >
-              <Copy className="h-4 w-4 mr-2" />
-              Copy link
-            </Button>
-          </div>
+          {qrUrl && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={downloadQRCode}
+                disabled={isDownloading || (!qrPayload && isLoading)}
+              >
+                {isDownloading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Đang tải...
+                  </>
+                ) : (
+                  <>
+                    <Download className="h-4 w-4 mr-2" />
+                    Tải xuống
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => copyToClipboard(qrUrl, "link QR code")}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy link
+              </Button>
+            </div>
+          )}
 
           {/* Bank Deep Link Button */}
-          <BankDeepLinkButton />
+          {isBank && <BankDeepLinkButton fundId={fundId} />}
         </div>
       </DialogContent>
     </Dialog>
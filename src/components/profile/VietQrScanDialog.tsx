@@ -0,0 +1,168 @@
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ImageUp, Loader2 } from "lucide-react";
+import { detectQrCode, detectQrCodeInFile } from "@/utils/qrScanUtils";
+import { parseVietQrPayload, ScannedVietQr } from "@/utils/vietQrUtils";
+
+interface VietQrScanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (result: ScannedVietQr) => void;
+}
+
+// How often a camera frame is checked for a QR code
+const SCAN_INTERVAL_MS = 400;
+
+const NOT_VIETQR_MESSAGE = "Đây không phải mã VietQR nhận tiền";
+
+/**
+ * Scan a VietQR code with the camera or from an image, e.g. the "receive money"
+ * code of a banking app, and return the bank account it encodes
+ */
+export function VietQrScanDialog({ isOpen, onClose, onScan }: Readonly<VietQrScanDialogProps>) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+
+  // Returns true when the text was a VietQR code and has been handed over
+  const handleDecoded = (text: string | null): boolean => {
+    if (!text) return false;
+
+    const result = parseVietQrPayload(text);
+    if (!result) {
+      setError(NOT_VIETQR_MESSAGE);
+      return false;
+    }
+
+    onScan(result);
+    onClose();
+    return true;
+  };
+
+  // The camera loop keeps running across renders, so it reads the latest handler through a ref
+  const handleDecodedRef = useRef(handleDecoded);
+  handleDecodedRef.current = handleDecoded;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let isStopped = false;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (isStopped || !video) return;
+
+      try {
+        if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && handleDecodedRef.current(await detectQrCode(video))) {
+          return;
+        }
+      } catch (error) {
+        console.error("Error scanning QR code:", error);
+      }
+      timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (isStopped || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setIsCameraReady(true);
+        scanFrame();
+      } catch (error) {
+        console.error("Error starting camera:", error);
+        setError("Không mở được camera, hãy chọn ảnh mã QR thay thế");
+      }
+    };
+
+    setError(null);
+    startCamera();
+
+    return () => {
+      isStopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      setIsCameraReady(false);
+    };
+  }, [isOpen]);
+
+  const handleFileSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsReadingFile(true);
+    try {
+      const text = await detectQrCodeInFile(file);
+      if (!text) {
+        setError("Không tìm thấy mã QR trong ảnh");
+        return;
+      }
+      handleDecoded(text);
+    } catch (error) {
+      console.error("Error reading QR image:", error);
+      setError("Không thể đọc ảnh mã QR");
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Quét mã VietQR</DialogTitle>
+          <DialogDescription>
+            Quét mã QR nhận tiền trong ứng dụng ngân hàng của bạn để điền số tài khoản chính xác
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            {!isCameraReady && !error && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-white" />
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReadingFile}
+          >
+            {isReadingFile ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ImageUp className="h-4 w-4 mr-2" />}
+            Chọn ảnh mã QR
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
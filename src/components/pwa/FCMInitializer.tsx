@@ -177,6 +177,13 @@ export function FCMInitializer({ pollingInterval = 10000 }: FCMInitializerProps)
       return;
     }
     
+    // Repayment requests can be confirmed or rejected straight from the notification
+    const settlementActions = notification.data?.type === 'settlement_request'
+      ? { actions: [{ action: 'confirm', title: 'Đã nhận' }, { action: 'reject', title: 'Chưa nhận' }] }
+      : {};
+    // Payment reminders show the creditor's VietQR code so the debtor can pay from the notification
+    const reminderImage = notification.data?.qrImageUrl ? { image: notification.data.qrImageUrl } : {};
+    
     try {
       // Use the service worker to show the notification
       navigator.serviceWorker.ready.then(registration => {
@@ -189,11 +196,14 @@ export function FCMInitializer({ pollingInterval = 10000 }: FCMInitializerProps)
           tag: notification.id, // Use ID as tag to prevent duplicates
           renotify: true, // Always notify even if a notification with same tag exists
           requireInteraction: true, // Keep notification visible until user interacts
+          ...settlementActions,
+          ...reminderImage,
           data: {
             url: notification.clickAction || '/',
             notificationId: notification.id,
             fundId: notification.data?.fundId,
-            transactionId: notification.data?.transactionId
+            transactionId: notification.data?.transactionId,
+            type: notification.data?.type
           }
         }).then(() => {
           console.log('Browser notification shown successfully');
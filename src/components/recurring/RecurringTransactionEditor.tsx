@@ -0,0 +1,347 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Fund, RecurringSchedule, RecurringShare, RecurringTransaction, SplitType } from "@/types";
+import { useApp } from "@/context/AppContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { CalendarIcon, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatNumberWithSeparators } from "@/lib/utils";
+import { getFirstOccurrence } from "@/utils/recurringUtils";
+
+export type RecurringTransactionFormData = Pick<
+  RecurringTransaction,
+  "description" | "amount" | "paidBy" | "splitType" | "shares" | "schedule" | "nextDueDate"
+>;
+
+interface RecurringTransactionEditorProps {
+  fund: Fund;
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: RecurringTransactionFormData) => void;
+  recurringTransaction?: RecurringTransaction | null;
+  isSaving?: boolean;
+}
+
+// Descriptions that usually repeat every month
+const RECURRING_DESCRIPTION_PRESETS = ["Tiền thuê nhà", "Tiền điện nước", "Tiền internet", "Tiền gửi xe"];
+
+const DAY_OPTIONS = [
+  { value: 1, label: "Thứ 2" },
+  { value: 2, label: "Thứ 3" },
+  { value: 3, label: "Thứ 4" },
+  { value: 4, label: "Thứ 5" },
+  { value: 5, label: "Thứ 6" },
+  { value: 6, label: "Thứ 7" },
+  { value: 0, label: "Chủ nhật" },
+];
+
+export function RecurringTransactionEditor({
+  fund,
+  open,
+  onClose,
+  onSave,
+  recurringTransaction,
+  isSaving,
+}: RecurringTransactionEditorProps) {
+  const { currentUser, getUserById } = useApp();
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState(0);
+  const [paidBy, setPaidBy] = useState("");
+  const [splitType, setSplitType] = useState<SplitType>(SplitType.EVEN);
+  const [shares, setShares] = useState<RecurringShare[]>([]);
+  const [schedule, setSchedule] = useState<RecurringSchedule>({ frequency: "monthly", dayOfMonth: 1 });
+  const [startDate, setStartDate] = useState<Date>(new Date());
+
+  useEffect(() => {
+    if (open) {
+      setDescription(recurringTransaction?.description || "");
+      setAmount(recurringTransaction?.amount || 0);
+      setPaidBy(recurringTransaction?.paidBy || currentUser?.id || "");
+      setSplitType(recurringTransaction?.splitType || SplitType.EVEN);
+      setShares(recurringTransaction?.shares || fund.members.map(userId => ({ userId, value: 0 })));
+      setSchedule(recurringTransaction?.schedule || { frequency: "monthly", dayOfMonth: new Date().getDate() });
+      setStartDate(new Date(recurringTransaction?.nextDueDate || Date.now()));
+    }
+  }, [open, recurringTransaction, fund.members, currentUser?.id]);
+
+  const isEdit = !!recurringTransaction;
+  const sharesTotal = shares.reduce((sum, share) => sum + share.value, 0);
+
+  const toggleParticipant = (userId: string, checked: boolean) => {
+    setShares(prev => checked
+      ? [...prev, { userId, value: 0 }]
+      : prev.filter(share => share.userId !== userId));
+  };
+
+  const updateShareValue = (userId: string, value: string) => {
+    const parsed = parseFloat(value.replace(/[^\d.]/g, "")) || 0;
+    setShares(prev => prev.map(share => share.userId === userId ? { ...share, value: parsed } : share));
+  };
+
+  const handleSave = () => {
+    if (!description.trim()) {
+      toast.error("Vui lòng nhập mô tả");
+      return;
+    }
+    if (amount <= 0) {
+      toast.error("Số tiền phải lớn hơn 0");
+      return;
+    }
+    if (shares.length === 0) {
+      toast.error("Vui lòng chọn ít nhất một người tham gia");
+      return;
+    }
+    if (splitType === SplitType.CUSTOM && sharesTotal !== amount) {
+      toast.error(`Tổng các phần (${formatNumberWithSeparators(sharesTotal)}) phải bằng số tiền`);
+      return;
+    }
+    if (splitType === SplitType.PERCENTAGE && Math.abs(sharesTotal - 100) > 0.01) {
+      toast.error(`Tổng phần trăm (${sharesTotal}%) phải bằng 100%`);
+      return;
+    }
+    if (splitType === SplitType.SHARES && sharesTotal <= 0) {
+      toast.error("Vui lòng nhập số phần cho ít nhất một người");
+      return;
+    }
+
+    onSave({
+      description: description.trim(),
+      amount,
+      paidBy,
+      splitType,
+      shares,
+      schedule,
+      nextDueDate: getFirstOccurrence(schedule, startDate.getTime()),
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(o) => !o && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-xl flex flex-col p-0">
+        <SheetHeader className="px-6 pt-6 pb-4 border-b">
+          <SheetTitle>{isEdit ? "Chỉnh sửa giao dịch định kỳ" : "Tạo giao dịch định kỳ"}</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          <div className="space-y-2">
+            <Label>Mô tả</Label>
+            <Input
+              placeholder="Tiền thuê nhà..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {RECURRING_DESCRIPTION_PRESETS.map(preset => (
+                <Badge
+                  key={preset}
+                  variant="outline"
+                  className="cursor-pointer hover:bg-secondary"
+                  onClick={() => setDescription(preset)}
+                >
+                  {preset}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Số tiền (VND)</Label>
+              <Input
+                value={amount ? formatNumberWithSeparators(amount) : ""}
+                onChange={(e) => setAmount(parseInt(e.target.value.replace(/[^\d]/g, "")) || 0)}
+                placeholder="0"
+                inputMode="numeric"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Người trả</Label>
+              <Select value={paidBy} onValueChange={setPaidBy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Chọn người trả" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fund.members.map(userId => (
+                    <SelectItem key={userId} value={userId}>
+                      {getUserById(userId).displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Lặp lại</Label>
+              <Select
+                value={schedule.frequency}
+                onValueChange={(frequency: RecurringSchedule["frequency"]) => setSchedule(
+                  frequency === "weekly"
+                    ? { frequency, dayOfWeek: startDate.getDay() }
+                    : frequency === "monthly"
+                      ? { frequency, dayOfMonth: startDate.getDate() }
+                      : { frequency, intervalDays: 30 }
+                )}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Hàng tuần</SelectItem>
+                  <SelectItem value="monthly">Hàng tháng</SelectItem>
+                  <SelectItem value="custom">Tùy chỉnh</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {schedule.frequency === "weekly" && (
+                <>
+                  <Label>Vào</Label>
+                  <Select
+                    value={String(schedule.dayOfWeek ?? 1)}
+                    onValueChange={(value) => setSchedule({ ...schedule, dayOfWeek: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_OPTIONS.map(day => (
+                        <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+              {schedule.frequency === "monthly" && (
+                <>
+                  <Label>Ngày trong tháng</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={schedule.dayOfMonth ?? 1}
+                    onChange={(e) => setSchedule({
+                      ...schedule,
+                      dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)),
+                    })}
+                  />
+                </>
+              )}
+              {schedule.frequency === "custom" && (
+                <>
+                  <Label>Mỗi (ngày)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={schedule.intervalDays ?? 1}
+                    onChange={(e) => setSchedule({
+                      ...schedule,
+                      intervalDays: Math.max(1, parseInt(e.target.value) || 1),
+                    })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{isEdit ? "Lần tiếp theo từ ngày" : "Bắt đầu từ ngày"}</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(startDate, "dd/MM/yyyy")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={startDate}
+                  onSelect={(date) => date && setStartDate(date)}
+                  initialFocus
+                  locale={vi}
+                  className={cn("p-3 pointer-events-auto")}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Chia tiền</Label>
+              <Select value={splitType} onValueChange={(value: SplitType) => setSplitType(value)}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SplitType.EVEN}>Chia đều</SelectItem>
+                  <SelectItem value={SplitType.CUSTOM}>Số tiền cố định</SelectItem>
+                  <SelectItem value={SplitType.PERCENTAGE}>Phần trăm</SelectItem>
+                  <SelectItem value={SplitType.SHARES}>Theo số phần</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 rounded-md border p-3">
+              {fund.members.map(userId => {
+                const share = shares.find(s => s.userId === userId);
+                return (
+                  <div key={userId} className="flex items-center gap-3">
+                    <Checkbox
+                      id={`share-${userId}`}
+                      checked={!!share}
+                      onCheckedChange={(checked) => toggleParticipant(userId, !!checked)}
+                    />
+                    <Label htmlFor={`share-${userId}`} className="flex-1 text-sm font-normal cursor-pointer truncate">
+                      {getUserById(userId).displayName}
+                    </Label>
+                    {share && splitType !== SplitType.EVEN && (
+                      <Input
+                        value={share.value ? (splitType === SplitType.CUSTOM ? formatNumberWithSeparators(share.value) : share.value) : ""}
+                        onChange={(e) => updateShareValue(userId, e.target.value)}
+                        placeholder={splitType === SplitType.PERCENTAGE ? "%" : splitType === SplitType.SHARES ? "Số phần" : "0"}
+                        inputMode="decimal"
+                        className="h-8 w-32 text-right"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {splitType !== SplitType.EVEN && (
+                <div className="text-xs text-right text-muted-foreground">
+                  Tổng: {splitType === SplitType.PERCENTAGE
+                    ? `${sharesTotal}% / 100%`
+                    : splitType === SplitType.SHARES
+                      ? `${sharesTotal} phần`
+                      : `${formatNumberWithSeparators(sharesTotal)} / ${formatNumberWithSeparators(amount)} VND`}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t flex items-center justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            <X className="h-4 w-4 mr-1" />
+            Hủy
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-1" />
+            {isSaving ? "Đang lưu..." : "Lưu"}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
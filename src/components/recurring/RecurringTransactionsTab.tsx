@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { Fund, RecurringTransaction } from "@/types";
+import { useApp } from "@/context/AppContext";
+import {
+  getFundRecurringTransactions,
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  deleteRecurringTransaction,
+  skipRecurringOccurrence,
+  materializeDueRecurringTransactions,
+} from "@/firebase/recurringTransactionService";
+import { RecurringTransactionEditor, RecurringTransactionFormData } from "./RecurringTransactionEditor";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Pencil, Plus, Repeat, SkipForward, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import { describeSchedule, getFirstOccurrence } from "@/utils/recurringUtils";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
+import { canManageFund } from "@/utils/permissionUtils";
+
+interface RecurringTransactionsTabProps {
+  fund: Fund;
+}
+
+/**
+ * Lists a fund's recurring transaction templates and lets members create them and
+ * edit, pause, skip the next occurrence of, or delete their own (owners and admins any)
+ */
+export function RecurringTransactionsTab({ fund }: RecurringTransactionsTabProps) {
+  const { currentUser, getUserById, loadFundTransactions } = useApp();
+  const { role, canContribute, canEditRecurringTransaction } = useFundPermissions(fund);
+  const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTransaction | null>(null);
+
+  const loadRecurringTransactions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const templates = await getFundRecurringTransactions(fund.id);
+      setRecurringTransactions(templates);
+    } catch (error) {
+      console.error("Error loading recurring transactions:", error);
+      toast.error("Không thể tải giao dịch định kỳ");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fund.id]);
+
+  useEffect(() => {
+    loadRecurringTransactions();
+  }, [loadRecurringTransactions]);
+
+  const replaceTemplate = (templateId: string, changes: Partial<RecurringTransaction>) => {
+    setRecurringTransactions(prev =>
+      prev
+        .map(t => t.id === templateId ? { ...t, ...changes, updatedAt: Date.now() } : t)
+        .sort((a, b) => a.nextDueDate - b.nextDueDate)
+    );
+  };
+
+  // A template saved with a past or current start date should show up right away
+  const createDueTransactions = async () => {
+    const createdCount = await materializeDueRecurringTransactions(
+      fund.id,
+      canManageFund(role) ? undefined : currentUser?.id
+    );
+    if (createdCount > 0) {
+      await loadRecurringTransactions();
+      await loadFundTransactions(fund.id);
+      toast.info(`Đã tạo ${createdCount} giao dịch định kỳ`);
+    }
+  };
+
+  const handleSave = async (data: RecurringTransactionFormData) => {
+    if (!currentUser) return;
+    try {
+      setIsSaving(true);
+      if (editingTemplate) {
+        await updateRecurringTransaction(editingTemplate.id, data);
+        replaceTemplate(editingTemplate.id, data);
+        toast.success("Đã cập nhật giao dịch định kỳ!");
+      } else {
+        const newTemplate = await createRecurringTransaction({
+          ...data,
+          fundId: fund.id,
+          isPaused: false,
+          createdBy: currentUser.id,
+        });
+        setRecurringTransactions(prev =>
+          [...prev, newTemplate].sort((a, b) => a.nextDueDate - b.nextDueDate)
+        );
+        toast.success("Đã tạo giao dịch định kỳ!");
+      }
+      setEditorOpen(false);
+      setEditingTemplate(null);
+      await createDueTransactions();
+    } catch (error) {
+      console.error("Error saving recurring transaction:", error);
+      toast.error("Không thể lưu giao dịch định kỳ");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePaused = async (template: RecurringTransaction) => {
+    try {
+      // Resuming starts again from today instead of back-filling the paused period
+      const changes: Partial<RecurringTransaction> = template.isPaused && template.nextDueDate < Date.now()
+        ? { isPaused: false, nextDueDate: getFirstOccurrence(template.schedule, Date.now()) }
+        : { isPaused: !template.isPaused };
+      await updateRecurringTransaction(template.id, changes);
+      replaceTemplate(template.id, changes);
+      toast.success(template.isPaused ? "Đã tiếp tục giao dịch định kỳ" : "Đã tạm dừng giao dịch định kỳ");
+    } catch (error) {
+      console.error("Error pausing recurring transaction:", error);
+      toast.error("Không thể cập nhật giao dịch định kỳ");
+    }
+  };
+
+  const handleSkip = async (template: RecurringTransaction) => {
+    try {
+      const nextDueDate = await skipRecurringOccurrence(template);
+      replaceTemplate(template.id, { nextDueDate });
+      toast.success(`Đã bỏ qua lần ${format(template.nextDueDate, "dd/MM/yyyy")}`);
+    } catch (error) {
+      console.error("Error skipping recurring occurrence:", error);
+      toast.error("Không thể bỏ qua lần này");
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      await deleteRecurringTransaction(templateId);
+      setRecurringTransactions(prev => prev.filter(t => t.id !== templateId));
+      toast.success("Đã xóa giao dịch định kỳ!");
+    } catch (error) {
+      console.error("Error deleting recurring transaction:", error);
+      toast.error("Không thể xóa giao dịch định kỳ");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {recurringTransactions.length} giao dịch định kỳ
+        </p>
+        {canContribute && (
+          <Button
+            size="sm"
+            className="gap-1.5"
+            onClick={() => {
+              setEditingTemplate(null);
+              setEditorOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            Tạo định kỳ
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Đang tải...</span>
+        </div>
+      ) : recurringTransactions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 py-10 text-muted-foreground">
+          <Repeat className="h-8 w-8" />
+          <span className="text-sm">Chưa có giao dịch định kỳ nào (tiền nhà, điện nước, ...)</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {recurringTransactions.map(template => (
+            <Card key={template.id} className={cn(template.isPaused && "opacity-60")}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{template.description}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeSchedule(template.schedule)} · {getUserById(template.paidBy).displayName} trả
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className="font-bold text-blue-700">{formatCurrency(template.amount)}</div>
+                    {template.isPaused ? (
+                      <Badge variant="outline" className="text-[10px]">Tạm dừng</Badge>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">
+                        Lần tới: {format(template.nextDueDate, "dd/MM/yyyy")}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`active-${template.id}`}
+                      checked={!template.isPaused}
+                      onCheckedChange={() => handleTogglePaused(template)}
+                      disabled={!canEditRecurringTransaction(template)}
+                    />
+                    <label htmlFor={`active-${template.id}`} className="text-xs cursor-pointer">
+                      {template.isPaused ? "Đã tạm dừng" : "Đang hoạt động"}
+                    </label>
+                  </div>
+
+                  {canEditRecurringTransaction(template) && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 gap-1 text-xs"
+                        disabled={template.isPaused}
+                        onClick={() => handleSkip(template)}
+                      >
+                        <SkipForward className="h-3.5 w-3.5" />
+                        Bỏ qua lần tới
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => {
+                          setEditingTemplate(template);
+                          setEditorOpen(true);
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-rose-600">
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Xóa giao dịch định kỳ?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{template.description}" sẽ không được tạo tự động nữa. Các giao dịch đã tạo trước đó vẫn được giữ lại.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Hủy</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-rose-600 hover:bg-rose-700"
+                              onClick={() => handleDelete(template.id)}
+                            >
+                              Xóa
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <RecurringTransactionEditor
+        fund={fund}
+        open={editorOpen}
+        onClose={() => {
+          setEditorOpen(false);
+          setEditingTemplate(null);
+        }}
+        onSave={handleSave}
+        recurringTransaction={editingTemplate}
+        isSaving={isSaving}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+
+interface AttachmentGalleryProps {
+  attachments: string[];
+}
+
+/**
+ * Receipt photo thumbnails with a lightbox to view them full size
+ */
+export function AttachmentGallery({ attachments }: AttachmentGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const showPrevious = () => setOpenIndex(index => (index - 1 + attachments.length) % attachments.length);
+  const showNext = () => setOpenIndex(index => (index + 1) % attachments.length);
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((url, index) => (
+          <button
+            key={url}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="h-14 w-14 rounded-md overflow-hidden border border-border/60 hover:ring-2 hover:ring-blue-300 transition-all"
+          >
+            <img src={url} alt={`Ảnh hóa đơn ${index + 1}`} loading="lazy" className="h-full w-full object-cover" />
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-3xl p-2 sm:p-4">
+          <DialogTitle className="text-sm font-medium px-2">
+            Ảnh hóa đơn {openIndex !== null ? openIndex + 1 : ""}/{attachments.length}
+          </DialogTitle>
+
+          {openIndex !== null && (
+            <div className="relative flex items-center justify-center">
+              <img
+                src={attachments[openIndex]}
+                alt={`Ảnh hóa đơn ${openIndex + 1}`}
+                className="max-h-[75vh] w-auto rounded-md object-contain"
+              />
+
+              {attachments.length > 1 && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="absolute left-2 h-8 w-8 rounded-full opacity-80"
+                    onClick={showPrevious}
+                    aria-label="Ảnh trước"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="absolute right-2 h-8 w-8 rounded-full opacity-80"
+                    onClick={showNext}
+                    aria-label="Ảnh sau"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {openIndex !== null && (
+            <a
+              href={attachments[openIndex]}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 hover:underline flex items-center gap-1 px-2"
+            >
+              <ExternalLink className="h-3 w-3" />
+              Mở ảnh gốc
+            </a>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
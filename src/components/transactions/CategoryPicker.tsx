@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TransactionCategory } from "@/types";
+import { cn } from "@/lib/utils";
+import { Plus, Sparkles } from "lucide-react";
+
+interface CategoryPickerProps {
+  categories: TransactionCategory[];
+  value: string;
+  onChange: (category: string) => void;
+  isInferred?: boolean; // The current value was guessed from the description
+  onAddCategory?: (category: TransactionCategory) => Promise<boolean>;
+}
+
+/**
+ * Category chips for the transaction form, with an inline form to add a fund category
+ */
+export function CategoryPicker({
+  categories,
+  value,
+  onChange,
+  isInferred,
+  onAddCategory,
+}: CategoryPickerProps) {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newIcon, setNewIcon] = useState("🏷️");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name || !onAddCategory) return;
+
+    setIsAdding(true);
+    const success = await onAddCategory({ name, icon: newIcon.trim() || "🏷️" });
+    setIsAdding(false);
+
+    if (success) {
+      onChange(name);
+      setNewName("");
+      setNewIcon("🏷️");
+      setIsAddOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Danh mục</Label>
+        {isInferred && value && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Sparkles className="h-3 w-3" />
+            Tự động nhận diện
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {categories.map(category => (
+          <button
+            key={category.name}
+            type="button"
+            onClick={() => onChange(category.name)}
+            className={cn(
+              "text-xs px-2.5 py-1 rounded-full border transition-colors",
+              value === category.name
+                ? "bg-primary text-primary-foreground border-primary"
+                : "hover:bg-accent/50"
+            )}
+          >
+            <span className="mr-1">{category.icon}</span>
+            {category.name}
+          </button>
+        ))}
+
+        {onAddCategory && (
+          <Popover open={isAddOpen} onOpenChange={setIsAddOpen}>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                className="text-xs px-2.5 py-1 rounded-full border border-dashed hover:bg-accent/50 flex items-center gap-1"
+              >
+                <Plus className="h-3 w-3" />
+                Thêm
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-3" align="start">
+              <div className="text-sm font-medium">Danh mục mới của quỹ</div>
+              <div className="flex gap-2">
+                <Input
+                  value={newIcon}
+                  onChange={(e) => setNewIcon(e.target.value)}
+                  className="w-12 text-center px-1"
+                  maxLength={4}
+                />
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Tên danh mục"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAdd();
+                    }
+                  }}
+                />
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                className="w-full"
+                onClick={handleAdd}
+                disabled={!newName.trim() || isAdding}
+              >
+                {isAdding ? "Đang lưu..." : "Thêm danh mục"}
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { useApp } from "@/context/AppContext";
-import { Fund } from "@/types";
+import { Fund, ReceiptItem, SplitType, Transaction, TransactionCategory } from "@/types";
 import { useMemo, useState, useEffect, useRef, ChangeEvent } from "react";
 import { Currency } from "./AmountInput/CurrencySelector";
 import { toast } from "sonner";
@@ -26,6 +26,13 @@ import { FormActionButtons } from "./FormActionButtons";
 
 // Utilities and services
 import { formatNumberWithSeparators } from "@/lib/utils";
+import { getItemsSubtotal, getPrimaryPayerId } from "@/utils/transactionUtils";
+import { getFundCategories } from "@/utils/categoryUtils";
+import { CategoryPicker } from "./CategoryPicker";
+import { ReceiptAttachmentsInput } from "./ReceiptAttachmentsInput";
+import { ReceiptItemsPreview } from "./ReceiptItemsPreview";
+import { parseISO } from "date-fns";
+import { uploadReceiptAttachments, deleteAttachments } from "@/firebase/storageService";
 
 // Re-export types to fix TypeScript errors
 type ValidateFormOptions = { showErrors?: boolean; forceUpdate?: boolean };
@@ -38,7 +45,12 @@ interface CreateTransactionSheetProps {
     description?: string;
     amount?: string;
     paidBy?: string;
+    payers?: { userId: string; amount: number }[];
     splits?: { userId: string; amount: number }[];
+    category?: string;
+    items?: ReceiptItem[]; // Line items read from a bill photo
+    date?: string; // Bill date (YYYY-MM-DD)
+    pendingAttachments?: File[]; // Bill photo to attach to the new transaction
     reasoning?: string;
     aiGenerated?: boolean;
     aiPrompt?: string;
@@ -47,13 +59,16 @@ interface CreateTransactionSheetProps {
   };
   openSheet?: boolean;
   onOpenChange?: (open: boolean) => void;
+  transaction?: Transaction; // When set, the sheet edits this transaction instead of creating one
 }
 
-// No need for timing constants anymore with effect-based architecture
+// Matches the "(10 USD) (Rate: 25.000 VND/USD) " prefix added to foreign currency descriptions
+const CURRENCY_DESCRIPTION_PREFIX = /^\([^)]*\) \(Rate: [^)]*\) /;
 
 /**
  * CreateTransactionSheet component for creating new transactions
- * Supports both manual creation and AI-assisted transaction creation
+ * Supports both manual creation and AI-assisted transaction creation,
+ * and editing an existing transaction when `transaction` is passed
  */
 export function CreateTransactionSheet({
   fund,
@@ -61,20 +76,77 @@ export function CreateTransactionSheet({
   initialData,
   openSheet,
   onOpenChange,
+  transaction,
 }: CreateTransactionSheetProps) {
-  const { currentUser, getUserById, createTransaction } = useApp();
+  const { currentUser, getUserById, createTransaction, updateTransaction, updateFund } = useApp();
+  const isEditing = !!transaction;
 
   // Get user objects for fund members
   const memberUsers = useMemo(() => {
     return fund.members.map(memberId => getUserById(memberId));
   }, [fund.members, getUserById]);
 
+  // Default categories plus the ones this fund added
+  const customCategories = fund.customCategories;
+  const categories = useMemo(() => getFundCategories({ customCategories }), [customCategories]);
+
+  // Pre-populate the form from the transaction being edited
+  const formInitialData = useMemo(() => {
+    if (!transaction) {
+      if (!initialData?.items?.length) return initialData;
+      
+      // Items read from a bill photo are ready for the itemized mode; the gap to the printed total counts as tax
+      const subtotal = getItemsSubtotal(initialData.items);
+      const total = parseFloat(initialData.amount || "") || 0;
+      const canSplitByItem = initialData.items.some(item => item.assignedTo?.length) && total >= subtotal;
+      
+      return {
+        ...initialData,
+        itemCharges: { tax: Math.max(0, total - subtotal), serviceCharge: 0, tip: 0 },
+        ...(canSplitByItem ? { splitType: SplitType.ITEMIZED } : {}),
+      };
+    }
+
+    // Keep every current member in the split list, plus anyone who has since left the fund
+    const memberIds = [...new Set([...fund.members, ...transaction.splits.map(split => split.userId)])];
+    const splits = memberIds.map(userId => ({
+      userId,
+      amount: transaction.splits.find(split => split.userId === userId)?.amount || 0,
+    }));
+
+    return {
+      description: transaction.description,
+      amount: transaction.amount.toString(),
+      paidBy: transaction.paidBy,
+      payers: transaction.payers?.length > 1
+        ? transaction.payers
+        : [{ userId: transaction.paidBy, amount: 0 }],
+      splitType: transaction.splitType || SplitType.CUSTOM,
+      splitWeights: transaction.splitWeights || [],
+      items: transaction.items || [],
+      itemCharges: transaction.itemCharges || { tax: 0, serviceCharge: 0, tip: 0 },
+      category: transaction.category,
+      attachments: transaction.attachments || [],
+      splits,
+    };
+  }, [transaction, initialData, fund.members]);
+
   // Use custom hooks for transaction functionality
   const {
     formData,
     setDescription,
     setAmount,
     setSplits,
+    setPayers,
+    resolvedPayers,
+    setSplitType,
+    handleUpdateWeight,
+    setItems,
+    setItemCharges,
+    setCategory,
+    isCategoryInferred,
+    setAttachments,
+    setPendingAttachments,
     setAiPrompt,
     validationErrors,
     showValidation,
@@ -91,6 +163,7 @@ export function CreateTransactionSheet({
   } = useTransactionForm({
     memberUsers,
     currentUserId: currentUser?.id,
+    categories,
   });
   
   // Initialize splits for all members if empty
@@ -124,8 +197,19 @@ export function CreateTransactionSheet({
         return { userId: memberId, amount };
       });
       
+      setSplitType(SplitType.CUSTOM);
       setSplits(newSplits);
       
+      if (result.category && categories.some(c => c.name === result.category)) {
+        setCategory(result.category);
+      }
+      
+      // Several payers come back with how much each one paid
+      const aiPayers = Object.entries(result.payers || {})
+        .map(([userId, amountStr]) => ({ userId, amount: parseInt(amountStr) || 0 }))
+        .filter(payer => payer.amount > 0);
+      setPayers(aiPayers.length > 1 ? aiPayers : [{ userId: result.payer || currentUser?.id || '', amount: 0 }]);
+      
       // Update the reasoning field in the initialData object if possible
       if (initialData) {
         initialData.reasoning = result.reasoning;
@@ -151,7 +235,7 @@ export function CreateTransactionSheet({
     fund,
     openSheet,
     onOpenChange,
-    initialData,
+    initialData: formInitialData,
     resetForm,
     initializeForm,
     loadUserFunds: () => {}, // Placeholder - this should be implemented
@@ -164,6 +248,7 @@ export function CreateTransactionSheet({
   // References to prevent circular updates
   const descriptionInputRef = useRef<HTMLInputElement>(null);
   const [showDescriptionPresets, setShowDescriptionPresets] = useState(false);
+  const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
 
   // Debug effect to log state changes
   useEffect(() => {
@@ -207,7 +292,7 @@ export function CreateTransactionSheet({
   // Using saveEditingSplit from useTransactionSheet hook
 
   // Using cancelEditingSplit from useTransactionSheet hook
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Force validation with errors shown
@@ -243,20 +328,97 @@ export function CreateTransactionSheet({
     let finalDescription = formData.description || "Giao dịch mới";
     if (isForeignCurrency && formData.convertedAmount && totalAmount > 0) {
       const rate = Math.round(formData.convertedAmount / totalAmount);
-      finalDescription = `(${totalAmount} ${formData.currency.code}) (Rate: ${formatNumberWithSeparators(rate)} VND/${formData.currency.code}) ${finalDescription}`;
+      // Drop the previous currency prefix so edits don't stack them
+      const baseDescription = finalDescription.replace(CURRENCY_DESCRIPTION_PREFIX, "");
+      finalDescription = `(${totalAmount} ${formData.currency.code}) (Rate: ${formatNumberWithSeparators(rate)} VND/${formData.currency.code}) ${baseDescription}`;
+    }
+    
+    // The largest contributor stays the primary payer for older clients that only read paidBy
+    const paidBy = getPrimaryPayerId(resolvedPayers) || currentUser.id;
+    const hasMultiplePayers = resolvedPayers.length > 1;
+    const isWeightedSplit = formData.splitType === SplitType.PERCENTAGE || formData.splitType === SplitType.SHARES;
+    const isItemizedSplit = formData.splitType === SplitType.ITEMIZED;
+    
+    // Upload the new receipt photos before saving so the transaction only references stored files
+    let uploadedAttachments: string[] = [];
+    if (formData.pendingAttachments.length > 0) {
+      try {
+        setIsUploadingAttachments(true);
+        uploadedAttachments = await uploadReceiptAttachments(fund.id, formData.pendingAttachments);
+      } catch (error) {
+        toast.error("Không thể tải ảnh hóa đơn lên");
+        return;
+      } finally {
+        setIsUploadingAttachments(false);
+      }
+    }
+    const attachments = [...formData.attachments, ...uploadedAttachments];
+    
+    if (transaction) {
+      // The form edits the VND amount; keep the original currency data if it was left untouched
+      const keepCurrency = !isForeignCurrency && finalAmount === transaction.amount;
+      // A changed VND amount drops the currency data, so its "(10 USD) (Rate: ...)" prefix goes too
+      const editedDescription = keepCurrency || isForeignCurrency
+        ? finalDescription
+        : finalDescription.replace(CURRENCY_DESCRIPTION_PREFIX, "");
+      
+      // Photos removed in the form are deleted from storage once the edit is saved
+      const removedAttachments = (transaction.attachments || []).filter(url => !attachments.includes(url));
+      
+      updateTransaction(transaction.id, {
+        description: editedDescription,
+        amount: finalAmount,
+        paidBy,
+        payers: hasMultiplePayers ? resolvedPayers : null,
+        splits: formData.splits,
+        splitType: isWeightedSplit || isItemizedSplit ? formData.splitType : null,
+        splitWeights: isWeightedSplit ? formData.splitWeights : null,
+        items: isItemizedSplit ? formData.items : null,
+        itemCharges: isItemizedSplit ? formData.itemCharges : null,
+        category: formData.category || null,
+        attachments: attachments.length > 0 ? attachments : null,
+        currencyCode: keepCurrency ? transaction.currencyCode : formData.currency?.code,
+        originalAmount: keepCurrency ? transaction.originalAmount : (isForeignCurrency ? totalAmount : null),
+        exchangeRate: keepCurrency
+          ? transaction.exchangeRate
+          : (isForeignCurrency && formData.convertedAmount ? formData.convertedAmount / totalAmount : null),
+      }).then(success => {
+        if (success && removedAttachments.length > 0) {
+          deleteAttachments(removedAttachments);
+        } else if (!success && uploadedAttachments.length > 0) {
+          deleteAttachments(uploadedAttachments);
+        }
+      });
+      
+      handleSheetOpenChange(false);
+      resetForm();
+      return;
     }
       
     createTransaction({
       fundId: fund.id,
       description: finalDescription,
       amount: finalAmount,
-      paidBy: currentUser.id,
+      paidBy,
+      payers: hasMultiplePayers ? resolvedPayers : undefined,
       splits: formData.splits,
+      splitType: isWeightedSplit || isItemizedSplit ? formData.splitType : undefined,
+      splitWeights: isWeightedSplit ? formData.splitWeights : undefined,
+      items: isItemizedSplit ? formData.items : undefined,
+      itemCharges: isItemizedSplit ? formData.itemCharges : undefined,
+      category: formData.category || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      date: initialData?.date ? parseISO(initialData.date).getTime() : undefined,
       currencyCode: formData.currency?.code,
       originalAmount: isForeignCurrency ? totalAmount : undefined,
       exchangeRate: isForeignCurrency && formData.convertedAmount ? 
         formData.convertedAmount / totalAmount : 
         undefined
+    }).then(newTransaction => {
+      // Don't leave orphaned photos behind when saving failed
+      if (!newTransaction && uploadedAttachments.length > 0) {
+        deleteAttachments(uploadedAttachments);
+      }
     });
     
     // Close the sheet
@@ -266,6 +428,22 @@ export function CreateTransactionSheet({
     resetForm();
   };
 
+  // Add a custom category to the fund so everyone can use it
+  const handleAddCategory = async (category: TransactionCategory): Promise<boolean> => {
+    if (categories.some(c => c.name.toLowerCase() === category.name.toLowerCase())) {
+      toast.error("Danh mục này đã tồn tại");
+      return false;
+    }
+    
+    const success = await updateFund(fund.id, {
+      customCategories: [...(fund.customCategories || []), category],
+    });
+    if (success) {
+      toast.success(`Đã thêm danh mục "${category.name}"`);
+    }
+    return success;
+  };
+
   // Using formatCurrency from transactionUtils
 
   return (
@@ -278,7 +456,7 @@ export function CreateTransactionSheet({
         {children}
       </SheetTrigger>
       <SheetContent className="w-full sm:max-w-md flex flex-col h-[100dvh] p-0 overflow-hidden border-l-0 sm:border-l">
-        <TransactionSheetHeader fundName={fund.name} />
+        <TransactionSheetHeader fundName={fund.name} isEditing={isEditing} />
         
         <form onSubmit={handleSubmit} className="flex flex-col h-full">
           <div className="flex-1 overflow-y-auto px-6 py-6 space-y-8 transaction-form-content" style={{ maxHeight: 'calc(100vh - 180px)', paddingBottom: '120px' }}>
@@ -304,6 +482,22 @@ export function CreateTransactionSheet({
               onCurrencyChange={onCurrencyChangeHandler}
             />
             
+            <CategoryPicker
+              categories={categories}
+              value={formData.category}
+              onChange={setCategory}
+              isInferred={isCategoryInferred}
+              onAddCategory={handleAddCategory}
+            />
+            
+            <ReceiptAttachmentsInput
+              attachments={formData.attachments}
+              setAttachments={setAttachments}
+              pendingAttachments={formData.pendingAttachments}
+              setPendingAttachments={setPendingAttachments}
+              disabled={isUploadingAttachments}
+            />
+            
             <SplitSection 
               memberUsers={memberUsers}
               splits={formData.splits}
@@ -313,8 +507,27 @@ export function CreateTransactionSheet({
               currentUserId={currentUser?.id}
               currency={formData.currency}
               convertedAmount={formData.convertedAmount}
+              payers={formData.payers}
+              setPayers={setPayers}
+              resolvedPayers={resolvedPayers}
+              splitType={formData.splitType}
+              setSplitType={setSplitType}
+              splitWeights={formData.splitWeights}
+              handleUpdateWeight={handleUpdateWeight}
+              items={formData.items}
+              setItems={setItems}
+              itemCharges={formData.itemCharges}
+              setItemCharges={setItemCharges}
             />
             
+            {formData.splitType !== SplitType.ITEMIZED && (
+              <ReceiptItemsPreview
+                items={initialData?.items}
+                date={initialData?.date}
+                totalAmount={parseFloat(formData.amount) || 0}
+              />
+            )}
+            
             <AIReasoningSection 
               reasoning={initialData?.reasoning}
               aiPrompt={initialData?.aiPrompt}
@@ -329,6 +542,8 @@ export function CreateTransactionSheet({
             amount={formData.amount}
             validateForm={validateForm}
             handleSheetOpenChange={handleSheetOpenChange}
+            submitLabel={isEditing ? "Lưu thay đổi" : "Thêm giao dịch"}
+            isSubmitting={isUploadingAttachments}
           />
         </form>
       </SheetContent>
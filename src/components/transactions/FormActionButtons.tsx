@@ -4,12 +4,16 @@ interface FormActionButtonsProps {
   amount: string;
   validateForm: (options: { showErrors: boolean, forceUpdate: boolean }) => boolean;
   handleSheetOpenChange: (open: boolean) => void;
+  submitLabel?: string;
+  isSubmitting?: boolean; // Receipt photos are still uploading
 }
 
 export function FormActionButtons({
   amount,
   validateForm,
-  handleSheetOpenChange
+  handleSheetOpenChange,
+  submitLabel = "Thêm giao dịch",
+  isSubmitting = false
 }: FormActionButtonsProps) {
   const isAmountValid = !!amount && parseInt(amount) > 0;
   
@@ -45,10 +49,10 @@ export function FormActionButtons({
         </Button>
         <Button 
           type="submit" 
-          disabled={!isAmountValid} 
+          disabled={!isAmountValid || isSubmitting} 
           className="flex-1 h-12"
         >
-          Thêm giao dịch
+          {isSubmitting ? "Đang tải ảnh..." : submitLabel}
         </Button>
       </div>
     </div>
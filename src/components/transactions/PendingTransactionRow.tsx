@@ -0,0 +1,101 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/context/AppContext";
+import { PendingTransaction } from "@/types";
+import { cn } from "@/lib/utils";
+import { formatCurrency, getTransactionPayers } from "@/utils/transactionUtils";
+import { format } from "date-fns";
+import { AlertTriangle, CloudOff, RefreshCw, Trash2, User } from "lucide-react";
+
+interface PendingTransactionRowProps {
+  pending: PendingTransaction;
+}
+
+/**
+ * A transaction entered offline that is still in the outbox.
+ * Conflicting entries can be retried or discarded.
+ */
+export function PendingTransactionRow({ pending }: PendingTransactionRowProps) {
+  const { getUserById, syncPendingTransactions, discardPendingTransaction } = useApp();
+  const { transaction } = pending;
+  const payer = getUserById(transaction.paidBy);
+  const payerIds = getTransactionPayers(transaction).map(p => p.userId);
+
+  return (
+    <div
+      className={cn(
+        "p-4 rounded-lg mb-3 border border-dashed",
+        pending.conflict ? "border-amber-300 bg-amber-50/60" : "border-border bg-muted/40"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <Avatar className="h-10 w-10 opacity-70">
+          <AvatarImage src={payer?.photoURL} alt={payer?.displayName} />
+          <AvatarFallback>
+            <User className="h-4 w-4" />
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-sm break-words">{transaction.description}</div>
+          <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-1 mt-1">
+            <span className="font-medium">
+              {payerIds.map(userId => getUserById(userId).displayName).join(", ")}
+            </span>
+            <span>đã trả</span>
+            <span className="font-medium">{formatCurrency(transaction.amount)}</span>
+            <span>· {format(transaction.date || pending.queuedAt, "dd/MM/yyyy")}</span>
+          </div>
+
+          {pending.conflict ? (
+            <div className="mt-2 flex items-center gap-1.5 text-xs text-amber-700">
+              <AlertTriangle className="h-3 w-3" />
+              <span>Xung đột: {pending.conflict}</span>
+            </div>
+          ) : pending.attempts > 0 && (
+            <div className="mt-2 text-xs text-muted-foreground">
+              Đã thử đồng bộ {pending.attempts} lần
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-2">
+          <Badge
+            variant="outline"
+            className={cn(
+              "text-[11px] whitespace-nowrap",
+              pending.conflict ? "bg-amber-100 text-amber-800 border-amber-300" : "bg-secondary text-muted-foreground"
+            )}
+          >
+            <CloudOff className="h-3 w-3 mr-1" />
+            {pending.conflict ? "Cần xử lý" : "Đang chờ đồng bộ"}
+          </Badge>
+
+          {pending.conflict && (
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2 text-xs"
+                onClick={() => syncPendingTransactions(true)}
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Thử lại
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                onClick={() => discardPendingTransaction(pending.id)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Bỏ
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -333,7 +333,7 @@ export function PersonalTransactionList({ fund, searchQuery = "", dateRange }: P
                                         {activeTab === "owed" ? "Người nợ:" : "Chủ nợ:"}
                                       </span> {relevantUsers}
                                     </div>
-                                    <TransactionRow transaction={transaction} />
+                                    <TransactionRow transaction={transaction} fund={fund} />
                                   </motion.div>
                                 );
                               })}
@@ -0,0 +1,114 @@
+import { ChangeEvent, useEffect, useMemo, useRef } from "react";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Camera, X } from "lucide-react";
+
+// Keep the form and the row thumbnails manageable
+export const MAX_ATTACHMENTS = 5;
+
+interface ReceiptAttachmentsInputProps {
+  attachments: string[];
+  setAttachments: (attachments: string[]) => void;
+  pendingAttachments: File[];
+  setPendingAttachments: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Receipt photo picker for the transaction form.
+ * Shows photos already saved on the transaction and the new ones waiting to be uploaded.
+ */
+export function ReceiptAttachmentsInput({
+  attachments,
+  setAttachments,
+  pendingAttachments,
+  setPendingAttachments,
+  disabled,
+}: ReceiptAttachmentsInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const totalCount = attachments.length + pendingAttachments.length;
+
+  // Local previews for photos that are not uploaded yet
+  const pendingPreviews = useMemo(
+    () => pendingAttachments.map(file => URL.createObjectURL(file)),
+    [pendingAttachments]
+  );
+
+  useEffect(() => {
+    return () => pendingPreviews.forEach(url => URL.revokeObjectURL(url));
+  }, [pendingPreviews]);
+
+  const handleFilesSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(file => file.type.startsWith("image/"));
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const remaining = MAX_ATTACHMENTS - totalCount;
+    if (files.length > remaining) {
+      toast.warning(`Chỉ có thể đính kèm tối đa ${MAX_ATTACHMENTS} ảnh`);
+    }
+    setPendingAttachments([...pendingAttachments, ...files.slice(0, Math.max(0, remaining))]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Ảnh hóa đơn</Label>
+        <span className="text-xs text-muted-foreground">{totalCount}/{MAX_ATTACHMENTS}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(url => (
+          <div key={url} className="relative h-16 w-16 rounded-md overflow-hidden border">
+            <img src={url} alt="Ảnh hóa đơn" className="h-full w-full object-cover" />
+            <button
+              type="button"
+              onClick={() => setAttachments(attachments.filter(item => item !== url))}
+              className="absolute top-0.5 right-0.5 rounded-full bg-black/60 text-white p-0.5"
+              aria-label="Xóa ảnh"
+              disabled={disabled}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {pendingPreviews.map((previewUrl, index) => (
+          <div key={previewUrl} className="relative h-16 w-16 rounded-md overflow-hidden border border-dashed border-blue-300">
+            <img src={previewUrl} alt="Ảnh hóa đơn mới" className="h-full w-full object-cover" />
+            <button
+              type="button"
+              onClick={() => setPendingAttachments(pendingAttachments.filter((_, i) => i !== index))}
+              className="absolute top-0.5 right-0.5 rounded-full bg-black/60 text-white p-0.5"
+              aria-label="Xóa ảnh"
+              disabled={disabled}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {totalCount < MAX_ATTACHMENTS && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-16 w-16 rounded-md border border-dashed flex flex-col items-center justify-center gap-1 text-muted-foreground hover:bg-accent/50 text-[10px]"
+            disabled={disabled}
+          >
+            <Camera className="h-4 w-4" />
+            Thêm ảnh
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={handleFilesSelected}
+      />
+    </div>
+  );
+}
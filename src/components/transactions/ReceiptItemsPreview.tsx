@@ -0,0 +1,75 @@
+import { ItemizedCharges, ReceiptItem } from "@/types";
+import { formatCurrency, getItemsSubtotal } from "@/utils/transactionUtils";
+import { format, parseISO } from "date-fns";
+import { ReceiptText } from "lucide-react";
+
+interface ReceiptItemsPreviewProps {
+  items?: ReceiptItem[];
+  date?: string; // YYYY-MM-DD read from the bill
+  totalAmount?: number;
+  charges?: ItemizedCharges; // Tax, service charge and tip of an itemized split
+  getUserName?: (userId: string) => string; // Shows who shares each item when provided
+}
+
+/**
+ * Read-only list of bill line items: the ones read from a photo, so they can be checked
+ * against the receipt, or the items behind an itemized split
+ */
+export function ReceiptItemsPreview({ items, date, totalAmount, charges, getUserName }: ReceiptItemsPreviewProps) {
+  if (!items?.length && !date) return null;
+
+  const itemsTotal = getItemsSubtotal(items || []);
+  // Tax, service charge or discounts printed below the items
+  const adjustment = totalAmount ? totalAmount - itemsTotal : 0;
+  const chargeRows = charges
+    ? [
+        { label: "Thuế (VAT)", amount: charges.tax },
+        { label: "Phí dịch vụ", amount: charges.serviceCharge },
+        { label: "Tiền tip", amount: charges.tip },
+      ].filter(row => row.amount > 0)
+    : [{ label: adjustment > 0 ? "Thuế / phí dịch vụ" : "Giảm giá", amount: adjustment }]
+      .filter(row => itemsTotal > 0 && Math.abs(row.amount) >= 1);
+
+  return (
+    <div className="p-3 bg-muted/50 border rounded-md space-y-2">
+      <div className="flex items-center justify-between text-sm font-medium">
+        <span className="flex items-center gap-1.5">
+          <ReceiptText className="h-4 w-4" />
+          Chi tiết hóa đơn
+        </span>
+        {date && (
+          <span className="text-xs text-muted-foreground font-normal">
+            {format(parseISO(date), "dd/MM/yyyy")}
+          </span>
+        )}
+      </div>
+
+      {items && items.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {items.map((item, index) => (
+            <div key={`${item.name}-${index}`} className="flex justify-between gap-2">
+              <span className="min-w-0">
+                <span className="block truncate">
+                  {item.quantity > 1 && <span className="text-muted-foreground">{item.quantity} × </span>}
+                  {item.name}
+                </span>
+                {getUserName && item.assignedTo?.length > 0 && (
+                  <span className="block text-[11px] text-muted-foreground truncate">
+                    {item.assignedTo.map(getUserName).join(", ")}
+                  </span>
+                )}
+              </span>
+              <span className="font-medium whitespace-nowrap">{formatCurrency(item.price * item.quantity)}</span>
+            </div>
+          ))}
+          {chargeRows.map((row, index) => (
+            <div key={row.label} className={`flex justify-between gap-2 text-muted-foreground ${index === 0 ? "border-t pt-1" : ""}`}>
+              <span>{row.label}</span>
+              <span className="whitespace-nowrap">{formatCurrency(row.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { useApp } from "@/context/AppContext";
 import { Fund, User } from "@/types";
@@ -19,21 +19,37 @@ import { ArrowDownIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { QRCodeDisplay } from "@/components/profile/QRCodeDisplay";
 import { BankDeepLinkButton } from "@/components/profile/BankDeepLinkButton";
+import { REPAYMENT_CATEGORY } from "@/constants/categoryConstants";
+import { PAYOUT_METHOD_TYPE_LABELS } from "@/constants/payoutConstants";
+import { getPayoutMethodForFund, getPayoutMethods } from "@/utils/payoutUtils";
+import { getSettlementConfirmationFields } from "@/utils/settlementUtils";
 
 interface ReturnMoneyButtonProps {
   fund: Fund;
   trigger?: React.ReactNode;
   fundBalanceData?: { userId: string; amount: number }[];
+  initialRecipientId?: string; // Pre-select this recipient when the sheet opens
+  initialAmount?: number; // Pre-fill this amount when the sheet opens
+  defaultOpen?: boolean; // Open the sheet as soon as it mounts
 }
 
-export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<ReturnMoneyButtonProps>) {
+export function ReturnMoneyButton({
+  fund,
+  trigger,
+  fundBalanceData,
+  initialRecipientId,
+  initialAmount,
+  defaultOpen = false,
+}: Readonly<ReturnMoneyButtonProps>) {
   const { createTransaction, currentUser, getUserById, calculateBalances } = useApp();
-  const [isOpen, setIsOpen] = useState(false);
+  const [isOpen, setIsOpen] = useState(defaultOpen);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [amount, setAmount] = useState("");
   const [balances, setBalances] = useState<{ userId: string; amount: number }[]>([]);
   const [currentUserBalance, setCurrentUserBalance] = useState<number>(0);
   const [showQRCode, setShowQRCode] = useState(false);
+  // Account the recipient chose for this fund, or their default one
+  const payoutMethod = getPayoutMethodForFund(selectedUser, fund.id);
 
   // Convert member IDs to user objects (synchronously now that users are preloaded)
   const memberUsers = fund.members
@@ -52,6 +68,22 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
     }
   }, [fund.id, currentUser, calculateBalances, fundBalanceData]);
 
+  // getUserById changes on every render; the prefill below only needs its latest version
+  const getUserByIdRef = useRef(getUserById);
+  getUserByIdRef.current = getUserById;
+
+  // Apply pre-filled recipient and amount each time the sheet opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (initialRecipientId) {
+      setSelectedUser(getUserByIdRef.current(initialRecipientId));
+    }
+    if (initialAmount && initialAmount > 0) {
+      setAmount(Math.round(initialAmount).toString());
+    }
+  }, [isOpen, initialRecipientId, initialAmount]);
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let value = e.target.value;
     // Remove all non-digit characters
@@ -105,6 +137,8 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
       },
     ];
 
+    const confirmationFields = getSettlementConfirmationFields(selectedUser.id, currentUser.id);
+
     try {
       await createTransaction({
         fundId: fund.id,
@@ -112,9 +146,15 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
         amount: totalAmount,
         paidBy: currentUser.id,
         splits,
+        category: REPAYMENT_CATEGORY,
+        ...confirmationFields,
       });
 
-      toast.success(`Đã trả ${formatNumberWithSeparators(amount)} VND cho ${selectedUser.displayName}`);
+      toast.success(
+        confirmationFields.settlementStatus
+          ? `Đã trả ${formatNumberWithSeparators(amount)} VND, chờ ${selectedUser.displayName} xác nhận`
+          : `Đã trả ${formatNumberWithSeparators(amount)} VND cho ${selectedUser.displayName}`
+      );
       setIsOpen(false);
       setSelectedUser(null);
       setAmount("");
@@ -203,7 +243,7 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
                         {formatNumberWithSeparators(Math.abs(balanceAmount))} {balanceAmount >= 0 ? '+' : '-'}
                       </span>
                     </div>
-                    {user.bankAccount && (
+                    {getPayoutMethods(user).length > 0 && (
                       <div className="absolute -top-1 -right-1 w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center">
                         <span className="text-[8px] text-white">₫</span>
                       </div>
@@ -380,22 +420,22 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
               </div>
 
               {/* Bank Account Information Display */}
-              {selectedUser.bankAccount && (
+              {payoutMethod && (
                 <div className="pt-3 border-t space-y-3">
                   <h4 className="font-medium text-sm">Thông tin chuyển khoản:</h4>
                   <div className="bg-white p-3 rounded-lg border space-y-2">
                     <div className="flex justify-between items-center">
-                      <span className="text-sm font-medium">Ngân hàng:</span>
-                      <span className="text-sm">{selectedUser.bankAccount.bankName}</span>
+                      <span className="text-sm font-medium">{payoutMethod.bankName ? "Ngân hàng:" : "Ví điện tử:"}</span>
+                      <span className="text-sm">{payoutMethod.bankName || PAYOUT_METHOD_TYPE_LABELS[payoutMethod.type]}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-sm font-medium">Số TK:</span>
-                      <span className="text-sm font-mono">{selectedUser.bankAccount.accountNumber}</span>
+                      <span className="text-sm font-medium">{payoutMethod.bankName ? "Số TK:" : "SĐT:"}</span>
+                      <span className="text-sm font-mono">{payoutMethod.accountNumber}</span>
                     </div>
-                    {selectedUser.bankAccount.accountName && (
+                    {payoutMethod.accountName && (
                       <div className="flex justify-between items-center">
                         <span className="text-sm font-medium">Tên TK:</span>
-                        <span className="text-sm">{selectedUser.bankAccount.accountName}</span>
+                        <span className="text-sm">{payoutMethod.accountName}</span>
                       </div>
                     )}
                   </div>
@@ -403,7 +443,7 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
               )}
 
               {/* QR Code button if user has bank account */}
-              {selectedUser.bankAccount && (
+              {payoutMethod && (
                 <div className="pt-2">
                   <Button 
                     variant="outline" 
@@ -422,7 +462,7 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
                   </Button>
 
                   {/* Bank Deep Link Button */}
-                  <BankDeepLinkButton />
+                  <BankDeepLinkButton fundId={fund.id} />
                 </div>
               )}
             </div>
@@ -446,9 +486,10 @@ export function ReturnMoneyButton({ fund, trigger, fundBalanceData }: Readonly<R
       </SheetContent>
 
       {/* QR Code Dialog */}
-      {selectedUser?.bankAccount && (
+      {payoutMethod && (
         <QRCodeDisplay
           user={selectedUser}
+          payoutMethod={payoutMethod}
           amount={parseInt(amount) || undefined}
           description={`Trả tiền cho ${selectedUser.displayName}`}
           isOpen={showQRCode}
@@ -0,0 +1,191 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn, formatNumberWithSeparators } from "@/lib/utils";
+import { formatCurrency, getItemChargesTotal, getItemsSubtotal } from "@/utils/transactionUtils";
+import { ItemizedCharges, ReceiptItem } from "@/types";
+import { PlusIcon, Trash2 } from "lucide-react";
+
+interface User {
+  id: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+interface ItemizedSplitListProps {
+  memberUsers: User[];
+  items: ReceiptItem[];
+  setItems: (items: ReceiptItem[]) => void;
+  itemCharges: ItemizedCharges;
+  setItemCharges: (charges: ItemizedCharges) => void;
+  splits: { userId: string; amount: number }[];
+}
+
+const CHARGE_FIELDS: { key: keyof ItemizedCharges; label: string }[] = [
+  { key: "tax", label: "Thuế (VAT)" },
+  { key: "serviceCharge", label: "Phí dịch vụ" },
+  { key: "tip", label: "Tiền tip" },
+];
+
+const parseAmount = (value: string): number => parseInt(value.replace(/[^\d]/g, "")) || 0;
+
+/**
+ * Line item editor for itemized bills.
+ * Each item is assigned to one or more members; shared items are split among their assignees
+ * and tax, service charge and tip are shared in proportion to what each member ordered.
+ */
+export function ItemizedSplitList({
+  memberUsers,
+  items,
+  setItems,
+  itemCharges,
+  setItemCharges,
+  splits,
+}: ItemizedSplitListProps) {
+  const subtotal = getItemsSubtotal(items);
+  const chargesTotal = getItemChargesTotal(itemCharges);
+
+  const updateItem = (index: number, changes: Partial<ReceiptItem>) => {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const toggleAssignee = (index: number, userId: string) => {
+    const assignedTo = items[index].assignedTo || [];
+    updateItem(index, {
+      assignedTo: assignedTo.includes(userId)
+        ? assignedTo.filter(id => id !== userId)
+        : [...assignedTo, userId],
+    });
+  };
+
+  const addItem = () => {
+    setItems([...items, { name: "", price: 0, quantity: 1, assignedTo: [] }]);
+  };
+
+  return (
+    <div className="space-y-3 max-h-[45vh] overflow-y-auto pr-1 pb-6 pt-2">
+      {items.map((item, index) => {
+        const assignedTo = item.assignedTo || [];
+        const allAssigned = memberUsers.every(member => assignedTo.includes(member.id));
+
+        return (
+          <div key={index} className="p-3 rounded-lg border border-border/40 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={item.name}
+                onChange={(e) => updateItem(index, { name: e.target.value })}
+                placeholder={`Món ${index + 1}`}
+                className="h-8 flex-1"
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-rose-500 hover:text-rose-600"
+                onClick={() => setItems(items.filter((_, i) => i !== index))}
+                aria-label="Xóa món"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+              <Input
+                value={item.price ? formatNumberWithSeparators(item.price) : ""}
+                onChange={(e) => updateItem(index, { price: parseAmount(e.target.value) })}
+                placeholder="Đơn giá"
+                inputMode="numeric"
+                className="h-8 flex-1 text-right"
+              />
+              <span className="text-muted-foreground">×</span>
+              <Input
+                value={item.quantity || ""}
+                onChange={(e) => updateItem(index, { quantity: parseAmount(e.target.value) })}
+                placeholder="SL"
+                inputMode="numeric"
+                className="h-8 w-14 text-center"
+              />
+              <span className="w-24 text-right font-medium">{formatCurrency(item.price * item.quantity)}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              <button
+                type="button"
+                onClick={() => updateItem(index, { assignedTo: allAssigned ? [] : memberUsers.map(member => member.id) })}
+                className={cn(
+                  "text-xs px-2 py-0.5 rounded-full border transition-colors",
+                  allAssigned ? "bg-primary text-primary-foreground border-primary" : "hover:bg-accent/50"
+                )}
+              >
+                Tất cả
+              </button>
+              {memberUsers.map(member => (
+                <button
+                  key={member.id}
+                  type="button"
+                  onClick={() => toggleAssignee(index, member.id)}
+                  className={cn(
+                    "flex items-center gap-1 text-xs pl-0.5 pr-2 py-0.5 rounded-full border transition-colors",
+                    assignedTo.includes(member.id)
+                      ? "bg-blue-100 text-blue-800 border-blue-300"
+                      : "text-muted-foreground hover:bg-accent/50"
+                  )}
+                >
+                  <Avatar className="h-4 w-4">
+                    <AvatarImage src={member.photoURL} alt={member.displayName} />
+                    <AvatarFallback className="text-[8px]">{member.displayName.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  {member.displayName.split(" ").pop()}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" className="w-full gap-1" onClick={addItem}>
+        <PlusIcon className="h-4 w-4" />
+        Thêm món
+      </Button>
+
+      <div className="space-y-2 rounded-md border p-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Tiền món</span>
+          <span className="font-medium">{formatCurrency(subtotal)}</span>
+        </div>
+        {CHARGE_FIELDS.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <Input
+              value={itemCharges[key] ? formatNumberWithSeparators(itemCharges[key]) : ""}
+              onChange={(e) => setItemCharges({ ...itemCharges, [key]: parseAmount(e.target.value) })}
+              placeholder="0"
+              inputMode="numeric"
+              className="h-8 w-32 text-right"
+            />
+          </div>
+        ))}
+        <div className="flex justify-between text-sm font-semibold border-t pt-2">
+          <span>Tổng hóa đơn</span>
+          <span>{formatCurrency(subtotal + chargesTotal)}</span>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {memberUsers.map(member => {
+          const splitAmount = splits.find(split => split.userId === member.id)?.amount || 0;
+          if (!splitAmount) return null;
+
+          return (
+            <div key={member.id} className="flex justify-between text-xs">
+              <span>{member.displayName}</span>
+              <span className={cn("font-medium", splitAmount > 0 ? "text-emerald-600" : "text-rose-600")}>
+                {formatCurrency(splitAmount)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
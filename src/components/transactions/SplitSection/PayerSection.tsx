@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatNumberWithSeparators } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+
+interface User {
+  id: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+interface PayerSectionProps {
+  memberUsers: User[];
+  payers: { userId: string; amount: number }[];
+  setPayers: (payers: { userId: string; amount: number }[]) => void;
+  totalAmount: number; // Total in VND the payers must cover
+  currentUserId?: string;
+}
+
+/**
+ * Lets the user pick who paid: a single payer, or several payers with their own amounts
+ */
+export function PayerSection({
+  memberUsers,
+  payers,
+  setPayers,
+  totalAmount,
+  currentUserId,
+}: PayerSectionProps) {
+  const [isMultiPayer, setIsMultiPayer] = useState(payers.length > 1);
+
+  // Switch to multi-payer mode when the form is pre-filled with several payers
+  useEffect(() => {
+    if (payers.length > 1) {
+      setIsMultiPayer(true);
+    }
+  }, [payers.length]);
+
+  const singlePayerId = payers[0]?.userId || currentUserId || "";
+  const totalPaid = payers.reduce((sum, payer) => sum + payer.amount, 0);
+  const remaining = totalAmount - totalPaid;
+
+  const toggleMultiPayer = (checked: boolean) => {
+    setIsMultiPayer(checked);
+    // Start from the current single payer covering the whole amount, or collapse back to them
+    setPayers([{ userId: singlePayerId, amount: checked ? totalAmount : 0 }]);
+  };
+
+  const handlePayerAmountChange = (userId: string, value: string) => {
+    const amount = parseInt(value.replace(/[^\d]/g, "")) || 0;
+    const others = payers.filter(payer => payer.userId !== userId);
+    setPayers(amount > 0 ? [...others, { userId, amount }] : others);
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <div className="text-sm font-medium">Người trả</div>
+        <div className="flex items-center space-x-2">
+          <Switch id="multi-payer" checked={isMultiPayer} onCheckedChange={toggleMultiPayer} />
+          <Label htmlFor="multi-payer" className="text-xs cursor-pointer">Nhiều người trả</Label>
+        </div>
+      </div>
+
+      {!isMultiPayer ? (
+        <Select value={singlePayerId} onValueChange={(userId) => setPayers([{ userId, amount: 0 }])}>
+          <SelectTrigger className="h-10">
+            <SelectValue placeholder="Chọn người trả" />
+          </SelectTrigger>
+          <SelectContent>
+            {memberUsers.map(member => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.displayName}
+                {member.id === currentUserId && " (Tôi)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <div className="space-y-2 rounded-md border p-2">
+          {memberUsers.map(member => {
+            const payerAmount = payers.find(payer => payer.userId === member.id)?.amount || 0;
+
+            return (
+              <div key={member.id} className="flex items-center gap-2">
+                <Avatar className="h-7 w-7">
+                  <AvatarImage src={member.photoURL} alt={member.displayName} />
+                  <AvatarFallback>{member.displayName.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <span className="flex-1 text-sm truncate">{member.displayName}</span>
+                <Input
+                  value={payerAmount ? formatNumberWithSeparators(payerAmount) : ""}
+                  onChange={(e) => handlePayerAmountChange(member.id, e.target.value)}
+                  placeholder="0"
+                  inputMode="numeric"
+                  className="h-8 w-32 text-right"
+                />
+              </div>
+            );
+          })}
+          <div className={cn(
+            "text-xs text-right",
+            Math.abs(remaining) > 10 ? "text-amber-600" : "text-emerald-600"
+          )}>
+            {Math.abs(remaining) > 10
+              ? `Còn ${formatNumberWithSeparators(remaining)} VND chưa có người trả`
+              : "Đã khớp tổng số tiền"}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
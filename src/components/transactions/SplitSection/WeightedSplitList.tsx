@@ -0,0 +1,107 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import { SplitType, SplitWeight } from "@/types";
+import { PlusIcon, MinusIcon } from "lucide-react";
+
+interface User {
+  id: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+interface WeightedSplitListProps {
+  memberUsers: User[];
+  splitType: SplitType.PERCENTAGE | SplitType.SHARES;
+  splitWeights: SplitWeight[];
+  splits: { userId: string; amount: number }[];
+  handleUpdateWeight: (userId: string, weight: number) => void;
+}
+
+/**
+ * Member list for percentage and shares splits.
+ * Each member gets a percent or a number of shares; the resulting net amount is shown next to it.
+ */
+export function WeightedSplitList({
+  memberUsers,
+  splitType,
+  splitWeights,
+  splits,
+  handleUpdateWeight,
+}: WeightedSplitListProps) {
+  const isPercentage = splitType === SplitType.PERCENTAGE;
+  const totalWeight = splitWeights.reduce((sum, w) => sum + w.weight, 0);
+  const isBalanced = isPercentage ? Math.abs(totalWeight - 100) <= 0.01 : totalWeight > 0;
+
+  return (
+    <div className="space-y-3 max-h-[35vh] overflow-y-auto pr-1 pb-6 pt-2">
+      {memberUsers.map(member => {
+        const weight = splitWeights.find(w => w.userId === member.id)?.weight || 0;
+        const splitAmount = splits.find(s => s.userId === member.id)?.amount || 0;
+
+        return (
+          <div key={member.id} className="flex items-center gap-3 p-3 rounded-lg hover:bg-accent/20 border border-border/20">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={member.photoURL} alt={member.displayName} />
+              <AvatarFallback>{member.displayName.charAt(0)}</AvatarFallback>
+            </Avatar>
+
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="font-medium text-base truncate">{member.displayName}</div>
+              <div className={cn(
+                "text-xs font-medium",
+                splitAmount > 0 ? "text-emerald-500" : splitAmount < 0 ? "text-rose-500" : "text-muted-foreground"
+              )}>
+                {formatCurrency(splitAmount)}
+              </div>
+            </div>
+
+            {isPercentage ? (
+              <div className="flex items-center gap-1">
+                <Input
+                  value={weight || ""}
+                  onChange={(e) => handleUpdateWeight(member.id, parseFloat(e.target.value.replace(/[^\d.]/g, "")) || 0)}
+                  placeholder="0"
+                  inputMode="decimal"
+                  className="h-8 w-20 text-right"
+                />
+                <span className="text-sm text-muted-foreground">%</span>
+              </div>
+            ) : (
+              <div className="flex items-center rounded-md border">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 rounded-none"
+                  disabled={weight <= 0}
+                  onClick={() => handleUpdateWeight(member.id, Math.max(0, weight - 1))}
+                >
+                  <MinusIcon className="h-3 w-3" />
+                </Button>
+                <div className="w-14 text-center text-sm font-medium">{weight} phần</div>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 rounded-none"
+                  onClick={() => handleUpdateWeight(member.id, weight + 1)}
+                >
+                  <PlusIcon className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className={cn("text-xs text-right", isBalanced ? "text-emerald-600" : "text-amber-600")}>
+        {isPercentage
+          ? `Tổng: ${Math.round(totalWeight * 100) / 100}% / 100%`
+          : `Tổng: ${totalWeight} phần`}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 import { useState } from "react";
 import { MemberSplitList } from "./MemberSplitList";
 import { ParticipantSelectionPopup } from "./ParticipantSelectionPopup";
+import { PayerSection } from "./PayerSection";
+import { WeightedSplitList } from "./WeightedSplitList";
+import { ItemizedSplitList } from "./ItemizedSplitList";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ItemizedCharges, ReceiptItem, SplitType, SplitWeight } from "@/types";
+import { calculateEvenDistributionWithPayers } from "@/utils/transactionUtils";
+import { cn } from "@/lib/utils";
 
 interface User {
   id: string;
@@ -17,6 +24,17 @@ interface SplitSectionProps {
   currentUserId?: string;
   currency?: { code: string; name: string; symbol: string; flag?: string };
   convertedAmount?: number | null;
+  payers?: { userId: string; amount: number }[];
+  setPayers?: (payers: { userId: string; amount: number }[]) => void;
+  resolvedPayers?: { userId: string; amount: number }[];
+  splitType?: SplitType;
+  setSplitType?: (splitType: SplitType) => void;
+  splitWeights?: SplitWeight[];
+  handleUpdateWeight?: (userId: string, weight: number) => void;
+  items?: ReceiptItem[];
+  setItems?: (items: ReceiptItem[]) => void;
+  itemCharges?: ItemizedCharges;
+  setItemCharges?: (charges: ItemizedCharges) => void;
 }
 
 export function SplitSection({
@@ -27,11 +45,24 @@ export function SplitSection({
   handleUpdateSplit,
   currentUserId,
   currency,
-  convertedAmount
+  convertedAmount,
+  payers = [],
+  setPayers,
+  resolvedPayers,
+  splitType = SplitType.CUSTOM,
+  setSplitType,
+  splitWeights = [],
+  handleUpdateWeight,
+  items = [],
+  setItems,
+  itemCharges,
+  setItemCharges
 }: SplitSectionProps) {
   // Check if amount is valid
   const isAmountValid = !!amount && parseInt(amount) > 0;
   const [isParticipantPopupOpen, setIsParticipantPopupOpen] = useState(false);
+  const isWeighted = splitType === SplitType.PERCENTAGE || splitType === SplitType.SHARES;
+  const isItemized = splitType === SplitType.ITEMIZED;
   
   // Function to distribute amount evenly with current user paying
   const distributeWithCurrentUserPaying = (selectedParticipantIds: string[]) => {
@@ -62,62 +93,101 @@ export function SplitSection({
     
     console.log("Final amount for distribution:", totalAmount);
     
-    const participantCount = selectedParticipantIds.length;
+    if (selectedParticipantIds.length === 0) return;
     
-    if (participantCount === 0) return;
-    
-    // Calculate individual share
-    const individualShare = Math.floor(totalAmount / participantCount);
+    // Whoever paid gets credited what they paid; every selected participant owes an equal share
+    const effectivePayers = resolvedPayers && resolvedPayers.length > 0
+      ? resolvedPayers
+      : [{ userId: currentUserId, amount: totalAmount }];
+    const newSplits = calculateEvenDistributionWithPayers(totalAmount, selectedParticipantIds, effectivePayers);
     
     // Reset all splits first
     memberUsers.forEach(member => {
       handleUpdateSplit(member.id, 0);
     });
     
-    // Apply negative amounts to selected participants except current user
-    selectedParticipantIds.forEach(userId => {
-      if (userId !== currentUserId) {
-        handleUpdateSplit(userId, -individualShare);
-      }
+    newSplits.forEach(split => {
+      handleUpdateSplit(split.userId, split.amount);
     });
-    
-    // Calculate how much the current user should receive
-    const totalNegative = individualShare * (participantCount - (selectedParticipantIds.includes(currentUserId) ? 1 : 0));
-    if (selectedParticipantIds.includes(currentUserId)) {
-      handleUpdateSplit(currentUserId, totalNegative);
-    }
   };
 
   return (
     <div>
       <div className="flex justify-between items-center top-0 z-10 bg-background pb-1">
         <div className="text-sm font-medium">Chia tiền</div>
-        <div className="flex gap-2">
+        <div className={cn("flex gap-2", isItemized && "hidden")}>
           <button 
             type="button"
             className="text-xs px-3 py-1 rounded-md border hover:bg-accent/50"
-            onClick={distributeEvenly}
+            onClick={() => isWeighted ? setSplitType(splitType) : distributeEvenly()}
             disabled={!isAmountValid}
           >
             Chia đều
           </button>
-          <button 
-            type="button"
-            className="text-xs px-3 py-1 rounded-md border hover:bg-accent/50"
-            onClick={() => setIsParticipantPopupOpen(true)}
-            disabled={!isAmountValid || !currentUserId}
-          >
-            Chia đều chọn lọc
-          </button>
+          {!isWeighted && (
+            <button 
+              type="button"
+              className="text-xs px-3 py-1 rounded-md border hover:bg-accent/50"
+              onClick={() => setIsParticipantPopupOpen(true)}
+              disabled={!isAmountValid || !currentUserId}
+            >
+              Chia đều chọn lọc
+            </button>
+          )}
         </div>
       </div>
       
-      <MemberSplitList
-        memberUsers={memberUsers}
-        splits={splits}
-        isAmountValid={isAmountValid}
-        handleUpdateSplit={handleUpdateSplit}
-      />
+      {setPayers && (
+        <PayerSection
+          memberUsers={memberUsers}
+          payers={payers}
+          setPayers={setPayers}
+          totalAmount={currency?.code !== "VND" && convertedAmount ? convertedAmount : (parseInt(amount) || 0)}
+          currentUserId={currentUserId}
+        />
+      )}
+      
+      {setSplitType && (
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={splitType}
+          onValueChange={(value) => value && setSplitType(value as SplitType)}
+          className="justify-start mb-1"
+        >
+          <ToggleGroupItem value={SplitType.CUSTOM} className="text-xs">Số tiền</ToggleGroupItem>
+          <ToggleGroupItem value={SplitType.PERCENTAGE} className="text-xs">Phần trăm</ToggleGroupItem>
+          <ToggleGroupItem value={SplitType.SHARES} className="text-xs">Số phần</ToggleGroupItem>
+          {setItems && <ToggleGroupItem value={SplitType.ITEMIZED} className="text-xs">Theo món</ToggleGroupItem>}
+        </ToggleGroup>
+      )}
+      
+      {isItemized && setItems && setItemCharges ? (
+        <ItemizedSplitList
+          memberUsers={memberUsers}
+          items={items}
+          setItems={setItems}
+          itemCharges={itemCharges || { tax: 0, serviceCharge: 0, tip: 0 }}
+          setItemCharges={setItemCharges}
+          splits={splits}
+        />
+      ) : isWeighted && handleUpdateWeight ? (
+        <WeightedSplitList
+          memberUsers={memberUsers}
+          splitType={splitType as SplitType.PERCENTAGE | SplitType.SHARES}
+          splitWeights={splitWeights}
+          splits={splits}
+          handleUpdateWeight={handleUpdateWeight}
+        />
+      ) : (
+        <MemberSplitList
+          memberUsers={memberUsers}
+          splits={splits}
+          isAmountValid={isAmountValid}
+          handleUpdateSplit={handleUpdateSplit}
+        />
+      )}
       
       {currentUserId && (
         <ParticipantSelectionPopup
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { useApp } from "@/context/AppContext";
+import { getTransactionHistory } from "@/firebase/transactionService";
+import { ItemizedCharges, Payer, ReceiptItem, Split, SplitWeight, TransactionChange, TransactionRevision } from "@/types";
+import { formatCurrency, getItemChargesTotal } from "@/utils/transactionUtils";
+
+interface TransactionHistoryProps {
+  transactionId: string;
+  updatedAt?: number; // Reload revisions whenever the transaction is edited again
+}
+
+// Vietnamese labels for the transaction fields we track
+const FIELD_LABELS: Record<string, string> = {
+  description: "Mô tả",
+  amount: "Số tiền",
+  splits: "Chia tiền",
+  paidBy: "Người trả",
+  payers: "Những người trả",
+  splitType: "Cách chia",
+  splitWeights: "Tỷ lệ chia",
+  date: "Ngày",
+  category: "Danh mục",
+  attachments: "Ảnh hóa đơn",
+  items: "Danh sách món",
+  itemCharges: "Thuế / phí / tip",
+  notes: "Ghi chú",
+  currencyCode: "Tiền tệ",
+  originalAmount: "Số tiền gốc",
+  exchangeRate: "Tỷ giá",
+};
+
+const SPLIT_TYPE_LABELS: Record<string, string> = {
+  percentage: "Phần trăm",
+  shares: "Số phần",
+  itemized: "Theo món",
+};
+
+/**
+ * Lists the revisions stored in a transaction's history subcollection
+ */
+export function TransactionHistory({ transactionId, updatedAt }: TransactionHistoryProps) {
+  const { getUserById } = useApp();
+  const [revisions, setRevisions] = useState<TransactionRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+
+    getTransactionHistory(transactionId)
+      .then(result => {
+        if (!isCancelled) setRevisions(result);
+      })
+      .catch(error => {
+        console.error("Error loading transaction history:", error);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [transactionId, updatedAt]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+
+    switch (field) {
+      case "amount":
+      case "originalAmount":
+        return typeof value === "number" ? formatCurrency(value) : String(value);
+      case "date":
+        return typeof value === "number" ? format(value, "dd/MM/yyyy") : String(value);
+      case "paidBy":
+        return getUserById(String(value)).displayName;
+      case "attachments":
+        return Array.isArray(value) ? `${value.length} ảnh` : String(value);
+      case "items":
+        return Array.isArray(value)
+          ? (value as ReceiptItem[]).map(item => `${item.name} ×${item.quantity}`).join(", ")
+          : String(value);
+      case "itemCharges":
+        return typeof value === "object"
+          ? formatCurrency(getItemChargesTotal(value as ItemizedCharges))
+          : String(value);
+      case "splitType":
+        return SPLIT_TYPE_LABELS[String(value)] || String(value);
+      case "splitWeights":
+        return Array.isArray(value)
+          ? (value as SplitWeight[]).map(w => `${getUserById(w.userId).displayName} ${w.weight}`).join(", ")
+          : String(value);
+      case "payers":
+        return Array.isArray(value)
+          ? (value as Payer[]).map(p => `${getUserById(p.userId).displayName} ${formatCurrency(p.amount)}`).join(", ")
+          : String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  // Show only the members whose split amount actually changed
+  const renderSplitChanges = (change: TransactionChange) => {
+    const before = (Array.isArray(change.before) ? change.before : []) as Split[];
+    const after = (Array.isArray(change.after) ? change.after : []) as Split[];
+    const userIds = [...new Set([...before, ...after].map(split => split.userId))];
+
+    return userIds
+      .map(userId => ({
+        userId,
+        before: before.find(split => split.userId === userId)?.amount || 0,
+        after: after.find(split => split.userId === userId)?.amount || 0,
+      }))
+      .filter(diff => diff.before !== diff.after)
+      .map(diff => (
+        <div key={diff.userId} className="pl-2">
+          {getUserById(diff.userId).displayName}: {formatCurrency(diff.before)} → {formatCurrency(diff.after)}
+        </div>
+      ));
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-blue-200/50">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground mb-2">
+        <History className="h-3.5 w-3.5" />
+        <span>Lịch sử chỉnh sửa</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>Đang tải...</span>
+        </div>
+      ) : revisions.length === 0 ? (
+        <div className="text-xs text-muted-foreground">Chưa có chỉnh sửa nào</div>
+      ) : (
+        <div className="space-y-2">
+          {revisions.map(revision => (
+            <div key={revision.id} className="text-xs p-2 rounded-md bg-secondary/50 border border-border/50">
+              <div className="flex justify-between mb-1">
+                <span className="font-medium text-blue-700">
+                  {getUserById(revision.changedBy).displayName}
+                </span>
+                <span className="text-muted-foreground">
+                  {format(revision.changedAt, "HH:mm dd/MM/yyyy")}
+                </span>
+              </div>
+              {revision.changes.map(change => (
+                <div key={change.field} className="text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {FIELD_LABELS[change.field] || change.field}:
+                  </span>{" "}
+                  {change.field === "splits"
+                    ? renderSplitChanges(change)
+                    : `${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@ import { Fund, Transaction } from "@/types";
 import { format } from "date-fns";
 import { vi } from "date-fns/locale";
 import { TransactionRow } from "./TransactionRow";
-import { ChevronDown, Clock, Search, AlertCircle, AlertTriangle } from "lucide-react";
+import { PendingTransactionRow } from "./PendingTransactionRow";
+import { ChevronDown, Clock, Search, AlertCircle, AlertTriangle, CloudOff } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { motion, AnimatePresence } from "framer-motion";
@@ -35,12 +36,15 @@ const isTransactionValid = (transaction: Transaction): boolean => {
 };
 
 export function TransactionList({ fund, searchQuery = "", dateRange }: TransactionListProps) {
-  const { transactions, getUserById } = useApp();
+  const { transactions, getUserById, pendingTransactions } = useApp();
   const [isExpanded, setIsExpanded] = useState(true);
   const [localSearchTerm, setLocalSearchTerm] = useState("");
   const [showInvalidOnly, setShowInvalidOnly] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   
+  // Transactions entered offline that are not in Firestore yet
+  const fundPendingTransactions = pendingTransactions.filter(p => p.transaction.fundId === fund.id);
+
   // Count invalid transactions
   const invalidTransactionsCount = transactions
     .filter(transaction => transaction.fundId === fund.id)
@@ -150,6 +154,12 @@ export function TransactionList({ fund, searchQuery = "", dateRange }: Transacti
                 </Tooltip>
               </TooltipProvider>
             )}
+            {fundPendingTransactions.length > 0 && (
+              <Badge variant="outline" className="bg-secondary text-muted-foreground ml-1">
+                <CloudOff className="h-3 w-3 mr-1" />
+                {fundPendingTransactions.length} đang chờ đồng bộ
+              </Badge>
+            )}
             <motion.div
               animate={{ rotate: isExpanded ? 180 : 0 }}
               transition={{ duration: 0.2 }}
@@ -203,7 +213,14 @@ export function TransactionList({ fund, searchQuery = "", dateRange }: Transacti
             <CardContent className="p-0 h-full">
               <ScrollArea className="h-full" ref={scrollAreaRef}>
                 <div className="px-4 pb-4 space-y-6">
-                  {groupedTransactions.length === 0 ? (
+                  {fundPendingTransactions.length > 0 && (
+                    <div className="pt-3">
+                      {fundPendingTransactions.map(pending => (
+                        <PendingTransactionRow key={pending.id} pending={pending} />
+                      ))}
+                    </div>
+                  )}
+                  {groupedTransactions.length === 0 && fundPendingTransactions.length === 0 ? (
                     <div className="text-center py-16 text-muted-foreground flex flex-col items-center">
                       <motion.div 
                         initial={{ scale: 0.8, opacity: 0 }}
@@ -245,7 +262,7 @@ export function TransactionList({ fund, searchQuery = "", dateRange }: Transacti
                                     delay: index * 0.05,
                                   }}
                                 >
-                                  <TransactionRow transaction={transaction} />
+                                  <TransactionRow transaction={transaction} fund={fund} />
                                 </motion.div>
                               ))}
                             </AnimatePresence>
@@ -1,8 +1,8 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useApp } from "@/context/AppContext";
-import { Transaction } from "@/types";
+import { Fund, SettlementStatus, Transaction } from "@/types";
 import { format } from "date-fns";
-import { ArrowUp, ArrowDown, User, Trash2, ChevronDown, ChevronUp, Calendar, AlertTriangle, Copy, Check, Hash } from "lucide-react";
+import { ArrowUp, ArrowDown, User, Trash2, ChevronDown, ChevronUp, Calendar, AlertTriangle, Copy, Check, Hash, Pencil } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
 import { useState, useEffect } from "react";
@@ -20,14 +20,29 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CreateTransactionSheet } from "./CreateTransactionSheet";
+import { TransactionHistory } from "./TransactionHistory";
+import { AttachmentGallery } from "./AttachmentGallery";
+import { ReceiptItemsPreview } from "./ReceiptItemsPreview";
+import { getTransactionPayers } from "@/utils/transactionUtils";
+import { getCategoryByName, getFundCategories, getTransactionCategory } from "@/utils/categoryUtils";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
 
 interface TransactionRowProps {
   transaction: Transaction;
+  fund?: Fund; // Needed to open the edit sheet; editing is hidden without it
 }
 
-export function TransactionRow({ transaction }: TransactionRowProps) {
-  const { getUserById, deleteTransaction } = useApp();
+export function TransactionRow({ transaction, fund }: TransactionRowProps) {
+  const { getUserById, deleteTransaction, selectedFund } = useApp();
+  const permissions = useFundPermissions(fund || selectedFund);
+  const canModify = permissions.canEditTransaction(transaction);
+  // The money of a repayment its recipient already answered can no longer change
+  const isAnsweredRepayment = !!transaction.settlementStatus && transaction.settlementStatus !== SettlementStatus.PENDING;
   const payer = getUserById(transaction.paidBy);
+  const payerIds = getTransactionPayers(transaction).map(p => p.userId);
+  const categories = getFundCategories(fund);
+  const category = getCategoryByName(getTransactionCategory(transaction, categories), categories);
   const [isExpanded, setIsExpanded] = useState(false);
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -183,7 +198,9 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
 
             {/* Payment info row */}
             <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-1">
-              <span className="font-medium text-blue-600">{payer.displayName}</span> 
+              <span className="font-medium text-blue-600">
+                {payerIds.map(userId => getUserById(userId).displayName).join(", ")}
+              </span> 
               <span>đã trả</span> 
               <Badge variant="outline" className={cn(
                 "text-xs py-0.5 h-5 transition-colors duration-300 border-blue-200",
@@ -191,6 +208,23 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
               )}>
                 {formatCurrency(transaction.amount)}
               </Badge>
+              <Badge variant="outline" className="text-xs py-0.5 h-5 font-normal">
+                {category.icon} {category.name}
+              </Badge>
+              {transaction.settlementStatus === SettlementStatus.PENDING && (
+                <Badge variant="outline" className="text-xs py-0.5 h-5 bg-amber-50 text-amber-700 border-amber-200">
+                  Chờ xác nhận
+                </Badge>
+              )}
+              {transaction.settlementStatus === SettlementStatus.REJECTED && (
+                <Badge
+                  variant="destructive"
+                  className="text-xs py-0.5 h-5"
+                  title={transaction.settlementRejectReason || undefined}
+                >
+                  Bị từ chối
+                </Badge>
+              )}
               
               {/* Date info on mobile */}
               <div className="hidden sm:flex items-center gap-1 ml-2 text-muted-foreground">
@@ -198,6 +232,13 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
                 <span>{format(transaction.createdAt, "dd/MM/yyyy")}</span>
               </div>
             </div>
+
+            {/* Receipt photos */}
+            {transaction.attachments?.length > 0 && (
+              <div className="mt-2">
+                <AttachmentGallery attachments={transaction.attachments} />
+              </div>
+            )}
           </div>
         </div>
 
@@ -225,38 +266,55 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
               </Tooltip>
             </TooltipProvider>
             
-            {/* Delete button */}
-            <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-              <AlertDialogTrigger asChild>
+            {/* Edit button */}
+            {fund && canModify && !isAnsweredRepayment && (
+              <CreateTransactionSheet fund={fund} transaction={transaction}>
                 <Button 
                   size="sm" 
                   variant="ghost" 
-                  className="h-7 w-7 rounded-full bg-red-50 hover:bg-red-100 text-red-500 hover:text-red-600 border border-red-200 hover:border-red-300 transition-all duration-200 shadow-sm hover:shadow-md flex items-center justify-center"
-                  aria-label="Delete transaction"
-                  title="Delete transaction"
+                  className="h-7 w-7 rounded-full bg-blue-50 hover:bg-blue-100 text-blue-500 hover:text-blue-600 border border-blue-200 hover:border-blue-300 transition-all duration-200 shadow-sm hover:shadow-md flex items-center justify-center"
+                  aria-label="Edit transaction"
+                  title="Edit transaction"
                 >
-                  <Trash2 className="h-3.5 w-3.5" />
+                  <Pencil className="h-3.5 w-3.5" />
                 </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent className="sm:max-w-md">
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Xác nhận xóa giao dịch</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    Bạn có chắc chắn muốn xóa giao dịch "{transaction.description}"? 
-                    Hành động này không thể hoàn tác.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter className="gap-2">
-                  <AlertDialogCancel className="sm:min-w-[100px]">Hủy</AlertDialogCancel>
-                  <AlertDialogAction 
-                    onClick={handleDelete} 
-                    className="bg-rose-500 hover:bg-rose-600 text-white sm:min-w-[100px]"
+              </CreateTransactionSheet>
+            )}
+            
+            {/* Delete button */}
+            {canModify && (
+              <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+                <AlertDialogTrigger asChild>
+                  <Button 
+                    size="sm" 
+                    variant="ghost" 
+                    className="h-7 w-7 rounded-full bg-red-50 hover:bg-red-100 text-red-500 hover:text-red-600 border border-red-200 hover:border-red-300 transition-all duration-200 shadow-sm hover:shadow-md flex items-center justify-center"
+                    aria-label="Delete transaction"
+                    title="Delete transaction"
                   >
-                    Xác nhận xóa
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="sm:max-w-md">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Xác nhận xóa giao dịch</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Bạn có chắc chắn muốn xóa giao dịch "{transaction.description}"? 
+                      Hành động này không thể hoàn tác.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter className="gap-2">
+                    <AlertDialogCancel className="sm:min-w-[100px]">Hủy</AlertDialogCancel>
+                    <AlertDialogAction 
+                      onClick={handleDelete} 
+                      className="bg-rose-500 hover:bg-rose-600 text-white sm:min-w-[100px]"
+                    >
+                      Xác nhận xóa
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </div>
 
           {/* Time display */}
@@ -357,7 +415,7 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
               const splitUser = getUserById(split.userId);
               if (!splitUser) return null;
               
-              const isPayerSplit = splitUser.id === payer.id;
+              const isPayerSplit = payerIds.includes(splitUser.id);
               
               return (
                 <motion.div 
@@ -400,6 +458,23 @@ export function TransactionRow({ transaction }: TransactionRowProps) {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Items behind an itemized split */}
+      {isExpanded && transaction.items?.length > 0 && (
+        <div className="mt-3">
+          <ReceiptItemsPreview
+            items={transaction.items}
+            charges={transaction.itemCharges}
+            totalAmount={transaction.amount}
+            getUserName={(userId) => getUserById(userId).displayName}
+          />
+        </div>
+      )}
+
+      {/* Edit history */}
+      {isExpanded && (
+        <TransactionHistory transactionId={transaction.id} updatedAt={transaction.updatedAt} />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
@@ -6,15 +6,18 @@ import {
 
 interface TransactionSheetHeaderProps {
   fundName: string;
+  isEditing?: boolean;
 }
 
-export function TransactionSheetHeader({ fundName }: TransactionSheetHeaderProps) {
+export function TransactionSheetHeader({ fundName, isEditing = false }: TransactionSheetHeaderProps) {
   return (
     <div className="px-6 pt-6 pb-2 border-b">
       <SheetHeader>
-        <SheetTitle>Thêm giao dịch mới</SheetTitle>
+        <SheetTitle>{isEditing ? "Chỉnh sửa giao dịch" : "Thêm giao dịch mới"}</SheetTitle>
         <SheetDescription>
-          Thêm một khoản chi tiêu mới vào quỹ {fundName}
+          {isEditing
+            ? `Cập nhật khoản chi tiêu trong quỹ ${fundName}`
+            : `Thêm một khoản chi tiêu mới vào quỹ ${fundName}`}
         </SheetDescription>
       </SheetHeader>
     </div>
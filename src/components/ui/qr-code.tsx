@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { createQrCodeMatrix, QrErrorCorrectionLevel, QR_QUIET_ZONE } from "@/utils/qrCodeUtils";
+
+interface QRCodeProps {
+  value: string;
+  size?: number; // Rendered width and height in pixels
+  level?: QrErrorCorrectionLevel;
+  className?: string;
+}
+
+/**
+ * QR code drawn as an SVG in the browser, so it also works offline
+ */
+export const QRCode = ({ value, size = 200, level = "M", className }: QRCodeProps) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = createQrCodeMatrix(value, level);
+    const commands: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((isDark, x) => {
+        if (isDark) commands.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: commands.join(""), dimension: modules.length + QR_QUIET_ZONE * 2 };
+  }, [value, level]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={cn("bg-white", className)}
+      role="img"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
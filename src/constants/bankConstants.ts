@@ -0,0 +1,420 @@
+import type { Bank } from "@/services/bankService";
+
+/**
+ * Bank-related constants
+ */
+
+// Banks bundled with the app for when the VietQR bank list can't be fetched;
+// BINs are the NAPAS bank identifiers used in VietQR payloads
+export const FALLBACK_BANKS: Bank[] = [
+  {
+    id: 1,
+    name: "Ngân hàng TMCP Ngoại Thương Việt Nam",
+    code: "VCB",
+    bin: "970436",
+    shortName: "Vietcombank",
+    logo: "https://api.vietqr.io/img/VCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 2,
+    name: "Ngân hàng TMCP Công thương Việt Nam",
+    code: "ICB",
+    bin: "970415",
+    shortName: "VietinBank",
+    logo: "https://api.vietqr.io/img/ICB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 3,
+    name: "Ngân hàng TMCP Đầu tư và Phát triển Việt Nam",
+    code: "BIDV",
+    bin: "970418",
+    shortName: "BIDV",
+    logo: "https://api.vietqr.io/img/BIDV.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 4,
+    name: "Ngân hàng Nông nghiệp và Phát triển Nông thôn Việt Nam",
+    code: "VBA",
+    bin: "970405",
+    shortName: "Agribank",
+    logo: "https://api.vietqr.io/img/VBA.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 5,
+    name: "Ngân hàng TMCP Kỹ thương Việt Nam",
+    code: "TCB",
+    bin: "970407",
+    shortName: "Techcombank",
+    logo: "https://api.vietqr.io/img/TCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 6,
+    name: "Ngân hàng TMCP Quân đội",
+    code: "MB",
+    bin: "970422",
+    shortName: "MBBank",
+    logo: "https://api.vietqr.io/img/MB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 7,
+    name: "Ngân hàng TMCP Á Châu",
+    code: "ACB",
+    bin: "970416",
+    shortName: "ACB",
+    logo: "https://api.vietqr.io/img/ACB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 8,
+    name: "Ngân hàng TMCP Việt Nam Thịnh Vượng",
+    code: "VPB",
+    bin: "970432",
+    shortName: "VPBank",
+    logo: "https://api.vietqr.io/img/VPB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 9,
+    name: "Ngân hàng TMCP Tiên Phong",
+    code: "TPB",
+    bin: "970423",
+    shortName: "TPBank",
+    logo: "https://api.vietqr.io/img/TPB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 10,
+    name: "Ngân hàng TMCP Sài Gòn Thương Tín",
+    code: "STB",
+    bin: "970403",
+    shortName: "Sacombank",
+    logo: "https://api.vietqr.io/img/STB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 11,
+    name: "Ngân hàng TMCP Phát triển Thành phố Hồ Chí Minh",
+    code: "HDB",
+    bin: "970437",
+    shortName: "HDBank",
+    logo: "https://api.vietqr.io/img/HDB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 12,
+    name: "Ngân hàng TMCP Quốc tế Việt Nam",
+    code: "VIB",
+    bin: "970441",
+    shortName: "VIB",
+    logo: "https://api.vietqr.io/img/VIB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 13,
+    name: "Ngân hàng TMCP Sài Gòn - Hà Nội",
+    code: "SHB",
+    bin: "970443",
+    shortName: "SHB",
+    logo: "https://api.vietqr.io/img/SHB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 14,
+    name: "Ngân hàng TMCP Xuất Nhập khẩu Việt Nam",
+    code: "EIB",
+    bin: "970431",
+    shortName: "Eximbank",
+    logo: "https://api.vietqr.io/img/EIB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 15,
+    name: "Ngân hàng TMCP Hàng Hải",
+    code: "MSB",
+    bin: "970426",
+    shortName: "MSB",
+    logo: "https://api.vietqr.io/img/MSB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 16,
+    name: "Ngân hàng TMCP Phương Đông",
+    code: "OCB",
+    bin: "970448",
+    shortName: "OCB",
+    logo: "https://api.vietqr.io/img/OCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 17,
+    name: "Ngân hàng TMCP Đông Nam Á",
+    code: "SEAB",
+    bin: "970440",
+    shortName: "SeABank",
+    logo: "https://api.vietqr.io/img/SEAB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 18,
+    name: "Ngân hàng TMCP Lộc Phát Việt Nam",
+    code: "LPB",
+    bin: "970449",
+    shortName: "LPBank",
+    logo: "https://api.vietqr.io/img/LPB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 19,
+    name: "Ngân hàng TMCP Nam Á",
+    code: "NAB",
+    bin: "970428",
+    shortName: "NamABank",
+    logo: "https://api.vietqr.io/img/NAB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 20,
+    name: "Ngân hàng TMCP Bắc Á",
+    code: "BAB",
+    bin: "970409",
+    shortName: "BacABank",
+    logo: "https://api.vietqr.io/img/BAB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 21,
+    name: "Ngân hàng TMCP Sài Gòn",
+    code: "SCB",
+    bin: "970429",
+    shortName: "SCB",
+    logo: "https://api.vietqr.io/img/SCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 22,
+    name: "Ngân hàng TMCP Bản Việt",
+    code: "VCCB",
+    bin: "970454",
+    shortName: "VietCapitalBank",
+    logo: "https://api.vietqr.io/img/VCCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 23,
+    name: "Ngân hàng TMCP An Bình",
+    code: "ABB",
+    bin: "970425",
+    shortName: "ABBANK",
+    logo: "https://api.vietqr.io/img/ABB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 24,
+    name: "Ngân hàng TMCP Đại Chúng Việt Nam",
+    code: "PVCB",
+    bin: "970412",
+    shortName: "PVcomBank",
+    logo: "https://api.vietqr.io/img/PVCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 25,
+    name: "Ngân hàng TMCP Kiên Long",
+    code: "KLB",
+    bin: "970452",
+    shortName: "KienLongBank",
+    logo: "https://api.vietqr.io/img/KLB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 26,
+    name: "Ngân hàng TMCP Việt Nam Thương Tín",
+    code: "VIETBANK",
+    bin: "970433",
+    shortName: "VietBank",
+    logo: "https://api.vietqr.io/img/VIETBANK.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 27,
+    name: "Ngân hàng TMCP Quốc Dân",
+    code: "NCB",
+    bin: "970419",
+    shortName: "NCB",
+    logo: "https://api.vietqr.io/img/NCB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 28,
+    name: "Ngân hàng TMCP Bảo Việt",
+    code: "BVB",
+    bin: "970438",
+    shortName: "BaoVietBank",
+    logo: "https://api.vietqr.io/img/BVB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 29,
+    name: "Ngân hàng TMCP Sài Gòn Công Thương",
+    code: "SGICB",
+    bin: "970400",
+    shortName: "SaigonBank",
+    logo: "https://api.vietqr.io/img/SGICB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 30,
+    name: "Ngân hàng TMCP Thịnh vượng và Phát triển",
+    code: "PGB",
+    bin: "970430",
+    shortName: "PGBank",
+    logo: "https://api.vietqr.io/img/PGB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 31,
+    name: "Ngân hàng số CAKE by VPBank",
+    code: "CAKE",
+    bin: "546034",
+    shortName: "CAKE",
+    logo: "https://api.vietqr.io/img/CAKE.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 32,
+    name: "Ngân hàng số Ubank by VPBank",
+    code: "Ubank",
+    bin: "546035",
+    shortName: "Ubank",
+    logo: "https://api.vietqr.io/img/UBANK.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 33,
+    name: "Ngân hàng TNHH MTV Shinhan Việt Nam",
+    code: "SHBVN",
+    bin: "970424",
+    shortName: "ShinhanBank",
+    logo: "https://api.vietqr.io/img/SHBVN.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 34,
+    name: "Ngân hàng TNHH MTV Woori Việt Nam",
+    code: "WVN",
+    bin: "970457",
+    shortName: "Woori",
+    logo: "https://api.vietqr.io/img/WVN.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 35,
+    name: "Ngân hàng TNHH MTV HSBC (Việt Nam)",
+    code: "HSBC",
+    bin: "458761",
+    shortName: "HSBC",
+    logo: "https://api.vietqr.io/img/HSBC.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 36,
+    name: "Ngân hàng TNHH MTV United Overseas Bank (Việt Nam)",
+    code: "UOB",
+    bin: "970458",
+    shortName: "UnitedOverseas",
+    logo: "https://api.vietqr.io/img/UOB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 37,
+    name: "Ngân hàng TNHH MTV Standard Chartered Bank Việt Nam",
+    code: "SCVN",
+    bin: "970410",
+    shortName: "StandardChartered",
+    logo: "https://api.vietqr.io/img/SCVN.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 38,
+    name: "Ngân hàng TNHH MTV Public Việt Nam",
+    code: "PBVN",
+    bin: "970439",
+    shortName: "PublicBank",
+    logo: "https://api.vietqr.io/img/PBVN.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 39,
+    name: "Ngân hàng TNHH MTV CIMB Việt Nam",
+    code: "CIMB",
+    bin: "422589",
+    shortName: "CIMB",
+    logo: "https://api.vietqr.io/img/CIMB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 40,
+    name: "Ngân hàng TNHH Indovina",
+    code: "IVB",
+    bin: "970434",
+    shortName: "IndovinaBank",
+    logo: "https://api.vietqr.io/img/IVB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+  {
+    id: 41,
+    name: "Ngân hàng Liên doanh Việt - Nga",
+    code: "VRB",
+    bin: "970421",
+    shortName: "VRB",
+    logo: "https://api.vietqr.io/img/VRB.png",
+    transferSupported: 1,
+    lookupSupported: 1,
+  },
+];
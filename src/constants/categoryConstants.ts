@@ -0,0 +1,67 @@
+import { TransactionCategory } from "@/types";
+
+/**
+ * Category-related constants
+ */
+
+// Fallback when no category matches
+export const OTHER_CATEGORY = "Khác";
+
+// Category given to repayments between members; left out of spending charts
+export const REPAYMENT_CATEGORY = "Trả nợ";
+
+// Default categories available in every fund, checked in this order when auto-categorizing
+export const DEFAULT_CATEGORIES: TransactionCategory[] = [
+  {
+    name: REPAYMENT_CATEGORY,
+    icon: "💸",
+    keywords: ["trả nợ", "trả tiền cho", "hoàn tiền", "chuyển khoản"],
+  },
+  {
+    name: "Nhà ở",
+    icon: "🏠",
+    keywords: ["thuê nhà", "tiền nhà", "tiền phòng", "thuê phòng", "sửa nhà"],
+  },
+  {
+    name: "Hóa đơn",
+    icon: "💡",
+    keywords: ["điện nước", "tiền điện", "tiền nước", "internet", "wifi", "mạng", "gas", "điện thoại", "netflix", "spotify"],
+  },
+  {
+    name: "Ăn uống",
+    icon: "🍜",
+    keywords: [
+      "ăn", "cơm", "phở", "bún", "lẩu", "nướng", "cà phê", "cafe", "coffee", "trà sữa",
+      "nhậu", "bia", "buffet", "pizza", "gà", "nước uống", "đồ uống", "bánh",
+    ],
+  },
+  {
+    name: "Di chuyển",
+    icon: "🚕",
+    keywords: ["xăng", "taxi", "grab", "xe ôm", "gửi xe", "vé xe", "tàu", "máy bay", "vé bay", "bus", "thuê xe"],
+  },
+  {
+    name: "Du lịch",
+    icon: "✈️",
+    keywords: ["du lịch", "khách sạn", "homestay", "resort", "tour", "villa"],
+  },
+  {
+    name: "Mua sắm",
+    icon: "🛍️",
+    keywords: ["mua", "đi chợ", "siêu thị", "shopee", "lazada", "tiki", "quần áo"],
+  },
+  {
+    name: "Giải trí",
+    icon: "🎬",
+    keywords: ["giải trí", "xem phim", "phim", "karaoke", "game", "bi-a", "bida", "concert"],
+  },
+  {
+    name: "Sức khỏe",
+    icon: "💊",
+    keywords: ["thuốc", "bệnh viện", "khám", "gym", "phòng khám"],
+  },
+  {
+    name: OTHER_CATEGORY,
+    icon: "📦",
+  },
+];
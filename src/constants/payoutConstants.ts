@@ -0,0 +1,15 @@
+import { PayoutMethodType } from "@/types";
+
+/**
+ * Payout method constants
+ */
+
+// Display name of each payout method type
+export const PAYOUT_METHOD_TYPE_LABELS: Record<PayoutMethodType, string> = {
+  [PayoutMethodType.BANK]: "Ngân hàng",
+  [PayoutMethodType.MOMO]: "Ví MoMo",
+  [PayoutMethodType.ZALOPAY]: "Ví ZaloPay",
+};
+
+// E-wallets that receive money on a phone number
+export const EWALLET_TYPES: PayoutMethodType[] = [PayoutMethodType.MOMO, PayoutMethodType.ZALOPAY];
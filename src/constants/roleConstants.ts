@@ -0,0 +1,24 @@
+import { FundRole } from "@/types";
+
+/**
+ * Fund role constants
+ */
+
+// Display name of each role
+export const FUND_ROLE_LABELS: Record<FundRole, string> = {
+  [FundRole.OWNER]: "Chủ quỹ",
+  [FundRole.ADMIN]: "Quản trị viên",
+  [FundRole.MEMBER]: "Thành viên",
+  [FundRole.VIEWER]: "Người xem",
+};
+
+// What each role is allowed to do, shown when assigning roles
+export const FUND_ROLE_DESCRIPTIONS: Record<FundRole, string> = {
+  [FundRole.OWNER]: "Toàn quyền, bao gồm phân quyền và xoá quỹ",
+  [FundRole.ADMIN]: "Thêm, xoá thành viên và sửa mọi giao dịch",
+  [FundRole.MEMBER]: "Thêm giao dịch và sửa giao dịch của mình",
+  [FundRole.VIEWER]: "Chỉ xem, không thể thay đổi gì",
+};
+
+// Roles an owner can give to other members
+export const ASSIGNABLE_FUND_ROLES: FundRole[] = [FundRole.ADMIN, FundRole.MEMBER, FundRole.VIEWER];
@@ -1,5 +1,5 @@
-import { createContext, useState, useContext, ReactNode, useEffect, useCallback } from "react";
-import { Fund, Transaction, User } from "@/types";
+import { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef } from "react";
+import { Fund, PaymentReminderSetting, PaymentReminderState, PendingTransaction, SettlementStatus, Transaction, User } from "@/types";
 import { toast } from "sonner";
 import { 
   loginWithGoogle, 
@@ -13,14 +13,38 @@ import {
   createFund as createFirebaseFund,
   getUserFunds,
   getFundById,
+  subscribeToFund,
   updateFund as updateFirebaseFund,
+  setFundArchived as setFirebaseFundArchived,
   deleteFund as deleteFundService
 } from "@/firebase/fundService";
 import {
   createTransaction as createFirebaseTransaction,
   getFundTransactions,
-  deleteTransaction
+  subscribeToFundTransactions,
+  createTransactionsBatch,
+  updateTransaction as updateFirebaseTransaction,
+  deleteTransaction,
+  respondToSettlement as respondToFirebaseSettlement
 } from "@/firebase/transactionService";
+import { materializeDueRecurringTransactions } from "@/firebase/recurringTransactionService";
+import { sendBudgetAlerts } from "@/firebase/budgetService";
+import { sendSettlementResponseNotification } from "@/firebase/messagingService";
+import {
+  sendPaymentReminder as sendFirebasePaymentReminder,
+  sendDuePaymentReminders,
+  subscribeToPaymentReminders,
+  updatePaymentReminderSetting as updateFirebasePaymentReminderSetting
+} from "@/firebase/reminderService";
+import { joinFundWithInvite as joinFirebaseFundWithInvite } from "@/firebase/inviteService";
+import {
+  queueTransaction,
+  flushOutbox,
+  getPendingTransactions,
+  discardPendingTransaction as discardQueuedTransaction,
+  isOfflineError,
+  toPendingTransactionView
+} from "@/services/transactionOutbox";
 import {
   findUserByEmail as findUserByEmailFirestore,
   getUsersByIds as getFirestoreUsersByIds,
@@ -28,12 +52,19 @@ import {
   addUserToFundByEmail
 } from "@/firebase/userService";
 import { calculateTransactionSplits } from "@/utils/transactionUtils";
+import { calculateBalancesFromTransactions, calculatePendingBalances as calculatePendingBalancesFromTransactions, isFullySettled, Settlement, withRepaymentConfirmation } from "@/utils/settlementUtils";
+import { getBudgetUsage, getReachedAlertThreshold, hasBudget } from "@/utils/budgetUtils";
+import { getFundCategories } from "@/utils/categoryUtils";
+import { getMemberRole, canContribute, canManageFund } from "@/utils/permissionUtils";
+import { isPlaceholderMember, toPlaceholderUser } from "@/utils/placeholderUtils";
+import { getRemindableDebts, needsPaymentReminderUpdate } from "@/utils/reminderUtils";
 
 interface AppContextType {
   currentUser: User | null;
   funds: Fund[];
   transactions: Transaction[];
   selectedFund: Fund | null;
+  paymentReminders: Record<string, PaymentReminderState>; // Reminder history of the open fund, by pair key
   login: () => Promise<void>;
   loginWithEmail: (email: string, password: string) => Promise<void>;
   registerWithEmail: (email: string, password: string) => Promise<void>;
@@ -42,13 +73,21 @@ interface AppContextType {
   createFund: (fund: Omit<Fund, "id" | "createdAt" | "createdBy">) => Promise<Fund | undefined>;
   updateFund: (fundId: string, fundData: Partial<Omit<Fund, "id" | "createdAt" | "createdBy">>) => Promise<boolean>;
   createTransaction: (transaction: Omit<Transaction, "id" | "createdAt">) => Promise<Transaction | undefined>;
+  updateTransaction: (transactionId: string, transactionData: Partial<Omit<Transaction, "id" | "createdAt">>) => Promise<boolean>;
   deleteTransaction: (transactionId: string) => Promise<boolean>;
+  importTransactions: (transactions: Omit<Transaction, "id" | "createdAt">[]) => Promise<boolean>;
   getUserById: (id: string) => User;
   loadUsers: (userIds: string[]) => Promise<void>;
   users: Record<string, User>;
   findUserByEmail: (email: string) => Promise<User | null>;
   addMemberByEmail: (fundId: string, email: string) => Promise<boolean>;
+  joinFundWithInvite: (token: string) => Promise<string | null>;
+  setFundArchived: (fundId: string, isArchived: boolean) => Promise<boolean>;
   calculateBalances: (fundId: string) => { userId: string; amount: number }[];
+  calculatePendingBalances: (fundId: string) => { userId: string; amount: number }[];
+  respondToSettlement: (transaction: Transaction, confirmed: boolean, reason?: string) => Promise<boolean>;
+  sendPaymentReminder: (fund: Fund, debt: Settlement) => Promise<boolean>;
+  updatePaymentReminderSetting: (fundId: string, setting: PaymentReminderSetting | null) => Promise<boolean>;
   refreshCurrentUser: () => Promise<void>;
   isAuthLoading: boolean;
   authInitialized: boolean;
@@ -58,6 +97,10 @@ interface AppContextType {
   loadFundTransactions: (fundId: string) => Promise<void>;
   deleteFund: (fundId: string) => Promise<boolean>;
   getFundById: (fundId: string) => Promise<Fund | null>;
+  watchFund: (fundId: string, onClosed: () => void) => () => void;
+  pendingTransactions: PendingTransaction[];
+  syncPendingTransactions: (includeConflicts?: boolean) => Promise<void>;
+  discardPendingTransaction: (pendingId: string) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -67,11 +110,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [funds, setFunds] = useState<Fund[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [selectedFund, setSelectedFund] = useState<Fund | null>(null);
+  const [paymentReminders, setPaymentReminders] = useState<Record<string, PaymentReminderState>>({});
   const [isAuthLoading, setIsAuthLoading] = useState<boolean>(true); // Start as true
   const [authInitialized, setAuthInitialized] = useState<boolean>(false); // Track if auth has been checked
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [users, setUsers] = useState<Record<string, User>>({});
   const [hasInitiallyLoaded, setHasInitiallyLoaded] = useState<boolean>(false);
+  const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>([]);
+  const isSyncingRef = useRef(false);
+  // Last budget alerts and reminder update started, so repeated snapshots don't redo the same writes
+  const lastBudgetAlertKeyRef = useRef<string | null>(null);
+  const lastReminderKeyRef = useRef<string | null>(null);
+  const currentUserId = currentUser?.id;
 
   // Convert Firebase user to our User type
   const convertFirebaseUser = (firebaseUser: FirebaseUser): User => {
@@ -156,6 +206,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     // Filter out IDs that are already loaded, invalid, or the current user
     const uniqueIds = [...new Set(userIds)].filter(id => 
       id && 
+      !isPlaceholderMember(id) && // Placeholder members have no user document
       id !== currentUser?.id && // Current user is already available
       !users[id] // Not already loaded
     );
@@ -209,6 +260,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
       return users[id];
     }
     
+    // Placeholder members are stored on their fund rather than in the users collection
+    if (isPlaceholderMember(id)) {
+      const fund = [selectedFund, ...funds].find(f => f?.placeholderMembers?.[id]);
+      if (fund) {
+        return toPlaceholderUser(id, fund.placeholderMembers[id]);
+      }
+    }
+    
     // Return placeholder for unloaded users
     const idStr = String(id);
     const shortId = idStr.substring(0, 4);
@@ -285,6 +344,26 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Join a fund with an invite link, returning the fund ID
+  const joinFundWithInvite = async (token: string): Promise<string | null> => {
+    if (!currentUser || !token) return null;
+
+    try {
+      setIsLoading(true);
+      const fundId = await joinFirebaseFundWithInvite(token, currentUser.id);
+      await loadUserFunds(currentUser.id);
+      toast.success('Bạn đã tham gia quỹ');
+      return fundId;
+    } catch (error) {
+      console.error('Error joining fund with invite:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Không thể tham gia quỹ';
+      toast.error(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Load user's funds from Firebase
   const loadUserFunds = useCallback(async (userId: string) => {
     if (!userId) return;
@@ -293,23 +372,23 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setIsLoading(true);
       const userFunds = await getUserFunds(userId);
       
-      // Prevent duplicates by using a Map with fund IDs as keys
-      const uniqueFundsMap = new Map();
-      
-      // First add existing funds to the map (if we want to keep them)
-      funds.forEach(fund => uniqueFundsMap.set(fund.id, fund));
-      
-      // Then add/update with the newly fetched funds
-      userFunds.forEach(fund => uniqueFundsMap.set(fund.id, fund));
-      
-      // Convert map back to array
-      const uniqueFunds = Array.from(uniqueFundsMap.values());
-      
       // Update state with deduplicated funds
-      setFunds(uniqueFunds);
+      setFunds(prev => {
+        // Prevent duplicates by using a Map with fund IDs as keys
+        const uniqueFundsMap = new Map<string, Fund>();
+        
+        // First add existing funds to the map (if we want to keep them)
+        prev.forEach(fund => uniqueFundsMap.set(fund.id, fund));
+        
+        // Then add/update with the newly fetched funds
+        userFunds.forEach(fund => uniqueFundsMap.set(fund.id, fund));
+        
+        // Convert map back to array
+        const uniqueFunds = Array.from(uniqueFundsMap.values());
+        console.log(`Loaded ${userFunds.length} funds, deduplicated to ${uniqueFunds.length}`);
+        return uniqueFunds;
+      });
       setHasInitiallyLoaded(true); // Mark initial load as complete
-      
-      console.log(`Loaded ${userFunds.length} funds, deduplicated to ${uniqueFunds.length}`);
     } catch (error) {
       console.error('Error loading funds:', error);
       toast.error('Không thể tải danh sách quỹ');
@@ -317,7 +396,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [funds]);
+  }, []);
 
   // Load transactions for a specific fund
   const loadFundTransactions = async (fundId: string) => {
@@ -414,18 +493,87 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Keep a transaction entered offline in the outbox until it can be synced
+  const queueOfflineTransaction = (userId: string, transaction: Omit<Transaction, "id" | "createdAt">): Transaction => {
+    const pending = queueTransaction(userId, transaction);
+    setPendingTransactions(getPendingTransactions(userId));
+    toast.info("Đang offline, giao dịch sẽ được đồng bộ khi có mạng");
+    return toPendingTransactionView(pending);
+  };
+
+  // Send queued transactions to Firestore
+  const syncPendingTransactions = useCallback(async (includeConflicts = false) => {
+    if (!currentUserId || isSyncingRef.current || !navigator.onLine) return;
+    if (getPendingTransactions(currentUserId).length === 0) return;
+
+    try {
+      isSyncingRef.current = true;
+      const { synced, conflicts } = await flushOutbox(currentUserId, includeConflicts);
+
+      if (synced.length > 0) {
+        // Listeners usually deliver these too; merge in case the fund is not open
+        setTransactions(prev => [
+          ...synced.filter(t => !prev.some(p => p.id === t.id) && t.fundId === selectedFund?.id),
+          ...prev,
+        ]);
+        toast.success(`Đã đồng bộ ${synced.length} giao dịch`);
+      }
+      if (conflicts.length > 0) {
+        toast.warning(`${conflicts.length} giao dịch chưa thể đồng bộ do quỹ đã thay đổi`);
+      }
+    } catch (error) {
+      console.error('Error syncing pending transactions:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setPendingTransactions(getPendingTransactions(currentUserId));
+    }
+  }, [currentUserId, selectedFund?.id]);
+
+  // Drop a queued transaction the user no longer wants
+  const discardPendingTransaction = (pendingId: string) => {
+    if (!currentUserId) return;
+    discardQueuedTransaction(currentUserId, pendingId);
+    setPendingTransactions(getPendingTransactions(currentUserId));
+    toast.success("Đã bỏ giao dịch chờ đồng bộ");
+  };
+
+  // Show the signed-in user's outbox, and retry it when the connection comes back and shortly after sign-in
+  useEffect(() => {
+    setPendingTransactions(currentUserId ? getPendingTransactions(currentUserId) : []);
+    if (!currentUserId) return;
+
+    syncPendingTransactions();
+    const handleOnline = () => syncPendingTransactions();
+    window.addEventListener("online", handleOnline);
+
+    // Periodic retry for entries that failed while the browser still reported online
+    const intervalId = setInterval(() => syncPendingTransactions(), 60000);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      clearInterval(intervalId);
+    };
+  }, [currentUserId, syncPendingTransactions]);
+
   // Create a new transaction using Firebase
   const createTransaction = async (transaction: Omit<Transaction, "id" | "createdAt">) => {
+    const createdBy = transaction.createdBy || currentUser?.id;
+    // Add date field if not provided
+    const transactionWithDate = withRepaymentConfirmation({
+      ...transaction,
+      date: transaction.date || Date.now(),
+      createdBy,
+      // Use the utility function to calculate the final splits
+      splits: calculateTransactionSplits(transaction)
+    }, createdBy);
+
+    // Without a connection the write goes to the outbox and is synced later
+    if (!navigator.onLine) {
+      return queueOfflineTransaction(createdBy, transactionWithDate);
+    }
+
     try {
       setIsLoading(true);
-      console.log(transaction);
-      // Add date field if not provided
-      const transactionWithDate = {
-        ...transaction,
-        date: transaction.date || Date.now(),
-        // Use the utility function to calculate the final splits
-        splits: calculateTransactionSplits(transaction)
-      };
       const newTransaction = await createFirebaseTransaction(transactionWithDate);
       
       // Update local state
@@ -442,6 +590,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       toast.success("Đã thêm giao dịch mới thành công!");
       return newTransaction;
     } catch (error) {
+      if (isOfflineError(error)) {
+        return queueOfflineTransaction(createdBy, transactionWithDate);
+      }
       console.error('Error creating transaction:', error);
       const errorMessage = error instanceof Error ? error.message : "Không thể tạo giao dịch mới";
       toast.error(errorMessage);
@@ -450,6 +601,61 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Create many transactions at once; the transactions listener adds them to the list
+  const importTransactions = async (
+    transactionsToImport: Omit<Transaction, "id" | "createdAt">[]
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      setIsLoading(true);
+      const count = await createTransactionsBatch(transactionsToImport.map(transaction =>
+        withRepaymentConfirmation(transaction, transaction.createdBy || currentUser.id)
+      ));
+      toast.success(`Đã nhập ${count} giao dịch`);
+      return true;
+    } catch (error) {
+      console.error('Error importing transactions:', error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể nhập giao dịch";
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Update an existing transaction and record a revision in its history
+  const updateTransaction = async (
+    transactionId: string,
+    transactionData: Partial<Omit<Transaction, "id" | "createdAt">>
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+    
+    try {
+      setIsLoading(true);
+      await updateFirebaseTransaction(transactionId, transactionData, currentUser.id);
+      
+      // Update local state
+      setTransactions((prev) =>
+        prev.map((transaction) =>
+          transaction.id === transactionId
+            ? { ...transaction, ...transactionData, updatedAt: Date.now() }
+            : transaction
+        )
+      );
+      
+      toast.success("Đã cập nhật giao dịch thành công!");
+      return true;
+    } catch (error) {
+      console.error('Error updating transaction:', error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể cập nhật giao dịch";
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Update an existing fund
   const updateFund = async (
     fundId: string,
@@ -487,33 +693,101 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Archive a fund or restore it; funds that require settling first are checked against
+  // their transactions, which may not be loaded yet when archiving from the dashboard
+  const setFundArchived = async (fundId: string, isArchived: boolean): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const fund = funds.find(f => f.id === fundId) || (selectedFund?.id === fundId ? selectedFund : null);
+
+    try {
+      setIsLoading(true);
+
+      if (isArchived && fund?.requireSettledToArchive) {
+        const balances = calculateBalancesFromTransactions(await getFundTransactions(fundId));
+        if (!isFullySettled(balances)) {
+          toast.error('Quỹ vẫn còn số dư chưa quyết toán, không thể lưu trữ');
+          return false;
+        }
+      }
+
+      const archivedAt = await setFirebaseFundArchived(fundId, isArchived);
+      const applyArchiveState = (f: Fund): Fund => ({ ...f, isArchived, archivedAt });
+
+      setFunds(prev => prev.map(f => f.id === fundId ? applyArchiveState(f) : f));
+      if (selectedFund?.id === fundId) {
+        setSelectedFund(prev => prev ? applyArchiveState(prev) : prev);
+      }
+
+      toast.success(isArchived ? 'Đã lưu trữ quỹ' : 'Đã khôi phục quỹ');
+      return true;
+    } catch (error) {
+      console.error('Error changing fund archive state:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Không thể thay đổi trạng thái lưu trữ';
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Calculate balances for a fund
   const calculateBalances = (fundId: string) => {
-    const fundTransactions = transactions.filter(
-      (transaction) => transaction.fundId === fundId
+    return calculateBalancesFromTransactions(
+      transactions.filter((transaction) => transaction.fundId === fundId)
     );
-    
-    const balances: Record<string, number> = {};
-    
-    for (const transaction of fundTransactions) {
-      for (const split of transaction.splits) {
-        if (!balances[split.userId]) {
-          balances[split.userId] = 0;
-        }
-        balances[split.userId] += split.amount;
-      }
+  };
+
+  // Balance changes of repayments that are still waiting for their recipient
+  const calculatePendingBalances = (fundId: string) => {
+    return calculatePendingBalancesFromTransactions(
+      transactions.filter((transaction) => transaction.fundId === fundId)
+    );
+  };
+
+  // Confirm or reject a repayment addressed to the current user
+  const respondToSettlement = async (
+    transaction: Transaction,
+    confirmed: boolean,
+    reason?: string
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      const status = confirmed ? SettlementStatus.CONFIRMED : SettlementStatus.REJECTED;
+      await respondToFirebaseSettlement(transaction.id, status, reason);
+
+      setTransactions((prev) => prev.map((t) => t.id === transaction.id
+        ? { ...t, settlementStatus: status, settlementRejectReason: confirmed ? "" : reason || "", settlementRespondedAt: Date.now() }
+        : t
+      ));
+
+      sendSettlementResponseNotification(
+        transaction.fundId,
+        transaction.id,
+        transaction.paidBy,
+        currentUser.id,
+        transaction.amount,
+        confirmed,
+        reason
+      ).catch((error) => console.error('Error notifying payer about settlement response:', error));
+
+      toast.success(confirmed ? "Đã xác nhận nhận tiền" : "Đã từ chối khoản thanh toán");
+      return true;
+    } catch (error) {
+      console.error('Error responding to settlement:', error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể cập nhật khoản thanh toán";
+      toast.error(errorMessage);
+      return false;
     }
-    
-    return Object.entries(balances).map(([userId, amount]) => ({
-      userId,
-      amount,
-    }));
   };
 
   // Check for cached auth state on initial load
   useEffect(() => {
     console.log('AppContext: Initializing authentication...');
     let hasRestoredFromCache = false;
+    let restoredUserId: string | null = null;
+    let hasAuthState = false;
     
     // Try to restore from sessionStorage to provide immediate UI feedback
     const cachedUser = sessionStorage.getItem('currentUser');
@@ -524,6 +798,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         setCurrentUser(parsedUser);
         setIsAuthLoading(false); // Show UI immediately with cached data
         hasRestoredFromCache = true;
+        restoredUserId = parsedUser.id;
         
         // Load funds for cached user in background
         loadUserFunds(parsedUser.id).catch(error => {
@@ -539,10 +814,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
     const unsubscribe = onAuthStateChange(async (firebaseUser) => {
       console.log('AppContext: Auth state changed:', firebaseUser ? 'authenticated' : 'not authenticated');
       setAuthInitialized(true); // Mark that Firebase has provided initial state
+      hasAuthState = true;
       
       if (firebaseUser) {
         // Skip processing if we already have this exact user loaded
-        if (currentUser && currentUser.id === firebaseUser.uid && hasRestoredFromCache) {
+        if (hasRestoredFromCache && restoredUserId === firebaseUser.uid) {
           console.log('AppContext: User already loaded from cache, verifying...');
           // Just verify the user is still valid, don't reload everything
           try {
@@ -594,7 +870,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
     // Set auth loading to false after a maximum timeout to prevent infinite loading
     const loadingTimeout = setTimeout(() => {
-      if (!authInitialized) {
+      if (!hasAuthState) {
         console.warn('AppContext: Auth initialization timeout, proceeding with current state');
         setIsAuthLoading(false);
         setAuthInitialized(true);
@@ -606,31 +882,134 @@ export function AppProvider({ children }: { children: ReactNode }) {
       unsubscribe();
       clearTimeout(loadingTimeout);
     };
-  }, []);
+  }, [loadUserFunds]);
   
-  // Load transactions when a fund is selected
+  // Create any recurring transactions that fell due when a fund is selected;
+  // the transactions listener picks them up
+  // Viewers cannot create transactions, so they leave due occurrences to the other members;
+  // members create those of their own templates, owners and admins everyone's.
+  // Archived funds are read-only, so their templates stay paused until the fund is restored
+  const selectedFundId = selectedFund?.id;
+  const selectedFundRole = getMemberRole(selectedFund, currentUserId);
+  const canCreateRecurring = !!selectedFund && !selectedFund.isArchived && canContribute(selectedFundRole);
+  const recurringCreatorId = canManageFund(selectedFundRole) ? undefined : currentUserId;
   useEffect(() => {
-    if (selectedFund) {
-      loadFundTransactions(selectedFund.id);
-    }
-  }, [selectedFund]);
-  
-  // Reload transactions periodically to ensure we have the latest data
+    if (!selectedFundId || !canCreateRecurring) return;
+
+    materializeDueRecurringTransactions(selectedFundId, recurringCreatorId)
+      .then(createdCount => {
+        if (createdCount > 0) {
+          toast.info(`Đã tạo ${createdCount} giao dịch định kỳ`);
+        }
+      })
+      .catch(error => {
+        console.error('Error creating recurring transactions:', error);
+      });
+  }, [selectedFundId, canCreateRecurring, recurringCreatorId]);
+
+  // Alert the members when spending crosses a budget threshold. Every contributor's app
+  // checks; the alert is recorded on the fund so it is only sent once
   useEffect(() => {
-    if (!selectedFund) return;
-    
-    // Initial load
-    loadFundTransactions(selectedFund.id);
-    
-    // Set up interval to refresh transactions
-    const intervalId = setInterval(() => {
-      if (selectedFund) {
-        loadFundTransactions(selectedFund.id);
+    if (!selectedFund || selectedFund.isArchived || !hasBudget(selectedFund.budget)) return;
+    if (!canContribute(getMemberRole(selectedFund, currentUserId))) return;
+
+    const fundTransactions = transactions.filter(transaction => transaction.fundId === selectedFund.id);
+    const crossedLimits = getBudgetUsage(selectedFund, fundTransactions, getFundCategories(selectedFund))
+      .filter(usage => getReachedAlertThreshold(usage.percent) > (selectedFund.budgetAlertsSent?.[usage.scope] || 0));
+    if (crossedLimits.length === 0) return;
+
+    const alertKey = [selectedFund.id, ...crossedLimits.map(usage => `${usage.scope}:${getReachedAlertThreshold(usage.percent)}`)].join('|');
+    if (lastBudgetAlertKeyRef.current === alertKey) return;
+    lastBudgetAlertKeyRef.current = alertKey;
+
+    sendBudgetAlerts(selectedFund, crossedLimits).catch(error => {
+      console.error('Error sending budget alerts:', error);
+    });
+  }, [transactions, selectedFund, currentUserId]);
+
+  // Send the current user's automatic payment reminders that are due and stop those of settled debts.
+  // Only creditors can write their reminder history, so reminders go out when the creditor opens the fund
+  useEffect(() => {
+    if (!selectedFund || selectedFund.isArchived || !currentUserId) return;
+
+    const fundTransactions = transactions.filter(transaction => transaction.fundId === selectedFund.id);
+    const debts = getRemindableDebts(fundTransactions);
+    const setting = selectedFund.paymentReminderSettings?.[currentUserId];
+    if (!needsPaymentReminderUpdate(setting, paymentReminders, debts, currentUserId)) return;
+
+    const reminderKey = JSON.stringify([selectedFund.id, debts, paymentReminders, setting || null]);
+    if (lastReminderKeyRef.current === reminderKey) return;
+    lastReminderKeyRef.current = reminderKey;
+
+    sendDuePaymentReminders(selectedFund, paymentReminders, debts, currentUserId).catch(error => {
+      console.error('Error sending payment reminders:', error);
+    });
+  }, [transactions, selectedFund, paymentReminders, currentUserId]);
+
+  // Keep a fund and its transactions in sync with Firestore while it is open.
+  // onClosed is called once if the fund is deleted or the current user loses access to it.
+  const watchFund = useCallback((fundId: string, onClosed: () => void) => {
+    let isClosed = false;
+
+    const close = (message: string) => {
+      if (isClosed) return;
+      isClosed = true;
+      setFunds(prev => prev.filter(f => f.id !== fundId));
+      setSelectedFund(prev => (prev?.id === fundId ? null : prev));
+      setTransactions([]);
+      toast.info(message);
+      onClosed();
+    };
+
+    setIsLoading(true);
+
+    const unsubscribeFund = subscribeToFund(
+      fundId,
+      (fund) => {
+        if (!fund) {
+          close("Quỹ này đã bị xóa");
+          return;
+        }
+        if (currentUserId && !(fund.members || []).includes(currentUserId)) {
+          close("Bạn không còn là thành viên của quỹ này");
+          return;
+        }
+
+        setFunds(prev => prev.map(f => (f.id === fund.id ? fund : f)));
+        setSelectedFund(prev => (prev?.id === fund.id ? fund : prev));
+      },
+      (error) => {
+        if ((error as { code?: string }).code === 'permission-denied') {
+          close("Bạn không còn quyền truy cập quỹ này");
+        }
       }
-    }, 30000); // Refresh every 30 seconds
-    
-    return () => clearInterval(intervalId);
-  }, [selectedFund?.id]);
+    );
+
+    const unsubscribeTransactions = subscribeToFundTransactions(
+      fundId,
+      (fundTransactions) => {
+        setTransactions(fundTransactions);
+        setIsLoading(false);
+      },
+      (error) => {
+        setIsLoading(false);
+        if ((error as { code?: string }).code === 'permission-denied') {
+          close("Bạn không còn quyền truy cập quỹ này");
+        } else if (!isClosed) {
+          toast.error('Không thể tải danh sách giao dịch');
+        }
+      }
+    );
+
+    setPaymentReminders({});
+    const unsubscribeReminders = subscribeToPaymentReminders(fundId, setPaymentReminders);
+
+    return () => {
+      unsubscribeFund();
+      unsubscribeTransactions();
+      unsubscribeReminders();
+    };
+  }, [currentUserId]);
 
   // Delete a transaction
   const deleteTransactionById = async (transactionId: string): Promise<boolean> => {
@@ -654,6 +1033,45 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Remind a debtor of what they owe the current user, at most once a day per debt
+  const sendPaymentReminder = async (fund: Fund, debt: Settlement): Promise<boolean> => {
+    try {
+      const debtorName = getUserById(debt.from).displayName;
+      const isSent = await sendFirebasePaymentReminder(fund, debt);
+
+      if (isSent) {
+        toast.success(`Đã gửi lời nhắc cho ${debtorName}`);
+      } else {
+        toast.info(`${debtorName} đã được nhắc trong 24 giờ qua`);
+      }
+      return isSent;
+    } catch (error) {
+      console.error('Error sending payment reminder:', error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể gửi lời nhắc";
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  // Turn the current user's automatic reminders for a fund on or off
+  const updatePaymentReminderSetting = async (
+    fundId: string,
+    setting: PaymentReminderSetting | null
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    try {
+      await updateFirebasePaymentReminderSetting(fundId, currentUser.id, setting);
+      toast.success(setting ? "Đã bật nhắc nợ tự động" : "Đã tắt nhắc nợ tự động");
+      return true;
+    } catch (error) {
+      console.error('Error updating payment reminder setting:', error);
+      const errorMessage = error instanceof Error ? error.message : "Không thể lưu cài đặt nhắc nợ";
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
   // Function to get a specific fund by ID directly from Firebase
   const fetchFundById = async (fundId: string): Promise<Fund | null> => {
     try {
@@ -689,6 +1107,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         funds,
         transactions,
         selectedFund,
+        paymentReminders,
         login,
         loginWithEmail,
         registerWithEmail,
@@ -697,13 +1116,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
         createFund,
         updateFund,
         createTransaction,
+        updateTransaction,
         deleteTransaction: deleteTransactionById,
+        importTransactions,
         getUserById,
         loadUsers,
         users,
         findUserByEmail,
         addMemberByEmail,
+        joinFundWithInvite,
+        setFundArchived,
         calculateBalances,
+        calculatePendingBalances,
+        respondToSettlement,
+        sendPaymentReminder,
+        updatePaymentReminderSetting,
         refreshCurrentUser,
         deleteFund,
         isAuthLoading,
@@ -712,7 +1139,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
         hasInitiallyLoaded,
         loadUserFunds,
         loadFundTransactions,
-        getFundById: fetchFundById
+        getFundById: fetchFundById,
+        watchFund,
+        pendingTransactions,
+        syncPendingTransactions,
+        discardPendingTransaction
       }}
     >
       {children}
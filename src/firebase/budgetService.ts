@@ -0,0 +1,80 @@
+import { db } from './config';
+import { doc, runTransaction, FieldPath } from 'firebase/firestore';
+import { Fund } from '@/types';
+import { createNotification } from './messagingService';
+import { formatCurrency } from '@/lib/utils';
+import { BudgetUsage, TOTAL_BUDGET_SCOPE, getReachedAlertThreshold } from '@/utils/budgetUtils';
+import { isPlaceholderMember } from '@/utils/placeholderUtils';
+
+// Collection references
+const FUNDS_COLLECTION = 'funds';
+
+/**
+ * Record that a budget alert is being sent. Members' apps check budgets at the same time,
+ * so the threshold is claimed in a transaction and only the first app sends the alert.
+ * @param fundId Fund ID
+ * @param scope Budget scope ("total" or a category name)
+ * @param threshold Alert threshold in percent
+ * @returns Whether this call claimed the alert
+ */
+const claimBudgetAlert = async (fundId: string, scope: string, threshold: number): Promise<boolean> => {
+  const fundRef = doc(db, FUNDS_COLLECTION, fundId);
+
+  return runTransaction(db, async (firestoreTransaction) => {
+    const fundSnapshot = await firestoreTransaction.get(fundRef);
+    if (!fundSnapshot.exists()) return false;
+
+    const alreadySent: number = fundSnapshot.data().budgetAlertsSent?.[scope] || 0;
+    if (threshold <= alreadySent) return false;
+
+    // Category names may contain dots, so the field path is built from segments
+    firestoreTransaction.update(fundRef, new FieldPath('budgetAlertsSent', scope), threshold);
+    return true;
+  });
+};
+
+/**
+ * Notify the members of a fund about budget limits whose spending crossed an alert threshold
+ * (80% and 100%) since the last alert, through the fund notifications.
+ * @param fund Fund with the budget
+ * @param usage Spending against each budget limit
+ * @returns Number of alerts sent
+ */
+export const sendBudgetAlerts = async (fund: Fund, usage: BudgetUsage[]): Promise<number> => {
+  try {
+    const recipients = fund.members.filter(memberId => !isPlaceholderMember(memberId));
+    let sentCount = 0;
+
+    for (const item of usage) {
+      const threshold = getReachedAlertThreshold(item.percent);
+      if (!threshold || !(await claimBudgetAlert(fund.id, item.scope, threshold))) continue;
+
+      const budgetName = item.scope === TOTAL_BUDGET_SCOPE ? 'ngân sách' : `ngân sách "${item.scope}"`;
+      const title = threshold >= 100
+        ? `${fund.name}: đã dùng hết ${budgetName}`
+        : `${fund.name}: đã dùng ${threshold}% ${budgetName}`;
+      const body = `Đã chi ${formatCurrency(item.spent)} / ${formatCurrency(item.limit)}`;
+
+      await createNotification(
+        fund.id,
+        title,
+        body,
+        '/logo.png',
+        `/funds/${fund.id}`,
+        {
+          fundId: fund.id,
+          type: 'budget',
+          scope: item.scope,
+          threshold: threshold.toString(),
+        },
+        recipients
+      );
+      sentCount++;
+    }
+
+    return sentCount;
+  } catch (error) {
+    console.error('Error sending budget alerts:', error);
+    throw error;
+  }
+};
@@ -2,7 +2,8 @@
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
 import { getAnalytics } from "firebase/analytics";
-import { getFirestore } from "firebase/firestore";
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from "firebase/firestore";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
 
 
 const defaultConfig = {
@@ -40,5 +41,17 @@ if (typeof window !== 'undefined' && import.meta.env.PROD) {
 }
 export { analytics };
 
-export const db = getFirestore(app);
+// Keep a persistent local cache so funds and transactions load without a connection
+// and writes made offline are kept until the connection comes back
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
+export const storage = getStorage(app);
+
+// Point Storage at the local emulator during development, e.g. VITE_FIREBASE_STORAGE_EMULATOR_HOST=localhost:9199
+const storageEmulatorHost = import.meta.env.VITE_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(":");
+  connectStorageEmulator(storage, host, Number(port) || 9199);
+}
 export default app;
@@ -1,6 +1,6 @@
 import { db } from './config';
-import { collection, doc, addDoc, getDoc, getDocs, updateDoc, deleteDoc, query, where, orderBy, serverTimestamp, Timestamp, DocumentReference, DocumentData } from 'firebase/firestore';
-import { Fund, User } from '@/types';
+import { collection, doc, addDoc, getDoc, getDocs, updateDoc, deleteDoc, query, where, orderBy, serverTimestamp, deleteField, Timestamp, DocumentReference, DocumentData, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { Fund, FundRole, User } from '@/types';
 
 // Collection reference
 const FUNDS_COLLECTION = 'funds';
@@ -49,6 +49,7 @@ export const createFund = async (
       createdAt: serverTimestamp(),
       createdBy: userId,
       members: uniqueMemberIds,
+      memberRoles: { ...fund.memberRoles, [userId]: FundRole.OWNER },
       updatedAt: serverTimestamp(),
     };
     
@@ -62,6 +63,7 @@ export const createFund = async (
       createdAt: Date.now(),
       createdBy: userId,
       members: uniqueMemberIds,
+      memberRoles: fundData.memberRoles,
     };
   } catch (error) {
     console.error('Error creating fund:', error);
@@ -135,6 +137,50 @@ export const getFundById = async (fundId: string): Promise<Fund | null> => {
   }
 };
 
+/**
+ * Listen to a fund document in real time
+ * @param fundId Fund ID
+ * @param onChange Called with the fund, or null once it has been deleted
+ * @param onError Called when the listener fails (e.g. the user was removed from the fund)
+ * @returns Function that stops listening
+ */
+export const subscribeToFund = (
+  fundId: string,
+  onChange: (fund: Fund | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const docRef = doc(db, FUNDS_COLLECTION, fundId);
+
+  return onSnapshot(
+    docRef,
+    (docSnap) => {
+      // A local delete is already handled by whoever deleted the fund
+      const hasPendingWrites = docSnap.metadata.hasPendingWrites;
+      if (!docSnap.exists()) {
+        if (!hasPendingWrites) {
+          onChange(null);
+        }
+        return;
+      }
+
+      const data = docSnap.data({ serverTimestamps: 'estimate' });
+      const createdAt = data.createdAt instanceof Timestamp
+        ? data.createdAt.toMillis()
+        : Date.now();
+
+      onChange({
+        ...data,
+        id: docSnap.id,
+        createdAt,
+      } as Fund);
+    },
+    (error) => {
+      console.error('Error listening to fund:', error);
+      onError?.(error);
+    }
+  );
+};
+
 /**
  * Update a fund
  * @param fundId Fund ID
@@ -159,6 +205,29 @@ export const updateFund = async (
   }
 };
 
+/**
+ * Archive a fund or restore it from the archive
+ * @param fundId Fund ID
+ * @param isArchived Whether the fund should be archived
+ * @returns Archive timestamp, or undefined when the fund was restored
+ */
+export const setFundArchived = async (fundId: string, isArchived: boolean): Promise<number | undefined> => {
+  try {
+    const archivedAt = isArchived ? Date.now() : undefined;
+
+    await updateDoc(doc(db, FUNDS_COLLECTION, fundId), {
+      isArchived,
+      archivedAt: archivedAt ?? deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+
+    return archivedAt;
+  } catch (error) {
+    console.error('Error changing fund archive state:', error);
+    throw error;
+  }
+};
+
 /**
  * Delete a fund
  * @param fundId Fund ID
@@ -267,6 +336,8 @@ export const removeFundMember = async (fundId: string, userId: string): Promise<
     
     await updateDoc(fundRef, {
       members: updatedMembers,
+      [`memberRoles.${userId}`]: deleteField(),
+      [`placeholderMembers.${userId}`]: deleteField(),
       updatedAt: serverTimestamp(),
     });
   } catch (error) {
@@ -274,3 +345,41 @@ export const removeFundMember = async (fundId: string, userId: string): Promise<
     throw error;
   }
 };
+
+/**
+ * Change the role of a fund member. The owner role cannot be given or taken away.
+ * @param fundId Fund ID
+ * @param userId Member user ID
+ * @param role New role
+ * @returns Promise that resolves when update is complete
+ */
+export const updateMemberRole = async (fundId: string, userId: string, role: FundRole): Promise<void> => {
+  try {
+    if (role === FundRole.OWNER) {
+      throw new Error('Không thể chuyển quyền chủ quỹ');
+    }
+
+    const fundRef = doc(db, FUNDS_COLLECTION, fundId);
+    const fundDoc = await getDoc(fundRef);
+
+    if (!fundDoc.exists()) {
+      throw new Error('Fund not found');
+    }
+
+    const fundData = fundDoc.data();
+    if (fundData.createdBy === userId) {
+      throw new Error('Không thể thay đổi quyền của chủ quỹ');
+    }
+    if (!(fundData.members || []).includes(userId)) {
+      throw new Error('Người dùng không còn là thành viên của quỹ');
+    }
+
+    await updateDoc(fundRef, {
+      [`memberRoles.${userId}`]: role,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,186 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  runTransaction,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { FundInvite, FundRole } from '@/types';
+import { getInviteUnavailableReason } from '@/utils/inviteUtils';
+
+// Collection references
+const FUND_INVITES_COLLECTION = 'fundInvites';
+const FUNDS_COLLECTION = 'funds';
+const fundInvitesRef = collection(db, FUND_INVITES_COLLECTION);
+
+/**
+ * Convert an invite document to a FundInvite object
+ */
+const toFundInvite = (id: string, data: DocumentData): FundInvite => {
+  const toMillis = (value: unknown) =>
+    value instanceof Timestamp ? value.toMillis() : typeof value === 'number' ? value : undefined;
+
+  return {
+    id,
+    fundId: data.fundId,
+    role: data.role || FundRole.MEMBER,
+    createdBy: data.createdBy,
+    createdAt: toMillis(data.createdAt) || Date.now(),
+    expiresAt: toMillis(data.expiresAt),
+    maxUses: typeof data.maxUses === 'number' ? data.maxUses : undefined,
+    useCount: data.useCount || 0,
+    revokedAt: toMillis(data.revokedAt),
+  };
+};
+
+/**
+ * Create an invite link for a fund.
+ * The document ID is generated by Firestore and doubles as the unguessable token.
+ * @param invite Fund, role and optional limits of the invite
+ * @returns The created invite
+ */
+export const createFundInvite = async (
+  invite: Pick<FundInvite, 'fundId' | 'role' | 'createdBy' | 'expiresAt' | 'maxUses'>
+): Promise<FundInvite> => {
+  try {
+    const docRef = doc(fundInvitesRef);
+    const inviteData = Object.fromEntries(
+      Object.entries({
+        ...invite,
+        useCount: 0,
+        createdAt: serverTimestamp(),
+      }).filter(([_, v]) => v !== undefined)
+    );
+
+    await setDoc(docRef, inviteData);
+
+    return {
+      ...invite,
+      id: docRef.id,
+      useCount: 0,
+      createdAt: Date.now(),
+    };
+  } catch (error) {
+    console.error('Error creating fund invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all invites of a fund, newest first
+ * @param fundId Fund ID
+ * @returns Array of invites, including revoked and expired ones
+ */
+export const getFundInvites = async (fundId: string): Promise<FundInvite[]> => {
+  try {
+    const q = query(fundInvitesRef, where('fundId', '==', fundId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => toFundInvite(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error getting fund invites:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get an invite by its token
+ * @param token Token from the invite link
+ * @returns The invite, or null if it does not exist
+ */
+export const getFundInvite = async (token: string): Promise<FundInvite | null> => {
+  try {
+    const inviteDoc = await getDoc(doc(db, FUND_INVITES_COLLECTION, token));
+    return inviteDoc.exists() ? toFundInvite(inviteDoc.id, inviteDoc.data()) : null;
+  } catch (error) {
+    console.error('Error getting fund invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke an invite so it can no longer be used.
+ * It is kept so visitors opening the link are told it was revoked.
+ * @param token Invite token
+ */
+export const revokeFundInvite = async (token: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, FUND_INVITES_COLLECTION, token), {
+      revokedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error revoking fund invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Join a fund with an invite.
+ * The invite is checked and its use counted inside a Firestore transaction,
+ * so a link with a use limit cannot be used more times than allowed.
+ * @param token Invite token
+ * @param userId User joining the fund
+ * @returns ID of the joined fund
+ */
+export const joinFundWithInvite = async (token: string, userId: string): Promise<string> => {
+  try {
+    const inviteRef = doc(db, FUND_INVITES_COLLECTION, token);
+
+    return await runTransaction(db, async (firestoreTransaction) => {
+      const inviteSnapshot = await firestoreTransaction.get(inviteRef);
+      if (!inviteSnapshot.exists()) {
+        throw new Error('Lời mời không tồn tại');
+      }
+
+      const invite = toFundInvite(inviteSnapshot.id, inviteSnapshot.data());
+      const fundRef = doc(db, FUNDS_COLLECTION, invite.fundId);
+      const fundSnapshot = await firestoreTransaction.get(fundRef);
+      if (!fundSnapshot.exists()) {
+        throw new Error('Quỹ không còn tồn tại');
+      }
+
+      // Members opening the link again don't use it up
+      const members: string[] = fundSnapshot.data().members || [];
+      if (members.includes(userId)) {
+        return invite.fundId;
+      }
+
+      if (fundSnapshot.data().isArchived) {
+        throw new Error('Quỹ đã được lưu trữ');
+      }
+
+      const unavailableReason = getInviteUnavailableReason(invite);
+      if (unavailableReason) {
+        throw new Error(unavailableReason);
+      }
+
+      firestoreTransaction.update(fundRef, {
+        members: arrayUnion(userId),
+        [`memberRoles.${userId}`]: invite.role,
+        // Lets the security rules check the invite the new member used
+        joinedViaInvite: token,
+        updatedAt: serverTimestamp(),
+      });
+      firestoreTransaction.update(inviteRef, {
+        useCount: invite.useCount + 1,
+        lastUsedBy: userId,
+      });
+
+      return invite.fundId;
+    });
+  } catch (error) {
+    console.error('Error joining fund with invite:', error);
+    throw error;
+  }
+};
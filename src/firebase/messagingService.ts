@@ -290,6 +290,97 @@ export const sendTransactionNotification = async (
   }
 };
 
+/**
+ * Ask the recipient of a repayment to confirm that the money arrived.
+ * The notification carries confirm/reject actions that open the fund with the repayment selected.
+ * @param fundId Fund ID
+ * @param transactionId ID of the repayment transaction
+ * @param payerId User ID of the member who paid back
+ * @param recipientId User ID of the member who should have received the money
+ * @param amount Repaid amount
+ * @returns Promise<void>
+ */
+export const sendSettlementRequestNotification = async (
+  fundId: string,
+  transactionId: string,
+  payerId: string,
+  recipientId: string,
+  amount: number
+): Promise<void> => {
+  try {
+    const payer = await getUserById(payerId);
+    const payerName = payer?.displayName || 'Thành viên';
+
+    await createNotification(
+      fundId,
+      `${payerName} đã trả bạn ${formatCurrency(amount)}`,
+      'Xác nhận bạn đã nhận được tiền để cập nhật số dư',
+      payer?.photoURL || '/logo.png',
+      `/funds/${fundId}?settlement=${transactionId}`,
+      {
+        fundId,
+        transactionId,
+        type: 'settlement_request',
+        payerId,
+        amount: amount.toString(),
+      },
+      [recipientId]
+    );
+  } catch (error) {
+    console.error('Error sending settlement request notification:', error);
+    throw error;
+  }
+};
+
+/**
+ * Tell the payer whether the recipient confirmed or rejected their repayment
+ * @param fundId Fund ID
+ * @param transactionId ID of the repayment transaction
+ * @param payerId User ID of the member who paid back
+ * @param recipientId User ID of the member who responded
+ * @param amount Repaid amount
+ * @param confirmed Whether the recipient confirmed receipt
+ * @param reason Reason given when rejecting
+ * @returns Promise<void>
+ */
+export const sendSettlementResponseNotification = async (
+  fundId: string,
+  transactionId: string,
+  payerId: string,
+  recipientId: string,
+  amount: number,
+  confirmed: boolean,
+  reason?: string
+): Promise<void> => {
+  try {
+    const recipient = await getUserById(recipientId);
+    const recipientName = recipient?.displayName || 'Thành viên';
+    const title = confirmed
+      ? `${recipientName} đã xác nhận nhận ${formatCurrency(amount)}`
+      : `${recipientName} chưa nhận được ${formatCurrency(amount)}`;
+    const body = confirmed
+      ? 'Khoản thanh toán đã được tính vào số dư'
+      : (reason ? `Lý do: ${reason}` : 'Khoản thanh toán đã bị từ chối');
+
+    await createNotification(
+      fundId,
+      title,
+      body,
+      recipient?.photoURL || '/logo.png',
+      `/funds/${fundId}?transaction=${transactionId}`,
+      {
+        fundId,
+        transactionId,
+        type: confirmed ? 'settlement_confirmed' : 'settlement_rejected',
+      },
+      [payerId]
+    );
+  } catch (error) {
+    console.error('Error sending settlement response notification:', error);
+    throw error;
+  }
+};
+
 // Export notification interface for use in other components
 export interface Notification {
   id: string;
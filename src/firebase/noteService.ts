@@ -1,5 +1,5 @@
 import { db } from './config';
-import { collection, doc, addDoc, getDoc, getDocs, updateDoc, deleteDoc, query, where, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { collection, doc, addDoc, getDoc, getDocs, updateDoc, deleteDoc, query, where, serverTimestamp, Timestamp, onSnapshot, Unsubscribe, DocumentData } from 'firebase/firestore';
 import { Note } from '@/types';
 
 const NOTES_COLLECTION = 'notes';
@@ -32,6 +32,31 @@ export const createNote = async (
   } as Note;
 };
 
+const toNote = (id: string, data: DocumentData): Note => {
+  let createdAt = Date.now();
+  if (data.createdAt instanceof Timestamp) {
+    createdAt = data.createdAt.toMillis();
+  } else if (typeof data.createdAt === 'number') {
+    createdAt = data.createdAt;
+  }
+
+  let updatedAt = createdAt;
+  if (data.updatedAt instanceof Timestamp) {
+    updatedAt = data.updatedAt.toMillis();
+  } else if (typeof data.updatedAt === 'number') {
+    updatedAt = data.updatedAt;
+  }
+
+  return {
+    ...data,
+    id,
+    createdAt,
+    updatedAt,
+    title: data.title || 'Ghi chú mới',
+    content: data.content || '',
+  } as Note;
+};
+
 export const getFundNotes = async (fundId: string): Promise<Note[]> => {
   const q = query(
     notesRef,
@@ -40,34 +65,32 @@ export const getFundNotes = async (fundId: string): Promise<Note[]> => {
 
   const querySnapshot = await getDocs(q);
 
-  const notes = querySnapshot.docs.map(doc => {
-    const data = doc.data();
-
-    let createdAt = Date.now();
-    if (data.createdAt instanceof Timestamp) {
-      createdAt = data.createdAt.toMillis();
-    } else if (typeof data.createdAt === 'number') {
-      createdAt = data.createdAt;
-    }
+  const notes = querySnapshot.docs.map(doc => toNote(doc.id, doc.data()));
 
-    let updatedAt = createdAt;
-    if (data.updatedAt instanceof Timestamp) {
-      updatedAt = data.updatedAt.toMillis();
-    } else if (typeof data.updatedAt === 'number') {
-      updatedAt = data.updatedAt;
-    }
+  return notes.sort((a, b) => b.createdAt - a.createdAt);
+};
 
-    return {
-      ...data,
-      id: doc.id,
-      createdAt,
-      updatedAt,
-      title: data.title || 'Ghi chú mới',
-      content: data.content || '',
-    } as Note;
-  });
+export const subscribeToFundNotes = (
+  fundId: string,
+  onChange: (notes: Note[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    notesRef,
+    where('fundId', '==', fundId)
+  );
 
-  return notes.sort((a, b) => b.createdAt - a.createdAt);
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const notes = querySnapshot.docs.map(doc => toNote(doc.id, doc.data({ serverTimestamps: 'estimate' })));
+      onChange(notes.sort((a, b) => b.createdAt - a.createdAt));
+    },
+    (error) => {
+      console.error('Error listening to notes:', error);
+      onError?.(error);
+    }
+  );
 };
 
 export const getNoteById = async (noteId: string): Promise<Note | null> => {
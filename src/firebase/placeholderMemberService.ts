@@ -0,0 +1,176 @@
+import { db } from './config';
+import { doc, getDoc, updateDoc, writeBatch, arrayUnion, deleteField, serverTimestamp } from 'firebase/firestore';
+import { PlaceholderMember } from '@/types';
+import { getFundTransactions } from './transactionService';
+import { getFundRecurringTransactions } from './recurringTransactionService';
+import {
+  createPlaceholderMemberId,
+  replaceMemberInTransaction,
+  replaceMemberInRecurringTransaction
+} from '@/utils/placeholderUtils';
+
+// Collection references
+const FUNDS_COLLECTION = 'funds';
+const TRANSACTIONS_COLLECTION = 'transactions';
+const RECURRING_TRANSACTIONS_COLLECTION = 'recurringTransactions';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Add a named placeholder member to a fund for someone without an account.
+ * The placeholder gets a member ID like any user, so it can be used in splits right away.
+ * @param fundId Fund ID
+ * @param displayName Name shown for the placeholder
+ * @param createdBy User adding the placeholder
+ * @returns ID of the placeholder member
+ */
+export const addPlaceholderMember = async (
+  fundId: string,
+  displayName: string,
+  createdBy: string
+): Promise<string> => {
+  try {
+    const placeholderId = createPlaceholderMemberId();
+    const placeholder: PlaceholderMember = {
+      displayName: displayName.trim(),
+      createdBy,
+      createdAt: Date.now(),
+    };
+
+    await updateDoc(doc(db, FUNDS_COLLECTION, fundId), {
+      members: arrayUnion(placeholderId),
+      [`placeholderMembers.${placeholderId}`]: placeholder,
+      updatedAt: serverTimestamp(),
+    });
+
+    return placeholderId;
+  } catch (error) {
+    console.error('Error adding placeholder member:', error);
+    throw error;
+  }
+};
+
+/**
+ * Ask to take over a placeholder member. The claim is recorded on the fund until an
+ * owner or admin approves it with mergePlaceholderMember or rejects it.
+ * @param fundId Fund ID
+ * @param placeholderId ID of the placeholder member
+ * @param userId User claiming the placeholder
+ */
+export const requestPlaceholderClaim = async (
+  fundId: string,
+  placeholderId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, FUNDS_COLLECTION, fundId), {
+      [`placeholderClaims.${userId}`]: placeholderId,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error requesting placeholder claim:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reject a user's pending claim of a placeholder member
+ * @param fundId Fund ID
+ * @param userId User whose claim is rejected
+ */
+export const rejectPlaceholderClaim = async (fundId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, FUNDS_COLLECTION, fundId), {
+      [`placeholderClaims.${userId}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error rejecting placeholder claim:', error);
+    throw error;
+  }
+};
+
+/**
+ * Merge a placeholder member into a real user: every transaction and recurring template
+ * of the fund that mentions the placeholder is rewritten to the user's ID, then the
+ * placeholder is replaced by the user in the member list and the user's claim is cleared.
+ *
+ * Rewriting transactions entered by others is only allowed to owners and admins, so they
+ * run the merge, either for themselves or to approve a member's claim.
+ * If a step fails, running the merge again finishes it.
+ * @param fundId Fund ID
+ * @param placeholderId ID of the placeholder member
+ * @param userId User taking over the placeholder
+ * @returns Number of transactions that were rewritten
+ */
+export const mergePlaceholderMember = async (
+  fundId: string,
+  placeholderId: string,
+  userId: string
+): Promise<number> => {
+  try {
+    const fundRef = doc(db, FUNDS_COLLECTION, fundId);
+    const fundDoc = await getDoc(fundRef);
+
+    if (!fundDoc.exists()) {
+      throw new Error('Fund not found');
+    }
+
+    const fundData = fundDoc.data();
+    if (!fundData.placeholderMembers?.[placeholderId]) {
+      throw new Error('Thành viên tạm không còn tồn tại');
+    }
+
+    const transactionUpdates = (await getFundTransactions(fundId))
+      .map(transaction => ({
+        id: transaction.id,
+        changes: replaceMemberInTransaction(transaction, placeholderId, userId),
+      }))
+      .filter(update => update.changes !== null);
+
+    const templateUpdates = (await getFundRecurringTransactions(fundId))
+      .map(template => ({
+        id: template.id,
+        changes: replaceMemberInRecurringTransaction(template, placeholderId, userId),
+      }))
+      .filter(update => update.changes !== null);
+
+    const writes = [
+      ...transactionUpdates.map(update => ({
+        ref: doc(db, TRANSACTIONS_COLLECTION, update.id),
+        data: update.changes,
+      })),
+      ...templateUpdates.map(update => ({
+        ref: doc(db, RECURRING_TRANSACTIONS_COLLECTION, update.id),
+        data: update.changes,
+      })),
+    ];
+
+    for (let start = 0; start < writes.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      writes.slice(start, start + MAX_BATCH_SIZE).forEach(write => {
+        batch.update(write.ref, { ...write.data, updatedAt: serverTimestamp() });
+      });
+      await batch.commit();
+    }
+
+    // Other claims of the same placeholder are dropped with it
+    const claimants = Object.entries<string>(fundData.placeholderClaims || {})
+      .filter(([claimantId, claimedId]) => claimedId === placeholderId || claimantId === userId)
+      .map(([claimantId]) => claimantId);
+
+    const members: string[] = fundData.members || [];
+    await updateDoc(fundRef, {
+      members: [...new Set(members.map(id => id === placeholderId ? userId : id))],
+      [`placeholderMembers.${placeholderId}`]: deleteField(),
+      ...Object.fromEntries(claimants.map(claimantId => [`placeholderClaims.${claimantId}`, deleteField()])),
+      updatedAt: serverTimestamp(),
+    });
+
+    return transactionUpdates.length;
+  } catch (error) {
+    console.error('Error merging placeholder member:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,215 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { RecurringTransaction } from '@/types';
+import { calculateRecurringSplits, getDueOccurrences, getNextOccurrence } from '@/utils/recurringUtils';
+import { inferCategory } from '@/utils/categoryUtils';
+import { withRepaymentConfirmation } from '@/utils/settlementUtils';
+
+// Collection references
+const RECURRING_TRANSACTIONS_COLLECTION = 'recurringTransactions';
+const TRANSACTIONS_COLLECTION = 'transactions';
+const recurringTransactionsRef = collection(db, RECURRING_TRANSACTIONS_COLLECTION);
+
+/**
+ * Convert a recurring transaction document to a RecurringTransaction object
+ */
+const toRecurringTransaction = (id: string, data: DocumentData): RecurringTransaction => {
+  const createdAt = data.createdAt instanceof Timestamp
+    ? data.createdAt.toMillis()
+    : typeof data.createdAt === 'number' ? data.createdAt : Date.now();
+  const updatedAt = data.updatedAt instanceof Timestamp
+    ? data.updatedAt.toMillis()
+    : typeof data.updatedAt === 'number' ? data.updatedAt : createdAt;
+
+  return {
+    ...data,
+    id,
+    createdAt,
+    updatedAt,
+    shares: Array.isArray(data.shares) ? data.shares : [],
+    isPaused: !!data.isPaused,
+  } as RecurringTransaction;
+};
+
+/**
+ * Create a new recurring transaction template
+ * @param recurringTransaction Template data without id and timestamps
+ * @returns The created template with ID
+ */
+export const createRecurringTransaction = async (
+  recurringTransaction: Omit<RecurringTransaction, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<RecurringTransaction> => {
+  try {
+    const now = Date.now();
+
+    const templateData = {
+      ...recurringTransaction,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    const docRef = await addDoc(recurringTransactionsRef, templateData);
+
+    return {
+      ...recurringTransaction,
+      id: docRef.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    console.error('Error creating recurring transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all recurring transaction templates of a fund
+ * @param fundId Fund ID
+ * @returns Templates sorted by next due date
+ */
+export const getFundRecurringTransactions = async (fundId: string): Promise<RecurringTransaction[]> => {
+  try {
+    const q = query(recurringTransactionsRef, where('fundId', '==', fundId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => toRecurringTransaction(doc.id, doc.data()))
+      .sort((a, b) => a.nextDueDate - b.nextDueDate);
+  } catch (error) {
+    console.error('Error getting recurring transactions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a recurring transaction template (edit, pause or resume)
+ * @param recurringTransactionId Template ID
+ * @param templateData Fields to update
+ */
+export const updateRecurringTransaction = async (
+  recurringTransactionId: string,
+  templateData: Partial<Omit<RecurringTransaction, 'id' | 'createdAt' | 'createdBy' | 'fundId'>>
+): Promise<void> => {
+  try {
+    const docRef = doc(db, RECURRING_TRANSACTIONS_COLLECTION, recurringTransactionId);
+    await updateDoc(docRef, {
+      ...templateData,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating recurring transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a recurring transaction template.
+ * Transactions already created from it are kept.
+ * @param recurringTransactionId Template ID
+ */
+export const deleteRecurringTransaction = async (recurringTransactionId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, RECURRING_TRANSACTIONS_COLLECTION, recurringTransactionId));
+  } catch (error) {
+    console.error('Error deleting recurring transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Skip the next occurrence of a template without creating a transaction for it
+ * @param recurringTransaction Template to skip
+ * @returns The new next due date
+ */
+export const skipRecurringOccurrence = async (
+  recurringTransaction: RecurringTransaction
+): Promise<number> => {
+  try {
+    const nextDueDate = getNextOccurrence(recurringTransaction.schedule, recurringTransaction.nextDueDate);
+    await updateRecurringTransaction(recurringTransaction.id, { nextDueDate });
+    return nextDueDate;
+  } catch (error) {
+    console.error('Error skipping recurring occurrence:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create the transactions of every occurrence that has fallen due in a fund.
+ * Each template is advanced inside a Firestore transaction and occurrences use
+ * deterministic document IDs, so members opening the fund at the same time
+ * never create duplicates.
+ * Occurrences are recorded under the template creator, so members only create those of
+ * their own templates; owners and admins create everyone's.
+ * @param fundId Fund ID
+ * @param createdBy Only create the occurrences of this user's templates; all templates when omitted
+ * @returns Number of transactions created
+ */
+export const materializeDueRecurringTransactions = async (fundId: string, createdBy?: string): Promise<number> => {
+  try {
+    const now = Date.now();
+    const templates = await getFundRecurringTransactions(fundId);
+    const dueTemplates = templates.filter(template =>
+      (!createdBy || template.createdBy === createdBy) && getDueOccurrences(template, now).length > 0
+    );
+
+    let createdCount = 0;
+
+    for (const template of dueTemplates) {
+      const templateRef = doc(db, RECURRING_TRANSACTIONS_COLLECTION, template.id);
+
+      createdCount += await runTransaction(db, async (firestoreTransaction) => {
+        // Re-read inside the transaction in case another member already processed it
+        const snapshot = await firestoreTransaction.get(templateRef);
+        if (!snapshot.exists()) return 0;
+
+        const latest = toRecurringTransaction(snapshot.id, snapshot.data());
+        const dueDates = getDueOccurrences(latest, now);
+        if (dueDates.length === 0) return 0;
+
+        const splits = calculateRecurringSplits(latest);
+
+        dueDates.forEach(dueDate => {
+          const transactionRef = doc(db, TRANSACTIONS_COLLECTION, `${latest.id}_${dueDate}`);
+          firestoreTransaction.set(transactionRef, {
+            ...withRepaymentConfirmation({ splits, category: inferCategory(latest.description) }, latest.createdBy),
+            fundId: latest.fundId,
+            description: latest.description,
+            amount: latest.amount,
+            paidBy: latest.paidBy,
+            date: dueDate,
+            recurringTransactionId: latest.id,
+            createdBy: latest.createdBy,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+        });
+
+        firestoreTransaction.update(templateRef, {
+          nextDueDate: getNextOccurrence(latest.schedule, dueDates[dueDates.length - 1]),
+          updatedAt: serverTimestamp(),
+        });
+
+        return dueDates.length;
+      });
+    }
+
+    return createdCount;
+  } catch (error) {
+    console.error('Error creating due recurring transactions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,251 @@
+import { db } from './config';
+import {
+  collection,
+  doc,
+  runTransaction,
+  updateDoc,
+  deleteField,
+  FieldPath,
+  onSnapshot,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { Fund, PaymentReminderSetting, PaymentReminderState, PayoutMethodType } from '@/types';
+import { createNotification } from './messagingService';
+import { getUserById } from './userService';
+import { formatCurrency } from '@/lib/utils';
+import { generateQRCodeUrl, generateVietQrPayload } from '@/services/bankService';
+import { getEWalletTransferUrl, getPayoutMethodForFund } from '@/utils/payoutUtils';
+import { Settlement } from '@/utils/settlementUtils';
+import {
+  canSendPaymentReminder,
+  getReminderPairKey,
+  isAutomaticReminderDue,
+  syncPaymentReminderStates,
+} from '@/utils/reminderUtils';
+
+// Collection references
+const FUNDS_COLLECTION = 'funds';
+const PAYMENT_REMINDERS_SUBCOLLECTION = 'paymentReminders';
+
+const paymentReminderRef = (fundId: string, key: string) =>
+  doc(db, FUNDS_COLLECTION, fundId, PAYMENT_REMINDERS_SUBCOLLECTION, key);
+
+/**
+ * Convert a reminder history document to a PaymentReminderState object.
+ * Send times are server timestamps, so the security rules can check the rate limit.
+ */
+const toPaymentReminderState = (data: DocumentData): PaymentReminderState => {
+  const toMillis = (value: unknown) =>
+    value instanceof Timestamp ? value.toMillis() : typeof value === 'number' ? value : undefined;
+
+  return {
+    since: toMillis(data.since) || Date.now(),
+    lastSentAt: toMillis(data.lastSentAt),
+    lastAutoSentAt: toMillis(data.lastAutoSentAt),
+  };
+};
+
+/**
+ * Subscribe to the reminder history of a fund's debts
+ * @param fundId Fund ID
+ * @param onChange Called with the history by pair key whenever it changes
+ * @param onError Called when the subscription fails
+ * @returns Function to stop listening
+ */
+export const subscribeToPaymentReminders = (
+  fundId: string,
+  onChange: (states: Record<string, PaymentReminderState>) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    collection(db, FUNDS_COLLECTION, fundId, PAYMENT_REMINDERS_SUBCOLLECTION),
+    (snapshot) => {
+      onChange(Object.fromEntries(
+        snapshot.docs.map(docSnap => [docSnap.id, toPaymentReminderState(docSnap.data({ serverTimestamps: 'estimate' }))])
+      ));
+    },
+    (error) => {
+      console.error('Error subscribing to payment reminders:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Record that a reminder is being sent for a debt. The creditor's devices may send automatic
+ * reminders at the same time, so the rate limit is checked and updated in a transaction.
+ * @param fund Fund the debt belongs to
+ * @param debt Debt being reminded about
+ * @param automatic Whether this is a scheduled reminder rather than one sent by the creditor
+ * @returns Whether this call claimed the reminder
+ */
+const claimPaymentReminder = async (fund: Fund, debt: Settlement, automatic: boolean): Promise<boolean> => {
+  const reminderRef = paymentReminderRef(fund.id, getReminderPairKey(debt.from, debt.to));
+
+  return runTransaction(db, async (firestoreTransaction) => {
+    const reminderSnapshot = await firestoreTransaction.get(reminderRef);
+    const state = reminderSnapshot.exists() ? toPaymentReminderState(reminderSnapshot.data()) : undefined;
+    const now = Date.now();
+    const isAllowed = automatic
+      ? isAutomaticReminderDue(fund.paymentReminderSettings?.[debt.to], state, now)
+      : canSendPaymentReminder(state, now);
+    if (!isAllowed) return false;
+
+    const sentAt = automatic
+      ? { lastSentAt: serverTimestamp(), lastAutoSentAt: serverTimestamp() }
+      : { lastSentAt: serverTimestamp() };
+
+    if (reminderSnapshot.exists()) {
+      firestoreTransaction.update(reminderRef, sentAt);
+    } else {
+      firestoreTransaction.set(reminderRef, { debtorId: debt.from, creditorId: debt.to, since: now, ...sentAt });
+    }
+    return true;
+  });
+};
+
+/**
+ * Notify a debtor of what they owe a creditor, with the creditor's VietQR code
+ * (or e-wallet link) so they can pay right away
+ */
+const sendPaymentReminderNotification = async (fund: Fund, debt: Settlement, automatic: boolean): Promise<void> => {
+  const creditor = await getUserById(debt.to);
+  const creditorName = creditor?.displayName || 'Thành viên';
+  const payoutMethod = getPayoutMethodForFund(creditor, fund.id);
+  const description = `Trả tiền ${fund.name}`;
+
+  const data: Record<string, string> = {
+    fundId: fund.id,
+    type: 'payment_reminder',
+    creditorId: debt.to,
+    debtorId: debt.from,
+    amount: debt.amount.toString(),
+    automatic: automatic.toString(),
+  };
+
+  if (payoutMethod?.type === PayoutMethodType.BANK && payoutMethod.bankCode) {
+    const qrPayload = generateVietQrPayload(payoutMethod.bankCode, payoutMethod.accountNumber, debt.amount, description);
+    if (qrPayload) data.qrPayload = qrPayload;
+    data.qrImageUrl = generateQRCodeUrl(
+      payoutMethod.bankCode,
+      payoutMethod.accountNumber,
+      debt.amount,
+      description,
+      payoutMethod.accountName,
+      'compact2'
+    );
+  } else if (payoutMethod) {
+    const transferUrl = getEWalletTransferUrl(payoutMethod);
+    if (transferUrl) data.transferUrl = transferUrl;
+  }
+
+  await createNotification(
+    fund.id,
+    `${creditorName} nhắc bạn trả ${formatCurrency(debt.amount)}`,
+    `Quỹ ${fund.name}: bạn còn nợ ${creditorName} ${formatCurrency(debt.amount)}. Chạm để mở mã QR thanh toán.`,
+    creditor?.photoURL || '/logo.png',
+    `/funds/${fund.id}?payTo=${debt.to}`,
+    data,
+    [debt.from]
+  );
+};
+
+/**
+ * Remind a debtor of a debt, unless they were already reminded within the rate limit.
+ * Only the creditor can send reminders for their debts.
+ * @param fund Fund the debt belongs to
+ * @param debt Debt from the fund's settlement plan
+ * @param automatic Whether this is a scheduled reminder
+ * @returns Whether the reminder was sent
+ */
+export const sendPaymentReminder = async (fund: Fund, debt: Settlement, automatic: boolean = false): Promise<boolean> => {
+  try {
+    if (!(await claimPaymentReminder(fund, debt, automatic))) return false;
+
+    await sendPaymentReminderNotification(fund, debt, automatic);
+    return true;
+  } catch (error) {
+    console.error('Error sending payment reminder:', error);
+    throw error;
+  }
+};
+
+/**
+ * Bring a creditor's reminder history in line with their open debts, then send the
+ * automatic reminders that are due. Settled debts are dropped, so their reminders stop.
+ * Runs on the creditor's own device, since only they can write their reminder history.
+ * @param fund Fund with reminder settings
+ * @param states Current reminder history of the fund, by pair key
+ * @param debts Open debts of the fund
+ * @param creditorId The signed-in user, whose debtors are reminded
+ * @returns Number of reminders sent
+ */
+export const sendDuePaymentReminders = async (
+  fund: Fund,
+  states: Record<string, PaymentReminderState>,
+  debts: Settlement[],
+  creditorId: string
+): Promise<number> => {
+  try {
+    const setting = fund.paymentReminderSettings?.[creditorId];
+    const syncedStates = syncPaymentReminderStates(setting, states, debts, creditorId);
+
+    const batch = writeBatch(db);
+    let hasChanges = false;
+    for (const debt of debts) {
+      const key = getReminderPairKey(debt.from, debt.to);
+      if (syncedStates[key] && !states[key]) {
+        batch.set(paymentReminderRef(fund.id, key), { debtorId: debt.from, creditorId, since: syncedStates[key].since }, { merge: true });
+        hasChanges = true;
+      }
+    }
+    for (const key of Object.keys(states)) {
+      if (key.endsWith(`:${creditorId}`) && !syncedStates[key]) {
+        batch.delete(paymentReminderRef(fund.id, key));
+        hasChanges = true;
+      }
+    }
+    if (hasChanges) await batch.commit();
+
+    let sentCount = 0;
+    for (const debt of debts) {
+      const key = getReminderPairKey(debt.from, debt.to);
+      if (debt.to !== creditorId || !isAutomaticReminderDue(setting, syncedStates[key])) continue;
+
+      if (await sendPaymentReminder(fund, debt, true)) sentCount++;
+    }
+
+    return sentCount;
+  } catch (error) {
+    console.error('Error sending due payment reminders:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn a member's automatic reminders for a fund on or off
+ * @param fundId Fund ID
+ * @param creditorId User ID of the member whose debtors are reminded
+ * @param setting Reminder schedule, or null to stop automatic reminders
+ */
+export const updatePaymentReminderSetting = async (
+  fundId: string,
+  creditorId: string,
+  setting: PaymentReminderSetting | null
+): Promise<void> => {
+  try {
+    const fundRef = doc(db, FUNDS_COLLECTION, fundId);
+    const value = setting
+      ? Object.fromEntries(Object.entries(setting).filter(([_, v]) => v !== undefined))
+      : deleteField();
+
+    await updateDoc(fundRef, new FieldPath('paymentReminderSettings', creditorId), value);
+  } catch (error) {
+    console.error('Error updating payment reminder setting:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { storage } from './config';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { compressImage } from '@/utils/imageUtils';
+
+// Storage folder for receipt photos, one subfolder per fund
+const RECEIPTS_FOLDER = 'receipts';
+
+/**
+ * Compress and upload a receipt photo for a transaction of a fund
+ * @param fundId Fund ID
+ * @param file Image selected by the user
+ * @returns Download URL of the uploaded photo
+ */
+export const uploadReceiptAttachment = async (fundId: string, file: File): Promise<string> => {
+  try {
+    const image = await compressImage(file);
+    const extension = image.type === 'image/jpeg' ? 'jpg' : file.name.split('.').pop() || 'img';
+    const fileName = `${Date.now()}_${Math.random().toString(36).slice(2, 10)}.${extension}`;
+    const fileRef = ref(storage, `${RECEIPTS_FOLDER}/${fundId}/${fileName}`);
+
+    await uploadBytes(fileRef, image, { contentType: image.type || file.type });
+    return await getDownloadURL(fileRef);
+  } catch (error) {
+    console.error('Error uploading receipt attachment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Upload several receipt photos in parallel
+ * @param fundId Fund ID
+ * @param files Images selected by the user
+ * @returns Download URLs in the same order as the files
+ */
+export const uploadReceiptAttachments = async (fundId: string, files: File[]): Promise<string[]> => {
+  return Promise.all(files.map(file => uploadReceiptAttachment(fundId, file)));
+};
+
+/**
+ * Delete uploaded attachments by their download URLs.
+ * Failures are logged and ignored so a missing file never blocks deleting a transaction.
+ * @param urls Download URLs of the attachments
+ */
+export const deleteAttachments = async (urls: string[]): Promise<void> => {
+  await Promise.all(urls.map(async (url) => {
+    try {
+      await deleteObject(ref(storage, url));
+    } catch (error) {
+      console.error('Error deleting attachment:', url, error);
+    }
+  }));
+};
@@ -1,20 +1,80 @@
 import { db } from './config';
-import { collection, doc, addDoc, getDoc, getDocs, updateDoc, deleteDoc, query, where, orderBy, serverTimestamp, Timestamp } from 'firebase/firestore';
-import { Transaction } from '@/types';
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc, deleteDoc, query, where, serverTimestamp, Timestamp, writeBatch, onSnapshot, Unsubscribe, DocumentData } from 'firebase/firestore';
+import { SettlementStatus, Transaction, TransactionChange, TransactionRevision } from '@/types';
+import { deleteAttachments } from './storageService';
 
 // We'll dynamically import the messaging service to prevent initialization issues
 
 // Collection reference
 const TRANSACTIONS_COLLECTION = 'transactions';
 const transactionsRef = collection(db, TRANSACTIONS_COLLECTION);
+// Per-transaction subcollection holding edit revisions
+const HISTORY_SUBCOLLECTION = 'history';
+
+/**
+ * Compare the fields being updated against the stored transaction
+ * @param current Transaction data currently stored in Firestore
+ * @param updates Fields that are about to be written
+ * @returns List of fields whose value actually changes
+ */
+const diffTransactionFields = (
+  current: Record<string, unknown>,
+  updates: Record<string, unknown>
+): TransactionChange[] => {
+  return Object.entries(updates)
+    .filter(([field]) => field !== 'updatedAt')
+    .filter(([field, value]) => JSON.stringify(current[field] ?? null) !== JSON.stringify(value ?? null))
+    .map(([field, value]) => ({
+      field,
+      before: current[field] ?? null,
+      after: value ?? null,
+    }));
+};
+
+/**
+ * Convert a transaction document to a Transaction object,
+ * filling in fields that older documents may be missing
+ */
+const toTransaction = (id: string, data: DocumentData): Transaction => {
+  // Convert Firestore Timestamp to milliseconds
+  let createdAt = Date.now();
+  if (data.createdAt instanceof Timestamp) {
+    createdAt = data.createdAt.toMillis();
+  } else if (typeof data.createdAt === 'number') {
+    createdAt = data.createdAt;
+  }
+
+  // Ensure date field exists
+  let date = createdAt;
+  if (data.date instanceof Timestamp) {
+    date = data.date.toMillis();
+  } else if (typeof data.date === 'number') {
+    date = data.date;
+  }
+
+  return {
+    ...data,
+    id,
+    createdAt,
+    date,
+    // Ensure splits is always an array
+    splits: Array.isArray(data.splits) ? data.splits : [],
+    // Ensure amount is a number
+    amount: typeof data.amount === 'number' ? data.amount : 0,
+    // Ensure description is a string
+    description: data.description || 'Giao dịch',
+  } as Transaction;
+};
 
 /**
  * Create a new transaction
  * @param transaction Transaction data without id and createdAt
+ * @param transactionId Optional document ID, used by the offline outbox so a retried write never creates a duplicate
  * @returns The created transaction with ID
  */
 export const createTransaction = async (
-  transaction: Omit<Transaction, 'id' | 'createdAt'>
+  transaction: Omit<Transaction, 'id' | 'createdAt'>,
+  transactionId?: string
 ): Promise<Transaction> => {
   try {
     // Create a timestamp for now
@@ -29,7 +89,7 @@ export const createTransaction = async (
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
       // Ensure we have a date field for consistent querying
-      date: now,
+      date: transaction.date || now,
       // Ensure splits is valid
       splits: validSplits,
       // Ensure amount is a number
@@ -43,14 +103,14 @@ export const createTransaction = async (
       Object.entries(transactionData).filter(([_, v]) => v !== undefined)
     );
     // Add to Firestore
-    const docRef = await addDoc(transactionsRef, filteredData);
+    const docRef = transactionId ? doc(transactionsRef, transactionId) : doc(transactionsRef);
+    await setDoc(docRef, filteredData);
     
     // Create the transaction object with ID
     const newTransaction = {
       ...transactionData,
       id: docRef.id,
       createdAt: now,
-      date: now,
       // Convert server timestamp back to number for client use
       updatedAt: now,
     } as Transaction;
@@ -78,6 +138,15 @@ export const createTransaction = async (
               transactionData.amount,
               members
             );
+            if (transactionData.settlementStatus === SettlementStatus.PENDING) {
+              await messagingService.sendSettlementRequestNotification(
+                transaction.fundId,
+                docRef.id,
+                transaction.paidBy,
+                transactionData.settlementRecipientId,
+                transactionData.amount
+              );
+            }
           } catch (importError) {
             console.error('Error importing messaging service:', importError);
           }
@@ -95,6 +164,69 @@ export const createTransaction = async (
   }
 };
 
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Create many transactions at once with batched writes, e.g. when importing a spreadsheet.
+ * No push notifications are sent for imported transactions; only repayments waiting
+ * for confirmation notify their recipient.
+ * @param transactions Transactions without id and createdAt
+ * @returns Number of transactions created
+ */
+export const createTransactionsBatch = async (
+  transactions: Omit<Transaction, 'id' | 'createdAt'>[]
+): Promise<number> => {
+  try {
+    const pendingSettlements: { id: string; transaction: Omit<Transaction, 'id' | 'createdAt'> }[] = [];
+
+    for (let start = 0; start < transactions.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+
+      transactions.slice(start, start + MAX_BATCH_SIZE).forEach(transaction => {
+        const transactionData = Object.fromEntries(
+          Object.entries({
+            ...transaction,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+            date: transaction.date || Date.now(),
+          }).filter(([_, v]) => v !== undefined)
+        );
+        const docRef = doc(transactionsRef);
+        batch.set(docRef, transactionData);
+        if (transaction.settlementStatus === SettlementStatus.PENDING) {
+          pendingSettlements.push({ id: docRef.id, transaction });
+        }
+      });
+
+      await batch.commit();
+    }
+
+    if (pendingSettlements.length > 0) {
+      try {
+        const messagingService = await import('./messagingService');
+        for (const { id, transaction } of pendingSettlements) {
+          await messagingService.sendSettlementRequestNotification(
+            transaction.fundId,
+            id,
+            transaction.paidBy,
+            transaction.settlementRecipientId,
+            transaction.amount
+          );
+        }
+      } catch (notificationError) {
+        // Don't fail the import if notifications fail
+        console.error('Error sending settlement notifications:', notificationError);
+      }
+    }
+
+    return transactions.length;
+  } catch (error) {
+    console.error('Error creating transactions in batch:', error);
+    throw error;
+  }
+};
+
 /**
  * Get all transactions for a fund
  * @param fundId Fund ID
@@ -111,45 +243,71 @@ export const getFundTransactions = async (fundId: string): Promise<Transaction[]
     
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      
-      // Convert Firestore Timestamp to milliseconds
-      let createdAt = Date.now();
-      if (data.createdAt instanceof Timestamp) {
-        createdAt = data.createdAt.toMillis();
-      } else if (typeof data.createdAt === 'number') {
-        createdAt = data.createdAt;
-      }
-      
-      // Ensure date field exists
-      let date = createdAt;
-      if (data.date instanceof Timestamp) {
-        date = data.date.toMillis();
-      } else if (typeof data.date === 'number') {
-        date = data.date;
-      }
-      
-      // Create a complete transaction object
-      return {
-        ...data,
-        id: doc.id,
-        createdAt,
-        date,
-        // Ensure splits is always an array
-        splits: Array.isArray(data.splits) ? data.splits : [],
-        // Ensure amount is a number
-        amount: typeof data.amount === 'number' ? data.amount : 0,
-        // Ensure description is a string
-        description: data.description || 'Giao dịch',
-      } as Transaction;
-    });
+    return querySnapshot.docs.map(doc => toTransaction(doc.id, doc.data()));
   } catch (error) {
     console.error('Error getting fund transactions:', error);
     throw error;
   }
 };
 
+/**
+ * Listen to the transactions of a fund in real time.
+ * The callback fires once with the current transactions and again on every
+ * change made by any member, sorted by date (newest first).
+ * @param fundId Fund ID
+ * @param onChange Called with the full list of transactions on every change
+ * @param onError Called when the listener fails (e.g. the user lost access)
+ * @returns Function that stops listening
+ */
+export const subscribeToFundTransactions = (
+  fundId: string,
+  onChange: (transactions: Transaction[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(transactionsRef, where('fundId', '==', fundId));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const transactions = querySnapshot.docs
+        .map(doc => toTransaction(doc.id, doc.data({ serverTimestamps: 'estimate' })))
+        .sort((a, b) => (b.date || b.createdAt) - (a.date || a.createdAt));
+      onChange(transactions);
+    },
+    (error) => {
+      console.error('Error listening to fund transactions:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Confirm or reject a repayment as its recipient. Only the recipient may do this,
+ * which the security rules enforce.
+ * @param transactionId ID of the repayment transaction
+ * @param status New status (confirmed or rejected)
+ * @param reason Reason shown to the payer when rejecting
+ * @returns Promise<void>
+ */
+export const respondToSettlement = async (
+  transactionId: string,
+  status: SettlementStatus.CONFIRMED | SettlementStatus.REJECTED,
+  reason?: string
+): Promise<void> => {
+  try {
+    const docRef = doc(db, TRANSACTIONS_COLLECTION, transactionId);
+    await updateDoc(docRef, {
+      settlementStatus: status,
+      settlementRejectReason: status === SettlementStatus.REJECTED ? (reason || '') : '',
+      settlementRespondedAt: Date.now(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error responding to settlement:', error);
+    throw error;
+  }
+};
+
 /**
  * Get a transaction by ID
  * @param transactionId Transaction ID
@@ -183,22 +341,58 @@ export const getTransactionById = async (transactionId: string): Promise<Transac
 
 /**
  * Update a transaction
+ * When `changedBy` is given, a revision describing the changed fields is
+ * written to the transaction's history subcollection in the same batch.
  * @param transactionId Transaction ID
  * @param transactionData Updated transaction data
+ * @param changedBy Optional user ID of who made the edit
  * @returns Promise that resolves when update is complete
  */
 export const updateTransaction = async (
   transactionId: string, 
-  transactionData: Partial<Omit<Transaction, 'id' | 'createdAt'>>
+  transactionData: Partial<Omit<Transaction, 'id' | 'createdAt'>>,
+  changedBy?: string
 ): Promise<void> => {
   try {
     const docRef = doc(db, TRANSACTIONS_COLLECTION, transactionId);
     
-    // Add updated timestamp
-    await updateDoc(docRef, {
-      ...transactionData,
+    // Firestore rejects undefined values
+    const filteredData = Object.fromEntries(
+      Object.entries(transactionData).filter(([_, v]) => v !== undefined)
+    );
+    
+    if (!changedBy) {
+      // Add updated timestamp
+      await updateDoc(docRef, {
+        ...filteredData,
+        updatedAt: serverTimestamp(),
+      });
+      return;
+    }
+    
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists()) {
+      throw new Error('Không tìm thấy giao dịch');
+    }
+    
+    // Only fields that are actually written end up in the revision
+    const changes = diffTransactionFields(docSnap.data(), filteredData);
+    if (changes.length === 0) {
+      return;
+    }
+    
+    const batch = writeBatch(db);
+    batch.update(docRef, {
+      ...filteredData,
       updatedAt: serverTimestamp(),
     });
+    batch.set(doc(collection(docRef, HISTORY_SUBCOLLECTION)), {
+      transactionId,
+      changedBy,
+      changedAt: serverTimestamp(),
+      changes,
+    });
+    await batch.commit();
   } catch (error) {
     console.error('Error updating transaction:', error);
     throw error;
@@ -206,81 +400,93 @@ export const updateTransaction = async (
 };
 
 /**
- * Delete a transaction
+ * Get the edit history of a transaction
+ * @param transactionId Transaction ID
+ * @returns Revisions sorted from newest to oldest
+ */
+export const getTransactionHistory = async (transactionId: string): Promise<TransactionRevision[]> => {
+  try {
+    const historyRef = collection(db, TRANSACTIONS_COLLECTION, transactionId, HISTORY_SUBCOLLECTION);
+    const querySnapshot = await getDocs(historyRef);
+    
+    const revisions = querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      
+      let changedAt = Date.now();
+      if (data.changedAt instanceof Timestamp) {
+        changedAt = data.changedAt.toMillis();
+      } else if (typeof data.changedAt === 'number') {
+        changedAt = data.changedAt;
+      }
+      
+      return {
+        id: doc.id,
+        transactionId: data.transactionId || transactionId,
+        changedBy: data.changedBy || '',
+        changedAt,
+        changes: Array.isArray(data.changes) ? data.changes : [],
+      } as TransactionRevision;
+    });
+    
+    return revisions.sort((a, b) => b.changedAt - a.changedAt);
+  } catch (error) {
+    console.error('Error getting transaction history:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a transaction and its receipt photos
  * @param transactionId Transaction ID
  * @returns Promise that resolves when deletion is complete
  */
 export const deleteTransaction = async (transactionId: string): Promise<void> => {
   try {
     const docRef = doc(db, TRANSACTIONS_COLLECTION, transactionId);
+    const docSnap = await getDoc(docRef);
+    const attachments: string[] = docSnap.exists() ? docSnap.data().attachments || [] : [];
+    
     await deleteDoc(docRef);
+    
+    // Clean up the receipt photos once the transaction is gone
+    if (attachments.length > 0) {
+      await deleteAttachments(attachments);
+    }
   } catch (error) {
     console.error('Error deleting transaction:', error);
     throw error;
   }
 };
 
+// Firestore "in" filters accept at most 30 values
+const MAX_IN_QUERY_VALUES = 30;
+
 /**
  * Get transactions by user (where user is payer or included in splits)
  * @param userId User ID
- * @returns Array of transactions
+ * @param fundIds Funds to search, usually every fund the user belongs to
+ * @returns Array of transactions, newest first
  */
-export const getUserTransactions = async (userId: string): Promise<Transaction[]> => {
+export const getUserTransactions = async (userId: string, fundIds: string[]): Promise<Transaction[]> => {
   try {
-    // First get transactions where user is payer
-    const payerQuery = query(
-      transactionsRef, 
-      where('paidBy', '==', userId),
-      orderBy('date', 'desc')
-    );
-    
-    const payerSnapshot = await getDocs(payerQuery);
-    const payerTransactions = payerSnapshot.docs.map(doc => {
-      const data = doc.data();
-      const createdAt = data.createdAt instanceof Timestamp 
-        ? data.createdAt.toMillis() 
-        : Date.now();
-      
-      return {
-        ...data,
-        id: doc.id,
-        createdAt,
-      } as Transaction;
-    });
-    
-    // Unfortunately, Firestore doesn't support array-contains queries on nested fields
-    // So we need to get all transactions and filter client-side for splits
-    // In a production app, you might want to denormalize this data for better querying
-    const allTransactionsQuery = query(
-      transactionsRef,
-      orderBy('date', 'desc')
-    );
-    
-    const allSnapshot = await getDocs(allTransactionsQuery);
-    const splitTransactions = allSnapshot.docs
-      .map(doc => {
-        const data = doc.data();
-        const createdAt = data.createdAt instanceof Timestamp 
-          ? data.createdAt.toMillis() 
-          : Date.now();
-        
-        return {
-          ...data,
-          id: doc.id,
-          createdAt,
-        } as Transaction;
-      })
-      .filter(transaction => 
-        transaction.splits.some(split => split.userId === userId)
+    const transactions: Transaction[] = [];
+
+    // Splits can't be queried directly, so the user's funds are read and filtered client-side
+    for (let start = 0; start < fundIds.length; start += MAX_IN_QUERY_VALUES) {
+      const q = query(
+        transactionsRef,
+        where('fundId', 'in', fundIds.slice(start, start + MAX_IN_QUERY_VALUES))
       );
-    
-    // Combine and deduplicate transactions
-    const allUserTransactions = [...payerTransactions, ...splitTransactions];
-    const uniqueTransactions = Array.from(
-      new Map(allUserTransactions.map(item => [item.id, item])).values()
-    );
-    
-    return uniqueTransactions;
+      const querySnapshot = await getDocs(q);
+      transactions.push(...querySnapshot.docs.map(doc => toTransaction(doc.id, doc.data())));
+    }
+
+    return transactions
+      .filter(transaction =>
+        transaction.paidBy === userId ||
+        transaction.splits.some(split => split.userId === userId)
+      )
+      .sort((a, b) => (b.date || b.createdAt) - (a.date || a.createdAt));
   } catch (error) {
     console.error('Error getting user transactions:', error);
     throw error;
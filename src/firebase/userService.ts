@@ -9,7 +9,7 @@ import {
   setDoc, 
   updateDoc, 
   serverTimestamp} from 'firebase/firestore';
-import { User } from '@/types';
+import { PayoutMethod, PayoutMethodType, User } from '@/types';
 import { User as FirebaseUser } from 'firebase/auth';
 
 // Collection references
@@ -156,6 +156,9 @@ export const getUsersByIds = async (userIds: string[]): Promise<Map<string, User
           email: userData.email,
           photoURL: userData.photoURL || '',
           bankAccount: userData.bankAccount || undefined,
+          payoutMethods: userData.payoutMethods || undefined,
+          defaultPayoutMethodId: userData.defaultPayoutMethodId || undefined,
+          fundPayoutMethods: userData.fundPayoutMethods || undefined,
         };
         
         // Update cache
@@ -216,6 +219,51 @@ export const getUserByIdFromCache = (userId: string): User | null => {
   return null;
 };
 
+/**
+ * Save the payout methods of a user. The default bank account is also written to
+ * bankAccount so older versions of the app keep showing it.
+ * @param userId User ID
+ * @param payoutMethods All payout methods of the user
+ * @param defaultPayoutMethodId ID of the default method
+ * @param fundPayoutMethods Method ID to use per fund ID
+ */
+export const savePayoutMethods = async (
+  userId: string,
+  payoutMethods: PayoutMethod[],
+  defaultPayoutMethodId: string | null,
+  fundPayoutMethods: Record<string, string>
+): Promise<void> => {
+  try {
+    // Firestore rejects undefined values
+    const methods = payoutMethods.map(method =>
+      Object.fromEntries(Object.entries(method).filter(([, value]) => value !== undefined)) as PayoutMethod
+    );
+    const banks = methods.filter(method => method.type === PayoutMethodType.BANK);
+    const defaultBank = banks.find(method => method.id === defaultPayoutMethodId) || banks[0];
+
+    await updateDoc(doc(db, USERS_COLLECTION, userId), {
+      payoutMethods: methods,
+      defaultPayoutMethodId: defaultPayoutMethodId || null,
+      fundPayoutMethods,
+      bankAccount: defaultBank
+        ? {
+          accountNumber: defaultBank.accountNumber,
+          bankCode: defaultBank.bankCode,
+          bankName: defaultBank.bankName || '',
+          accountName: defaultBank.accountName || '',
+        }
+        : null,
+      updatedAt: Date.now(),
+    });
+
+    // Drop the cached copy so the next read returns the new methods
+    userCache.delete(userId);
+  } catch (error) {
+    console.error('Error saving payout methods:', error);
+    throw error;
+  }
+};
+
 /**
  * Create or update a user record in Firestore
  * @param user User data
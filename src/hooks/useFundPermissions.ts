@@ -0,0 +1,36 @@
+import { useApp } from "@/context/AppContext";
+import { Fund, FundRole, Note, RecurringTransaction, Transaction } from "@/types";
+import {
+  getMemberRole,
+  canManageFund,
+  canContribute,
+  canEditTransaction,
+  canEditNote,
+  canEditRecurringTransaction,
+} from "@/utils/permissionUtils";
+
+/**
+ * Role of the signed-in user in a fund and what it allows them to do.
+ * Archived funds are read-only for everyone until an owner or admin restores them.
+ */
+export function useFundPermissions(fund: Fund | null | undefined) {
+  const { currentUser } = useApp();
+  const role = getMemberRole(fund, currentUser?.id);
+  const isArchived = !!fund?.isArchived;
+
+  return {
+    role,
+    isOwner: role === FundRole.OWNER,
+    isArchived,
+    canArchive: canManageFund(role),
+    canManageMembers: !isArchived && canManageFund(role),
+    canEditFund: !isArchived && canManageFund(role),
+    canContribute: !isArchived && canContribute(role),
+    canEditTransaction: (transaction: Pick<Transaction, "createdBy" | "paidBy">) =>
+      !isArchived && canEditTransaction(role, transaction, currentUser?.id),
+    canEditNote: (note: Pick<Note, "createdBy">) =>
+      !isArchived && canEditNote(role, note, currentUser?.id),
+    canEditRecurringTransaction: (recurringTransaction: Pick<RecurringTransaction, "createdBy">) =>
+      !isArchived && canEditRecurringTransaction(role, recurringTransaction, currentUser?.id),
+  };
+}
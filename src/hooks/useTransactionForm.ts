@@ -1,8 +1,10 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { TransactionFormValidator, ValidationError } from "@/services/TransactionFormValidator";
 import { DEFAULT_FORM_VALUES, VALIDATION_DEBOUNCE_MS } from "@/constants/transactionConstants";
-import { sanitizeAmountInput, calculateEvenDistribution, addZerosToAmount } from "@/utils/transactionUtils";
+import { sanitizeAmountInput, calculateEvenDistributionWithPayers, calculateWeightedDistributionWithPayers, calculateItemizedDistributionWithPayers, getItemsSubtotal, getItemChargesTotal, addZerosToAmount } from "@/utils/transactionUtils";
 import { Currency } from "@/components/transactions/AmountInput/CurrencySelector";
+import { ItemizedCharges, ReceiptItem, SplitType, SplitWeight, TransactionCategory } from "@/types";
+import { inferCategory } from "@/utils/categoryUtils";
 
 export interface MemberSplit {
   userId: string;
@@ -13,6 +15,14 @@ export interface TransactionFormData {
   description: string;
   amount: string;
   splits: MemberSplit[];
+  payers: MemberSplit[]; // Empty or one entry = single payer; several entries = each payer's contribution
+  splitType: SplitType; // CUSTOM = amounts entered directly; PERCENTAGE / SHARES = computed from splitWeights; ITEMIZED = computed from items
+  splitWeights: SplitWeight[];
+  items: ReceiptItem[]; // Line items of an itemized bill
+  itemCharges: ItemizedCharges;
+  category: string; // Category name; inferred from the description until the user picks one
+  attachments: string[]; // Receipt photos already uploaded (download URLs)
+  pendingAttachments: File[]; // Receipt photos picked in this form, uploaded on submit
   aiPrompt: string;
   currency: Currency;
   convertedAmount: number | null;
@@ -21,6 +31,7 @@ export interface TransactionFormData {
 export interface UseTransactionFormProps {
   memberUsers: Array<{ id: string; displayName: string; email: string; photoURL: string }>;
   currentUserId?: string;
+  categories?: TransactionCategory[]; // Categories to infer from (defaults plus the fund's custom ones)
 }
 
 export interface UseTransactionFormReturn {
@@ -31,6 +42,15 @@ export interface UseTransactionFormReturn {
   setDescription: (value: string) => void;
   setAmount: (value: string) => void;
   setSplits: (splits: { userId: string; amount: number }[]) => void;
+  setPayers: (payers: MemberSplit[]) => void;
+  setSplitType: (splitType: SplitType) => void;
+  handleUpdateWeight: (userId: string, weight: number) => void;
+  setItems: (items: ReceiptItem[]) => void;
+  setItemCharges: (charges: ItemizedCharges) => void;
+  setCategory: (category: string) => void;
+  isCategoryInferred: boolean;
+  setAttachments: (attachments: string[]) => void;
+  setPendingAttachments: (files: File[]) => void;
   setAiPrompt: (value: string) => void;
   setCurrency: (currency: Currency) => void;
   setConvertedAmount: (amount: number | null) => void;
@@ -50,20 +70,45 @@ export interface UseTransactionFormReturn {
   handleCurrencyChange: (currency: Currency, convertedAmount: number | null) => void;
   resetForm: () => void;
   initializeForm: (data: Partial<TransactionFormData>) => void;
+  
+  // Payers with the amount each one actually covers (defaults to the current user paying everything)
+  resolvedPayers: MemberSplit[];
 }
 
+const EMPTY_ITEM_CHARGES: ItemizedCharges = { tax: 0, serviceCharge: 0, tip: 0 };
+
 export const useTransactionForm = ({ 
   memberUsers, 
-  currentUserId 
+  currentUserId,
+  categories
 }: UseTransactionFormProps): UseTransactionFormReturn => {
   // Form state
   const [description, setDescription] = useState<string>(DEFAULT_FORM_VALUES.description);
   const [amount, setAmount] = useState<string>(DEFAULT_FORM_VALUES.amount);
   const [splits, setSplits] = useState<{ userId: string; amount: number }[]>([]);
+  const [payers, setPayers] = useState<MemberSplit[]>([]);
+  const [splitType, setSplitTypeState] = useState<SplitType>(SplitType.CUSTOM);
+  const [splitWeights, setSplitWeights] = useState<SplitWeight[]>([]);
+  const [items, setItems] = useState<ReceiptItem[]>([]);
+  const [itemCharges, setItemCharges] = useState<ItemizedCharges>(EMPTY_ITEM_CHARGES);
+  const [category, setCategoryState] = useState<string>("");
+  const [isCategoryManual, setIsCategoryManual] = useState(false);
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
   const [aiPrompt, setAiPrompt] = useState<string>(DEFAULT_FORM_VALUES.aiPrompt);
   const [currency, setCurrency] = useState<Currency>({ code: "VND", name: "Vietnamese Dong", symbol: "₫", flag: "🇻🇳" });
   const [convertedAmount, setConvertedAmount] = useState<number | null>(null);
   
+  // Total in VND that the payers must cover
+  const totalInVND = currency.code !== "VND" && convertedAmount ? convertedAmount : (parseFloat(amount) || 0);
+  
+  // A single payer always covers the whole amount; several payers keep their own amounts
+  const resolvedPayers = useMemo<MemberSplit[]>(() => (
+    payers.length > 1
+      ? payers
+      : [{ userId: payers[0]?.userId || currentUserId || '', amount: totalInVND }]
+  ), [payers, currentUserId, totalInVND]);
+  
   // Validation state
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [showValidation, setShowValidation] = useState(false);
@@ -89,7 +134,7 @@ export const useTransactionForm = ({
     }
     
     // Perform validation
-    const errors = validatorRef.current.validateForm(description, amount, splits);
+    const errors = validatorRef.current.validateForm(description, amount, splits, resolvedPayers, totalInVND, splitType, splitWeights, items, itemCharges);
     
     // Update state if errors changed or if forced
     if (forceUpdate || JSON.stringify(errors) !== JSON.stringify(validationErrors)) {
@@ -102,7 +147,7 @@ export const useTransactionForm = ({
     }
     
     return errors.length === 0;
-  }, [description, amount, splits, validationErrors, lastValidatedAt]);
+  }, [description, amount, splits, resolvedPayers, totalInVND, splitType, splitWeights, items, itemCharges, validationErrors, lastValidatedAt]);
   
   // Handle amount input changes with sanitization
   const handleAmountChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -158,7 +203,7 @@ export const useTransactionForm = ({
     if (!totalAmount || memberUsers.length <= 1) return;
     
     const memberIds = memberUsers.map(user => user.id);
-    const newSplits = calculateEvenDistribution(totalAmount, memberIds, currentUserId);
+    const newSplits = calculateEvenDistributionWithPayers(totalAmount, memberIds, resolvedPayers);
     
     setSplits(newSplits);
     
@@ -166,7 +211,7 @@ export const useTransactionForm = ({
     setTimeout(() => {
       validateForm({ showErrors: false });
     }, 300);
-  }, [amount, convertedAmount, currency, currentUserId, memberUsers, validateForm]);
+  }, [amount, convertedAmount, currency, currentUserId, memberUsers, resolvedPayers, validateForm]);
   
   // Update individual split
   const handleUpdateSplit = useCallback((userId: string, value: number) => {
@@ -191,6 +236,45 @@ export const useTransactionForm = ({
     }, VALIDATION_DEBOUNCE_MS);
   }, [validateForm]);
   
+  // Switch how splits are entered; weighted modes start from an even split
+  const setSplitType = useCallback((newSplitType: SplitType) => {
+    setSplitTypeState(newSplitType);
+    
+    const memberIds = memberUsers.map(user => user.id);
+    if (newSplitType === SplitType.SHARES) {
+      setSplitWeights(memberIds.map(userId => ({ userId, weight: 1 })));
+    } else if (newSplitType === SplitType.PERCENTAGE && memberIds.length > 0) {
+      // Whole hundredths of a percent; the first member takes the leftover so the total is exactly 100
+      const basePercent = Math.floor(10000 / memberIds.length) / 100;
+      const leftover = Math.round((100 - basePercent * memberIds.length) * 100) / 100;
+      setSplitWeights(memberIds.map((userId, index) => ({
+        userId,
+        weight: index === 0 ? Math.round((basePercent + leftover) * 100) / 100 : basePercent,
+      })));
+    } else {
+      setSplitWeights([]);
+    }
+  }, [memberUsers]);
+  
+  // Picking a category by hand stops auto-categorization for this form
+  const setCategory = useCallback((newCategory: string) => {
+    setCategoryState(newCategory);
+    setIsCategoryManual(true);
+  }, []);
+  
+  // Infer the category from the description until the user picks one
+  useEffect(() => {
+    if (isCategoryManual) return;
+    setCategoryState(description ? inferCategory(description, categories) : "");
+  }, [description, categories, isCategoryManual]);
+  
+  // Update one member's percentage or number of shares
+  const handleUpdateWeight = useCallback((userId: string, weight: number) => {
+    setSplitWeights(prev => prev.some(w => w.userId === userId)
+      ? prev.map(w => w.userId === userId ? { ...w, weight } : w)
+      : [...prev, { userId, weight }]);
+  }, []);
+  
   // Handle currency change
   const handleCurrencyChange = useCallback((newCurrency: Currency, newConvertedAmount: number | null) => {
     console.log("useTransactionForm - handleCurrencyChange:", { newCurrency, newConvertedAmount });
@@ -199,26 +283,76 @@ export const useTransactionForm = ({
   }, []);
   
   // Effect to recalculate splits when convertedAmount changes
+  const lastConvertedAmountRef = useRef(convertedAmount);
   useEffect(() => {
+    // Payer or split mode edits keep the splits the user entered; only a new converted amount redistributes them
+    if (convertedAmount === lastConvertedAmountRef.current) return;
+    lastConvertedAmountRef.current = convertedAmount;
+
     // Skip if we don't have a valid amount or convertedAmount
     if (!amount || !convertedAmount || !currentUserId || !memberUsers.length) return;
     
-    // Only recalculate if we have a foreign currency and splits exist
-    if (currency.code !== "VND" && splits.length > 0) {
+    // Only recalculate if we have a foreign currency and splits exist; weighted splits recalculate on their own
+    if (currency.code !== "VND" && splits.length > 0 && splitType === SplitType.CUSTOM) {
       console.log("Recalculating splits due to convertedAmount change:", convertedAmount);
       
       // Recalculate splits based on the new convertedAmount
       const memberIds = memberUsers.map(user => user.id);
-      const newSplits = calculateEvenDistribution(convertedAmount, memberIds, currentUserId);
+      const newSplits = calculateEvenDistributionWithPayers(convertedAmount, memberIds, resolvedPayers);
       setSplits(newSplits);
     }
-  }, [convertedAmount, currency.code, amount, currentUserId, memberUsers, splits.length]);
+  }, [convertedAmount, currency.code, amount, currentUserId, memberUsers, splits.length, resolvedPayers, splitType]);
+  
+  // Keep percentage and shares splits in sync with the weights, total and payers
+  useEffect(() => {
+    if ((splitType !== SplitType.PERCENTAGE && splitType !== SplitType.SHARES) || !totalInVND || !memberUsers.length) return;
+    
+    const weightedSplits = calculateWeightedDistributionWithPayers(totalInVND, splitWeights, resolvedPayers);
+    const userIds = [...new Set([...memberUsers.map(user => user.id), ...weightedSplits.map(split => split.userId)])];
+    
+    setSplits(userIds.map(userId => ({
+      userId,
+      amount: weightedSplits.find(split => split.userId === userId)?.amount || 0,
+    })));
+  }, [splitType, splitWeights, totalInVND, resolvedPayers, memberUsers]);
+  
+  // An itemized bill's amount is its items plus tax, service charge and tip
+  useEffect(() => {
+    if (splitType !== SplitType.ITEMIZED) return;
+    
+    const itemizedTotal = Math.round(getItemsSubtotal(items) + getItemChargesTotal(itemCharges));
+    setAmount(itemizedTotal > 0 ? itemizedTotal.toString() : "");
+  }, [splitType, items, itemCharges]);
+  
+  // Keep itemized splits in sync with the items, total and payers
+  useEffect(() => {
+    if (splitType !== SplitType.ITEMIZED || !memberUsers.length) return;
+    
+    const itemizedSplits = totalInVND
+      ? calculateItemizedDistributionWithPayers(totalInVND, items, itemCharges, resolvedPayers)
+      : [];
+    const userIds = [...new Set([...memberUsers.map(user => user.id), ...itemizedSplits.map(split => split.userId)])];
+    
+    setSplits(userIds.map(userId => ({
+      userId,
+      amount: itemizedSplits.find(split => split.userId === userId)?.amount || 0,
+    })));
+  }, [splitType, items, itemCharges, totalInVND, resolvedPayers, memberUsers]);
 
   // Reset form to default values
   const resetForm = useCallback(() => {
     setDescription(DEFAULT_FORM_VALUES.description);
     setAmount(DEFAULT_FORM_VALUES.amount);
     setSplits([]);
+    setPayers([]);
+    setSplitTypeState(SplitType.CUSTOM);
+    setSplitWeights([]);
+    setItems([]);
+    setItemCharges(EMPTY_ITEM_CHARGES);
+    setCategoryState("");
+    setIsCategoryManual(false);
+    setAttachments([]);
+    setPendingAttachments([]);
     setAiPrompt(DEFAULT_FORM_VALUES.aiPrompt);
     setCurrency({ code: "VND", name: "Vietnamese Dong", symbol: "₫", flag: "🇻🇳" });
     setConvertedAmount(null);
@@ -234,6 +368,14 @@ export const useTransactionForm = ({
     if (data.aiPrompt !== undefined) setAiPrompt(data.aiPrompt);
     if (data.currency !== undefined) setCurrency(data.currency);
     if (data.convertedAmount !== undefined) setConvertedAmount(data.convertedAmount);
+    if (data.payers !== undefined) setPayers(data.payers);
+    if (data.splitType !== undefined) setSplitTypeState(data.splitType);
+    if (data.splitWeights !== undefined) setSplitWeights(data.splitWeights);
+    if (data.items !== undefined) setItems(data.items);
+    if (data.itemCharges !== undefined) setItemCharges(data.itemCharges);
+    if (data.category) setCategory(data.category);
+    if (data.attachments !== undefined) setAttachments(data.attachments);
+    if (data.pendingAttachments !== undefined) setPendingAttachments(data.pendingAttachments);
     
     if (data.splits && data.splits.length > 0) {
       const validSplits = data.splits.map(split => ({
@@ -249,7 +391,7 @@ export const useTransactionForm = ({
       }));
       setSplits(initialSplits);
     }
-  }, [memberUsers]);
+  }, [memberUsers, setCategory]);
   
   return {
     // Form data
@@ -257,6 +399,14 @@ export const useTransactionForm = ({
       description,
       amount,
       splits,
+      payers,
+      splitType,
+      splitWeights,
+      items,
+      itemCharges,
+      category,
+      attachments,
+      pendingAttachments,
       aiPrompt,
       currency,
       convertedAmount,
@@ -266,6 +416,15 @@ export const useTransactionForm = ({
     setDescription,
     setAmount,
     setSplits,
+    setPayers,
+    setSplitType,
+    handleUpdateWeight,
+    setItems,
+    setItemCharges,
+    setCategory,
+    isCategoryInferred: !isCategoryManual && !!category,
+    setAttachments,
+    setPendingAttachments,
     setAiPrompt,
     setCurrency,
     setConvertedAmount,
@@ -285,5 +444,6 @@ export const useTransactionForm = ({
     handleCurrencyChange,
     resetForm,
     initializeForm,
+    resolvedPayers,
   };
 };
@@ -2,7 +2,7 @@
 import { Button } from "@/components/ui/button";
 import { FundCard } from "@/components/funds/FundCard";
 import { useApp } from "@/context/AppContext";
-import { PlusIcon, WalletCardsIcon, SearchIcon } from "lucide-react";
+import { PlusIcon, WalletCardsIcon, SearchIcon, ArchiveIcon, ChevronDownIcon, ScaleIcon } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { useState, useEffect } from "react";
@@ -10,11 +10,13 @@ import { motion } from "framer-motion";
 import { DashboardSkeleton } from "@/components/skeletons/DashboardSkeleton";
 import { TestNotification } from "@/components/pwa";
 import { BankAccountButton } from "@/components/profile/BankAccountButton";
+import { cn } from "@/lib/utils";
 
 export default function Dashboard() {
   const { currentUser, funds, isLoading, hasInitiallyLoaded, loadUsers } = useApp();
   const [searchTerm, setSearchTerm] = useState("");
   const [usersLoadingForFunds, setUsersLoadingForFunds] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
 
   // Load users for all fund members when funds are available
   useEffect(() => {
@@ -51,6 +53,13 @@ export default function Dashboard() {
     fund.description.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Archived funds leave the main grid and are listed in their own section
+  const activeFunds = filteredFunds.filter(fund => !fund.isArchived);
+  const archivedFunds = filteredFunds
+    .filter(fund => fund.isArchived)
+    .sort((a, b) => (b.archivedAt || 0) - (a.archivedAt || 0));
+  const isArchivedExpanded = showArchived || !!searchTerm;
+
   const container = {
     hidden: { opacity: 0 },
     show: {
@@ -89,6 +98,12 @@ export default function Dashboard() {
         </div>
         <div className="flex gap-2">
           <BankAccountButton />
+          <Button asChild variant="outline" size="icon" title="Công nợ của tôi">
+            <Link to="/balances">
+              <ScaleIcon className="h-4 w-4" />
+              <span className="sr-only">Công nợ của tôi</span>
+            </Link>
+          </Button>
           <TestNotification variant="outline" size="sm" />
           <Button asChild className="group shadow-md hover:shadow-lg transition-all duration-300">
             <Link to="/funds/new" className="flex items-center gap-1">
@@ -125,12 +140,12 @@ export default function Dashboard() {
           <span>Quỹ của bạn</span>
           {searchTerm && (
             <span className="text-sm font-normal text-muted-foreground ml-2">
-              ({filteredFunds.length} kết quả)
+              ({activeFunds.length} kết quả)
             </span>
           )}
         </motion.h2>
 
-        {filteredFunds.length === 0 ? (
+        {activeFunds.length === 0 ? (
           <motion.div 
             className="text-center p-12 bg-gradient-to-br from-blue-50 to-white rounded-lg border border-blue-100 shadow-inner"
             variants={item}
@@ -145,6 +160,19 @@ export default function Dashboard() {
                   Xóa tìm kiếm
                 </Button>
               </>
+            ) : archivedFunds.length > 0 ? (
+              <>
+                <h3 className="text-lg font-medium mb-2">Không có quỹ nào đang hoạt động</h3>
+                <p className="text-muted-foreground mb-6">
+                  Tất cả quỹ của bạn đã được lưu trữ. Tạo quỹ mới cho chuyến đi tiếp theo
+                </p>
+                <Button asChild className="hover-lift">
+                  <Link to="/funds/new">
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Tạo quỹ mới
+                  </Link>
+                </Button>
+              </>
             ) : (
               <>
                 <h3 className="text-lg font-medium mb-2">Bạn chưa có quỹ nào</h3>
@@ -162,11 +190,33 @@ export default function Dashboard() {
           </motion.div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {filteredFunds.map((fund, index) => (
+            {activeFunds.map((fund, index) => (
               <FundCard key={fund.id} fund={fund} delay={index} />
             ))}
           </div>
         )}
+
+        {archivedFunds.length > 0 && (
+          <motion.div variants={item} className="pt-2">
+            <Button
+              variant="ghost"
+              className="px-2 -ml-2 text-muted-foreground"
+              onClick={() => setShowArchived(prev => !prev)}
+            >
+              <ArchiveIcon className="h-4 w-4 mr-2" />
+              <span>Đã lưu trữ ({archivedFunds.length})</span>
+              <ChevronDownIcon className={cn("h-4 w-4 ml-1 transition-transform", isArchivedExpanded && "rotate-180")} />
+            </Button>
+
+            {isArchivedExpanded && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+                {archivedFunds.map((fund, index) => (
+                  <FundCard key={fund.id} fund={fund} delay={index} />
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
       </motion.div>
     </div>
   );
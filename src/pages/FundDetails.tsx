@@ -1,11 +1,11 @@
 
 import { useApp } from "@/context/AppContext";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { FundDetailsSkeleton } from "@/components/skeletons/FundDetailsSkeleton";
 import { useRef } from "react";
-import { PlusIcon, ChevronDownIcon, ChevronUpIcon, CalendarIcon, SearchIcon, ArrowUpDownIcon, Users, EditIcon, MoreHorizontal, Receipt, CreditCard, Calculator, StickyNote } from "lucide-react";
+import { PlusIcon, ChevronDownIcon, ChevronUpIcon, CalendarIcon, SearchIcon, ArrowUpDownIcon, Users, EditIcon, MoreHorizontal, Receipt, CreditCard, Calculator, StickyNote, Repeat, FileUp, Archive } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TransactionList } from "@/components/transactions/TransactionList";
 import { PersonalTransactionList } from "@/components/transactions/PersonalTransactionList";
@@ -14,8 +14,11 @@ import { ReturnMoneyButton } from "@/components/transactions/ReturnMoneyButton";
 import { ManageMembersSheet } from "@/components/funds/ManageMembersSheet";
 import { DeleteFundDialog } from "@/components/funds/DeleteFundDialog";
 import { EditFundSheet } from "@/components/funds/EditFundSheet";
+import { ArchiveFundDialog } from "@/components/funds/ArchiveFundDialog";
 import { AiTransactionButton } from "@/components/ai/AiTransactionButton";
 import { BalanceCard } from "@/components/balances/BalanceCard";
+import { SettlementPlan } from "@/components/balances/SettlementPlan";
+import { PendingSettlements, SettlementAction } from "@/components/balances/PendingSettlements";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -33,11 +36,20 @@ import { calculateTotalExpense } from "@/utils/transactionUtils";
 import { SpotlightCard } from "@/components/ui/spotlight-card";
 import { BankAccountButton } from "@/components/profile/BankAccountButton";
 import { FundNotesTab } from "@/components/notes/FundNotesTab";
+import { ExportFundActions } from "@/components/funds/ExportFundActions";
+import { FundReportButton } from "@/components/funds/FundReportButton";
+import { ImportTransactionsSheet } from "@/components/import/ImportTransactionsSheet";
+import { RecurringTransactionsTab } from "@/components/recurring/RecurringTransactionsTab";
+import { useFundPermissions } from "@/hooks/useFundPermissions";
 
 export default function FundDetails() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { funds, selectedFund, setSelectedFund, calculateBalances, getUserById, currentUser, transactions, loadUsers, users } = useApp();
+  const { funds, selectedFund, setSelectedFund, calculateBalances, calculatePendingBalances, getUserById, currentUser, transactions, loadUsers, users } = useApp();
+  const [searchParams] = useSearchParams();
+  const focusSettlementId = searchParams.get("settlement") || undefined;
+  const settlementAction = (searchParams.get("action") || undefined) as SettlementAction | undefined;
+  const payToUserId = searchParams.get("payTo") || undefined;
   
   // Use the same DateRange type as the TransactionList component
   const [dateRange, setDateRange] = useState<{
@@ -52,7 +64,19 @@ export default function FundDetails() {
   const isFirstRender = useRef(true);
   
   // Use this to directly load fund data from Firebase if needed
-  const { getFundById } = useApp();
+  const { getFundById, watchFund } = useApp();
+  const permissions = useFundPermissions(selectedFund);
+
+  // Repayment and reminder links from notifications open the debts tab
+  useEffect(() => {
+    if (focusSettlementId || payToUserId) setActiveTab("debts");
+  }, [focusSettlementId, payToUserId]);
+
+  // Listen to the fund and its transactions while this page is open
+  useEffect(() => {
+    if (!id) return;
+    return watchFund(id, () => navigate("/dashboard"));
+  }, [id, watchFund, navigate]);
 
   useEffect(() => {
     if (!id) return;
@@ -123,6 +147,7 @@ export default function FundDetails() {
   if (!selectedFund) return null;
 
   const balances = calculateBalances(selectedFund.id);
+  const pendingBalances = calculatePendingBalances(selectedFund.id);
   const filteredTransactions = transactions.filter(t => t.fundId === selectedFund.id);
   
   // Calculate total fund balance
@@ -165,43 +190,51 @@ export default function FundDetails() {
             <h1 className="text-2xl sm:text-3xl font-bold">{selectedFund.name}</h1>
             <p className="text-muted-foreground">{selectedFund.description}</p>
             <div className="mt-2 flex flex-wrap gap-2">
-              <EditFundSheet fund={selectedFund}>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="h-8 px-3 border-blue-200 bg-blue-50/50 hover:bg-blue-100 hover:text-blue-700 transition-all"
-                >
-                  <EditIcon className="h-4 w-4 mr-1.5 text-blue-500" />
-                  <span>Chỉnh sửa</span>
-                  <div className="ml-1.5 bg-gradient-to-r from-violet-500 to-blue-500 text-white text-[10px] px-1.5 py-0.5 rounded-full font-medium flex items-center gap-1">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="animate-pulse">
-                      <path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2z"></path>
-                      <path d="M2 12h2"></path>
-                      <path d="M20 12h2"></path>
-                      <path d="M12 2v2"></path>
-                      <path d="M12 20v2"></path>
-                      <path d="m4.93 4.93 1.41 1.41"></path>
-                      <path d="m17.66 17.66 1.41 1.41"></path>
-                      <path d="m17.66 6.34-1.41 1.41"></path>
-                      <path d="m4.93 19.07 1.41-1.41"></path>
-                    </svg>
-                    AI
-                  </div>
-                </Button>
-              </EditFundSheet>
+              {(permissions.canEditFund || permissions.canArchive) && (
+                <EditFundSheet fund={selectedFund}>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="h-8 px-3 border-blue-200 bg-blue-50/50 hover:bg-blue-100 hover:text-blue-700 transition-all"
+                  >
+                    <EditIcon className="h-4 w-4 mr-1.5 text-blue-500" />
+                    <span>Chỉnh sửa</span>
+                    <div className="ml-1.5 bg-gradient-to-r from-violet-500 to-blue-500 text-white text-[10px] px-1.5 py-0.5 rounded-full font-medium flex items-center gap-1">
+                      <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="animate-pulse">
+                        <path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2z"></path>
+                        <path d="M2 12h2"></path>
+                        <path d="M20 12h2"></path>
+                        <path d="M12 2v2"></path>
+                        <path d="M12 20v2"></path>
+                        <path d="m4.93 4.93 1.41 1.41"></path>
+                        <path d="m17.66 17.66 1.41 1.41"></path>
+                        <path d="m17.66 6.34-1.41 1.41"></path>
+                        <path d="m4.93 19.07 1.41-1.41"></path>
+                      </svg>
+                      AI
+                    </div>
+                  </Button>
+                </EditFundSheet>
+              )}
             </div>
           </div>
         </div>
         <div className="flex flex-col sm:flex-row gap-2 sm:self-start">
-          <CreateTransactionSheet fund={selectedFund}>
-            <Button className="flex items-center gap-1">
-              <PlusIcon className="h-4 w-4" />
-              <span>Thêm giao dịch</span>
-            </Button>
-          </CreateTransactionSheet>
+          {permissions.canContribute && (
+            <CreateTransactionSheet fund={selectedFund}>
+              <Button className="flex items-center gap-1">
+                <PlusIcon className="h-4 w-4" />
+                <span>Thêm giao dịch</span>
+              </Button>
+            </CreateTransactionSheet>
+          )}
           <BankAccountButton />
-          <ReturnMoneyButton fund={selectedFund} />
-          <AiTransactionButton fund={selectedFund} />
+          {permissions.canContribute && (
+            <>
+              <ReturnMoneyButton fund={selectedFund} />
+              <AiTransactionButton fund={selectedFund} />
+            </>
+          )}
           <Popover>
             <PopoverTrigger asChild>
               <Button variant="outline" size="icon" className="h-10 w-10">
@@ -216,16 +249,43 @@ export default function FundDetails() {
                     <span>Quản lý thành viên</span>
                   </Button>
                 </ManageMembersSheet>
-                <DeleteFundDialog fund={selectedFund}>
-                  <Button variant="ghost" className="w-full justify-start text-left text-red-600 hover:text-red-700 hover:bg-red-50">
-                    <span>Xoá quỹ</span>
-                  </Button>
-                </DeleteFundDialog>
+                {permissions.canContribute && (
+                  <ImportTransactionsSheet fund={selectedFund}>
+                    <Button variant="ghost" className="w-full justify-start text-left">
+                      <FileUp className="h-4 w-4 mr-2" />
+                      <span>Nhập từ CSV</span>
+                    </Button>
+                  </ImportTransactionsSheet>
+                )}
+                <FundReportButton fund={selectedFund} />
+                <ExportFundActions fund={selectedFund} dateRange={dateRange} />
+                {permissions.isOwner && (
+                  <DeleteFundDialog fund={selectedFund}>
+                    <Button variant="ghost" className="w-full justify-start text-left text-red-600 hover:text-red-700 hover:bg-red-50">
+                      <span>Xoá quỹ</span>
+                    </Button>
+                  </DeleteFundDialog>
+                )}
               </div>
             </PopoverContent>
           </Popover>
         </div>
       </div>
+
+      {/* Archived funds are read-only until restored */}
+      {permissions.isArchived && (
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-800">
+          <div className="flex items-center gap-2 text-sm">
+            <Archive className="h-4 w-4 flex-shrink-0" />
+            <span>
+              Quỹ đã được lưu trữ
+              {selectedFund.archivedAt && ` ngày ${format(selectedFund.archivedAt, "dd/MM/yyyy")}`}
+              {" "}và chỉ có thể xem.
+            </span>
+          </div>
+          {permissions.canArchive && <ArchiveFundDialog fund={selectedFund} />}
+        </div>
+      )}
       
       {/* Main Content */}
       <div className="space-y-6">
@@ -234,6 +294,10 @@ export default function FundDetails() {
             <TabsTrigger value="summary" className="flex-1 sm:flex-auto min-w-[80px]">Tổng quan</TabsTrigger>
             <TabsTrigger value="transactions" className="flex-1 sm:flex-auto min-w-[80px]">Giao dịch</TabsTrigger>
             <TabsTrigger value="debts" className="flex-1 sm:flex-auto min-w-[80px]">Khoản nợ</TabsTrigger>
+            <TabsTrigger value="recurring" className="flex-1 sm:flex-auto min-w-[80px]">
+              <Repeat className="h-4 w-4 mr-1.5" />
+              Định kỳ
+            </TabsTrigger>
             <TabsTrigger value="notes" className="flex-1 sm:flex-auto min-w-[80px]">
               <StickyNote className="h-4 w-4 mr-1.5" />
               Ghi chú
@@ -330,6 +394,7 @@ export default function FundDetails() {
                     {displayedMembers.map((balance) => {
                       const user = getUserById(balance.userId);
                       if (!user) return null;
+                      const pendingAmount = pendingBalances.find(b => b.userId === balance.userId)?.amount || 0;
                       
                       return (
                         <div key={balance.userId} className="flex items-center justify-between">
@@ -345,11 +410,18 @@ export default function FundDetails() {
                               {user.displayName}
                             </span>
                           </div>
-                          <Badge variant={balance.amount >= 0 ? "outline" : "destructive"} className={cn(
-                            balance.amount >= 0 ? "bg-emerald-50 text-emerald-700" : "",
-                          )}>
-                            {formatCurrency(balance.amount)}
-                          </Badge>
+                          <div className="flex flex-col items-end gap-0.5">
+                            <Badge variant={balance.amount >= 0 ? "outline" : "destructive"} className={cn(
+                              balance.amount >= 0 ? "bg-emerald-50 text-emerald-700" : "",
+                            )}>
+                              {formatCurrency(balance.amount)}
+                            </Badge>
+                            {pendingAmount !== 0 && (
+                              <span className="text-[11px] text-amber-600">
+                                {pendingAmount > 0 ? "+" : ""}{formatCurrency(pendingAmount)} chờ xác nhận
+                              </span>
+                            )}
+                          </div>
                         </div>
                       );
                     })}
@@ -508,9 +580,22 @@ export default function FundDetails() {
               </Button>
             </div>
             
+            <PendingSettlements
+              transactions={filteredTransactions}
+              focusTransactionId={focusSettlementId}
+              requestedAction={settlementAction}
+            />
+
+            <SettlementPlan fund={selectedFund} payToUserId={payToUserId} />
+            
             <PersonalTransactionList fund={selectedFund} searchQuery={searchQuery} dateRange={dateRange} />
           </TabsContent>
           
+          {/* Recurring Transactions Tab */}
+          <TabsContent value="recurring" className="animate-fade-in mt-6">
+            <RecurringTransactionsTab fund={selectedFund} />
+          </TabsContent>
+          
           {/* Notes Tab */}
           <TabsContent value="notes" className="animate-fade-in mt-6">
             <FundNotesTab fund={selectedFund} />
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useApp } from "@/context/AppContext";
+import { Fund, FundInvite } from "@/types";
+import { getFundInvite } from "@/firebase/inviteService";
+import { getFundById } from "@/firebase/fundService";
+import { getInviteUnavailableReason } from "@/utils/inviteUtils";
+import { FUND_ROLE_LABELS } from "@/constants/roleConstants";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, UserPlus, Users, XCircle } from "lucide-react";
+
+/**
+ * Landing page of an invite link: shows the fund and lets the signed-in user join it.
+ * Visitors who are not signed in get the login form first and come back here afterwards.
+ */
+export default function JoinFund() {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const { currentUser, getUserById, loadUsers, joinFundWithInvite } = useApp();
+  const [invite, setInvite] = useState<FundInvite | null>(null);
+  const [fund, setFund] = useState<Fund | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadInvite = async () => {
+      try {
+        setIsLoading(true);
+        const inviteData = await getFundInvite(token);
+        if (!inviteData) {
+          setError("Lời mời không tồn tại");
+          return;
+        }
+
+        const fundData = await getFundById(inviteData.fundId);
+        if (!fundData) {
+          setError("Quỹ không còn tồn tại");
+          return;
+        }
+
+        setInvite(inviteData);
+        setFund(fundData);
+      } catch (error) {
+        console.error("Error loading invite:", error);
+        setError("Không thể tải lời mời");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  // Load the inviter's profile to show who sent the link
+  useEffect(() => {
+    if (invite) loadUsers([invite.createdBy]);
+  }, [invite, loadUsers]);
+
+  const isMember = !!fund && !!currentUser && fund.members.includes(currentUser.id);
+  const unavailableReason = error || (invite && !isMember
+    ? (fund?.isArchived ? "Quỹ đã được lưu trữ" : getInviteUnavailableReason(invite))
+    : null);
+  const inviter = invite ? getUserById(invite.createdBy) : null;
+
+  const handleJoin = async () => {
+    if (!token) return;
+
+    setIsJoining(true);
+    const fundId = await joinFundWithInvite(token);
+    setIsJoining(false);
+
+    if (fundId) {
+      navigate(`/funds/${fundId}`, { replace: true });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span>Đang tải lời mời...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-md mx-auto py-10 px-4">
+      <Card>
+        {unavailableReason || !fund ? (
+          <>
+            <CardHeader className="items-center text-center">
+              <XCircle className="h-10 w-10 text-destructive mb-2" />
+              <CardTitle>Không thể tham gia</CardTitle>
+              <CardDescription>{unavailableReason}</CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button className="w-full" variant="outline" onClick={() => navigate("/dashboard")}>
+                Về trang chủ
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <>
+            <CardHeader className="items-center text-center">
+              <div className="text-5xl mb-2">{fund.icon}</div>
+              <CardTitle>{fund.name}</CardTitle>
+              {fund.description && <CardDescription>{fund.description}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-center text-muted-foreground">
+              {inviter && (
+                <p>
+                  <span className="font-medium text-foreground">{inviter.displayName}</span> mời bạn tham gia quỹ
+                </p>
+              )}
+              <div className="flex items-center justify-center gap-2">
+                <span className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  {fund.members.length} thành viên
+                </span>
+                {invite && <Badge variant="secondary">{FUND_ROLE_LABELS[invite.role]}</Badge>}
+              </div>
+            </CardContent>
+            <CardFooter>
+              {isMember ? (
+                <Button className="w-full" onClick={() => navigate(`/funds/${fund.id}`, { replace: true })}>
+                  Bạn đã là thành viên, mở quỹ
+                </Button>
+              ) : (
+                <Button className="w-full" onClick={handleJoin} disabled={isJoining}>
+                  {isJoining ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                  Tham gia quỹ
+                </Button>
+              )}
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
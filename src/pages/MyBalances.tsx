@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useApp } from "@/context/AppContext";
+import { Transaction } from "@/types";
+import { getUserTransactions, createTransactionsBatch } from "@/firebase/transactionService";
+import {
+  CounterpartPosition,
+  createSettlementTransaction,
+  getPersonalBalances,
+} from "@/utils/personalBalanceUtils";
+import { calculatePendingBalances } from "@/utils/settlementUtils";
+import { canContribute, getMemberRole } from "@/utils/permissionUtils";
+import { formatCurrency } from "@/utils/transactionUtils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PendingSettlements } from "@/components/balances/PendingSettlements";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowRight, CheckCircle2, HandCoins, Loader2, Scale, Users, WalletCards } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+/**
+ * What the signed-in user owes and is owed across all their funds:
+ * per fund, per person, and in total, with a one-step settle up per person
+ */
+export default function MyBalances() {
+  const { currentUser, funds, hasInitiallyLoaded, getUserById, loadUsers } = useApp();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settlingWith, setSettlingWith] = useState<CounterpartPosition | null>(null);
+  const [isSettling, setIsSettling] = useState(false);
+
+  const fundIdsKey = funds.map(fund => fund.id).sort().join(",");
+
+  const currentUserId = currentUser?.id;
+
+  const loadTransactions = useCallback(async () => {
+    if (!currentUserId) return;
+
+    try {
+      setIsLoading(true);
+      setTransactions(await getUserTransactions(currentUserId, fundIdsKey ? fundIdsKey.split(",") : []));
+    } catch (error) {
+      console.error("Error loading personal balances:", error);
+      toast.error("Không thể tải công nợ");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUserId, fundIdsKey]);
+
+  useEffect(() => {
+    if (hasInitiallyLoaded) loadTransactions();
+  }, [hasInitiallyLoaded, loadTransactions]);
+
+  const balances = useMemo(
+    () => getPersonalBalances(transactions, currentUserId || ""),
+    [transactions, currentUserId]
+  );
+
+  // Load the people the user has open positions with
+  useEffect(() => {
+    if (balances.counterparts.length > 0) {
+      loadUsers(balances.counterparts.map(counterpart => counterpart.userId));
+    }
+  }, [balances, loadUsers]);
+
+  const getFund = (fundId: string) => funds.find(fund => fund.id === fundId);
+
+  // Repayments can only be recorded in funds where the user can add transactions
+  const getSettleableFunds = (counterpart: CounterpartPosition) => {
+    return counterpart.funds.filter(position => {
+      const fund = getFund(position.fundId);
+      return !!fund && !fund.isArchived && canContribute(getMemberRole(fund, currentUser?.id));
+    });
+  };
+
+  const totalOwedToMe = balances.counterparts
+    .filter(counterpart => counterpart.amount > 0)
+    .reduce((sum, counterpart) => sum + counterpart.amount, 0);
+  const totalIOwe = balances.counterparts
+    .filter(counterpart => counterpart.amount < 0)
+    .reduce((sum, counterpart) => sum - counterpart.amount, 0);
+
+  const handleSettleAll = async () => {
+    if (!currentUser || !settlingWith) return;
+
+    const counterpart = getUserById(settlingWith.userId);
+    // Positive positions are paid back by the counterpart, negative ones by the user
+    const settlements = getSettleableFunds(settlingWith).map(position => position.amount > 0
+      ? createSettlementTransaction(
+          position.fundId,
+          settlingWith.userId,
+          currentUser.id,
+          position.amount,
+          `${counterpart.displayName} trả tiền cho ${currentUser.displayName}`,
+          currentUser.id
+        )
+      : createSettlementTransaction(
+          position.fundId,
+          currentUser.id,
+          settlingWith.userId,
+          -position.amount,
+          `Trả tiền cho ${counterpart.displayName}`,
+          currentUser.id
+        )
+    );
+
+    try {
+      setIsSettling(true);
+      const count = await createTransactionsBatch(settlements);
+      toast.success(`Đã ghi nhận ${count} giao dịch thanh toán với ${counterpart.displayName}`);
+      setSettlingWith(null);
+      await loadTransactions();
+    } catch (error) {
+      console.error("Error settling up:", error);
+      toast.error("Không thể ghi nhận thanh toán");
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  if (!hasInitiallyLoaded || isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span>Đang tính công nợ...</span>
+      </div>
+    );
+  }
+
+  const pendingAmount = calculatePendingBalances(transactions)
+    .find(balance => balance.userId === currentUser?.id)?.amount || 0;
+  const getFundName = (fundId: string) => funds.find(fund => fund.id === fundId)?.name || "Quỹ";
+  const settlingUser = settlingWith ? getUserById(settlingWith.userId) : null;
+  const settleableFunds = settlingWith ? getSettleableFunds(settlingWith) : [];
+  const settleableTotal = settleableFunds.reduce((sum, position) => sum + position.amount, 0);
+
+  return (
+    <div className="container mx-auto max-w-5xl py-6 px-4 sm:px-6 space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+          <Scale className="h-6 w-6 text-blue-500" />
+          Công nợ của tôi
+        </h1>
+        <p className="text-muted-foreground">Tổng hợp số tiền bạn nợ và được nợ trong tất cả các quỹ</p>
+      </div>
+
+      {/* Grand total */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tổng cộng</CardDescription>
+            <CardTitle className={cn(
+              "text-2xl",
+              balances.total > 0 ? "text-emerald-600" : balances.total < 0 ? "text-rose-600" : ""
+            )}>
+              {formatCurrency(balances.total)}
+            </CardTitle>
+            {pendingAmount !== 0 && (
+              <CardDescription className="text-amber-600">
+                {pendingAmount > 0 ? "+" : ""}{formatCurrency(pendingAmount)} chờ xác nhận
+              </CardDescription>
+            )}
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Bạn được nợ</CardDescription>
+            <CardTitle className="text-2xl text-emerald-600">{formatCurrency(totalOwedToMe)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Bạn đang nợ</CardDescription>
+            <CardTitle className="text-2xl text-rose-600">{formatCurrency(totalIOwe)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <PendingSettlements
+        transactions={transactions}
+        getFundName={getFundName}
+        onResponded={loadTransactions}
+      />
+
+      {balances.counterparts.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+            <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+            <span>Bạn không nợ ai và cũng không ai nợ bạn</span>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Per person across funds */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="h-4 w-4 text-blue-500" />
+                Theo người
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {balances.counterparts.map(counterpart => {
+                const user = getUserById(counterpart.userId);
+                const owesMe = counterpart.amount > 0;
+
+                return (
+                  <div key={counterpart.userId} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={user.photoURL} alt={user.displayName} />
+                          <AvatarFallback>{user.displayName.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{user.displayName}</div>
+                          <div className={cn("text-xs", owesMe ? "text-emerald-600" : "text-rose-600")}>
+                            {owesMe ? "Nợ bạn" : "Bạn nợ"} {formatCurrency(Math.abs(counterpart.amount))}
+                          </div>
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-shrink-0"
+                        disabled={getSettleableFunds(counterpart).length === 0}
+                        onClick={() => setSettlingWith(counterpart)}
+                      >
+                        <HandCoins className="h-4 w-4 mr-1" />
+                        Thanh toán hết
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {counterpart.funds.map(position => {
+                        const fund = getFund(position.fundId);
+                        return (
+                          <Badge key={position.fundId} variant="secondary" className="font-normal">
+                            {fund ? `${fund.icon} ${fund.name}` : "Quỹ"}: {position.amount > 0 ? "+" : ""}{formatCurrency(position.amount)}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Per fund */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <WalletCards className="h-4 w-4 text-blue-500" />
+                Theo quỹ
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {balances.funds.map(position => {
+                const fund = getFund(position.fundId);
+                if (!fund) return null;
+
+                return (
+                  <Link
+                    key={position.fundId}
+                    to={`/funds/${fund.id}`}
+                    className="flex items-center justify-between gap-3 rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-2xl">{fund.icon}</span>
+                      <span className="text-sm font-medium truncate">{fund.name}</span>
+                      {fund.isArchived && <Badge variant="outline" className="text-[10px]">Đã lưu trữ</Badge>}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <span className={cn("text-sm font-bold", position.amount > 0 ? "text-emerald-600" : "text-rose-600")}>
+                        {formatCurrency(position.amount)}
+                      </span>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  </Link>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <AlertDialog open={!!settlingWith} onOpenChange={(open) => !open && setSettlingWith(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Thanh toán hết với {settlingUser?.displayName}?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  {settleableTotal >= 0
+                    ? `${settlingUser?.displayName} chuyển cho bạn ${formatCurrency(settleableTotal)}.`
+                    : `Bạn chuyển cho ${settlingUser?.displayName} ${formatCurrency(-settleableTotal)}.`}
+                  {" "}Một giao dịch trả nợ sẽ được ghi vào mỗi quỹ:
+                </p>
+                <ul className="space-y-1">
+                  {settleableFunds.map(position => {
+                    const fund = getFund(position.fundId);
+                    return (
+                      <li key={position.fundId} className="flex justify-between gap-2">
+                        <span className="truncate">{fund?.icon} {fund?.name}</span>
+                        <span className={position.amount > 0 ? "text-emerald-600" : "text-rose-600"}>
+                          {formatCurrency(position.amount)}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {settlingWith && settleableFunds.length < settlingWith.funds.length && (
+                  <p className="text-xs">
+                    Các quỹ đã lưu trữ hoặc bạn chỉ có quyền xem sẽ được bỏ qua.
+                  </p>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSettling}>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSettling}
+              onClick={(e) => {
+                e.preventDefault();
+                handleSettleAll();
+              }}
+            >
+              {isSettling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Xác nhận
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Fund, User } from "@/types";
+import { getFundCategories } from "@/utils/categoryUtils";
+
+/**
+ * Generate the prompt for reading a bill photo into a transaction
+ * @param fund Fund data containing members and other context
+ * @param members List of fund members with their display names
+ * @param currentUser Optional current user who took the photo
+ * @param currentDate Current date and time in Vietnam timezone
+ * @param instructions Optional note from the user on who paid and who shares the bill
+ * @returns Prompt string sent together with the image
+ */
+export const generateReceiptParserPrompt = (
+  fund: Fund,
+  members: User[],
+  currentUser: User | undefined,
+  currentDate: string,
+  instructions?: string
+): string => {
+  return `
+You are an AI assistant that reads photos of bills and receipts (mostly Vietnamese) and turns them into a shared expense.
+
+## CONTEXT:
+- Fund name: ${fund.name}
+- Current date and time in Vietnam: ${currentDate}
+- All fund members with IDs: ${members.map(m => `${m.displayName} (ID: ${m.id})`).join(', ')}
+${currentUser ? `- Current user who took the photo: ${currentUser.displayName} (ID: ${currentUser.id})` : ''}
+- Available categories: ${getFundCategories(fund).map(c => c.name).join(', ')}
+${instructions ? `- User's note about this bill: ${instructions}` : '- The user gave no note: the current user paid and the bill is split evenly among all members.'}
+
+## TASK:
+1. Read the bill: every line item (name, unit price, quantity), the final amount to pay (after tax, service charge and discounts) and the bill date.
+2. Split the final amount between members following the user's note, using the same net amount rules as a normal transaction.
+
+## OUTPUT FORMAT:
+Return ONLY a valid JSON object with the following structure:
+{
+  "desc": "Mô tả ngắn bằng tiếng Việt: tên cửa hàng, mục đích và cách chia. Ví dụ: 'Hóa đơn Nhà hàng Bếp Việt, chia đều cho 4 người'.",
+  "totalAmount": number,  // Final amount paid in VND, as printed on the bill
+  "date": "YYYY-MM-DD",  // Date printed on the bill; omit if none is visible
+  "payer": "UserId",
+  "category": "CategoryName",  // One of the available categories, exactly as written
+  "items": [
+    { "name": "Tên món", "price": number, "quantity": number, "assignedTo": ["UserId"] }  // price is the UNIT price; assignedTo only when the note says who had it
+  ],
+  "reasoning": "Giải thích bằng tiếng Việt, dùng TÊN mọi người. Kết thúc với phần FINAL AMOUNTS liệt kê số tiền cuối cùng của mỗi người.",
+  "users": {
+    "UserId1": "AmountValue1"  // Net amount: positive for receiving, negative for paying; must sum to zero
+  }
+}
+
+## RULES:
+1. Use exact user IDs from the member list, never names, in "payer", "users" and "assignedTo".
+2. If the note does not say who paid, the payer is the current user: ${currentUser ? currentUser.id : 'N/A'}.
+3. "totalAmount" is the final amount to pay, not the subtotal. Amounts on Vietnamese bills use "." as the thousands separator (45.000 = 45000).
+4. Do not list tax, service charge, discounts, cash given or change as items.
+5. When the note assigns items to people, each person pays for their items, and tax, service charge and discounts are shared in proportion to what they ordered.
+6. Amount values in "users" are strings with exact VND amounts (no symbols or separators).
+7. "category" must be exactly one of the available categories; use "Khác" if none fits.
+8. If the image is not a bill or is unreadable, return the text you can read as plain text instead of JSON.
+
+`;
+};
@@ -1,4 +1,5 @@
 import { Fund, User } from "@/types";
+import { getFundCategories } from "@/utils/categoryUtils";
 
 /**
  * Generate the system prompt for transaction parsing
@@ -23,11 +24,12 @@ You are an AI assistant that helps parse natural language transaction descriptio
 - Current date and time in Vietnam: ${currentDate}
 - All fund members with IDs: ${members.map(m => `${m.displayName} (ID: ${m.id})`).join(', ')}
 ${currentUser ? `- Current user making the request: ${currentUser.displayName} (ID: ${currentUser.id})` : ''}
+- Available categories: ${getFundCategories(fund).map(c => c.name).join(', ')}
 
 ## TASK:
 Parse the user's transaction description into a structured JSON object. Use the reasoning field to explain your calculations in Vietnamese, ensuring that the final amounts in the JSON match the reasoning.
 
-**Important**: Assume that one person (the payer) paid for everything upfront. The "users" field should reflect the net amounts each person needs to receive (positive) or pay (negative) to settle the transaction, with the sum equaling zero.
+**Important**: Unless the description says several people paid, assume that one person (the payer) paid for everything upfront. The "users" field should reflect the net amounts each person needs to receive (positive) or pay (negative) to settle the transaction, with the sum equaling zero.
 
 ## MULTI-EXPERT VERIFICATION APPROACH:
 To ensure accuracy, especially with user IDs, follow this Chain-of-Thought process:
@@ -46,6 +48,11 @@ Return ONLY a valid JSON object with the following structure:
   "desc": "Mô tả chi tiết giao dịch bằng tiếng Việt. Bao gồm: người trả tiền, tổng số tiền, mục đích chi tiêu, thời gian, địa điểm (nếu có), và cách chia tiền. Format: '[Tên người trả] đã trả [tổng tiền] cho [mục đích], [thời gian/địa điểm]. [Thêm chi tiết về cách chia tiền]. Prompt gốc: [ORIGINAL_PROMPT]'.",
   "totalAmount": number,  // Total amount of the transaction in VND
   "payer": "UserId",  // Must be the user ID of a fund member, not their name
+  "category": "CategoryName",  // One of the available categories, exactly as written
+  "payers": {  // OPTIONAL: only include when several people paid
+    "UserId1": "AmountPaid1",  // How much this person actually paid
+    // ...
+  },
   "reasoning": "Giải thích bằng tiếng Việt về cách chia tiền trong giao dịch này, sử dụng TÊN của mọi người (không phải ID). Kết thúc với phần FINAL AMOUNTS liệt kê số tiền cuối cùng của mỗi người. Bao gồm 'Tổng kiểm tra' để xác nhận tổng bằng 0.",
   "users": {
     "UserId1": "AmountValue1",  // Net amount: positive for receiving, negative for paying
@@ -68,6 +75,11 @@ Return ONLY a valid JSON object with the following structure:
    - "Tổng kiểm tra": Verify the sum is zero (e.g., "+358.333,33đ -71.666,67đ * 5 = 0đ").
 8. Convert shorthand like "430k" to 430,000 VND.
 9. If no payer is specified (e.g., "Hôm nay ăn sáng mỗi người 15k"), assume the current user paid for everyone.
+10. "category" must be exactly one of the available categories; use "Khác" if none fits.
+11. If several people paid (e.g., "Minh trả 300k, Hưng trả 200k"):
+   - Include "payers" with the amount each person paid; these must sum to "totalAmount".
+   - Set "payer" to the person who paid the most.
+   - Each person's net amount in "users" = amountPaid - theirShare (amountPaid is 0 for people who did not pay).
 
 ## USER ID VERIFICATION PROCESS:
 1. For each person mentioned in the transaction:
@@ -93,6 +105,7 @@ Return ONLY a valid JSON object with the following structure:
   "desc": "Minh đã trả 430.000đ cho chi tiêu chung tại Tam Đảo ngày 1. Chi tiết: Tổng chi phí 430.000đ được chia đều cho 6 thành viên: Minh, Hưng, Linh, Thiện, Quỳnh, Uyên, mỗi người 71.666,67đ. Prompt gốc: Tam Đảo day 1 (Phương chưa lên): 430k chia đều cho Minh, Hưng, Linh, Thiện, Quỳnh, Uyên. Minh trả tiền. Phần Minh nhận lại thì cần trừ phần Minh bị chia luôn do Minh cũng tham gia.",
   "totalAmount": 430000,
   "payer": "[Minh's user ID]",
+  "category": "Du lịch",
   "reasoning": "Minh đã trả trước 430.000đ cho chi tiêu chung tại Tam Đảo ngày 1.\\n\\nChi tiết tính toán:\\n- Tổng chi phí: 430.000đ\\n- Số người chia: 6 (Minh, Hưng, Linh, Thiện, Quỳnh, Uyên)\\n- Mỗi người phải trả: 430.000đ / 6 = 71.666,67đ\\n\\nPhân chia:\\n- Minh đã trả 430.000đ, phần của Minh là 71.666,67đ\\n- Minh cần nhận lại từ 5 người khác: 71.666,67đ × 5 = 358.333,33đ\\n- Các thành viên khác mỗi người cần trả 71.666,67đ\\n\\nFINAL AMOUNTS:\\n- Minh: +358.333,33đ\\n- Hưng: -71.666,67đ\\n- Linh: -71.666,67đ\\n- Thiện: -71.666,67đ\\n- Quỳnh: -71.666,67đ\\n- Uyên: -71.666,67đ\\n\\nTổng kiểm tra: +358.333,33đ - 71.666,67đ × 5 = +358.333,33đ - 358.333,35đ ≈ 0đ (sai số do làm tròn)",
   "users": {
     "[Minh's user ID]": "358333.33",
@@ -111,6 +124,7 @@ Return ONLY a valid JSON object with the following structure:
   "desc": "Minh đã trả 430.000đ cho chi tiêu của Hưng, Linh, Thiện, Quỳnh, Uyên ngày ${currentDate}. Chi tiết: Tổng chi phí 430.000đ được chia đều cho 5 thành viên, mỗi người 86.000đ. Prompt gốc: Minh trả 430k cho Hưng, Linh, Thiện, Quỳnh, Uyên.",
   "totalAmount": 430000,
   "payer": "[Minh's user ID]",
+  "category": "Khác",
   "reasoning": "Minh đã trả trước 430.000đ cho chi tiêu của 5 người: Hưng, Linh, Thiện, Quỳnh, Uyên.\\n\\nChi tiết tính toán:\\n- Tổng chi phí: 430.000đ\\n- Số người chia: 5\\n- Mỗi người phải trả: 430.000đ / 5 = 86.000đ\\n\\nPhân chia:\\n- Minh không tham gia chia chi phí, đã trả 430.000đ\\n- Minh cần nhận lại toàn bộ 430.000đ\\n- Mỗi người trong 5 người cần trả 86.000đ\\n\\nFINAL AMOUNTS:\\n- Minh: +430.000đ\\n- Hưng: -86.000đ\\n- Linh: -86.000đ\\n- Thiện: -86.000đ\\n- Quỳnh: -86.000đ\\n- Uyên: -86.000đ\\n\\nTổng kiểm tra: +430.000đ - 86.000đ × 5 = +430.000đ - 430.000đ = 0đ",
   "users": {
     "[Minh's user ID]": "430000",
@@ -122,6 +136,27 @@ Return ONLY a valid JSON object with the following structure:
   }
 }
 
+### Example 3: Several payers
+**Input**: "Ăn lẩu 500k, Minh trả 300k, Hưng trả 200k, chia đều cho Minh, Hưng, Linh, Thiện"
+**Output**:
+{
+  "desc": "Minh và Hưng đã trả 500.000đ cho bữa lẩu ngày ${currentDate}. Chi tiết: Minh trả 300.000đ, Hưng trả 200.000đ, tổng chi phí được chia đều cho 4 thành viên: Minh, Hưng, Linh, Thiện, mỗi người 125.000đ. Prompt gốc: Ăn lẩu 500k, Minh trả 300k, Hưng trả 200k, chia đều cho Minh, Hưng, Linh, Thiện.",
+  "totalAmount": 500000,
+  "payer": "[Minh's user ID]",
+  "category": "Ăn uống",
+  "payers": {
+    "[Minh's user ID]": "300000",
+    "[Hưng's user ID]": "200000"
+  },
+  "reasoning": "Minh trả 300.000đ và Hưng trả 200.000đ cho bữa lẩu tổng 500.000đ.\\n\\nChi tiết tính toán:\\n- Tổng chi phí: 500.000đ\\n- Số người chia: 4 (Minh, Hưng, Linh, Thiện)\\n- Mỗi người phải trả: 500.000đ / 4 = 125.000đ\\n\\nPhân chia:\\n- Minh: đã trả 300.000đ - phần 125.000đ = +175.000đ\\n- Hưng: đã trả 200.000đ - phần 125.000đ = +75.000đ\\n- Linh, Thiện: mỗi người -125.000đ\\n\\nFINAL AMOUNTS:\\n- Minh: +175.000đ\\n- Hưng: +75.000đ\\n- Linh: -125.000đ\\n- Thiện: -125.000đ\\n\\nTổng kiểm tra: +175.000đ + 75.000đ - 125.000đ × 2 = 0đ",
+  "users": {
+    "[Minh's user ID]": "175000",
+    "[Hưng's user ID]": "75000",
+    "[Linh's user ID]": "-125000",
+    "[Thiện's user ID]": "-125000"
+  }
+}
+
 ## REASONING STEPS:
 1. Identify the payer and total amount (e.g., "Minh trả tiền", "430k" → 430,000 VND).
 2. Determine participants and whether the payer is included (e.g., "chia đều cho Minh, Hưng, ..." includes Minh).
@@ -1,5 +1,5 @@
 import { TransactionValidator } from "./TransactionValidator";
-import { User } from "@/types";
+import { User, Payer, SplitType, SplitWeight, ReceiptItem, ItemizedCharges } from "@/types";
 
 /**
  * Validation error interface for transaction form
@@ -131,14 +131,174 @@ export class TransactionFormValidator {
     return errors;
   }
 
+  /**
+   * Validate the payers of a transaction
+   * @param payers Everyone who paid and how much
+   * @param totalAmount The total transaction amount the payers must cover
+   * @returns Array of validation errors, empty if valid
+   */
+  public validatePayers(payers: Payer[], totalAmount: number): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!payers || payers.length === 0) {
+      errors.push({
+        field: 'payers',
+        message: 'Vui lòng chọn người trả tiền',
+        severity: 'error'
+      });
+      return errors;
+    }
+
+    const unknownPayer = payers.find(payer => !this.members.some(member => member.id === payer.userId));
+    if (unknownPayer) {
+      errors.push({
+        field: 'payers',
+        message: 'Người trả tiền không phải thành viên của quỹ',
+        severity: 'error'
+      });
+    }
+
+    if (payers.some(payer => payer.amount <= 0)) {
+      errors.push({
+        field: 'payers',
+        message: 'Số tiền của mỗi người trả phải lớn hơn 0',
+        severity: 'error'
+      });
+    }
+
+    // The payers together must cover exactly the total amount
+    const totalPaid = payers.reduce((sum, payer) => sum + payer.amount, 0);
+    if (Math.abs(totalPaid - totalAmount) > 10) {
+      errors.push({
+        field: 'payers',
+        message: `Tổng số tiền những người trả (${totalPaid}) không khớp với số tiền giao dịch (${totalAmount})`,
+        severity: 'error'
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the percentages or share counts behind a weighted split
+   * @param splitType Either SplitType.PERCENTAGE or SplitType.SHARES
+   * @param weights Percent or number of shares per member
+   * @returns Array of validation errors, empty if valid
+   */
+  public validateWeights(splitType: SplitType, weights: SplitWeight[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (weights.some(w => w.weight < 0 || isNaN(w.weight))) {
+      errors.push({
+        field: 'splits',
+        message: splitType === SplitType.PERCENTAGE ? 'Phần trăm không được âm' : 'Số phần không được âm',
+        severity: 'error'
+      });
+      return errors;
+    }
+
+    const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+
+    if (splitType === SplitType.PERCENTAGE && Math.abs(totalWeight - 100) > 0.01) {
+      errors.push({
+        field: 'splits',
+        message: `Tổng phần trăm phải bằng 100% (hiện tại ${Math.round(totalWeight * 100) / 100}%)`,
+        severity: 'error'
+      });
+    }
+
+    if (splitType === SplitType.SHARES && totalWeight <= 0) {
+      errors.push({
+        field: 'splits',
+        message: 'Vui lòng nhập số phần cho ít nhất một người',
+        severity: 'error'
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the line items of an itemized split
+   * @param items Items with their price, quantity and assignees
+   * @param charges Tax, service charge and tip on top of the items
+   * @returns Array of validation errors, empty if valid
+   */
+  public validateItems(items: ReceiptItem[], charges?: ItemizedCharges | null): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!items || items.length === 0) {
+      errors.push({
+        field: 'items',
+        message: 'Vui lòng thêm ít nhất một món',
+        severity: 'error'
+      });
+      return errors;
+    }
+
+    items.forEach((item, index) => {
+      const label = item.name?.trim() || `Món ${index + 1}`;
+
+      if (!item.name?.trim()) {
+        errors.push({
+          field: 'items',
+          message: `Vui lòng nhập tên cho món ${index + 1}`,
+          severity: 'error'
+        });
+      }
+
+      if (!(item.price > 0) || !(item.quantity > 0)) {
+        errors.push({
+          field: 'items',
+          message: `Giá và số lượng của "${label}" phải lớn hơn 0`,
+          severity: 'error'
+        });
+      }
+
+      if (!item.assignedTo || item.assignedTo.length === 0) {
+        errors.push({
+          field: 'items',
+          message: `"${label}" chưa được gán cho ai`,
+          severity: 'error'
+        });
+      }
+    });
+
+    if (charges && [charges.tax, charges.serviceCharge, charges.tip].some(charge => charge < 0)) {
+      errors.push({
+        field: 'items',
+        message: 'Thuế, phí dịch vụ và tiền tip không được âm',
+        severity: 'error'
+      });
+    }
+
+    return errors;
+  }
+
   /**
    * Validate the entire transaction form
    * @param description The transaction description
    * @param amount The transaction amount as a string
    * @param splits The transaction splits
+   * @param payers Optional payers, checked when more than one person paid
+   * @param payerTotal Total the payers must cover (the VND amount for foreign currencies)
+   * @param splitType How the splits were entered; percentage and shares splits also check their weights
+   * @param weights Percentages or share counts for weighted splits
+   * @param items Line items for itemized splits
+   * @param itemCharges Tax, service charge and tip for itemized splits
    * @returns Array of all validation errors
    */
-  public validateForm(description: string, amount: string, splits: { userId: string; amount: number }[]): ValidationError[] {
+  public validateForm(
+    description: string,
+    amount: string,
+    splits: { userId: string; amount: number }[],
+    payers?: Payer[],
+    payerTotal?: number,
+    splitType?: SplitType,
+    weights?: SplitWeight[],
+    items?: ReceiptItem[],
+    itemCharges?: ItemizedCharges | null
+  ): ValidationError[] {
     // Combine all validation errors
     const descriptionErrors = this.validateDescription(description);
     const amountErrors = this.validateAmount(amount);
@@ -152,6 +312,24 @@ export class TransactionFormValidator {
       }
     }
 
-    return [...descriptionErrors, ...amountErrors, ...splitErrors];
+    // Only validate payers if more than one person paid
+    let payerErrors: ValidationError[] = [];
+    if (payers && payers.length > 1 && amountErrors.length === 0) {
+      payerErrors = this.validatePayers(payers, payerTotal ?? parseInt(amount));
+    }
+
+    // Check the weights behind percentage and shares splits
+    let weightErrors: ValidationError[] = [];
+    if ((splitType === SplitType.PERCENTAGE || splitType === SplitType.SHARES) && weights) {
+      weightErrors = this.validateWeights(splitType, weights);
+    }
+
+    // Every item of an itemized bill must have a price and someone to pay for it
+    let itemErrors: ValidationError[] = [];
+    if (splitType === SplitType.ITEMIZED) {
+      itemErrors = this.validateItems(items || [], itemCharges);
+    }
+
+    return [...descriptionErrors, ...amountErrors, ...weightErrors, ...itemErrors, ...splitErrors, ...payerErrors];
   }
 }
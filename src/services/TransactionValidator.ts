@@ -1,6 +1,20 @@
-import { User } from "@/types";
+import { ReceiptItem, User } from "@/types";
 import { LLMTransactionResponse } from "./aiService";
 
+// Bill fields as the model returned them, before they are checked
+interface UnvalidatedReceiptFields {
+  totalAmount: number;
+  date?: unknown;
+  items?: unknown;
+}
+
+interface UnvalidatedReceiptItem {
+  name?: unknown;
+  price?: unknown;
+  quantity?: unknown;
+  assignedTo?: unknown;
+}
+
 /**
  * Class responsible for validating LLM transaction responses
  * Handles validation of response structure, user IDs, and transaction amounts
@@ -26,6 +40,7 @@ export class TransactionValidator {
     this.validateUserIds(parsedContent);
     this.validateAmounts(parsedContent);
     this.validateConsistency(parsedContent);
+    this.validateReceiptFields(parsedContent);
     
     return parsedContent as LLMTransactionResponse;
   }
@@ -50,6 +65,10 @@ export class TransactionValidator {
     if (!parsedContent.users || typeof parsedContent.users !== 'object') {
       throw new Error('Missing or invalid "users" field in LLM response');
     }
+    
+    if (parsedContent.payers !== undefined && (parsedContent.payers === null || typeof parsedContent.payers !== 'object')) {
+      throw new Error('Invalid "payers" field in LLM response: Must be an object');
+    }
   }
   
   /**
@@ -64,6 +83,14 @@ export class TransactionValidator {
       throw new Error(`Payer with ID "${parsedContent.payer}" not found in fund members list`);
     }
     
+    // Check if every payer ID is in members list
+    for (const userId in parsedContent.payers || {}) {
+      const userExists = this.members.some(m => m.id === userId);
+      if (!userExists) {
+        throw new Error(`Payer with ID "${userId}" not found in fund members list`);
+      }
+    }
+    
     // Check if all user IDs in the users object exist in members list
     for (const userId in parsedContent.users) {
       const userExists = this.members.some(m => m.id === userId);
@@ -98,6 +125,17 @@ export class TransactionValidator {
     // Ensure totalSplits is treated as a number
     const totalSplitsNum = Number(totalSplits);
     
+    // When several people paid, their contributions must add up to the total
+    if (parsedContent.payers) {
+      const totalPaid = Object.values(parsedContent.payers).reduce(
+        (sum: number, amountStr: unknown) => sum + (parseFloat(String(amountStr)) || 0), 0
+      );
+      
+      if (Math.abs(Number(totalPaid) - parsedContent.totalAmount) > 100) {
+        throw new Error(`Tổng số tiền những người trả (${totalPaid}) không khớp với tổng giao dịch (${parsedContent.totalAmount}).`);
+      }
+    }
+    
     // Check if the total is significantly different from zero
     if (Math.abs(totalSplitsNum) > 10) { // Allow for minor rounding errors
       console.warn(`Transaction splits don't perfectly balance: ${totalSplitsNum}. User can adjust manually.`);
@@ -161,6 +199,54 @@ export class TransactionValidator {
     }
   }
   
+  /**
+   * Validate the line items and date read from a bill, when present
+   * @param parsedContent The parsed JSON content
+   */
+  private validateReceiptFields(parsedContent: UnvalidatedReceiptFields): void {
+    if (parsedContent.date !== undefined) {
+      if (typeof parsedContent.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(parsedContent.date)
+        || isNaN(new Date(parsedContent.date).getTime())) {
+        throw new Error(`Invalid "date" in LLM response: "${parsedContent.date}" is not YYYY-MM-DD`);
+      }
+    }
+    
+    if (parsedContent.items === undefined) {
+      return;
+    }
+    
+    if (!Array.isArray(parsedContent.items)) {
+      throw new Error('Invalid "items" field in LLM response: Must be an array');
+    }
+    
+    for (const item of parsedContent.items as (UnvalidatedReceiptItem | null)[]) {
+      if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+        throw new Error('Every receipt item needs a name');
+      }
+      if (typeof item.price !== 'number' || item.price < 0) {
+        throw new Error(`Invalid price for receipt item "${item.name}"`);
+      }
+      if (typeof item.quantity !== 'number' || item.quantity <= 0) {
+        throw new Error(`Invalid quantity for receipt item "${item.name}"`);
+      }
+      if (item.assignedTo !== undefined && !Array.isArray(item.assignedTo)) {
+        throw new Error(`Invalid "assignedTo" for receipt item "${item.name}"`);
+      }
+      for (const userId of (item.assignedTo as string[] | undefined) || []) {
+        if (!this.members.some(m => m.id === userId)) {
+          throw new Error(`User with ID "${userId}" assigned to "${item.name}" not found in fund members list`);
+        }
+      }
+    }
+    
+    // Tax and service charge make the total larger than the items, discounts make it smaller
+    const items = parsedContent.items as ReceiptItem[];
+    const itemsTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    if (itemsTotal > 0 && Math.abs(itemsTotal - parsedContent.totalAmount) > parsedContent.totalAmount * 0.3) {
+      console.warn(`Receipt items add up to ${itemsTotal} but the total is ${parsedContent.totalAmount}`);
+    }
+  }
+  
   /**
    * Sanitize and parse JSON content from LLM response
    * @param jsonContent Raw JSON string from LLM
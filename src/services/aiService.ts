@@ -1,5 +1,5 @@
 
-import { Fund, User, AIApiKey, AIUsageStats } from "@/types";
+import { Fund, User, AIApiKey, AIUsageStats, ReceiptItem } from "@/types";
 import { doc, getDoc, updateDoc, Timestamp, setDoc, increment } from 'firebase/firestore';
 import { db } from '@/firebase/config';
 import { v4 as uuidv4 } from 'uuid';
@@ -9,8 +9,12 @@ import { generateTransactionParserPrompt } from '@/prompts/transactionParser';
 export interface LLMTransactionResponse {
   desc: string;
   totalAmount: number;
-  payer: string;
+  payer: string; // The largest contributor when several people paid
+  payers?: Record<string, string>; // userId: amount paid, only present when several people paid
   users: Record<string, string>; // username: amount (positive for receiving, negative for paying)
+  category?: string; // One of the fund's category names
+  items?: ReceiptItem[]; // Line items read from a bill photo
+  date?: string; // Date printed on the bill (YYYY-MM-DD)
   reasoning?: string; // Vietnamese reasoning explaining the transaction split logic
 }
 
@@ -483,6 +487,10 @@ export const parseTransactionWithLLM = async (
         console.warn('Missing "payer" field in LLM response');
       }
 
+      if (parsedContent.payers && typeof parsedContent.payers !== 'object') {
+        console.warn('Invalid "payers" field in LLM response: Must be an object');
+      }
+
       if (!parsedContent.users || typeof parsedContent.users !== 'object') {
         console.warn('Missing or invalid "users" field in LLM response');
       }
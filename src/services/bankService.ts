@@ -1,3 +1,6 @@
+import { FALLBACK_BANKS } from "@/constants/bankConstants";
+import { buildVietQrPayload } from "@/utils/vietQrUtils";
+
 export interface Bank {
   id: number;
   name: string;
@@ -15,8 +18,24 @@ export interface BankApiResponse {
   data: Bank[];
 }
 
+// The bank list is kept in localStorage so BINs are known offline
+const BANKS_STORAGE_KEY = 'vietqr_banks';
+
 let cachedBanks: Bank[] | null = null;
 
+/**
+ * Banks from the last successful fetch, stored on this device
+ */
+const getStoredBanks = (): Bank[] | null => {
+  try {
+    const stored = localStorage.getItem(BANKS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading cached banks:', error);
+    return null;
+  }
+};
+
 export const fetchVietnameseBanks = async (): Promise<Bank[]> => {
   // Return cached data if available
   if (cachedBanks) {
@@ -36,48 +55,70 @@ export const fetchVietnameseBanks = async (): Promise<Bank[]> => {
       throw new Error(`API error: ${data.desc}`);
     }
     
-    // Cache the results
+    // Cache the results, also on the device for offline use
     cachedBanks = data.data;
+    try {
+      localStorage.setItem(BANKS_STORAGE_KEY, JSON.stringify(data.data));
+    } catch (storageError) {
+      console.error('Error caching banks:', storageError);
+    }
     
     return data.data;
   } catch (error) {
     console.error('Error fetching Vietnamese banks:', error);
-    // Return fallback data with popular Vietnamese banks
-    return [
-      {
-        id: 1,
-        name: "Ngân hàng TMCP Á Châu",
-        code: "ACB",
-        bin: "970416",
-        shortName: "ACB",
-        logo: "https://api.vietqr.io/img/ACB.png",
-        transferSupported: 1,
-        lookupSupported: 1
-      },
-      {
-        id: 2,
-        name: "Ngân hàng TMCP Công thương Việt Nam",
-        code: "VCB",
-        bin: "970436",
-        shortName: "Vietcombank",
-        logo: "https://api.vietqr.io/img/VCB.png",
-        transferSupported: 1,
-        lookupSupported: 1
-      },
-      {
-        id: 3,
-        name: "Ngân hàng TMCP Kỹ thương Việt Nam",
-        code: "TCB",
-        bin: "970407",
-        shortName: "Techcombank",
-        logo: "https://api.vietqr.io/img/TCB.png",
-        transferSupported: 1,
-        lookupSupported: 1
-      }
-    ];
+    // Fall back to the last fetched list, then to the bundled popular banks
+    return getStoredBanks() || FALLBACK_BANKS;
   }
 };
 
+/**
+ * Find a bank by the code saved in a user's bank account, without a network call
+ * @param bankCode Bank code, e.g. "VCB"
+ * @returns The bank, or undefined when the code is unknown
+ */
+export const getBankByCode = (bankCode: string): Bank | undefined => {
+  const code = bankCode.toUpperCase();
+  const findIn = (banks: Bank[] | null) => banks?.find(bank => bank.code.toUpperCase() === code);
+
+  return findIn(cachedBanks) || findIn(getStoredBanks()) || findIn(FALLBACK_BANKS);
+};
+
+/**
+ * Find a bank by its NAPAS BIN, e.g. from a scanned VietQR code
+ * @param bin Bank identification number, e.g. "970436"
+ * @returns The bank, or undefined when the BIN is unknown
+ */
+export const getBankByBin = (bin: string): Bank | undefined => {
+  const findIn = (banks: Bank[] | null) => banks?.find(bank => bank.bin === bin);
+
+  return findIn(cachedBanks) || findIn(getStoredBanks()) || findIn(FALLBACK_BANKS);
+};
+
+/**
+ * Build the VietQR payload for a transfer to a bank account, entirely offline
+ * @param bankCode Bank code, e.g. "VCB"
+ * @param accountNumber Account number
+ * @param amount Optional amount in VND
+ * @param description Optional transfer content
+ * @returns The payload to encode in a QR code, or null when the bank's BIN is unknown
+ */
+export const generateVietQrPayload = (
+  bankCode: string,
+  accountNumber: string,
+  amount?: number,
+  description?: string
+): string | null => {
+  const bank = getBankByCode(bankCode);
+  if (!bank) return null;
+
+  return buildVietQrPayload({
+    bankBin: bank.bin,
+    accountNumber,
+    amount,
+    addInfo: description,
+  });
+};
+
 export const generateQRCodeUrl = (
   bankCode: string,
   accountNumber: string,
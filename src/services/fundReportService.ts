@@ -0,0 +1,402 @@
+import { format } from "date-fns";
+import { generateQRCodeUrl, generateVietQrPayload } from "@/services/bankService";
+import { createQrCodeCanvas } from "@/utils/qrCodeUtils";
+import { getEWalletTransferUrl, getPayoutMethodForFund } from "@/utils/payoutUtils";
+import { PAYOUT_METHOD_TYPE_LABELS } from "@/constants/payoutConstants";
+import { createPdfFromImages, PdfImagePage } from "@/utils/pdfUtils";
+import { FundReportData } from "@/utils/reportUtils";
+import { formatCurrency, getTransactionPayers } from "@/utils/transactionUtils";
+import { PayoutMethod, PayoutMethodType, User } from "@/types";
+
+// A4 at 150 DPI
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 90;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT_FAMILY = "'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Color Emoji', sans-serif";
+const QR_SIZE = 260;
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  border: "#e2e8f0",
+  headerFill: "#eff6ff",
+  accent: "#2563eb",
+  positive: "#059669",
+  negative: "#e11d48",
+};
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: CanvasTextAlign;
+}
+
+interface TableColumn {
+  header: string;
+  width: number; // Fraction of the content width
+  align?: "left" | "right";
+}
+
+/**
+ * Lays report content out on A4 canvases, starting a new page whenever the next block does not fit
+ */
+class ReportCanvas {
+  pages: HTMLCanvasElement[] = [];
+  private ctx: CanvasRenderingContext2D;
+  y = MARGIN;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage() {
+    const canvas = document.createElement("canvas");
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    this.ctx = canvas.getContext("2d");
+    // JPEG has no transparency, so paint the page white first
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    this.ctx.textBaseline = "top";
+    this.pages.push(canvas);
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private setFont({ size = 22, bold = false, color = COLORS.text, align = "left" }: TextOptions) {
+    this.ctx.font = `${bold ? "600 " : ""}${size}px ${FONT_FAMILY}`;
+    this.ctx.fillStyle = color;
+    this.ctx.textAlign = align;
+  }
+
+  /**
+   * Shorten text with an ellipsis so it fits the given width
+   */
+  private fitText(text: string, maxWidth: number): string {
+    if (this.ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && this.ctx.measureText(`${fitted}…`).width > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  }
+
+  text(value: string, options: TextOptions = {}, x = MARGIN) {
+    const size = options.size || 22;
+    this.ensureSpace(size * 1.5);
+    this.setFont(options);
+    const anchor = options.align === "right" ? MARGIN + CONTENT_WIDTH : options.align === "center" ? PAGE_WIDTH / 2 : x;
+    this.ctx.fillText(this.fitText(value, MARGIN + CONTENT_WIDTH - x), anchor, this.y);
+    this.y += size * 1.5;
+  }
+
+  sectionTitle(title: string) {
+    // Keep a title together with at least a few lines of its section
+    this.ensureSpace(160);
+    this.y += 24;
+    this.text(title, { size: 30, bold: true, color: COLORS.accent });
+    this.ctx.fillStyle = COLORS.border;
+    this.ctx.fillRect(MARGIN, this.y - 6, CONTENT_WIDTH, 2);
+    this.y += 12;
+  }
+
+  /**
+   * Draw a table; the header row is repeated at the top of every page it spans
+   */
+  table(columns: TableColumn[], rows: { cells: string[]; colors?: (string | undefined)[] }[]) {
+    const rowHeight = 40;
+    const padding = 10;
+    const widths = columns.map(column => column.width * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], isHeader: boolean, colors: (string | undefined)[] = []) => {
+      if (isHeader) {
+        this.ctx.fillStyle = COLORS.headerFill;
+        this.ctx.fillRect(MARGIN, this.y, CONTENT_WIDTH, rowHeight);
+      }
+
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        this.setFont({
+          size: isHeader ? 19 : 20,
+          bold: isHeader,
+          color: isHeader ? COLORS.muted : colors[index] || COLORS.text,
+          align: column.align === "right" ? "right" : "left",
+        });
+        const textX = column.align === "right" ? x + widths[index] - padding : x + padding;
+        this.ctx.fillText(this.fitText(cell, widths[index] - padding * 2), textX, this.y + 10);
+        x += widths[index];
+      });
+
+      this.ctx.fillStyle = COLORS.border;
+      this.ctx.fillRect(MARGIN, this.y + rowHeight - 1, CONTENT_WIDTH, 1);
+      this.y += rowHeight;
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawRow(columns.map(column => column.header), true);
+
+    rows.forEach(row => {
+      if (this.y + rowHeight > PAGE_HEIGHT - MARGIN) {
+        this.addPage();
+        drawRow(columns.map(column => column.header), true);
+      }
+      drawRow(row.cells, false, row.colors);
+    });
+  }
+
+  /**
+   * Bar chart of spending per day, like the daily spending chart in the app
+   */
+  dailyChart(days: { date: number; expense: number }[]) {
+    const chartHeight = 300;
+    const labelHeight = 36;
+    this.ensureSpace(chartHeight + labelHeight + 20);
+
+    const top = this.y;
+    const maxExpense = Math.max(...days.map(day => day.expense), 1);
+    const slot = CONTENT_WIDTH / days.length;
+    const barWidth = Math.max(2, Math.min(48, slot * 0.7));
+
+    this.ctx.fillStyle = COLORS.border;
+    this.ctx.fillRect(MARGIN, top + chartHeight, CONTENT_WIDTH, 2);
+
+    this.ctx.fillStyle = COLORS.accent;
+    days.forEach((day, index) => {
+      const barHeight = (day.expense / maxExpense) * (chartHeight - 30);
+      const x = MARGIN + index * slot + (slot - barWidth) / 2;
+      this.ctx.fillRect(x, top + chartHeight - barHeight, barWidth, barHeight);
+    });
+
+    this.setFont({ size: 18, color: COLORS.muted });
+    this.ctx.fillText(`Cao nhất: ${formatCurrency(maxExpense)}`, MARGIN, top);
+
+    // Label the first, middle and last day
+    const labelIndexes = [...new Set([0, Math.floor((days.length - 1) / 2), days.length - 1])];
+    labelIndexes.forEach(index => {
+      const x = MARGIN + index * slot + slot / 2;
+      this.ctx.textAlign = index === 0 ? "left" : index === days.length - 1 ? "right" : "center";
+      const anchor = index === 0 ? MARGIN : index === days.length - 1 ? MARGIN + CONTENT_WIDTH : x;
+      this.ctx.fillText(format(days[index].date, "dd/MM"), anchor, top + chartHeight + 10);
+    });
+
+    this.y = top + chartHeight + labelHeight + 20;
+  }
+
+  image(image: CanvasImageSource, x: number, size: number) {
+    this.ctx.drawImage(image, x, this.y, size, size);
+  }
+
+  /**
+   * Write "Trang x/y" at the bottom of every page
+   */
+  addPageNumbers() {
+    this.pages.forEach((page, index) => {
+      const ctx = page.getContext("2d");
+      ctx.font = `18px ${FONT_FAMILY}`;
+      ctx.fillStyle = COLORS.muted;
+      ctx.textAlign = "right";
+      ctx.textBaseline = "top";
+      ctx.fillText(`Trang ${index + 1}/${this.pages.length}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2 - 18);
+    });
+  }
+}
+
+/**
+ * Draw the QR code of a creditor's payout method. VietQR codes are built on the device
+ * when the bank is known; other banks fall back to the image service. Returns null when
+ * neither works, so the report falls back to the account details.
+ */
+const loadQRCodeImage = async (
+  method: PayoutMethod | null,
+  user: User,
+  amount: number,
+  fundName: string
+): Promise<CanvasImageSource | null> => {
+  if (!method?.accountNumber) return null;
+
+  if (method.type !== PayoutMethodType.BANK) {
+    const url = getEWalletTransferUrl(method);
+    return url ? createQrCodeCanvas(url, QR_SIZE) : null;
+  }
+  if (!method.bankCode) return null;
+
+  try {
+    const payload = generateVietQrPayload(method.bankCode, method.accountNumber, amount, fundName);
+    if (payload) return createQrCodeCanvas(payload, QR_SIZE);
+
+    const url = generateQRCodeUrl(
+      method.bankCode,
+      method.accountNumber,
+      amount,
+      fundName,
+      method.accountName || user.displayName,
+      "qr_only"
+    );
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`QR image request failed with ${response.status}`);
+    return await createImageBitmap(await response.blob());
+  } catch (error) {
+    console.error("Error loading VietQR image:", error);
+    return null;
+  }
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<PdfImagePage> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error("Could not render report page"));
+        return;
+      }
+      resolve({
+        jpeg: new Uint8Array(await blob.arrayBuffer()),
+        width: canvas.width,
+        height: canvas.height,
+      });
+    }, "image/jpeg", 0.92);
+  });
+};
+
+/**
+ * Render the trip report of a fund to a PDF, entirely in the browser
+ * @param data Report content from buildFundReportData
+ * @param getUserName Display name of a user ID
+ * @returns The PDF file
+ */
+export const generateFundReportPdf = async (
+  data: FundReportData,
+  getUserName: (userId: string) => string
+): Promise<Blob> => {
+  try {
+    const report = new ReportCanvas();
+    const { fund } = data;
+
+    // Header
+    report.text(`${fund.icon || ""} ${fund.name}`.trim(), { size: 52, bold: true });
+    if (fund.description) {
+      report.text(fund.description, { size: 22, color: COLORS.muted });
+    }
+    const span = data.from !== null
+      ? `${format(data.from, "dd/MM/yyyy")} – ${format(data.to, "dd/MM/yyyy")}`
+      : "Chưa có giao dịch";
+    report.text(`Thời gian: ${span}`, { size: 24 });
+    report.text(`Tổng chi tiêu: ${formatCurrency(data.totalExpense)} · ${data.transactions.length} giao dịch`, { size: 24, bold: true });
+    report.text(`Xuất ngày ${format(new Date(), "dd/MM/yyyy HH:mm")}`, { size: 18, color: COLORS.muted });
+
+    if (data.dailyExpenses.length > 0) {
+      report.sectionTitle("Chi tiêu theo ngày");
+      report.dailyChart(data.dailyExpenses);
+    }
+
+    report.sectionTitle("Thành viên");
+    report.table(
+      [
+        { header: "Thành viên", width: 0.34 },
+        { header: "Đã trả", width: 0.22, align: "right" },
+        { header: "Đã dùng", width: 0.22, align: "right" },
+        { header: "Chênh lệch", width: 0.22, align: "right" },
+      ],
+      data.members.map(member => ({
+        cells: [
+          getUserName(member.userId),
+          formatCurrency(member.paid),
+          formatCurrency(member.consumed),
+          formatCurrency(member.balance),
+        ],
+        colors: [undefined, undefined, undefined, member.balance > 0 ? COLORS.positive : member.balance < 0 ? COLORS.negative : undefined],
+      }))
+    );
+
+    report.sectionTitle("Kế hoạch thanh toán");
+    if (data.settlements.length === 0) {
+      report.text("Mọi người đã cân bằng, không cần chuyển khoản.", { color: COLORS.muted });
+    } else {
+      report.table(
+        [
+          { header: "Người trả", width: 0.37 },
+          { header: "Người nhận", width: 0.37 },
+          { header: "Số tiền", width: 0.26, align: "right" },
+        ],
+        data.settlements.map(settlement => ({
+          cells: [getUserName(settlement.from), getUserName(settlement.to), formatCurrency(settlement.amount)],
+        }))
+      );
+    }
+
+    if (data.creditors.length > 0) {
+      report.sectionTitle("Mã QR nhận tiền");
+      // Each creditor's account for this fund, or their default one
+      const methods = data.creditors.map(creditor => getPayoutMethodForFund(creditor.user, fund.id));
+      const qrImages = await Promise.all(
+        data.creditors.map((creditor, index) => loadQRCodeImage(methods[index], creditor.user, creditor.amount, fund.name))
+      );
+
+      data.creditors.forEach((creditor, index) => {
+        const { user } = creditor;
+        const method = methods[index];
+        report.ensureSpace(QR_SIZE + 20);
+        const top = report.y;
+        const qrImage = qrImages[index];
+        const textX = qrImage ? MARGIN + QR_SIZE + 30 : MARGIN;
+
+        if (qrImage) {
+          report.image(qrImage, MARGIN, QR_SIZE);
+        }
+        report.text(user.displayName, { size: 26, bold: true }, textX);
+        report.text(`Cần nhận: ${formatCurrency(creditor.amount)}`, { size: 22 }, textX);
+        if (method) {
+          const provider = method.bankName || PAYOUT_METHOD_TYPE_LABELS[method.type];
+          report.text(`${provider} · ${method.accountNumber}`, { size: 22 }, textX);
+          if (method.accountName) {
+            report.text(method.accountName, { size: 20, color: COLORS.muted }, textX);
+          }
+          if (!qrImage) {
+            report.text("Không tạo được mã QR cho tài khoản này", { size: 18, color: COLORS.muted }, textX);
+          }
+        } else {
+          report.text("Chưa cập nhật tài khoản ngân hàng", { size: 20, color: COLORS.muted }, textX);
+        }
+        report.y = Math.max(report.y, top + (qrImage ? QR_SIZE : 0)) + 20;
+      });
+    }
+
+    report.sectionTitle("Sổ giao dịch");
+    report.table(
+      [
+        { header: "Ngày", width: 0.13 },
+        { header: "Mô tả", width: 0.4 },
+        { header: "Người trả", width: 0.25 },
+        { header: "Số tiền", width: 0.22, align: "right" },
+      ],
+      data.transactions.map(transaction => ({
+        cells: [
+          format(transaction.date || transaction.createdAt, "dd/MM/yyyy"),
+          transaction.currencyCode && transaction.originalAmount
+            ? `${transaction.description} (${transaction.originalAmount} ${transaction.currencyCode})`
+            : transaction.description,
+          getTransactionPayers(transaction).map(payer => getUserName(payer.userId)).join(", "),
+          formatCurrency(transaction.amount),
+        ],
+      }))
+    );
+
+    report.addPageNumbers();
+
+    const pages = [];
+    for (const canvas of report.pages) {
+      pages.push(await canvasToJpeg(canvas));
+    }
+    return createPdfFromImages(pages);
+  } catch (error) {
+    console.error("Error generating fund report:", error);
+    throw error;
+  }
+};
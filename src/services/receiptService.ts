@@ -0,0 +1,159 @@
+import { Fund, User } from "@/types";
+import { AI_MODELS, LLMTransactionResponse, getApiKeyForProvider, updateAIUsageStats } from "./aiService";
+import { TransactionValidator } from "./TransactionValidator";
+import { generateReceiptParserPrompt } from "@/prompts/receiptParser";
+import { ParsedReceipt, parseReceiptText } from "@/utils/receiptParser";
+import { calculateEvenDistributionWithPayers, formatCurrency } from "@/utils/transactionUtils";
+import { getFundCategories, inferCategory } from "@/utils/categoryUtils";
+import { blobToBase64, compressImage } from "@/utils/imageUtils";
+
+/**
+ * Turn a receipt read without AI into a transaction paid by one member and split evenly
+ * @param receipt Items, total and date read from the bill
+ * @param fund Fund the bill belongs to (used for its categories)
+ * @param members Fund members sharing the bill
+ * @param payerId User ID of who paid the bill
+ * @returns Transaction data in the same shape as an AI result
+ */
+export const buildReceiptTransaction = (
+  receipt: ParsedReceipt,
+  fund: Fund,
+  members: User[],
+  payerId: string
+): LLMTransactionResponse => {
+  const splits = calculateEvenDistributionWithPayers(
+    receipt.total,
+    members.map(member => member.id),
+    [{ userId: payerId, amount: receipt.total }]
+  );
+  const payerName = members.find(member => member.id === payerId)?.displayName || "";
+  const title = receipt.merchant ? `Hóa đơn ${receipt.merchant}` : "Hóa đơn";
+  const categoryText = [receipt.merchant, ...receipt.items.map(item => item.name)].filter(Boolean).join(" ");
+
+  return {
+    desc: `${title}, chia đều cho ${members.length} người`,
+    totalAmount: receipt.total,
+    payer: payerId,
+    category: inferCategory(categoryText, getFundCategories(fund)),
+    items: receipt.items,
+    date: receipt.date,
+    reasoning: `Đọc hóa đơn không dùng AI: ${receipt.items.length} món, tổng ${formatCurrency(receipt.total)}, ${payerName} trả và chia đều.\n\nFINAL AMOUNTS:\n`
+      + splits.map(split => `- ${members.find(m => m.id === split.userId)?.displayName}: ${formatCurrency(split.amount)}`).join("\n"),
+    users: Object.fromEntries(splits.map(split => [split.userId, split.amount.toString()])),
+  };
+};
+
+/**
+ * Read text-only OCR output of a bill with the deterministic parser
+ * @param text Receipt text, one line per receipt line
+ * @param fund Fund the bill belongs to
+ * @param members Fund members sharing the bill
+ * @param payerId User ID of who paid the bill
+ * @returns Validated transaction data ready to pre-fill the form
+ */
+export const parseReceiptFromText = (
+  text: string,
+  fund: Fund,
+  members: User[],
+  payerId: string
+): LLMTransactionResponse => {
+  const receipt = parseReceiptText(text);
+
+  if (!receipt.total) {
+    throw new Error("Không tìm thấy tổng tiền trên hóa đơn");
+  }
+
+  const validator = new TransactionValidator(members);
+  return validator.validateResponse(buildReceiptTransaction(receipt, fund, members, payerId));
+};
+
+/**
+ * Read a bill photo with Gemini's multimodal input.
+ * If the model answers with plain text instead of JSON, that text goes through the deterministic parser.
+ * @param image Photo of the bill
+ * @param fund Fund the bill belongs to; must have an active Google API key
+ * @param members Fund members
+ * @param currentUserId User ID of who took the photo (default payer)
+ * @param instructions Optional note on who paid and who had which items
+ * @returns Validated transaction data ready to pre-fill the form
+ */
+export const scanReceiptWithAI = async (
+  image: File,
+  fund: Fund,
+  members: User[],
+  currentUserId: string,
+  instructions?: string
+): Promise<LLMTransactionResponse> => {
+  const model = AI_MODELS.find(m => m.provider === 'google');
+  const apiKey = await getApiKeyForProvider(fund, 'google');
+
+  if (!model || !apiKey) {
+    throw new Error("Quét ảnh hóa đơn cần API key Google (Gemini) trong cài đặt quỹ");
+  }
+
+  try {
+    const compressed = await compressImage(image);
+    const currentDate = new Intl.DateTimeFormat('vi-VN', {
+      timeZone: 'Asia/Ho_Chi_Minh',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    }).format(new Date());
+    const currentUser = members.find(member => member.id === currentUserId);
+    const prompt = generateReceiptParserPrompt(fund, members, currentUser, currentDate, instructions?.trim());
+
+    const response = await fetch(`${model.apiEndpoint}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: prompt },
+              { inline_data: { mime_type: compressed.type || image.type, data: await blobToBase64(compressed) } }
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: model.maxTokens,
+          thinkingConfig: {
+            thinkingBudget: 0
+          }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`google API error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text: string = data.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text || '').join('') || '';
+
+    if (fund.id) {
+      updateAIUsageStats(fund.id).catch(error => {
+        console.error('Failed to update AI usage stats:', error);
+      });
+    }
+
+    // Strip markdown fences the model sometimes wraps around the JSON
+    const jsonText = text.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '').trim();
+    if (!jsonText.startsWith('{')) {
+      return parseReceiptFromText(text, fund, members, currentUserId);
+    }
+
+    const validator = new TransactionValidator(members);
+    return validator.validateResponse(TransactionValidator.parseJsonContent(jsonText));
+  } catch (error) {
+    console.error('Error scanning receipt:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,162 @@
+import { doc, collection, getDocFromServer } from "firebase/firestore";
+import { db } from "@/firebase/config";
+import { createTransaction } from "@/firebase/transactionService";
+import { getFundById } from "@/firebase/fundService";
+import { PendingTransaction, Transaction } from "@/types";
+import { getTransactionPayers } from "@/utils/transactionUtils";
+
+const STORAGE_KEY = 'fund-flow-transaction-outbox';
+
+// Each user has their own outbox, so entries queued before a sign-out are never
+// replayed in another user's session on the same device
+const getStorageKey = (userId: string): string => `${STORAGE_KEY}:${userId}`;
+
+export interface OutboxSyncResult {
+  synced: Transaction[];
+  conflicts: PendingTransaction[];
+  failed: PendingTransaction[];
+}
+
+/**
+ * Whether an error means the device could not reach Firestore, so the write should be queued
+ */
+export const isOfflineError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const code = (error as { code?: string })?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded';
+};
+
+/**
+ * Get every transaction a user has waiting to be synced
+ * @param userId User who queued the transactions
+ * @returns Pending transactions, oldest first
+ */
+export const getPendingTransactions = (userId: string): PendingTransaction[] => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(userId));
+    if (!stored) return [];
+
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error reading the transaction outbox:', error);
+    return [];
+  }
+};
+
+const savePendingTransactions = (userId: string, pending: PendingTransaction[]): void => {
+  localStorage.setItem(getStorageKey(userId), JSON.stringify(pending));
+};
+
+/**
+ * Put a transaction in a user's outbox until the device is back online
+ * @param userId Signed-in user entering the transaction
+ * @param transaction Transaction data without id and createdAt
+ * @returns The queued entry
+ */
+export const queueTransaction = (
+  userId: string,
+  transaction: Omit<Transaction, 'id' | 'createdAt'>
+): PendingTransaction => {
+  const queuedAt = Date.now();
+  const pendingTransaction: PendingTransaction = {
+    // Reserve the Firestore document ID now so a retry cannot create a second copy
+    id: doc(collection(db, 'transactions')).id,
+    transaction: { ...transaction, date: transaction.date || queuedAt },
+    queuedAt,
+    attempts: 0,
+  };
+
+  savePendingTransactions(userId, [...getPendingTransactions(userId), pendingTransaction]);
+  return pendingTransaction;
+};
+
+/**
+ * Remove a transaction from a user's outbox without syncing it
+ * @param userId User who queued the transaction
+ * @param pendingId ID of the queued entry
+ */
+export const discardPendingTransaction = (userId: string, pendingId: string): void => {
+  savePendingTransactions(userId, getPendingTransactions(userId).filter(p => p.id !== pendingId));
+};
+
+/**
+ * Show a queued transaction in lists the same way as a synced one
+ */
+export const toPendingTransactionView = (pending: PendingTransaction): Transaction => ({
+  ...pending.transaction,
+  id: pending.id,
+  createdAt: pending.queuedAt,
+});
+
+/**
+ * Check a queued transaction against the fund as it is now on the server
+ * @returns A description of the conflict, or null when it can be synced as is
+ */
+const findConflict = async (pending: PendingTransaction): Promise<string | null> => {
+  const fund = await getFundById(pending.transaction.fundId);
+  if (!fund) {
+    return 'Quỹ đã bị xóa';
+  }
+
+  const members = fund.members || [];
+  const involvedUserIds = [
+    ...getTransactionPayers(pending.transaction).map(p => p.userId),
+    ...pending.transaction.splits.map(s => s.userId),
+  ];
+  if (involvedUserIds.some(userId => !members.includes(userId))) {
+    return 'Có thành viên trong giao dịch đã rời quỹ';
+  }
+
+  return null;
+};
+
+/**
+ * Try to create every transaction a user has queued.
+ * Entries already on the server (a previous attempt went through) are just removed;
+ * entries that no longer fit the fund are marked as conflicts and kept for the user.
+ * @param userId Signed-in user whose outbox is synced
+ * @param includeConflicts Also retry entries previously marked as conflicts
+ * @returns What was synced, what conflicts and what is still waiting
+ */
+export const flushOutbox = async (userId: string, includeConflicts = false): Promise<OutboxSyncResult> => {
+  const result: OutboxSyncResult = { synced: [], conflicts: [], failed: [] };
+
+  for (const pending of getPendingTransactions(userId)) {
+    if (pending.conflict && !includeConflicts) continue;
+
+    let updated: PendingTransaction | null = pending;
+
+    try {
+      const existing = await getDocFromServer(doc(db, 'transactions', pending.id));
+      if (existing.exists()) {
+        result.synced.push(toPendingTransactionView(pending));
+        updated = null;
+      } else {
+        const conflict = await findConflict(pending);
+        if (conflict) {
+          updated = { ...pending, conflict };
+          result.conflicts.push(updated);
+        } else {
+          const created = await createTransaction(pending.transaction, pending.id);
+          result.synced.push(created);
+          updated = null;
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing queued transaction:', error);
+      updated = { ...pending, attempts: pending.attempts + 1 };
+      result.failed.push(updated);
+    }
+
+    // Re-read the outbox each time: new entries may have been queued while syncing
+    const current = getPendingTransactions(userId);
+    savePendingTransactions(
+      userId,
+      updated
+        ? current.map(p => (p.id === pending.id ? updated : p))
+        : current.filter(p => p.id !== pending.id)
+    );
+  }
+
+  return result;
+};
@@ -9,7 +9,27 @@ export interface User {
     bankCode: string;
     bankName: string;
     accountName?: string;
-  };
+  }; // Default bank account, kept in sync with payoutMethods for older clients
+  payoutMethods?: PayoutMethod[]; // Accounts and e-wallets the user can receive money on
+  defaultPayoutMethodId?: string;
+  fundPayoutMethods?: Record<string, string>; // Payout method ID to use per fund ID, overriding the default
+}
+
+export enum PayoutMethodType {
+  BANK = "bank",
+  MOMO = "momo",
+  ZALOPAY = "zalopay"
+}
+
+// Where a user receives money: a bank account or an e-wallet identified by phone number
+export interface PayoutMethod {
+  id: string;
+  type: PayoutMethodType;
+  accountNumber: string; // Bank account number, or the phone number of an e-wallet
+  bankCode?: string; // Bank accounts only
+  bankName?: string; // Bank accounts only
+  accountName?: string;
+  label?: string; // Name given by the user, e.g. "Tài khoản công ty"
 }
 
 export interface Fund {
@@ -22,9 +42,78 @@ export interface Fund {
   createdBy: string;
   updatedAt?: number; // Optional timestamp for updates
   currency?: string; // Optional currency code
-  isArchived?: boolean; // Optional flag to archive funds
+  isArchived?: boolean; // Archived funds are hidden from the dashboard grid and read-only
+  archivedAt?: number; // When the fund was last archived
+  requireSettledToArchive?: boolean; // Block archiving while any member has a non-zero balance
   aiApiKeys?: AIApiKey[]; // Array of AI API keys for the fund
   aiUsageStats?: AIUsageStats; // AI usage statistics for the fund
+  customCategories?: TransactionCategory[]; // Categories added by the fund on top of the defaults
+  memberRoles?: Record<string, FundRole>; // Role of each member ID; members without an entry are regular members
+  placeholderMembers?: Record<string, PlaceholderMember>; // Guests without an account, keyed by their ID in members
+  placeholderClaims?: Record<string, string>; // Placeholder ID each user asked to take over, until an owner or admin decides
+  budget?: FundBudget; // Optional spending limits
+  budgetAlertsSent?: Record<string, number>; // Highest alert threshold (%) already sent per budget scope
+  paymentReminderSettings?: Record<string, PaymentReminderSetting>; // Automatic reminders of each creditor user ID
+}
+
+// When a creditor's debtors are reminded automatically
+export enum PaymentReminderSchedule {
+  WEEKLY = "weekly", // Every week while the debt is open
+  AFTER_DAYS = "after_days" // Once, a number of days after the debt appeared
+}
+
+export interface PaymentReminderSetting {
+  schedule: PaymentReminderSchedule;
+  days?: number; // Delay for AFTER_DAYS
+}
+
+// Reminder history of one debtor/creditor pair, kept in the fund's paymentReminders subcollection
+// under the ID "debtorId:creditorId"; removed once the debt is settled
+export interface PaymentReminderState {
+  since: number; // When the debt was first seen
+  lastSentAt?: number; // Last reminder of any kind, used for rate limiting
+  lastAutoSentAt?: number; // Last automatic reminder
+}
+
+// Spending limits of a fund; the "total" scope and each category name are tracked separately
+export interface FundBudget {
+  total?: number; // Limit for all spending in the fund
+  categories?: Record<string, number>; // Limit per category name
+  endDate?: number; // Last day of the trip, used for the per person per day projection
+}
+
+// Named member without an account (e.g. a grandparent on a trip); can later be claimed by a real user
+export interface PlaceholderMember {
+  displayName: string;
+  createdBy: string;
+  createdAt: number;
+}
+
+// Role of a member in a fund. The fund creator is always the owner.
+export enum FundRole {
+  OWNER = "owner",
+  ADMIN = "admin",
+  MEMBER = "member",
+  VIEWER = "viewer"
+}
+
+// Shareable link for joining a fund; the document ID is the token in the link
+export interface FundInvite {
+  id: string;
+  fundId: string;
+  role: FundRole; // Role given to people who join with it
+  createdBy: string;
+  createdAt: number;
+  expiresAt?: number; // Never expires when absent
+  maxUses?: number; // Unlimited when absent
+  useCount: number;
+  revokedAt?: number; // Set when the invite was revoked
+}
+
+export interface TransactionCategory {
+  name: string; // Also the value stored in Transaction.category
+  icon: string; // Emoji shown next to the name
+  keywords?: string[]; // Lowercase description keywords used for auto-categorization
 }
 
 export interface AIApiKey {
@@ -54,17 +143,56 @@ export interface Transaction {
   fundId: string;
   description: string;
   amount: number;
-  paidBy: string; // User ID of who paid
+  paidBy: string; // User ID of who paid (the largest contributor when there are several payers)
+  payers?: Payer[]; // Optional list of everyone who paid and how much, when more than one person paid
   splits: Split[];
   createdAt: number;
   updatedAt?: number; // Optional timestamp for updates
   date?: number; // Optional date of the transaction (different from createdAt)
-  category?: string; // Optional category
+  category?: string; // Optional category name (see TransactionCategory)
   notes?: string; // Optional notes
-  attachments?: string[]; // Optional array of attachment URLs
+  attachments?: string[]; // Download URLs of receipt photos in Firebase Storage
   currencyCode?: string; // ISO 4217 currency code (e.g., USD, EUR)
   originalAmount?: number; // Original amount in foreign currency
   exchangeRate?: number; // Exchange rate used for conversion
+  createdBy?: string; // User ID of who entered it; older transactions fall back to paidBy
+  recurringTransactionId?: string; // Set when the transaction was generated from a recurring template
+  splitType?: SplitType; // How the splits were entered; absent for plain amount splits
+  splitWeights?: SplitWeight[]; // Percentages or share counts behind percentage/shares splits
+  items?: ReceiptItem[]; // Line items behind an itemized split
+  itemCharges?: ItemizedCharges; // Tax, service charge and tip on top of the items of an itemized split
+  settlementStatus?: SettlementStatus; // Repayments waiting for the recipient; absent means it counts right away
+  settlementRecipientId?: string; // Member who has to confirm receiving the repayment
+  settlementRejectReason?: string; // Why the recipient says the money never arrived
+  settlementRespondedAt?: number; // When the recipient confirmed or rejected
+}
+
+export enum SettlementStatus {
+  PENDING = "pending",
+  CONFIRMED = "confirmed",
+  REJECTED = "rejected"
+}
+
+export interface PendingTransaction {
+  id: string; // Document ID the transaction will be created with, so retries never duplicate it
+  transaction: Omit<Transaction, "id" | "createdAt">;
+  queuedAt: number; // When it was entered on this device
+  attempts: number; // Failed sync attempts so far
+  conflict?: string; // Why it cannot be synced without the user's decision (fund deleted, member removed...)
+}
+
+export interface TransactionChange {
+  field: string; // Name of the Transaction field that changed
+  before: unknown; // Value before the edit (null if it was not set)
+  after: unknown; // Value after the edit (null if it was removed)
+}
+
+export interface TransactionRevision {
+  id: string;
+  transactionId: string;
+  changedBy: string; // User ID of who made the edit
+  changedAt: number; // Timestamp of the edit
+  changes: TransactionChange[];
 }
 
 export interface Split {
@@ -72,6 +200,30 @@ export interface Split {
   amount: number;
 }
 
+export interface SplitWeight {
+  userId: string;
+  weight: number; // Percent for percentage splits, number of shares for shares splits
+}
+
+// Line item of a bill, read from a photo or entered in the itemized split mode
+export interface ReceiptItem {
+  name: string;
+  price: number; // Unit price in VND
+  quantity: number;
+  assignedTo?: string[]; // User IDs sharing this item
+}
+
+export interface ItemizedCharges {
+  tax: number; // VND, shared in proportion to each member's items
+  serviceCharge: number; // VND, shared the same way
+  tip: number; // VND, shared the same way
+}
+
+export interface Payer {
+  userId: string;
+  amount: number; // Amount this person contributed to the total
+}
+
 export interface Balance {
   userId: string;
   amount: number;
@@ -92,7 +244,9 @@ export interface FirestoreDocument<T> {
 export enum SplitType {
   EVEN = "even",
   CUSTOM = "custom",
-  PERCENTAGE = "percentage"
+  PERCENTAGE = "percentage",
+  SHARES = "shares",
+  ITEMIZED = "itemized"
 }
 
 // User with profile information
@@ -100,6 +254,35 @@ export interface UserWithProfile extends User {
   isActive?: boolean;
 }
 
+// Schedule of a recurring transaction
+export interface RecurringSchedule {
+  frequency: 'weekly' | 'monthly' | 'custom';
+  dayOfWeek?: number; // Weekly: 0 (Sunday) - 6 (Saturday)
+  dayOfMonth?: number; // Monthly: 1 - 31, clamped to the last day of shorter months
+  intervalDays?: number; // Custom: repeat every N days
+}
+
+export interface RecurringShare {
+  userId: string;
+  value: number; // VND for fixed splits, percent for percentage splits, share count for shares splits, ignored for even splits
+}
+
+export interface RecurringTransaction {
+  id: string;
+  fundId: string;
+  description: string;
+  amount: number;
+  paidBy: string;
+  splitType: SplitType; // How `shares` is interpreted when an occurrence is created
+  shares: RecurringShare[]; // Participants of each occurrence
+  schedule: RecurringSchedule;
+  nextDueDate: number; // Date of the next occurrence to create
+  isPaused: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
 export interface Note {
   id: string;
   fundId: string;
@@ -0,0 +1,149 @@
+import { Fund, FundBudget, Transaction, TransactionCategory } from "@/types";
+import { format, parseISO, differenceInCalendarDays, startOfDay } from "date-fns";
+import { REPAYMENT_CATEGORY } from "@/constants/categoryConstants";
+import { getTransactionCategory } from "@/utils/categoryUtils";
+import { calculateDailyExpenses } from "@/utils/transactionUtils";
+
+// Percentages of a budget at which members are notified
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+// Scope key of the overall budget; category budgets use the category name
+export const TOTAL_BUDGET_SCOPE = "total";
+
+export interface BudgetUsage {
+  scope: string;
+  limit: number;
+  spent: number;
+  percent: number;
+}
+
+export interface BudgetProjection {
+  remaining: number;
+  dailyRate: number; // Average spending per day so far
+  daysLeft?: number; // Days until the budget end date, today included
+  remainingPerPersonPerDay?: number;
+  daysUntilExhausted?: number; // At the current rate, when no end date is set
+}
+
+/**
+ * Whether a fund has any budget limit set
+ */
+export const hasBudget = (budget: FundBudget | undefined): boolean => {
+  return !!budget && (!!budget.total || Object.values(budget.categories || {}).some(limit => limit > 0));
+};
+
+/**
+ * Whether two budgets have the same limits and end date
+ */
+export const isSameBudget = (a: FundBudget | undefined, b: FundBudget | undefined): boolean => {
+  const sortedLimits = (budget?: FundBudget) =>
+    JSON.stringify(Object.entries(budget?.categories || {}).sort(([x], [y]) => x.localeCompare(y)));
+
+  return (a?.total || 0) === (b?.total || 0) &&
+    (a?.endDate || 0) === (b?.endDate || 0) &&
+    sortedLimits(a) === sortedLimits(b);
+};
+
+/**
+ * Transactions that count as spending: money paid out, not repayments between members
+ */
+const getSpendingTransactions = (
+  transactions: Transaction[],
+  categories?: TransactionCategory[]
+): Transaction[] => {
+  return transactions.filter(t => t.amount > 0 && getTransactionCategory(t, categories) !== REPAYMENT_CATEGORY);
+};
+
+/**
+ * Spending against every limit of a fund's budget, overall first
+ * @param fund - Fund with the budget
+ * @param transactions - Transactions of the fund
+ * @param categories - Categories of the fund, used to infer missing transaction categories
+ */
+export const getBudgetUsage = (
+  fund: Pick<Fund, "budget">,
+  transactions: Transaction[],
+  categories?: TransactionCategory[]
+): BudgetUsage[] => {
+  const budget = fund.budget;
+  if (!hasBudget(budget)) return [];
+
+  const spending = getSpendingTransactions(transactions, categories);
+  const toUsage = (scope: string, limit: number, spent: number): BudgetUsage => ({
+    scope,
+    limit,
+    spent,
+    percent: (spent / limit) * 100,
+  });
+
+  const usage: BudgetUsage[] = [];
+
+  if (budget.total > 0) {
+    usage.push(toUsage(TOTAL_BUDGET_SCOPE, budget.total, spending.reduce((sum, t) => sum + t.amount, 0)));
+  }
+
+  Object.entries(budget.categories || {})
+    .filter(([, limit]) => limit > 0)
+    .forEach(([category, limit]) => {
+      const spent = spending
+        .filter(t => getTransactionCategory(t, categories) === category)
+        .reduce((sum, t) => sum + t.amount, 0);
+      usage.push(toUsage(category, limit, spent));
+    });
+
+  return usage;
+};
+
+/**
+ * Highest alert threshold a budget usage has reached
+ * @returns The threshold in percent, or 0 when below every threshold
+ */
+export const getReachedAlertThreshold = (percent: number): number => {
+  return BUDGET_ALERT_THRESHOLDS.filter(threshold => percent >= threshold).pop() || 0;
+};
+
+/**
+ * Project the overall budget forward from the spend rate so far.
+ * The rate averages the daily expenses from the first day with spending until today.
+ * @param budget - Fund budget with a total limit
+ * @param transactions - Transactions of the fund
+ * @param memberCount - Number of people sharing the budget
+ * @param now - Current time
+ * @returns The projection, or null when there is no overall limit
+ */
+export const getBudgetProjection = (
+  budget: FundBudget | undefined,
+  transactions: Transaction[],
+  memberCount: number,
+  categories?: TransactionCategory[],
+  now: Date = new Date()
+): BudgetProjection | null => {
+  if (!budget?.total) return null;
+
+  const dailyExpenses = calculateDailyExpenses(
+    getSpendingTransactions(transactions, categories),
+    date => format(date, "yyyy-MM-dd")
+  );
+  const days = Object.keys(dailyExpenses).sort();
+  const spent = days.reduce((sum, day) => sum + dailyExpenses[day].expense, 0);
+  const remaining = budget.total - spent;
+
+  const elapsedDays = days.length > 0
+    ? Math.max(1, differenceInCalendarDays(now, parseISO(days[0])) + 1)
+    : 0;
+  const dailyRate = elapsedDays > 0 ? spent / elapsedDays : 0;
+
+  const projection: BudgetProjection = { remaining, dailyRate };
+
+  if (budget.endDate) {
+    const daysLeft = Math.max(0, differenceInCalendarDays(startOfDay(budget.endDate), startOfDay(now)) + 1);
+    projection.daysLeft = daysLeft;
+    if (daysLeft > 0 && memberCount > 0) {
+      projection.remainingPerPersonPerDay = Math.max(0, remaining) / memberCount / daysLeft;
+    }
+  } else if (dailyRate > 0 && remaining > 0) {
+    projection.daysUntilExhausted = Math.floor(remaining / dailyRate);
+  }
+
+  return projection;
+};
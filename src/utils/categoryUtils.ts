@@ -0,0 +1,71 @@
+import { Fund, Transaction, TransactionCategory } from "@/types";
+import { DEFAULT_CATEGORIES, OTHER_CATEGORY } from "@/constants/categoryConstants";
+
+/**
+ * Lowercase and replace punctuation with spaces so keywords only match whole words
+ * ("ăn" must not match "khăn").
+ */
+const normalizeForMatching = (text: string): string => {
+  return ` ${text.normalize("NFC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()} `;
+};
+
+/**
+ * Get every category available in a fund: the fund's custom categories first, then the defaults.
+ * A custom category with the same name as a default one replaces it.
+ */
+export const getFundCategories = (fund?: Pick<Fund, "customCategories"> | null): TransactionCategory[] => {
+  const customCategories = fund?.customCategories || [];
+  const customNames = new Set(customCategories.map(category => category.name));
+
+  return [
+    ...customCategories,
+    ...DEFAULT_CATEGORIES.filter(category => !customNames.has(category.name)),
+  ];
+};
+
+/**
+ * Find the category for a category name, falling back to "Khác"
+ */
+export const getCategoryByName = (
+  name: string | undefined,
+  categories: TransactionCategory[] = DEFAULT_CATEGORIES
+): TransactionCategory => {
+  return categories.find(category => category.name === name)
+    || DEFAULT_CATEGORIES.find(category => category.name === OTHER_CATEGORY);
+};
+
+/**
+ * Infer a category from a transaction description using keyword rules.
+ * Categories are checked in order; a custom category also matches its own name.
+ * @param description - Transaction description
+ * @param categories - Categories to choose from (defaults plus the fund's custom ones)
+ * @returns Matching category name, or "Khác" when nothing matches
+ */
+export const inferCategory = (
+  description: string,
+  categories: TransactionCategory[] = DEFAULT_CATEGORIES
+): string => {
+  if (!description) return OTHER_CATEGORY;
+
+  const text = normalizeForMatching(description);
+
+  const match = categories.find(category => {
+    const keywords = [...(category.keywords || [])];
+    if (!DEFAULT_CATEGORIES.includes(category)) {
+      keywords.push(category.name);
+    }
+    return keywords.some(keyword => text.includes(normalizeForMatching(keyword)));
+  });
+
+  return match ? match.name : OTHER_CATEGORY;
+};
+
+/**
+ * Category of a transaction; older transactions without one are inferred from the description
+ */
+export const getTransactionCategory = (
+  transaction: Pick<Transaction, "category" | "description">,
+  categories: TransactionCategory[] = DEFAULT_CATEGORIES
+): string => {
+  return transaction.category || inferCategory(transaction.description, categories);
+};
@@ -0,0 +1,187 @@
+import { DateRange, Fund, Transaction } from "@/types";
+import { format, isWithinInterval, startOfDay, endOfDay } from "date-fns";
+import { getTransactionPayers } from "@/utils/transactionUtils";
+import { getTransactionCategory, getFundCategories } from "@/utils/categoryUtils";
+import { calculateBalancesFromTransactions, calculateSettlements } from "@/utils/settlementUtils";
+import { createXlsxWorkbook, SheetCell } from "@/utils/xlsxUtils";
+
+/**
+ * Keep the transactions inside a date range, using the same rule as the
+ * transaction and debt lists (by creation date, whole days)
+ */
+export const filterTransactionsByDateRange = (
+  transactions: Transaction[],
+  dateRange?: DateRange
+): Transaction[] => {
+  if (!dateRange?.from) return transactions;
+
+  return transactions.filter(transaction => {
+    const transactionDate = new Date(transaction.createdAt);
+    if (dateRange.to) {
+      return isWithinInterval(transactionDate, {
+        start: startOfDay(dateRange.from),
+        end: endOfDay(dateRange.to),
+      });
+    }
+    return transactionDate >= startOfDay(dateRange.from);
+  });
+};
+
+/**
+ * Member columns of the export: current members first, then anyone who left
+ * the fund but still appears in a transaction
+ */
+const getExportUserIds = (fund: Fund, transactions: Transaction[]): string[] => {
+  const userIds = [...(fund.members || [])];
+  for (const transaction of transactions) {
+    for (const userId of [transaction.paidBy, ...transaction.splits.map(s => s.userId)]) {
+      if (userId && !userIds.includes(userId)) {
+        userIds.push(userId);
+      }
+    }
+  }
+  return userIds;
+};
+
+/**
+ * Share of a transaction that a person is responsible for.
+ * Splits are stored as net amounts (paid − share), so the share is what they paid minus their split.
+ */
+const getUserShare = (transaction: Transaction, userId: string): number => {
+  const paid = getTransactionPayers(transaction)
+    .filter(payer => payer.userId === userId)
+    .reduce((sum, payer) => sum + payer.amount, 0);
+  const net = transaction.splits
+    .filter(split => split.userId === userId)
+    .reduce((sum, split) => sum + split.amount, 0);
+  return Math.round(paid - net);
+};
+
+/**
+ * Rows of the transactions sheet: one row per transaction, one column per member
+ * @returns Header row followed by data rows, oldest transaction first
+ */
+export const buildTransactionRows = (
+  fund: Fund,
+  transactions: Transaction[],
+  getUserName: (userId: string) => string
+): SheetCell[][] => {
+  const userIds = getExportUserIds(fund, transactions);
+  const categories = getFundCategories(fund);
+
+  const header: SheetCell[] = [
+    "Ngày",
+    "Mô tả",
+    "Danh mục",
+    "Người trả",
+    "Số tiền (VND)",
+    "Mã tiền tệ",
+    "Số tiền gốc",
+    "Tỷ giá",
+    ...userIds.map(userId => `Phần của ${getUserName(userId)}`),
+  ];
+
+  const rows = [...transactions]
+    .sort((a, b) => (a.date || a.createdAt) - (b.date || b.createdAt))
+    .map(transaction => [
+      format(transaction.date || transaction.createdAt, "dd/MM/yyyy"),
+      transaction.description,
+      getTransactionCategory(transaction, categories),
+      getTransactionPayers(transaction).map(payer => getUserName(payer.userId)).join(", "),
+      transaction.amount,
+      transaction.currencyCode || "",
+      transaction.originalAmount ?? "",
+      transaction.exchangeRate ?? "",
+      ...userIds.map(userId => getUserShare(transaction, userId)),
+    ]);
+
+  return [header, ...rows];
+};
+
+/**
+ * Rows of the balances sheet: each person's final balance, then the settlement plan
+ */
+export const buildBalanceRows = (
+  transactions: Transaction[],
+  getUserName: (userId: string) => string
+): SheetCell[][] => {
+  const balances = calculateBalancesFromTransactions(transactions)
+    .sort((a, b) => b.amount - a.amount);
+  const settlements = calculateSettlements(balances);
+
+  return [
+    ["Thành viên", "Số dư (VND)", "Trạng thái"],
+    ...balances.map(balance => {
+      const amount = Math.round(balance.amount);
+      return [
+        getUserName(balance.userId),
+        amount,
+        amount > 0 ? "Được nhận lại" : amount < 0 ? "Cần trả" : "Đã cân bằng",
+      ];
+    }),
+    [],
+    ["Kế hoạch thanh toán"],
+    ["Người trả", "Người nhận", "Số tiền (VND)"],
+    ...settlements.map(settlement => [
+      getUserName(settlement.from),
+      getUserName(settlement.to),
+      settlement.amount,
+    ]),
+  ];
+};
+
+/**
+ * Serialize rows to CSV. A UTF-8 BOM is added so Excel shows Vietnamese text correctly.
+ */
+export const toCsv = (rows: SheetCell[][]): string => {
+  const escapeCell = (value: SheetCell): string => {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return "\uFEFF" + rows.map(row => row.map(escapeCell).join(",")).join("\r\n");
+};
+
+/**
+ * Save a file through a temporary download link
+ */
+export const downloadFile = (blob: Blob, fileName: string): void => {
+  const url = window.URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * File name for an export, e.g. "Da-Lat-2026_giao-dich_19-10-2026.csv"
+ */
+export const getExportFileName = (fund: Fund, suffix: string, extension: string): string => {
+  const fundName = fund.name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "quy";
+  return `${fundName}_${suffix}_${format(new Date(), "dd-MM-yyyy")}.${extension}`;
+};
+
+/**
+ * Excel workbook with a transactions sheet and a balances/settlement sheet
+ */
+export const createFundWorkbook = (
+  fund: Fund,
+  transactions: Transaction[],
+  getUserName: (userId: string) => string
+): Blob => {
+  return createXlsxWorkbook([
+    { name: "Giao dịch", rows: buildTransactionRows(fund, transactions, getUserName), boldFirstRow: true },
+    { name: "Số dư và thanh toán", rows: buildBalanceRows(transactions, getUserName), boldFirstRow: true },
+  ]);
+};
@@ -0,0 +1,67 @@
+// Receipts are downscaled so the text stays readable while uploads stay small
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+/**
+ * Load an image file into an HTMLImageElement
+ */
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Không thể đọc ảnh ${file.name}`));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Compress an image on the client before uploading it.
+ * The image is scaled down to fit within maxDimension and re-encoded as JPEG;
+ * the original file is returned if compression would not make it smaller.
+ * @param file - Image selected by the user
+ * @param maxDimension - Longest side of the output image in pixels
+ * @param quality - JPEG quality between 0 and 1
+ * @returns Compressed image
+ */
+export const compressImage = async (
+  file: File,
+  maxDimension: number = MAX_IMAGE_DIMENSION,
+  quality: number = JPEG_QUALITY
+): Promise<Blob> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) return file;
+
+  // JPEG has no transparency, so paint a white background first
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", quality));
+  return blob && blob.size < file.size ? blob : file;
+};
+
+/**
+ * Read a file or blob as base64 without the data URL prefix, as expected by inline image APIs
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { Fund, User } from "@/types";
+import {
+  buildGenericRows,
+  buildSplitwiseRows,
+  getNameSimilarity,
+  guessColumnMapping,
+  matchMemberNames,
+  parseAmount,
+  parseCsv,
+  parseDateValue,
+} from "@/utils/importUtils";
+
+const fund = { id: "fund1", name: "Đà Lạt", members: ["an", "binh", "chi"], createdBy: "an" } as Fund;
+
+const members = [
+  { id: "an", displayName: "Nguyễn Văn An" },
+  { id: "binh", displayName: "Trần Bình" },
+  { id: "john", displayName: "John Smith" },
+] as User[];
+
+const sumSplits = (splits: { amount: number }[]) => splits.reduce((sum, split) => sum + split.amount, 0);
+
+describe("parseCsv", () => {
+  it("reads quoted cells with delimiters, escaped quotes and line breaks", () => {
+    const csv = 'Mô tả,Ghi chú,Số tiền\n"Ăn tối, quán A","Nói ""ngon""\nlần sau quay lại",300000\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ["Mô tả", "Ghi chú", "Số tiền"],
+      ["Ăn tối, quán A", 'Nói "ngon"\nlần sau quay lại', "300000"],
+    ]);
+  });
+
+  it("strips a UTF-8 BOM and handles CRLF line endings", () => {
+    expect(parseCsv("\uFEFFDate,Cost\r\n2024-03-01,60.00\r\n")).toEqual([
+      ["Date", "Cost"],
+      ["2024-03-01", "60.00"],
+    ]);
+  });
+
+  it("detects semicolon and tab separated files", () => {
+    expect(parseCsv("Ngày;Số tiền;Mô tả\n01/03/2024;1.234,5;Cafe, bánh")).toEqual([
+      ["Ngày", "Số tiền", "Mô tả"],
+      ["01/03/2024", "1.234,5", "Cafe, bánh"],
+    ]);
+    expect(parseCsv("Date\tCost\n2024-03-01\t60")).toEqual([
+      ["Date", "Cost"],
+      ["2024-03-01", "60"],
+    ]);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseCsv("a,b\n\n1,2\n,\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+});
+
+describe("parseAmount", () => {
+  it.each([
+    ["1.234.567", 1234567],
+    ["25,000", 25000],
+    ["1,234.56", 1234.56],
+    ["1.234,5", 1234.5],
+    ["60.00", 60],
+    ["12,5", 12.5],
+    ["-20", -20],
+    ["(50)", -50],
+    ["150.000 ₫", 150000],
+  ])("reads %s", (value, expected) => {
+    expect(parseAmount(value)).toBe(expected);
+  });
+
+  it("returns null for cells without a number", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("abc")).toBeNull();
+  });
+});
+
+describe("parseDateValue", () => {
+  it("reads ISO and day-first dates at local noon", () => {
+    expect(parseDateValue("2024-03-01")).toBe(new Date(2024, 2, 1, 12).getTime());
+    expect(parseDateValue("01/03/2024")).toBe(new Date(2024, 2, 1, 12).getTime());
+    expect(parseDateValue("1.3.24")).toBe(new Date(2024, 2, 1, 12).getTime());
+    expect(parseDateValue("không phải ngày")).toBeNull();
+  });
+});
+
+describe("member name matching", () => {
+  it("ignores diacritics and case and matches whole words", () => {
+    expect(getNameSimilarity("an", "Nguyễn Văn An")).toBe(0.9);
+    expect(getNameSimilarity("TRAN BINH", "Trần Bình")).toBe(1);
+    expect(getNameSimilarity("Đức", "duc")).toBe(1);
+  });
+
+  it("maps each name to the closest member and leaves poor matches unmapped", () => {
+    expect(matchMemberNames(["An", "binh", "Jonh Smith", "Zed"], members)).toEqual({
+      An: "an",
+      binh: "binh",
+      "Jonh Smith": "john",
+      Zed: null,
+    });
+  });
+});
+
+describe("buildSplitwiseRows", () => {
+  const header = ["Date", "Description", "Category", "Cost", "Currency", "An", "Bình"];
+  const nameMapping = { An: "an", Bình: "binh" };
+
+  it("imports net amounts and skips the totals row", () => {
+    const rows = buildSplitwiseRows(header, [
+      ["2024-03-01", "Ăn tối", "Dining out", "300000", "VND", "150000", "-150000"],
+      ["2024-03-05", "Total balance", "", "", "VND", "150000", "-150000"],
+    ], nameMapping, fund, "an");
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].splitDifference).toBe(0);
+    expect(rows[0].transaction).toMatchObject({
+      amount: 300000,
+      paidBy: "an",
+      splits: [{ userId: "an", amount: 150000 }, { userId: "binh", amount: -150000 }],
+    });
+  });
+
+  it("flags rows whose splits do not balance and keeps their splits as they are", () => {
+    const [row] = buildSplitwiseRows(header, [
+      ["2024-03-02", "Taxi", "", "100000", "VND", "60000", "-50000"],
+    ], nameMapping, fund, "an");
+
+    expect(row.splitDifference).toBe(10000);
+    expect(row.transaction.splits).toEqual([{ userId: "an", amount: 60000 }, { userId: "binh", amount: -50000 }]);
+  });
+
+  it("absorbs currency conversion rounding in balanced rows", () => {
+    const [row] = buildSplitwiseRows(
+      [...header, "Chi"],
+      [["2024-03-03", "Coffee", "", "5", "USD", "5", "-2.5", "-2.5"]],
+      { ...nameMapping, Chi: "chi" },
+      fund,
+      "an",
+      3
+    );
+
+    // -2.5 × 3 rounds to -7 twice; the leftover đồng goes to the largest split
+    expect(row.splitDifference).toBe(0);
+    expect(row.transaction.splits).toEqual([
+      { userId: "an", amount: 14 },
+      { userId: "binh", amount: -7 },
+      { userId: "chi", amount: -7 },
+    ]);
+    expect(row.transaction).toMatchObject({ amount: 15, currencyCode: "USD", originalAmount: 5, exchangeRate: 3 });
+  });
+
+  it("reports people that are not mapped to a member", () => {
+    const [row] = buildSplitwiseRows(header, [
+      ["2024-03-01", "Ăn tối", "", "300000", "VND", "150000", "-150000"],
+    ], { An: "an", Bình: null }, fund, "an");
+
+    expect(row.transaction).toBeNull();
+    expect(row.error).toContain("Bình");
+  });
+});
+
+describe("buildGenericRows", () => {
+  const header = ["Ngày", "Mô tả", "Số tiền", "Người trả", "Người tham gia"];
+
+  it("guesses the columns from Vietnamese headers", () => {
+    expect(guessColumnMapping(header)).toEqual({
+      date: 0,
+      description: 1,
+      amount: 2,
+      payer: 3,
+      participants: 4,
+      category: -1,
+      shareColumns: [],
+    });
+  });
+
+  it("splits evenly between the listed participants", () => {
+    const [row] = buildGenericRows(header, [["01/03/2024", "Cafe", "90.000", "An", "An; Bình; Chi"]],
+      guessColumnMapping(header), { An: "an", Bình: "binh", Chi: "chi" }, fund, "an");
+
+    expect(row.splitDifference).toBe(0);
+    expect(row.transaction.paidBy).toBe("an");
+    expect(sumSplits(row.transaction.splits)).toBe(0);
+    expect(row.transaction.splits.find(split => split.userId === "binh")?.amount).toBe(-30000);
+  });
+
+  it("flags share columns that do not add up to the amount", () => {
+    const shareHeader = ["Ngày", "Mô tả", "Số tiền", "Người trả", "An", "Bình"];
+    const mapping = { ...guessColumnMapping(shareHeader), shareColumns: [4, 5] };
+    const [row] = buildGenericRows(shareHeader, [["01/03/2024", "Cafe", "100.000", "An", "40.000", "50.000"]],
+      mapping, { An: "an", Bình: "binh" }, fund, "an");
+
+    expect(row.splitDifference).toBe(10000);
+    expect(row.transaction.splits).toEqual([{ userId: "an", amount: 60000 }, { userId: "binh", amount: -50000 }]);
+  });
+
+  it("rejects rows without a valid date, amount or payer", () => {
+    const rows = buildGenericRows(header, [
+      ["hôm qua", "Cafe", "90.000", "An", ""],
+      ["01/03/2024", "Cafe", "0", "An", ""],
+      ["01/03/2024", "Cafe", "90.000", "", ""],
+    ], guessColumnMapping(header), { An: "an" }, fund, "an");
+
+    expect(rows.map(row => row.error)).toEqual(["Ngày không hợp lệ", "Số tiền không hợp lệ", "Thiếu người trả"]);
+  });
+});
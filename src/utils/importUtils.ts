@@ -0,0 +1,442 @@
+import { Fund, Transaction, User } from "@/types";
+import { calculateEvenDistributionWithPayers } from "@/utils/transactionUtils";
+import { getFundCategories, inferCategory } from "@/utils/categoryUtils";
+
+/**
+ * Column roles of a generic CSV, as zero-based column indexes (-1 = not mapped)
+ */
+export interface ImportColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  payer: number;
+  participants: number; // Names separated by , ; | or /; blank means every member
+  category: number;
+  shareColumns: number[]; // One column per person holding the amount they owe
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line number in the file, for error messages
+  transaction: Omit<Transaction, "id" | "createdAt"> | null;
+  error?: string; // Why the row cannot be imported
+  splitDifference: number; // How far the splits are from summing to zero (0 when balanced)
+}
+
+export type NameMapping = Record<string, string | null>; // External name → user ID
+
+const SPLITWISE_HEADER = ["date", "description", "category", "cost", "currency"];
+const TOTAL_ROW_DESCRIPTION = "total balance";
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells, escaped quotes, CRLF line endings, a UTF-8 BOM and
+ * semicolon or tab separated files exported by spreadsheet apps.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const delimiter = [",", ";", "\t"]
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  // Drop blank lines (Splitwise puts one before the totals row)
+  return rows.filter(r => r.some(value => value !== ""));
+};
+
+/**
+ * Whether a header row comes from Splitwise's "Export as spreadsheet"
+ */
+export const isSplitwiseHeader = (header: string[]): boolean => {
+  return SPLITWISE_HEADER.every((name, index) => header[index]?.trim().toLowerCase() === name);
+};
+
+/**
+ * Parse an amount written as "1.234.567", "1,234.56", "60.00", "-20" or "(50)"
+ * @returns The number, or null when the cell is not an amount
+ */
+export const parseAmount = (value: string): number | null => {
+  if (!value) return null;
+
+  let text = value.replace(/[^\d.,\-()]/g, "");
+  const isNegative = text.startsWith("-") || (text.startsWith("(") && text.endsWith(")"));
+  text = text.replace(/[-()]/g, "");
+  if (!text) return null;
+
+  const separators = text.match(/[.,]/g) || [];
+  const decimalIndex = Math.max(text.lastIndexOf("."), text.lastIndexOf(","));
+  const digitsAfterLast = text.length - decimalIndex - 1;
+
+  // "1.234.567" repeats one separator and "25,000" has a single one before three
+  // digits: both are thousands separators. Otherwise the last separator is the decimal point.
+  const isThousandsOnly = separators.length === 0
+    || (new Set(separators).size === 1 && (separators.length > 1 || digitsAfterLast === 3));
+
+  const normalized = isThousandsOnly
+    ? text.replace(/[.,]/g, "")
+    : text.slice(0, decimalIndex).replace(/[.,]/g, "") + "." + text.slice(decimalIndex + 1);
+
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return null;
+  return isNegative ? -amount : amount;
+};
+
+/**
+ * Parse a date written as YYYY-MM-DD or DD/MM/YYYY (also with - or . separators)
+ * @returns Timestamp at noon local time, or null when the cell is not a date
+ */
+export const parseDateValue = (value: string): number | null => {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]), 12).getTime();
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (dayFirst) {
+    const year = Number(dayFirst[3]) < 100 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    return new Date(year, Number(dayFirst[2]) - 1, Number(dayFirst[1]), 12).getTime();
+  }
+
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Lowercase and strip Vietnamese diacritics so "Đức" matches "duc"
+ */
+const normalizeName = (name: string): string => {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = current;
+    }
+  }
+  return previous[b.length];
+};
+
+/**
+ * How similar an external name is to a member's display name, from 0 to 1.
+ * Exact and whole-word matches score highest ("Nam" vs "Nguyễn Văn Nam"),
+ * otherwise the edit distance decides ("Jonh" vs "John").
+ */
+export const getNameSimilarity = (externalName: string, displayName: string): number => {
+  const a = normalizeName(externalName);
+  const b = normalizeName(displayName);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const aWords = a.split(" ");
+  const bWords = b.split(" ");
+  if (aWords.every(word => bWords.includes(word)) || bWords.every(word => aWords.includes(word))) {
+    return 0.9;
+  }
+
+  const distance = levenshtein(a, b);
+  return 1 - distance / Math.max(a.length, b.length);
+};
+
+/**
+ * Match external names to fund members.
+ * Each name gets the most similar member above the threshold; names without a
+ * good enough match are left unmapped for the user to choose.
+ */
+export const matchMemberNames = (
+  names: string[],
+  members: User[],
+  threshold = 0.6
+): NameMapping => {
+  const mapping: NameMapping = {};
+
+  for (const name of names) {
+    const best = members
+      .map(member => ({ userId: member.id, score: getNameSimilarity(name, member.displayName) }))
+      .sort((a, b) => b.score - a.score)[0];
+    mapping[name] = best && best.score >= threshold ? best.userId : null;
+  }
+
+  return mapping;
+};
+
+/**
+ * Split a participants cell into names
+ */
+const splitNames = (value: string): string[] => {
+  return value.split(/[,;|/]/).map(name => name.trim()).filter(Boolean);
+};
+
+/**
+ * Every external name that needs mapping to a member
+ */
+export const collectExternalNames = (
+  header: string[],
+  rows: string[][],
+  mapping: ImportColumnMapping | null
+): string[] => {
+  if (!mapping) {
+    // Splitwise: one column per person after Date, Description, Category, Cost, Currency
+    return header.slice(SPLITWISE_HEADER.length).filter(Boolean);
+  }
+
+  const names = new Set<string>();
+  mapping.shareColumns.forEach(column => header[column] && names.add(header[column]));
+  for (const row of rows) {
+    if (mapping.payer >= 0 && row[mapping.payer]) names.add(row[mapping.payer].trim());
+    if (mapping.participants >= 0) splitNames(row[mapping.participants] || "").forEach(name => names.add(name));
+  }
+  return [...names];
+};
+
+/**
+ * Give whatever rounding left over to the largest split so the splits sum to exactly zero
+ */
+const balanceRounding = (splits: { userId: string; amount: number }[]) => {
+  const difference = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (difference === 0 || splits.length === 0) return splits;
+
+  const largest = splits.reduce((max, split) => (Math.abs(split.amount) > Math.abs(max.amount) ? split : max));
+  return splits.map(split => (split === largest ? { ...split, amount: split.amount - difference } : split));
+};
+
+/**
+ * Merge splits that ended up on the same member (two external names mapped to one person)
+ */
+const mergeSplits = (splits: { userId: string; amount: number }[]) => {
+  const totals = new Map<string, number>();
+  splits.forEach(split => totals.set(split.userId, (totals.get(split.userId) || 0) + split.amount));
+  return [...totals.entries()].map(([userId, amount]) => ({ userId, amount }));
+};
+
+/**
+ * Turn the rows of a Splitwise export into transactions.
+ * Splitwise's person columns already hold net amounts (paid − share), the same
+ * convention as `Transaction.splits`. Non-VND amounts are converted with `exchangeRate`.
+ */
+export const buildSplitwiseRows = (
+  header: string[],
+  rows: string[][],
+  nameMapping: NameMapping,
+  fund: Fund,
+  createdBy: string,
+  exchangeRate = 1
+): ImportRow[] => {
+  const personColumns = header.slice(SPLITWISE_HEADER.length);
+  const categories = getFundCategories(fund);
+
+  return rows
+    .map((row, index) => ({ row, rowNumber: index + 2 }))
+    .filter(({ row }) => (row[1] || "").trim().toLowerCase() !== TOTAL_ROW_DESCRIPTION)
+    .map(({ row, rowNumber }) => {
+      const [dateCell, description, category, costCell, currency] = row;
+      const date = parseDateValue(dateCell || "");
+      const cost = parseAmount(costCell || "");
+
+      if (date === null) return { rowNumber, transaction: null, error: "Ngày không hợp lệ", splitDifference: 0 };
+      if (cost === null || cost <= 0) return { rowNumber, transaction: null, error: "Số tiền không hợp lệ", splitDifference: 0 };
+
+      const rawSplits = personColumns
+        .map((name, column) => ({ name, amount: parseAmount(row[SPLITWISE_HEADER.length + column] || "") || 0 }))
+        .filter(split => split.amount !== 0);
+
+      const unmapped = rawSplits.filter(split => !nameMapping[split.name]);
+      if (unmapped.length > 0) {
+        return {
+          rowNumber,
+          transaction: null,
+          error: `Chưa chọn thành viên cho: ${unmapped.map(split => split.name).join(", ")}`,
+          splitDifference: 0,
+        };
+      }
+
+      const sourceDifference = rawSplits.reduce((sum, split) => sum + split.amount, 0);
+      const isVnd = !currency || currency.toUpperCase() === "VND";
+      const rate = isVnd ? 1 : exchangeRate;
+
+      const splits = mergeSplits(rawSplits.map(split => ({
+        userId: nameMapping[split.name] as string,
+        amount: Math.round(split.amount * rate),
+      })));
+      // Only absorb conversion rounding; a source row that doesn't balance stays flagged
+      const isBalanced = Math.abs(sourceDifference) < 0.01;
+      const finalSplits = isBalanced ? balanceRounding(splits) : splits;
+      const paidBy = [...finalSplits].sort((a, b) => b.amount - a.amount)[0]?.userId || createdBy;
+
+      const transaction: Omit<Transaction, "id" | "createdAt"> = {
+        fundId: fund.id,
+        description: description || "Giao dịch",
+        amount: Math.round(cost * rate),
+        paidBy,
+        splits: finalSplits,
+        category: inferCategory(`${description} ${category || ""}`, categories),
+        date,
+        createdBy,
+        ...(isVnd ? {} : { currencyCode: currency.toUpperCase(), originalAmount: cost, exchangeRate: rate }),
+      } as Omit<Transaction, "id" | "createdAt">;
+
+      return {
+        rowNumber,
+        transaction,
+        splitDifference: isBalanced ? 0 : Math.round(sourceDifference * rate),
+      };
+    });
+};
+
+/**
+ * Turn the rows of a generic CSV into transactions using a column mapping.
+ * With share columns each person owes the amount in their column; otherwise the
+ * amount is split evenly between the participants (or every member).
+ */
+export const buildGenericRows = (
+  header: string[],
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  nameMapping: NameMapping,
+  fund: Fund,
+  createdBy: string
+): ImportRow[] => {
+  const categories = getFundCategories(fund);
+  const cell = (row: string[], column: number) => (column >= 0 ? (row[column] || "").trim() : "");
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const date = parseDateValue(cell(row, mapping.date));
+    const amount = parseAmount(cell(row, mapping.amount));
+    const description = cell(row, mapping.description) || "Giao dịch";
+    const payerName = cell(row, mapping.payer);
+    const paidBy = payerName ? nameMapping[payerName] : null;
+
+    if (date === null) return { rowNumber, transaction: null, error: "Ngày không hợp lệ", splitDifference: 0 };
+    if (amount === null || amount <= 0) return { rowNumber, transaction: null, error: "Số tiền không hợp lệ", splitDifference: 0 };
+    if (!paidBy) {
+      return { rowNumber, transaction: null, error: payerName ? `Chưa chọn thành viên cho: ${payerName}` : "Thiếu người trả", splitDifference: 0 };
+    }
+
+    const roundedAmount = Math.round(amount);
+    let splits: { userId: string; amount: number }[];
+    let splitDifference = 0;
+
+    if (mapping.shareColumns.length > 0) {
+      const shares = mapping.shareColumns
+        .map(column => ({ name: header[column], share: Math.round(parseAmount(cell(row, column)) || 0) }))
+        .filter(share => share.share !== 0);
+
+      const unmapped = shares.filter(share => !nameMapping[share.name]);
+      if (unmapped.length > 0) {
+        return { rowNumber, transaction: null, error: `Chưa chọn thành viên cho: ${unmapped.map(s => s.name).join(", ")}`, splitDifference: 0 };
+      }
+
+      splits = mergeSplits([
+        { userId: paidBy, amount: roundedAmount },
+        ...shares.map(share => ({ userId: nameMapping[share.name] as string, amount: -share.share })),
+      ]);
+      splitDifference = splits.reduce((sum, split) => sum + split.amount, 0);
+    } else {
+      const participantNames = splitNames(cell(row, mapping.participants));
+      const unmapped = participantNames.filter(name => !nameMapping[name]);
+      if (unmapped.length > 0) {
+        return { rowNumber, transaction: null, error: `Chưa chọn thành viên cho: ${unmapped.join(", ")}`, splitDifference: 0 };
+      }
+
+      const participantIds = participantNames.length > 0
+        ? [...new Set(participantNames.map(name => nameMapping[name] as string))]
+        : fund.members;
+      splits = calculateEvenDistributionWithPayers(roundedAmount, participantIds, [{ userId: paidBy, amount: roundedAmount }]);
+    }
+
+    const categoryName = cell(row, mapping.category);
+    const category = categories.find(c => normalizeName(c.name) === normalizeName(categoryName))?.name
+      || inferCategory(`${description} ${categoryName}`, categories);
+
+    return {
+      rowNumber,
+      transaction: {
+        fundId: fund.id,
+        description,
+        amount: roundedAmount,
+        paidBy,
+        splits,
+        category,
+        date,
+        createdBy,
+      } as Omit<Transaction, "id" | "createdAt">,
+      splitDifference,
+    };
+  });
+};
+
+/**
+ * Guess the column mapping of a generic CSV from its header names
+ */
+export const guessColumnMapping = (header: string[]): ImportColumnMapping => {
+  const find = (keywords: string[]) => header.findIndex(name => {
+    const normalized = normalizeName(name);
+    return keywords.some(keyword => normalized === keyword || normalized.includes(keyword));
+  });
+
+  return {
+    date: find(["ngay", "date"]),
+    description: find(["mo ta", "noi dung", "description", "ghi chu"]),
+    amount: find(["so tien", "amount", "cost", "tong"]),
+    payer: find(["nguoi tra", "paid by", "payer", "nguoi chi"]),
+    participants: find(["nguoi tham gia", "chia cho", "participants", "split"]),
+    category: find(["danh muc", "category", "loai"]),
+    shareColumns: [],
+  };
+};
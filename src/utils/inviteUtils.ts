@@ -0,0 +1,22 @@
+import { FundInvite } from "@/types";
+
+/**
+ * Why an invite can no longer be used
+ * @returns A message for the visitor, or null when the invite is still valid
+ */
+export const getInviteUnavailableReason = (
+  invite: Pick<FundInvite, "revokedAt" | "expiresAt" | "maxUses" | "useCount">,
+  now: number = Date.now()
+): string | null => {
+  if (invite.revokedAt) return "Lời mời đã bị thu hồi";
+  if (invite.expiresAt && invite.expiresAt <= now) return "Lời mời đã hết hạn";
+  if (invite.maxUses && invite.useCount >= invite.maxUses) return "Lời mời đã hết lượt sử dụng";
+  return null;
+};
+
+/**
+ * Full link that opens the join page for an invite
+ */
+export const getInviteUrl = (token: string): string => {
+  return `${window.location.origin}/join/${token}`;
+};
@@ -0,0 +1,78 @@
+import { PayoutMethod, PayoutMethodType, User } from "@/types";
+import { PAYOUT_METHOD_TYPE_LABELS } from "@/constants/payoutConstants";
+
+// ID given to the single bank account of users who have not saved payout methods yet
+export const LEGACY_PAYOUT_METHOD_ID = "bank-account";
+
+/**
+ * Create an ID for a new payout method
+ */
+export const createPayoutMethodId = (): string => {
+  return `payout_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * All payout methods of a user; a user with only the older single bank account
+ * gets that account as their one method
+ */
+export const getPayoutMethods = (user?: User | null): PayoutMethod[] => {
+  if (!user) return [];
+  if (user.payoutMethods?.length) return user.payoutMethods;
+
+  if (user.bankAccount?.accountNumber) {
+    return [{
+      id: LEGACY_PAYOUT_METHOD_ID,
+      type: PayoutMethodType.BANK,
+      ...user.bankAccount,
+    }];
+  }
+
+  return [];
+};
+
+/**
+ * Payout method to use when paying a user back in a fund: the fund override if set,
+ * otherwise the user's default, otherwise their first method
+ * @param user - User receiving the money
+ * @param fundId - Fund being settled, if any
+ * @param type - Only consider methods of this type
+ * @returns The payout method, or null when the user has none
+ */
+export const getPayoutMethodForFund = (
+  user: User | null | undefined,
+  fundId?: string,
+  type?: PayoutMethodType
+): PayoutMethod | null => {
+  const methods = getPayoutMethods(user).filter(method => !type || method.type === type);
+  const preferredIds = [fundId ? user?.fundPayoutMethods?.[fundId] : undefined, user?.defaultPayoutMethodId];
+
+  for (const id of preferredIds) {
+    const method = id && methods.find(m => m.id === id);
+    if (method) return method;
+  }
+
+  return methods[0] || null;
+};
+
+/**
+ * Short name of a payout method for lists and pickers, e.g. "VCB · 0123456789"
+ */
+export const getPayoutMethodTitle = (method: PayoutMethod): string => {
+  const provider = method.type === PayoutMethodType.BANK
+    ? method.bankName || method.bankCode
+    : PAYOUT_METHOD_TYPE_LABELS[method.type];
+  const title = `${provider} · ${method.accountNumber}`;
+
+  return method.label ? `${method.label} (${title})` : title;
+};
+
+/**
+ * Link that opens an e-wallet transfer to the method's phone number.
+ * Only MoMo publishes such a link; other wallets return null.
+ */
+export const getEWalletTransferUrl = (method: PayoutMethod): string | null => {
+  if (method.type === PayoutMethodType.MOMO) {
+    return `https://nhantien.momo.vn/${method.accountNumber}`;
+  }
+  return null;
+};
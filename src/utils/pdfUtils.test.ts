@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { A4_HEIGHT_PT, A4_WIDTH_PT, createPdfFromImages, PdfImagePage } from "@/utils/pdfUtils";
+
+/**
+ * Stand-in JPEG data of a given size, with bytes above 0x7F and text that looks like PDF syntax,
+ * so offsets are only right if the image is written byte for byte
+ */
+const fakeJpeg = (size: number, seed: number): Uint8Array => {
+  const bytes = Uint8Array.from({ length: size }, (_, i) => (i * 31 + seed * 7) % 256);
+  bytes.set(new TextEncoder().encode("endstream endobj"), Math.floor(size / 2));
+  return bytes;
+};
+
+/**
+ * The PDF as a string with one character per byte, so string indexes are byte offsets
+ */
+const readPdf = async (pages: PdfImagePage[]) => {
+  const blob = createPdfFromImages(pages);
+  expect(blob.type).toBe("application/pdf");
+  return new TextDecoder("latin1").decode(await blob.arrayBuffer());
+};
+
+/**
+ * Object offsets listed in the cross-reference table, checking that startxref points at it
+ */
+const readXref = (pdf: string): number[] => {
+  const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF$/)[1]);
+  expect(pdf.startsWith("xref\n", startxref)).toBe(true);
+
+  const [, first, count] = pdf.slice(startxref).match(/^xref\n(\d+) (\d+)\n/);
+  expect(Number(first)).toBe(0);
+
+  const entries = pdf.slice(startxref).match(/^\d{10} \d{5} [nf] \n/gm);
+  expect(entries).toHaveLength(Number(count));
+  expect(entries[0]).toBe("0000000000 65535 f \n");
+  expect(pdf).toContain(`/Size ${count} /Root 1 0 R`);
+
+  return entries.slice(1).map(entry => Number(entry.slice(0, 10)));
+};
+
+const getObject = (pdf: string, offset: number): string => pdf.slice(offset, pdf.indexOf("\nendobj\n", offset));
+
+describe("createPdfFromImages", () => {
+  it("lists the byte offset of every object in the cross-reference table", async () => {
+    const pdf = await readPdf([
+      { jpeg: fakeJpeg(1000, 1), width: 1240, height: 1754 },
+      { jpeg: fakeJpeg(777, 2), width: 1240, height: 1754 },
+    ]);
+
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    const offsets = readXref(pdf);
+    expect(offsets).toHaveLength(2 + 2 * 3);
+    offsets.forEach((offset, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    });
+  });
+
+  it("writes each stream with its exact length and the image bytes unchanged", async () => {
+    const jpeg = fakeJpeg(1500, 3);
+    const pdf = await readPdf([{ jpeg, width: 800, height: 600 }]);
+    const [, , page, content, image] = readXref(pdf).map(offset => getObject(pdf, offset));
+
+    expect(page).toContain(`/MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}]`);
+    expect(page).toContain("/XObject << /Im0 5 0 R >>");
+    expect(page).toContain("/Contents 4 0 R");
+
+    const contentLength = Number(content.match(/\/Length (\d+)/)[1]);
+    const contentStream = content.slice(content.indexOf("stream\n") + 7, content.lastIndexOf("\nendstream"));
+    expect(contentStream.length).toBe(contentLength);
+
+    expect(image).toContain("/Width 800 /Height 600");
+    expect(image).toContain(`/Length ${jpeg.length}`);
+    const imageStart = image.indexOf("stream\n") + 7;
+    const imageBytes = Uint8Array.from(image.slice(imageStart, imageStart + jpeg.length), char => char.charCodeAt(0));
+    expect(imageBytes).toEqual(jpeg);
+    expect(image.slice(imageStart + jpeg.length)).toBe("\nendstream");
+  });
+
+  it("keeps every page of a long report in order in the page tree", async () => {
+    const pageCount = 25;
+    const pages = Array.from({ length: pageCount }, (_, i) => ({ jpeg: fakeJpeg(200 + i * 13, i), width: 1240, height: 1754 }));
+    const pdf = await readPdf(pages);
+    const objects = readXref(pdf).map(offset => getObject(pdf, offset));
+
+    const pageTree = objects[1];
+    expect(pageTree).toContain(`/Count ${pageCount}`);
+    const kids = [...pageTree.match(/\/Kids \[([^\]]*)\]/)[1].matchAll(/(\d+) 0 R/g)].map(match => Number(match[1]));
+    expect(kids).toHaveLength(pageCount);
+
+    kids.forEach((objectNumber, index) => {
+      const page = objects[objectNumber - 1];
+      expect(page).toMatch(/^\d+ 0 obj\n<< \/Type \/Page \/Parent 2 0 R /);
+      const imageNumber = Number(page.match(/\/Im0 (\d+) 0 R/)[1]);
+      expect(objects[imageNumber - 1]).toContain(`/Length ${pages[index].jpeg.length}`);
+    });
+    expect(objects.filter(object => object.includes("/Type /Page "))).toHaveLength(pageCount);
+  });
+});
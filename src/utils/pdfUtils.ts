@@ -0,0 +1,84 @@
+/**
+ * Minimal PDF writer for image-only documents.
+ * Each page is a JPEG (e.g. a canvas rendered with Vietnamese text, which the
+ * built-in PDF fonts cannot show) stretched over an A4 page.
+ */
+
+export interface PdfImagePage {
+  jpeg: Uint8Array; // JPEG file bytes
+  width: number; // Image width in pixels
+  height: number; // Image height in pixels
+}
+
+// A4 in PDF points (1/72 inch)
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+/**
+ * Build a PDF with one full-page image per page
+ * @param pages Page images in order
+ * @returns The PDF file
+ */
+export const createPdfFromImages = (pages: PdfImagePage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, then page, content stream and image for each page
+  const pageObjectNumber = (index: number) => 3 + index * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  const startObject = (objectNumber: number) => {
+    offsets[objectNumber] = length;
+    write(`${objectNumber} 0 obj\n`);
+  };
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  startObject(2);
+  const kids = pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(" ");
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageNumber = pageObjectNumber(index);
+    const contentNumber = pageNumber + 1;
+    const imageNumber = pageNumber + 2;
+
+    startObject(pageNumber);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] ` +
+      `/Resources << /XObject << /Im0 ${imageNumber} 0 R >> >> /Contents ${contentNumber} 0 R >>\nendobj\n`
+    );
+
+    const content = `q ${A4_WIDTH_PT} 0 0 ${A4_HEIGHT_PT} 0 0 cm /Im0 Do Q`;
+    startObject(contentNumber);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    startObject(imageNumber);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let objectNumber = 1; objectNumber <= objectCount; objectNumber++) {
+    write(`${String(offsets[objectNumber]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(chunks, { type: "application/pdf" });
+};
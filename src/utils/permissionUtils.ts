@@ -0,0 +1,80 @@
+import { Fund, FundRole, Note, RecurringTransaction, Transaction } from "@/types";
+
+/**
+ * Role of a user in a fund. The creator is always the owner and members without
+ * a stored role are regular members, so funds created before roles keep working.
+ * @returns The role, or null when the user is not a member
+ */
+export const getMemberRole = (
+  fund: Pick<Fund, "members" | "createdBy" | "memberRoles"> | null | undefined,
+  userId: string | undefined
+): FundRole | null => {
+  if (!fund || !userId || !fund.members.includes(userId)) return null;
+  if (fund.createdBy === userId) return FundRole.OWNER;
+  return fund.memberRoles?.[userId] || FundRole.MEMBER;
+};
+
+const hasRole = (role: FundRole | null, roles: FundRole[]): boolean => {
+  return role !== null && roles.includes(role);
+};
+
+/**
+ * Owners and admins can add and remove members and edit the fund details
+ */
+export const canManageFund = (role: FundRole | null): boolean => {
+  return hasRole(role, [FundRole.OWNER, FundRole.ADMIN]);
+};
+
+/**
+ * Everyone except viewers can add transactions, notes and recurring templates
+ */
+export const canContribute = (role: FundRole | null): boolean => {
+  return hasRole(role, [FundRole.OWNER, FundRole.ADMIN, FundRole.MEMBER]);
+};
+
+/**
+ * Whether a transaction was entered by the user.
+ * Transactions saved before createdBy was recorded belong to their payer.
+ */
+export const isOwnTransaction = (
+  transaction: Pick<Transaction, "createdBy" | "paidBy">,
+  userId: string | undefined
+): boolean => {
+  return !!userId && (transaction.createdBy || transaction.paidBy) === userId;
+};
+
+/**
+ * Owners and admins can edit any transaction, members only their own
+ */
+export const canEditTransaction = (
+  role: FundRole | null,
+  transaction: Pick<Transaction, "createdBy" | "paidBy">,
+  userId: string | undefined
+): boolean => {
+  if (canManageFund(role)) return true;
+  return role === FundRole.MEMBER && isOwnTransaction(transaction, userId);
+};
+
+/**
+ * Owners and admins can edit and delete any note, members only their own
+ */
+export const canEditNote = (
+  role: FundRole | null,
+  note: Pick<Note, "createdBy">,
+  userId: string | undefined
+): boolean => {
+  if (canManageFund(role)) return true;
+  return role === FundRole.MEMBER && !!userId && note.createdBy === userId;
+};
+
+/**
+ * Owners and admins can edit, pause, skip and delete any recurring template, members only their own
+ */
+export const canEditRecurringTransaction = (
+  role: FundRole | null,
+  recurringTransaction: Pick<RecurringTransaction, "createdBy">,
+  userId: string | undefined
+): boolean => {
+  if (canManageFund(role)) return true;
+  return role === FundRole.MEMBER && !!userId && recurringTransaction.createdBy === userId;
+};
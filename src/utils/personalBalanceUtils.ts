@@ -0,0 +1,138 @@
+import { Transaction } from "@/types";
+import { REPAYMENT_CATEGORY } from "@/constants/categoryConstants";
+import { getSettlementConfirmationFields, isCountedInBalances } from "@/utils/settlementUtils";
+
+export interface FundPosition {
+  fundId: string;
+  amount: number; // Positive = the user is owed money in the fund
+}
+
+export interface CounterpartPosition {
+  userId: string;
+  amount: number; // Positive = the counterpart owes the user, across all funds
+  funds: FundPosition[]; // The same position split by fund
+}
+
+export interface PersonalBalances {
+  total: number;
+  funds: FundPosition[];
+  counterparts: CounterpartPosition[];
+}
+
+/**
+ * Amounts below half a dong are rounding leftovers
+ */
+const isSettled = (amount: number): boolean => Math.round(amount) === 0;
+
+/**
+ * Net split of every member in a transaction, merging repeated entries for the same member
+ */
+const getNetSplits = (transaction: Transaction): Record<string, number> => {
+  const netSplits: Record<string, number> = {};
+  transaction.splits.forEach(split => {
+    netSplits[split.userId] = (netSplits[split.userId] || 0) + split.amount;
+  });
+  return netSplits;
+};
+
+/**
+ * What every other member owes the user because of one transaction (negative when the user owes them).
+ * Members who are short in the splits owe the members who are ahead, in proportion to how far
+ * ahead each one is, so the amounts add up to the user's own split.
+ */
+export const getPairwiseAmounts = (transaction: Transaction, userId: string): Record<string, number> => {
+  const netSplits = getNetSplits(transaction);
+  const ownAmount = netSplits[userId] || 0;
+  if (ownAmount === 0) return {};
+
+  // A creditor is owed by the debtors, a debtor owes the creditors
+  const others = Object.entries(netSplits).filter(([otherId, amount]) =>
+    otherId !== userId && (ownAmount > 0 ? amount < 0 : amount > 0)
+  );
+  const othersTotal = others.reduce((sum, [, amount]) => sum + Math.abs(amount), 0);
+  if (othersTotal === 0) return {};
+
+  return Object.fromEntries(
+    others.map(([otherId, amount]) => [otherId, ownAmount * Math.abs(amount) / othersTotal])
+  );
+};
+
+/**
+ * The user's position across funds: net balance per fund, what each other member owes
+ * the user or is owed by them, and the grand total
+ * @param transactions - Transactions of the user's funds that involve the user
+ * @param userId - User ID
+ */
+export const getPersonalBalances = (transactions: Transaction[], userId: string): PersonalBalances => {
+  const fundTotals: Record<string, number> = {};
+  const counterpartTotals: Record<string, Record<string, number>> = {};
+
+  transactions.filter(isCountedInBalances).forEach(transaction => {
+    Object.entries(getPairwiseAmounts(transaction, userId)).forEach(([otherId, amount]) => {
+      fundTotals[transaction.fundId] = (fundTotals[transaction.fundId] || 0) + amount;
+      counterpartTotals[otherId] = counterpartTotals[otherId] || {};
+      counterpartTotals[otherId][transaction.fundId] = (counterpartTotals[otherId][transaction.fundId] || 0) + amount;
+    });
+  });
+
+  const funds = Object.entries(fundTotals)
+    .filter(([, amount]) => !isSettled(amount))
+    .map(([fundId, amount]) => ({ fundId, amount }))
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  const counterparts = Object.entries(counterpartTotals)
+    .map(([otherId, byFund]) => {
+      const counterpartFunds = Object.entries(byFund)
+        .filter(([, amount]) => !isSettled(amount))
+        .map(([fundId, amount]) => ({ fundId, amount }));
+      return {
+        userId: otherId,
+        amount: counterpartFunds.reduce((sum, fund) => sum + fund.amount, 0),
+        funds: counterpartFunds,
+      };
+    })
+    .filter(counterpart => counterpart.funds.length > 0)
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  return {
+    total: funds.reduce((sum, fund) => sum + fund.amount, 0),
+    funds,
+    counterparts,
+  };
+};
+
+/**
+ * Repayment that clears a position between two members in one fund.
+ * It waits for the recipient's confirmation unless they record it themselves.
+ * @param fundId - Fund to record the repayment in
+ * @param fromId - Member paying the money back
+ * @param toId - Member receiving it
+ * @param amount - Amount paid back
+ * @param description - Transaction description
+ * @param createdBy - Member recording the repayment
+ */
+export const createSettlementTransaction = (
+  fundId: string,
+  fromId: string,
+  toId: string,
+  amount: number,
+  description: string,
+  createdBy: string
+): Omit<Transaction, "id" | "createdAt"> => {
+  const roundedAmount = Math.round(amount);
+
+  return {
+    fundId,
+    description,
+    amount: roundedAmount,
+    paidBy: fromId,
+    splits: [
+      { userId: fromId, amount: roundedAmount },
+      { userId: toId, amount: -roundedAmount },
+    ],
+    category: REPAYMENT_CATEGORY,
+    date: Date.now(),
+    createdBy,
+    ...getSettlementConfirmationFields(toId, createdBy),
+  };
+};
@@ -0,0 +1,104 @@
+import { PlaceholderMember, RecurringTransaction, Transaction, User } from "@/types";
+
+// Prefix of placeholder member IDs, so they can never collide with Firebase Auth user IDs
+export const PLACEHOLDER_MEMBER_PREFIX = "guest_";
+
+/**
+ * Whether a member ID belongs to a placeholder member rather than a user account
+ */
+export const isPlaceholderMember = (userId: string | undefined): boolean => {
+  return !!userId && userId.startsWith(PLACEHOLDER_MEMBER_PREFIX);
+};
+
+/**
+ * Generate the member ID of a new placeholder member
+ */
+export const createPlaceholderMemberId = (): string => {
+  return `${PLACEHOLDER_MEMBER_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Placeholder member shaped as a User, so splits, balances and the AI parser can treat it like anyone else
+ */
+export const toPlaceholderUser = (id: string, placeholder: PlaceholderMember): User => ({
+  id,
+  displayName: placeholder.displayName,
+  email: "",
+  photoURL: "",
+});
+
+/**
+ * Move the entries of one member onto another, adding up their values when both appear
+ * @returns The merged entries, or undefined when fromId does not appear
+ */
+const mergeEntries = <T extends { userId: string }>(
+  entries: T[] | undefined,
+  fromId: string,
+  toId: string,
+  valueKey: keyof T
+): T[] | undefined => {
+  if (!entries?.some(entry => entry.userId === fromId)) return undefined;
+
+  const result: T[] = [];
+  entries.forEach(entry => {
+    const userId = entry.userId === fromId ? toId : entry.userId;
+    const existing = result.find(e => e.userId === userId);
+    if (existing) {
+      existing[valueKey] = (Number(existing[valueKey]) + Number(entry[valueKey])) as T[keyof T];
+    } else {
+      result.push({ ...entry, userId });
+    }
+  });
+  return result;
+};
+
+/**
+ * Fields of a transaction that change when a placeholder member is merged into a real user.
+ * Splits and payers of both are added up, so the transaction stays balanced.
+ * @returns The changed fields, or null when the transaction doesn't involve fromId
+ */
+export const replaceMemberInTransaction = (
+  transaction: Transaction,
+  fromId: string,
+  toId: string
+): Partial<Pick<Transaction, "paidBy" | "payers" | "splits" | "splitWeights" | "items">> | null => {
+  const changes: Partial<Pick<Transaction, "paidBy" | "payers" | "splits" | "splitWeights" | "items">> = {};
+
+  if (transaction.paidBy === fromId) changes.paidBy = toId;
+
+  const payers = mergeEntries(transaction.payers, fromId, toId, "amount");
+  if (payers) changes.payers = payers;
+
+  const splits = mergeEntries(transaction.splits, fromId, toId, "amount");
+  if (splits) changes.splits = splits;
+
+  const splitWeights = mergeEntries(transaction.splitWeights, fromId, toId, "weight");
+  if (splitWeights) changes.splitWeights = splitWeights;
+
+  if (transaction.items?.some(item => item.assignedTo?.includes(fromId))) {
+    changes.items = transaction.items.map(item => item.assignedTo?.includes(fromId)
+      ? { ...item, assignedTo: [...new Set(item.assignedTo.map(id => id === fromId ? toId : id))] }
+      : item);
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+/**
+ * Fields of a recurring template that change when a placeholder member is merged into a real user
+ * @returns The changed fields, or null when the template doesn't involve fromId
+ */
+export const replaceMemberInRecurringTransaction = (
+  template: RecurringTransaction,
+  fromId: string,
+  toId: string
+): Partial<Pick<RecurringTransaction, "paidBy" | "shares">> | null => {
+  const changes: Partial<Pick<RecurringTransaction, "paidBy" | "shares">> = {};
+
+  if (template.paidBy === fromId) changes.paidBy = toId;
+
+  const shares = mergeEntries(template.shares, fromId, toId, "value");
+  if (shares) changes.shares = shares;
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import jsQR from "jsqr";
+import { createQrCodeMatrix, getReedSolomonRemainder, QrErrorCorrectionLevel, QR_QUIET_ZONE } from "@/utils/qrCodeUtils";
+
+const LEVELS: QrErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+// Byte mode capacities from the QR Code standard, by level: the largest payload of a version
+const BYTE_CAPACITY: Record<number, Record<QrErrorCorrectionLevel, number>> = {
+  1: { L: 17, M: 14, Q: 11, H: 7 },
+  6: { L: 134, M: 106, Q: 74, H: 58 },
+  9: { L: 230, M: 180, Q: 130, H: 98 },
+  40: { L: 2953, M: 2331, Q: 1663, H: 1273 },
+};
+
+const getVersion = (matrix: boolean[][]) => (matrix.length - 17) / 4;
+
+/**
+ * Render a matrix the way a screen shows it, with its quiet zone, and read it back with jsQR
+ */
+const decodeMatrix = (matrix: boolean[][], scale = 3) => {
+  const size = (matrix.length + QR_QUIET_ZONE * 2) * scale;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const row = matrix[Math.floor(y / scale) - QR_QUIET_ZONE];
+      if (!row?.[Math.floor(x / scale) - QR_QUIET_ZONE]) continue;
+      const offset = (y * size + x) * 4;
+      pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 0;
+    }
+  }
+
+  return jsQR(pixels, size, size);
+};
+
+describe("getReedSolomonRemainder", () => {
+  it("matches the published examples for version 1-M", () => {
+    // "01234567" from ISO/IEC 18004 Annex I
+    expect(getReedSolomonRemainder([16, 32, 12, 86, 97, 128, 236, 17, 236, 17, 236, 17, 236, 17, 236, 17], 10))
+      .toEqual([165, 36, 212, 193, 237, 54, 199, 135, 44, 85]);
+    // "HELLO WORLD" in alphanumeric mode
+    expect(getReedSolomonRemainder([32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17], 10))
+      .toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe("createQrCodeMatrix", () => {
+  it.each(LEVELS)("round-trips a VietQR payload and Vietnamese text at level %s", (level) => {
+    for (const text of [
+      "00020101021238530010A0000007270123000697041601092576788590208QRIBFTTA53037045405100005802VN62150811Chuyen tien630453E6",
+      "Quỹ đi Đà Lạt: trả tiền phòng ₫",
+    ]) {
+      expect(decodeMatrix(createQrCodeMatrix(text, level))?.data).toBe(text);
+    }
+  });
+
+  it.each(LEVELS)("picks the smallest version and decodes at the version boundaries, level %s", (level) => {
+    // 1 → 2: smallest codes; 6 → 7: version information blocks; 9 → 10: 16-bit length field
+    for (const version of [1, 6, 9]) {
+      const capacity = BYTE_CAPACITY[version][level];
+      for (const [length, expectedVersion] of [[capacity, version], [capacity + 1, version + 1]]) {
+        const text = "x".repeat(length);
+        const matrix = createQrCodeMatrix(text, level);
+
+        expect(getVersion(matrix)).toBe(expectedVersion);
+        const decoded = decodeMatrix(matrix);
+        expect(decoded?.data).toBe(text);
+        expect(decoded?.version).toBe(expectedVersion);
+      }
+    }
+  });
+
+  it("fills the largest version and rejects anything longer", () => {
+    const capacity = BYTE_CAPACITY[40].L;
+    const text = Array.from({ length: capacity }, (_, i) => String.fromCharCode(33 + (i % 94))).join("");
+    const matrix = createQrCodeMatrix(text, "L");
+
+    expect(getVersion(matrix)).toBe(40);
+    expect(decodeMatrix(matrix, 2)?.data).toBe(text);
+    expect(() => createQrCodeMatrix(`${text}x`, "L")).toThrow();
+  });
+});
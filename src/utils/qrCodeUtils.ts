@@ -0,0 +1,463 @@
+/**
+ * Minimal QR Code encoder (ISO/IEC 18004) for rendering QR codes without a network call.
+ * Text is encoded in byte mode (UTF-8); the smallest version that fits is chosen
+ * and the mask with the lowest penalty score is applied.
+ */
+
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+// Order of the levels in the tables below; FORMAT_BITS maps them to the 2-bit format value
+const LEVEL_INDEX: Record<QrErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, by level then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// Number of error correction blocks, by level then version (index 0 unused)
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/**
+ * Number of data and error correction modules available in a version,
+ * after the function patterns are placed
+ */
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number, level: QrErrorCorrectionLevel): number => {
+  const levelIndex = LEVEL_INDEX[level];
+  return Math.floor(getNumRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[levelIndex][version] * NUM_ERROR_CORRECTION_BLOCKS[levelIndex][version];
+};
+
+/**
+ * Multiply two elements of GF(2^8) modulo the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+ */
+const multiplyGf = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const getReedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiplyGf(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = multiplyGf(root, 0x02);
+  }
+  return result;
+};
+
+/**
+ * Reed-Solomon error correction codewords of a data block
+ */
+export const getReedSolomonRemainder = (data: number[], degree: number): number[] => {
+  const divisor = getReedSolomonDivisor(degree);
+  const result = new Array(degree).fill(0);
+
+  data.forEach(byte => {
+    const factor = byte ^ result.shift();
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiplyGf(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+/**
+ * Split the data codewords into blocks, add error correction to each and interleave them
+ */
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrectionLevel): number[] => {
+  const levelIndex = LEVEL_INDEX[level];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[levelIndex][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[levelIndex][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    const ecc = getReedSolomonRemainder(blockData, blockEccLength);
+    // Short blocks get a placeholder so every block has the same length while interleaving
+    if (i < numShortBlocks) blockData.push(-1);
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach(block => {
+      if (block[i] !== -1) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const appendBits = (bits: number[], value: number, length: number) => {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+};
+
+/**
+ * Build the data codewords for a byte mode segment, choosing the smallest version that fits
+ */
+const encodeData = (bytes: number[], level: QrErrorCorrectionLevel): { version: number; codewords: number[] } => {
+  let version = MIN_VERSION;
+  for (; ; version++) {
+    if (version > MAX_VERSION) {
+      throw new Error("Nội dung quá dài để tạo mã QR");
+    }
+    const countBits = version <= 9 ? 8 : 16;
+    const neededBits = 4 + countBits + bytes.length * 8;
+    if (neededBits <= getNumDataCodewords(version, level) * 8) break;
+  }
+
+  const bits: number[] = [];
+  appendBits(bits, 0x4, 4); // Byte mode indicator
+  appendBits(bits, bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => appendBits(bits, byte, 8));
+
+  const capacityBits = getNumDataCodewords(version, level) * 8;
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length)); // Terminator
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return { version, codewords };
+};
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const size = version * 4 + 17;
+  const result = [6];
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+const MASK_PATTERNS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number, private readonly level: QrErrorCorrectionLevel) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean) {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    // Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    // Alignment patterns, skipping the three finder corners
+    const positions = getAlignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignmentPattern(x, y);
+      });
+    });
+
+    // Reserve the format areas; the real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const getBit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    // First copy, around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(i));
+    this.setFunctionModule(8, 7, getBit(6));
+    this.setFunctionModule(8, 8, getBit(7));
+    this.setFunctionModule(7, 8, getBit(8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(i));
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(i));
+    this.setFunctionModule(8, this.size - 8, true); // Always dark
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const isDark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, isDark);
+      this.setFunctionModule(b, a, isDark);
+    }
+  }
+
+  /**
+   * Place the codewords in the zigzag order, right to left in two-module columns
+   */
+  drawCodewords(codewords: number[]) {
+    let bitIndex = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && bitIndex < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+            bitIndex++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR a mask onto the data modules; applying the same mask twice undoes it
+   */
+  applyMask(mask: number) {
+    const pattern = MASK_PATTERNS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && pattern(x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current modules (lower is easier to scan)
+   */
+  getPenaltyScore(): number {
+    const size = this.size;
+    let result = 0;
+
+    const scoreLine = (getModule: (i: number) => boolean) => {
+      let score = 0;
+      let runColor = false;
+      let runLength = 0;
+      const line: boolean[] = [];
+      for (let i = 0; i < size; i++) {
+        const isDark = getModule(i);
+        line.push(isDark);
+        if (i > 0 && isDark === runColor) {
+          runLength++;
+          if (runLength === 5) score += 3;
+          else if (runLength > 5) score++;
+        } else {
+          runColor = isDark;
+          runLength = 1;
+        }
+      }
+
+      // Finder-like patterns (1:1:3:1:1 with four light modules on one side)
+      const padded = [...new Array(4).fill(false), ...line, ...new Array(4).fill(false)];
+      const finder = [true, false, true, true, true, false, true];
+      for (let i = 0; i + 11 <= padded.length; i++) {
+        const matchesFinder = (start: number) => finder.every((value, k) => padded[start + k] === value);
+        const isLight = (start: number) => [0, 1, 2, 3].every(k => !padded[start + k]);
+        if ((matchesFinder(i) && isLight(i + 7)) || (isLight(i) && matchesFinder(i + 4))) {
+          score += 40;
+        }
+      }
+      return score;
+    };
+
+    for (let y = 0; y < size; y++) result += scoreLine(x => this.modules[y][x]);
+    for (let x = 0; x < size; x++) result += scoreLine(y => this.modules[y][x]);
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += Math.max(0, k) * 10;
+
+    return result;
+  }
+}
+
+/**
+ * Encode text as a QR code
+ * @param text - Content of the code, encoded as UTF-8
+ * @param level - Error correction level; M recovers about 15% of damage
+ * @returns Square matrix of modules, true for dark, without the quiet zone
+ */
+export const createQrCodeMatrix = (text: string, level: QrErrorCorrectionLevel = "M"): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const { version, codewords } = encodeData(bytes, level);
+
+  const matrix = new QrMatrix(version, level);
+  matrix.drawCodewords(addErrorCorrection(codewords, version, level));
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < MASK_PATTERNS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenaltyScore();
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+};
+
+// Light modules around the code required by scanners
+export const QR_QUIET_ZONE = 4;
+
+/**
+ * Draw a QR code with its quiet zone on a new canvas, e.g. for image downloads and reports
+ * @param text - Content of the code
+ * @param size - Width and height of the canvas in pixels
+ * @param level - Error correction level
+ */
+export const createQrCodeCanvas = (
+  text: string,
+  size: number,
+  level: QrErrorCorrectionLevel = "M"
+): HTMLCanvasElement => {
+  const modules = createQrCodeMatrix(text, level);
+  const dimension = modules.length + QR_QUIET_ZONE * 2;
+  const scale = size / dimension;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = "#000000";
+  modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (!isDark) return;
+      // Round the edges so neighbouring modules don't leave hairline gaps
+      const left = Math.floor((x + QR_QUIET_ZONE) * scale);
+      const top = Math.floor((y + QR_QUIET_ZONE) * scale);
+      ctx.fillRect(
+        left,
+        top,
+        Math.ceil((x + QR_QUIET_ZONE + 1) * scale) - left,
+        Math.ceil((y + QR_QUIET_ZONE + 1) * scale) - top
+      );
+    });
+  });
+
+  return canvas;
+};
@@ -0,0 +1,91 @@
+import jsQR from "jsqr";
+
+// BarcodeDetector is not part of the TypeScript DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+/**
+ * What a QR code can be read from: a playing camera video or a decoded image
+ */
+export type QrScanSource = HTMLVideoElement | ImageBitmap;
+
+// Largest side an image is scaled down to before the JavaScript decoder reads it
+const MAX_DECODE_SIZE = 1280;
+
+let detector: BarcodeDetectorInstance | null = null;
+let isDetectorBroken = false;
+let canvas: HTMLCanvasElement | null = null;
+
+/**
+ * Decode a QR code with jsQR, for browsers without BarcodeDetector (Safari, Firefox).
+ * The source is drawn on a canvas, scaled down when large so camera frames stay fast.
+ */
+const decodeWithJsQr = (source: QrScanSource, isVideoFrame: boolean): string | null => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+  canvas = canvas || document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  // Inverted (light on dark) codes only show up in images; skipping them keeps the camera loop light
+  const code = jsQR(imageData.data, imageData.width, imageData.height, {
+    inversionAttempts: isVideoFrame ? "dontInvert" : "attemptBoth",
+  });
+  return code?.data || null;
+};
+
+/**
+ * Decode the first QR code found in an image or video frame. Uses the browser's
+ * BarcodeDetector where there is one (Chrome, Edge, Android) and jsQR everywhere else
+ * @param source - Decoded image or playing video element
+ * @returns The text of the QR code, or null when none was found
+ */
+export const detectQrCode = async (source: QrScanSource): Promise<string | null> => {
+  const BarcodeDetector = getBarcodeDetector();
+  if (BarcodeDetector && !isDetectorBroken) {
+    try {
+      detector = detector || new BarcodeDetector({ formats: ["qr_code"] });
+      const barcodes = await detector.detect(source);
+      return barcodes[0]?.rawValue || null;
+    } catch (error) {
+      // Some platforms expose BarcodeDetector without QR support; use jsQR from now on
+      console.error("Error detecting QR code with BarcodeDetector:", error);
+      isDetectorBroken = true;
+    }
+  }
+
+  return decodeWithJsQr(source, source instanceof HTMLVideoElement);
+};
+
+/**
+ * Decode the first QR code in an image file, e.g. a screenshot from a banking app
+ * @param file - Image selected by the user
+ * @returns The text of the QR code, or null when none was found
+ */
+export const detectQrCodeInFile = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await detectQrCode(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,128 @@
+import { ReceiptItem } from "@/types";
+
+export interface ParsedReceipt {
+  items: ReceiptItem[];
+  total: number; // Amount actually paid; falls back to the sum of the items
+  date?: string; // YYYY-MM-DD when the receipt shows a date
+  merchant?: string; // First text line of the receipt, usually the shop name
+}
+
+// Lines naming the amount to pay, strongest first
+const TOTAL_KEYWORDS = [
+  "khách phải trả", "khach phai tra", "cần thanh toán", "can thanh toan",
+  "tổng thanh toán", "tong thanh toan", "tổng cộng", "tong cong", "grand total",
+  "tổng tiền", "tong tien", "thành tiền", "thanh tien", "total", "tổng", "tong",
+];
+
+// Lines that carry an amount but are not items
+const NON_ITEM_KEYWORDS = [
+  "tạm tính", "tam tinh", "subtotal", "sub total", "vat", "thuế", "thue", "tax",
+  "phí dịch vụ", "phi dich vu", "service", "giảm giá", "giam gia", "discount", "khuyến mãi",
+  "tiền mặt", "tien mat", "cash", "tiền thừa", "tien thua", "tiền thối", "change", "tip",
+  "thanh toán", "thanh toan", "chuyển khoản", "chuyen khoan", "card", "thẻ",
+];
+
+// 45.000 / 45,000 / 1.250.000đ / 45000 / 45k
+const MONEY_PATTERN = /(\d{1,3}(?:[.,]\d{3})+|\d{4,}|\d+(?:[.,]\d+)?\s*k)\b\s*(?:đ|₫|vnd|vnđ)?/gi;
+
+/**
+ * Convert a money token from a receipt into VND
+ */
+const parseMoney = (token: string): number => {
+  const value = token.toLowerCase().replace(/\s|đ|₫|vnđ|vnd/g, "");
+  if (value.endsWith("k")) {
+    return Math.round(parseFloat(value.slice(0, -1).replace(",", ".")) * 1000);
+  }
+  return parseInt(value.replace(/[.,]/g, ""), 10);
+};
+
+const findDate = (text: string): string | undefined => {
+  const isoMatch = text.match(/\b(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  const vnMatch = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](20\d{2}|\d{2})\b/);
+
+  const [year, month, day] = isoMatch
+    ? [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])]
+    : vnMatch
+      ? [Number(vnMatch[3].length === 2 ? `20${vnMatch[3]}` : vnMatch[3]), Number(vnMatch[2]), Number(vnMatch[1])]
+      : [0, 0, 0];
+
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+/**
+ * Read an item line such as "Cà phê sữa 2 x 25.000 50.000" or "2 Bánh mì 30.000"
+ */
+const parseItemLine = (line: string, amounts: { value: number; index: number }[]): ReceiptItem | null => {
+  const lineTotal = amounts[amounts.length - 1].value;
+  const name = line
+    .slice(0, amounts[0].index)
+    .replace(/^\s*\d{1,2}\s*[x*]?\s+/i, "")
+    .replace(/\s+[x*]?\s*\d{1,2}\s*[x*]?\s*$/i, "")
+    .replace(/[\s.:\-–]+$/, "")
+    .trim();
+  if (!name || !/\p{L}/u.test(name)) return null;
+
+  // A small standalone number is the quantity, either before the name or before the prices
+  const quantityMatch = line.match(/(?:^|\s)[x*]?\s*(\d{1,2})\s*[x*]?(?=\s)/i);
+  let quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 1;
+  if (!quantity || quantity < 1) quantity = 1;
+
+  // With a unit price and a line total, trust them over the guessed quantity
+  if (amounts.length >= 2 && amounts[0].value > 0 && lineTotal % amounts[0].value === 0) {
+    quantity = lineTotal / amounts[0].value;
+  }
+
+  return { name, price: Math.round(lineTotal / quantity), quantity };
+};
+
+/**
+ * Deterministic parser for text-only OCR output of a bill.
+ * Picks up item lines, the total to pay and the date without calling an AI model.
+ * @param text - Receipt text, one receipt line per line
+ * @returns Items, total and date found on the receipt
+ */
+export const parseReceiptText = (text: string): ParsedReceipt => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const items: ReceiptItem[] = [];
+  let total = 0;
+  let totalPriority = Number.MAX_SAFE_INTEGER;
+  let merchant: string | undefined;
+
+  for (const line of lines) {
+    const lowerLine = line.toLowerCase();
+    // Date lines and long digit runs (phone, tax or invoice numbers) are never amounts
+    const hasDate = !!findDate(line);
+    const amounts = hasDate ? [] : [...line.matchAll(MONEY_PATTERN)]
+      .filter(match => !/^\d{9,}$/.test(match[1]))
+      .map(match => ({ value: parseMoney(match[1]), index: match.index ?? 0 }))
+      .filter(amount => amount.value > 0);
+
+    if (amounts.length === 0) {
+      if (!merchant && /\p{L}{2,}/u.test(line) && !hasDate) merchant = line;
+      continue;
+    }
+
+    const priority = TOTAL_KEYWORDS.findIndex(keyword => lowerLine.includes(keyword));
+    const isNonItem = NON_ITEM_KEYWORDS.some(keyword => lowerLine.includes(keyword));
+
+    if (priority >= 0 && !lowerLine.includes("tạm tính") && !lowerLine.includes("subtotal")) {
+      // Later lines win ties: the final total comes after subtotals
+      if (priority <= totalPriority) {
+        total = amounts[amounts.length - 1].value;
+        totalPriority = priority;
+      }
+      continue;
+    }
+    if (isNonItem) continue;
+
+    const item = parseItemLine(line, amounts);
+    if (item) items.push(item);
+  }
+
+  if (!total) {
+    total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  }
+
+  return { items, total, date: findDate(text), merchant };
+};
@@ -0,0 +1,137 @@
+import { addDays, addMonths, addWeeks, getDaysInMonth, startOfDay } from "date-fns";
+import { RecurringSchedule, RecurringTransaction, Split, SplitType } from "@/types";
+import { calculateEvenDistributionWithPayers, calculateWeightedDistributionWithPayers } from "./transactionUtils";
+
+/**
+ * Upper bound on how many missed occurrences are created in one go, so a
+ * template left untouched for years doesn't flood the fund.
+ */
+export const MAX_OCCURRENCES_PER_RUN = 24;
+
+const DAY_NAMES = ["Chủ nhật", "Thứ 2", "Thứ 3", "Thứ 4", "Thứ 5", "Thứ 6", "Thứ 7"];
+
+/**
+ * Move a date to the given day of its month, clamped to the month's last day
+ */
+const withDayOfMonth = (date: Date, dayOfMonth: number): Date => {
+  const result = new Date(date);
+  result.setDate(Math.min(dayOfMonth, getDaysInMonth(date)));
+  return result;
+};
+
+/**
+ * Get the first occurrence of a schedule on or after a start date
+ * @param schedule - Recurring schedule
+ * @param startDate - Earliest allowed date (milliseconds)
+ * @returns Date of the first occurrence (milliseconds, start of day)
+ */
+export const getFirstOccurrence = (schedule: RecurringSchedule, startDate: number): number => {
+  const start = startOfDay(startDate);
+
+  switch (schedule.frequency) {
+    case "weekly": {
+      const dayOfWeek = schedule.dayOfWeek ?? start.getDay();
+      return addDays(start, (dayOfWeek - start.getDay() + 7) % 7).getTime();
+    }
+    case "monthly": {
+      const dayOfMonth = schedule.dayOfMonth ?? start.getDate();
+      const thisMonth = withDayOfMonth(start, dayOfMonth);
+      return thisMonth >= start
+        ? thisMonth.getTime()
+        : withDayOfMonth(addMonths(start, 1), dayOfMonth).getTime();
+    }
+    default:
+      return start.getTime();
+  }
+};
+
+/**
+ * Get the occurrence that follows a given occurrence
+ * @param schedule - Recurring schedule
+ * @param dueDate - Date of the current occurrence (milliseconds)
+ * @returns Date of the next occurrence (milliseconds)
+ */
+export const getNextOccurrence = (schedule: RecurringSchedule, dueDate: number): number => {
+  switch (schedule.frequency) {
+    case "weekly":
+      return addWeeks(dueDate, 1).getTime();
+    case "monthly":
+      // Re-apply the day so the 31st comes back after a short month
+      return withDayOfMonth(addMonths(startOfDay(dueDate), 1), schedule.dayOfMonth ?? new Date(dueDate).getDate()).getTime();
+    default:
+      return addDays(dueDate, Math.max(1, schedule.intervalDays || 1)).getTime();
+  }
+};
+
+/**
+ * List the occurrences of a template that are due up to a given time
+ * @param template - Recurring transaction template
+ * @param now - Current time (milliseconds)
+ * @returns Due dates, oldest first, capped at MAX_OCCURRENCES_PER_RUN
+ */
+export const getDueOccurrences = (
+  template: Pick<RecurringTransaction, "schedule" | "nextDueDate" | "isPaused">,
+  now: number = Date.now()
+): number[] => {
+  if (template.isPaused) return [];
+
+  const dueDates: number[] = [];
+  let dueDate = template.nextDueDate;
+
+  while (dueDate <= now && dueDates.length < MAX_OCCURRENCES_PER_RUN) {
+    dueDates.push(dueDate);
+    dueDate = getNextOccurrence(template.schedule, dueDate);
+  }
+
+  return dueDates;
+};
+
+/**
+ * Turn a template's shares into the net splits of one occurrence
+ * (the payer receives what they paid minus their own share).
+ * @param template - Recurring transaction template
+ * @returns Net splits that sum to zero
+ */
+export const calculateRecurringSplits = (
+  template: Pick<RecurringTransaction, "amount" | "paidBy" | "splitType" | "shares">
+): Split[] => {
+  const { amount, paidBy, splitType, shares } = template;
+  const payers = [{ userId: paidBy, amount }];
+
+  if (splitType === SplitType.EVEN) {
+    return calculateEvenDistributionWithPayers(amount, shares.map(share => share.userId), payers);
+  }
+
+  if (splitType === SplitType.PERCENTAGE || splitType === SplitType.SHARES) {
+    return calculateWeightedDistributionWithPayers(
+      amount,
+      shares.map(share => ({ userId: share.userId, weight: share.value })),
+      payers
+    );
+  }
+
+  const splits: Split[] = shares.map(share => ({
+    userId: share.userId,
+    amount: (share.userId === paidBy ? amount : 0) - share.value,
+  }));
+
+  if (!shares.some(share => share.userId === paidBy)) {
+    splits.push({ userId: paidBy, amount });
+  }
+
+  return splits;
+};
+
+/**
+ * Human readable description of a schedule, e.g. "Hàng tháng, ngày 5"
+ */
+export const describeSchedule = (schedule: RecurringSchedule): string => {
+  switch (schedule.frequency) {
+    case "weekly":
+      return `Hàng tuần, ${DAY_NAMES[schedule.dayOfWeek ?? 1]}`;
+    case "monthly":
+      return `Hàng tháng, ngày ${schedule.dayOfMonth ?? 1}`;
+    default:
+      return `Mỗi ${schedule.intervalDays || 1} ngày`;
+  }
+};
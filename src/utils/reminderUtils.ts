@@ -0,0 +1,128 @@
+import { PaymentReminderSchedule, PaymentReminderSetting, PaymentReminderState, SettlementStatus, Transaction } from "@/types";
+import { calculateBalancesFromTransactions, calculateSettlements, Settlement } from "@/utils/settlementUtils";
+import { isPlaceholderMember } from "@/utils/placeholderUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The same debtor is reminded about the same debt at most once per day, manually or automatically
+export const PAYMENT_REMINDER_MIN_INTERVAL_MS = DAY_MS;
+
+// Bounds of the delay of "after N days" reminders
+export const MIN_REMINDER_DAYS = 1;
+export const MAX_REMINDER_DAYS = 90;
+export const DEFAULT_REMINDER_DAYS = 3;
+
+const WEEKLY_INTERVAL_MS = 7 * DAY_MS;
+
+/**
+ * Key of a debtor/creditor pair, also the ID of its reminder history document
+ */
+export const getReminderPairKey = (debtorId: string, creditorId: string): string => {
+  return `${debtorId}:${creditorId}`;
+};
+
+/**
+ * Debts that reminders can be sent for: the transfers of the fund's settlement plan,
+ * leaving out debtors without an account and debts already paid back but not yet confirmed
+ * @param transactions - Transactions of the fund
+ * @param settlements - Settlement plan to pick from; defaults to the greedy plan of the transactions
+ */
+export const getRemindableDebts = (
+  transactions: Transaction[],
+  settlements: Settlement[] = calculateSettlements(calculateBalancesFromTransactions(transactions))
+): Settlement[] => {
+  const pendingPairs = new Set(
+    transactions
+      .filter(t => t.settlementStatus === SettlementStatus.PENDING && t.settlementRecipientId)
+      .map(t => getReminderPairKey(t.paidBy, t.settlementRecipientId))
+  );
+
+  return settlements
+    .filter(debt => !isPlaceholderMember(debt.from) && !isPlaceholderMember(debt.to))
+    .filter(debt => !pendingPairs.has(getReminderPairKey(debt.from, debt.to)));
+};
+
+/**
+ * Whether the rate limit allows another reminder for a pair
+ */
+export const canSendPaymentReminder = (state: PaymentReminderState | undefined, now: number = Date.now()): boolean => {
+  return !state?.lastSentAt || now - state.lastSentAt >= PAYMENT_REMINDER_MIN_INTERVAL_MS;
+};
+
+/**
+ * Whether a creditor's automatic reminder is due for a tracked debt
+ * @param setting - The creditor's reminder schedule
+ * @param state - Reminder history of the pair
+ * @param now - Current time in milliseconds
+ */
+export const isAutomaticReminderDue = (
+  setting: PaymentReminderSetting | undefined,
+  state: PaymentReminderState | undefined,
+  now: number = Date.now()
+): boolean => {
+  if (!setting || !state || !canSendPaymentReminder(state, now)) return false;
+
+  if (setting.schedule === PaymentReminderSchedule.WEEKLY) {
+    return now - (state.lastAutoSentAt || state.since) >= WEEKLY_INTERVAL_MS;
+  }
+
+  const days = setting.days || DEFAULT_REMINDER_DAYS;
+  return !state.lastAutoSentAt && now - state.since >= days * DAY_MS;
+};
+
+/**
+ * A creditor's reminder history after matching it against the open debts: their new debts start
+ * being tracked when automatic reminders are on, settled ones are dropped so their reminders stop.
+ * Pairs reminded within the rate limit are kept until it runs out.
+ * @param setting - The creditor's reminder schedule
+ * @param states - Reminder history of the fund, by pair key
+ * @param debts - Open debts of the fund
+ * @param creditorId - Creditor whose pairs are synced; other creditors' pairs are left out
+ * @param now - Current time in milliseconds
+ */
+export const syncPaymentReminderStates = (
+  setting: PaymentReminderSetting | undefined,
+  states: Record<string, PaymentReminderState>,
+  debts: Settlement[],
+  creditorId: string,
+  now: number = Date.now()
+): Record<string, PaymentReminderState> => {
+  const next: Record<string, PaymentReminderState> = {};
+
+  for (const debt of debts.filter(debt => debt.to === creditorId)) {
+    const key = getReminderPairKey(debt.from, debt.to);
+    if (states[key]) {
+      next[key] = states[key];
+    } else if (setting) {
+      next[key] = { since: now };
+    }
+  }
+
+  for (const [key, state] of Object.entries(states)) {
+    if (key.endsWith(`:${creditorId}`) && !next[key] && !canSendPaymentReminder(state, now)) next[key] = state;
+  }
+
+  return next;
+};
+
+/**
+ * Whether a creditor's stored reminder history is out of date or one of their automatic
+ * reminders is due, i.e. whether they need a reminder update at all
+ */
+export const needsPaymentReminderUpdate = (
+  setting: PaymentReminderSetting | undefined,
+  states: Record<string, PaymentReminderState>,
+  debts: Settlement[],
+  creditorId: string,
+  now: number = Date.now()
+): boolean => {
+  const ownKeys = Object.keys(states).filter(key => key.endsWith(`:${creditorId}`));
+  if (!setting && ownKeys.length === 0) return false;
+
+  const syncedKeys = Object.keys(syncPaymentReminderStates(setting, states, debts, creditorId, now));
+  const hasStaleStates = syncedKeys.length !== ownKeys.length || syncedKeys.some(key => !states[key]);
+  if (hasStaleStates) return true;
+
+  return debts.some(debt => debt.to === creditorId
+    && isAutomaticReminderDue(setting, states[getReminderPairKey(debt.from, debt.to)], now));
+};
@@ -0,0 +1,82 @@
+import { Fund, Transaction, User } from "@/types";
+import { eachDayOfInterval, format, startOfDay } from "date-fns";
+import { calculateDailyExpenses, calculateTotalExpense, getTransactionPayers } from "@/utils/transactionUtils";
+import { calculateBalancesFromTransactions, calculateSettlements, Settlement } from "@/utils/settlementUtils";
+
+export interface MemberSpendingSummary {
+  userId: string;
+  paid: number; // Money this person put in
+  consumed: number; // Their share of the expenses
+  balance: number; // paid − consumed (positive = is owed money)
+}
+
+export interface FundReportData {
+  fund: Fund;
+  transactions: Transaction[]; // Oldest first
+  from: number | null; // Date of the first transaction
+  to: number | null; // Date of the last transaction
+  totalExpense: number;
+  dailyExpenses: { date: number; expense: number }[]; // Every day of the span, including days without spending
+  members: MemberSpendingSummary[];
+  settlements: Settlement[];
+  creditors: { user: User; amount: number }[]; // People who receive money in the settlement plan
+}
+
+const getTransactionTime = (transaction: Transaction) => transaction.date || transaction.createdAt;
+
+/**
+ * Collect everything the trip report shows for a fund
+ * @param fund Fund being reported
+ * @param transactions Transactions of the fund
+ * @param getUserById Lookup for member names and bank accounts
+ */
+export const buildFundReportData = (
+  fund: Fund,
+  transactions: Transaction[],
+  getUserById: (userId: string) => User
+): FundReportData => {
+  const sorted = [...transactions].sort((a, b) => getTransactionTime(a) - getTransactionTime(b));
+  const from = sorted.length > 0 ? getTransactionTime(sorted[0]) : null;
+  const to = sorted.length > 0 ? getTransactionTime(sorted[sorted.length - 1]) : null;
+
+  const dailyExpenseMap = calculateDailyExpenses(sorted, (date) => format(date, "yyyy-MM-dd"));
+  const dailyExpenses = from !== null
+    ? eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).map(day => ({
+        date: day.getTime(),
+        expense: dailyExpenseMap[format(day, "yyyy-MM-dd")]?.expense || 0,
+      }))
+    : [];
+
+  const paidByUser: Record<string, number> = {};
+  sorted.forEach(transaction => {
+    getTransactionPayers(transaction).forEach(payer => {
+      paidByUser[payer.userId] = (paidByUser[payer.userId] || 0) + payer.amount;
+    });
+  });
+
+  const balances = calculateBalancesFromTransactions(sorted);
+  const memberIds = [...new Set([...(fund.members || []), ...balances.map(b => b.userId)])];
+  const members = memberIds.map(userId => {
+    const paid = Math.round(paidByUser[userId] || 0);
+    const balance = Math.round(balances.find(b => b.userId === userId)?.amount || 0);
+    return { userId, paid, consumed: paid - balance, balance };
+  });
+
+  const settlements = calculateSettlements(balances);
+  const creditorAmounts: Record<string, number> = {};
+  settlements.forEach(settlement => {
+    creditorAmounts[settlement.to] = (creditorAmounts[settlement.to] || 0) + settlement.amount;
+  });
+
+  return {
+    fund,
+    transactions: sorted,
+    from,
+    to,
+    totalExpense: calculateTotalExpense(sorted),
+    dailyExpenses,
+    members,
+    settlements,
+    creditors: Object.entries(creditorAmounts).map(([userId, amount]) => ({ user: getUserById(userId), amount })),
+  };
+};
@@ -0,0 +1,237 @@
+import { Balance, SettlementStatus, Transaction } from "@/types";
+import { OTHER_CATEGORY, REPAYMENT_CATEGORY } from "@/constants/categoryConstants";
+import { isPlaceholderMember } from "@/utils/placeholderUtils";
+
+/**
+ * A single transfer in a settlement plan: `from` pays `amount` to `to`.
+ */
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export type SettlementMode = "greedy" | "exact";
+
+/**
+ * The exact solver enumerates every subset of non-zero balances, so it is only
+ * offered for groups up to this size (2^12 = 4096 subsets).
+ */
+export const EXACT_SETTLEMENT_MAX_PARTICIPANTS = 12;
+
+/**
+ * Round balances to whole dong and drop everyone who is already settled.
+ */
+const normalizeBalances = (balances: Balance[]): Balance[] => {
+  return balances
+    .map(balance => ({ userId: balance.userId, amount: Math.round(balance.amount) }))
+    .filter(balance => balance.amount !== 0);
+};
+
+/**
+ * Whether a transaction moves balances: everything except repayments the recipient
+ * has not confirmed yet or has rejected.
+ */
+export const isCountedInBalances = (transaction: Transaction): boolean => {
+  return !transaction.settlementStatus || transaction.settlementStatus === SettlementStatus.CONFIRMED;
+};
+
+/**
+ * Confirmation fields of a new repayment. It waits for the recipient unless they are
+ * the one recording it, or a placeholder member who cannot sign in to confirm.
+ * @param recipientId - Member receiving the money
+ * @param createdBy - Member recording the repayment
+ */
+export const getSettlementConfirmationFields = (
+  recipientId: string,
+  createdBy: string
+): Pick<Transaction, "settlementStatus" | "settlementRecipientId"> => {
+  if (recipientId === createdBy || isPlaceholderMember(recipientId)) return {};
+
+  return {
+    settlementStatus: SettlementStatus.PENDING,
+    settlementRecipientId: recipientId,
+  };
+};
+
+/**
+ * A new transaction with the confirmation fields the security rules require of repayments.
+ * A repayment moves money from one member to the one with the negative split, so a transaction
+ * in the repayment category between more or fewer members is recorded under "Khác" instead.
+ * @param transaction - Transaction about to be created
+ * @param createdBy - Member recording it
+ */
+export const withRepaymentConfirmation = <T extends Pick<Transaction, "category" | "splits" | "settlementStatus">>(
+  transaction: T,
+  createdBy: string
+): T => {
+  if (transaction.category !== REPAYMENT_CATEGORY || transaction.settlementStatus) return transaction;
+
+  const recipient = transaction.splits.length === 2 ? transaction.splits.find(split => split.amount < 0) : undefined;
+  if (!recipient) return { ...transaction, category: OTHER_CATEGORY };
+
+  return { ...transaction, ...getSettlementConfirmationFields(recipient.userId, createdBy) };
+};
+
+const sumSplits = (transactions: Transaction[]): Balance[] => {
+  const balances: Record<string, number> = {};
+
+  for (const transaction of transactions) {
+    for (const split of transaction.splits) {
+      balances[split.userId] = (balances[split.userId] || 0) + split.amount;
+    }
+  }
+
+  return Object.entries(balances).map(([userId, amount]) => ({ userId, amount }));
+};
+
+/**
+ * Net balance of every member from the splits of a fund's transactions.
+ * Unconfirmed and rejected repayments are left out.
+ */
+export const calculateBalancesFromTransactions = (transactions: Transaction[]): Balance[] => {
+  return sumSplits(transactions.filter(isCountedInBalances));
+};
+
+/**
+ * How the balances would move once every pending repayment is confirmed
+ * (positive = the member has paid money back that is not confirmed yet).
+ */
+export const calculatePendingBalances = (transactions: Transaction[]): Balance[] => {
+  return sumSplits(transactions.filter(t => t.settlementStatus === SettlementStatus.PENDING))
+    .filter(balance => Math.round(balance.amount) !== 0);
+};
+
+/**
+ * Whether every balance is zero once rounded to whole dong.
+ */
+export const isFullySettled = (balances: Balance[]): boolean => {
+  return normalizeBalances(balances).length === 0;
+};
+
+/**
+ * Greedy debtor/creditor matching.
+ * Repeatedly pairs the largest debtor with the largest creditor and transfers
+ * the smaller of the two amounts. Produces at most n - 1 transfers.
+ *
+ * @param balances - Net balances (positive = is owed money, negative = owes money)
+ * @returns List of transfers that settles every balance
+ */
+const greedySettlements = (balances: Balance[]): Settlement[] => {
+  const creditors = balances
+    .filter(balance => balance.amount > 0)
+    .map(balance => ({ ...balance }))
+    .sort((a, b) => b.amount - a.amount);
+  const debtors = balances
+    .filter(balance => balance.amount < 0)
+    .map(balance => ({ userId: balance.userId, amount: -balance.amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const settlements: Settlement[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < debtors.length && j < creditors.length) {
+    const debtor = debtors[i];
+    const creditor = creditors[j];
+    const amount = Math.min(debtor.amount, creditor.amount);
+
+    if (amount > 0) {
+      settlements.push({ from: debtor.userId, to: creditor.userId, amount });
+    }
+
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+
+    if (debtor.amount === 0) i++;
+    if (creditor.amount === 0) j++;
+  }
+
+  return settlements;
+};
+
+/**
+ * Exact minimum-count settlement.
+ * The fewest transfers needed is n - k, where k is the largest number of
+ * disjoint zero-sum groups the balances can be partitioned into. We find that
+ * partition with a subset DP and then settle each group greedily.
+ *
+ * @param balances - Normalized, non-zero balances that sum to zero
+ * @returns List of transfers with the minimum possible count
+ */
+const exactSettlements = (balances: Balance[]): Settlement[] => {
+  const n = balances.length;
+  const fullMask = (1 << n) - 1;
+  const sums = new Array<number>(fullMask + 1).fill(0);
+  const groups = new Array<number>(fullMask + 1).fill(0);
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowestBit = mask & -mask;
+    const index = 31 - Math.clz32(lowestBit);
+    sums[mask] = sums[mask ^ lowestBit] + balances[index].amount;
+
+    let best = 0;
+    for (let k = 0; k < n; k++) {
+      if (mask & (1 << k)) {
+        best = Math.max(best, groups[mask ^ (1 << k)]);
+      }
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back down the DP chain; every zero-sum mask we pass closes a group
+  const settlements: Settlement[] = [];
+  let mask = fullMask;
+  let groupStart = fullMask;
+
+  while (mask !== 0) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    let next = -1;
+    for (let k = 0; k < n; k++) {
+      if ((mask & (1 << k)) && groups[mask ^ (1 << k)] === groups[mask] - bonus) {
+        next = mask ^ (1 << k);
+        break;
+      }
+    }
+
+    mask = next;
+    if (sums[mask] === 0) {
+      const groupMembers = balances.filter((_, k) => (groupStart & ~mask) & (1 << k));
+      settlements.push(...greedySettlements(groupMembers));
+      groupStart = mask;
+    }
+  }
+
+  return settlements;
+};
+
+/**
+ * Reduce a fund's net balances to a list of "who pays whom" transfers.
+ *
+ * - `greedy` (default) is fast and gives at most n - 1 transfers.
+ * - `exact` guarantees the minimum number of transfers, but is only used for
+ *   groups up to {@link EXACT_SETTLEMENT_MAX_PARTICIPANTS} people whose
+ *   balances sum to zero; otherwise it falls back to greedy.
+ *
+ * @param balances - Net balances (positive = is owed money, negative = owes money)
+ * @param mode - Settlement strategy
+ * @returns Transfers sorted by amount, largest first
+ */
+export const calculateSettlements = (
+  balances: Balance[],
+  mode: SettlementMode = "greedy"
+): Settlement[] => {
+  const normalized = normalizeBalances(balances);
+  const total = normalized.reduce((sum, balance) => sum + balance.amount, 0);
+
+  const canUseExact =
+    mode === "exact" &&
+    total === 0 &&
+    normalized.length <= EXACT_SETTLEMENT_MAX_PARTICIPANTS;
+
+  const settlements = canUseExact
+    ? exactSettlements(normalized)
+    : greedySettlements(normalized);
+
+  return settlements.sort((a, b) => b.amount - a.amount);
+};
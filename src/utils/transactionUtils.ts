@@ -1,4 +1,4 @@
-import { Transaction, Split } from "@/types";
+import { Transaction, Split, Payer, SplitWeight, ReceiptItem, ItemizedCharges } from "@/types";
 import { formatNumberWithSeparators } from "@/lib/utils";
 import { numberToVietnameseText as numberToVNText } from "@/lib/utils";
 
@@ -139,40 +139,203 @@ export const sanitizeAmountInput = (value: string): string => {
 };
 
 /**
- * Calculate even distribution of amount among members
+ * Get everyone who paid for a transaction.
+ * Single-payer transactions only store `paidBy`, so the whole amount is attributed to them.
  */
-export const calculateEvenDistribution = (
-  totalAmount: number, 
-  memberIds: string[], 
-  payerId: string
+export const getTransactionPayers = (
+  transaction: Pick<Transaction, "paidBy" | "payers" | "amount">
+): Payer[] => {
+  if (transaction.payers && transaction.payers.length > 0) {
+    return transaction.payers;
+  }
+  return [{ userId: transaction.paidBy, amount: transaction.amount }];
+};
+
+/**
+ * Pick the main payer (largest contributor) used for `Transaction.paidBy`
+ */
+export const getPrimaryPayerId = (payers: Payer[]): string => {
+  return [...payers].sort((a, b) => b.amount - a.amount)[0]?.userId || '';
+};
+
+/**
+ * Calculate even distribution of amount among members when one or more people paid.
+ * Each split is what the member paid minus their share, so the splits always sum to zero.
+ * Payers who are not among the members still get a split for what they paid.
+ */
+export const calculateEvenDistributionWithPayers = (
+  totalAmount: number,
+  memberIds: string[],
+  payers: Payer[]
 ): { userId: string; amount: number }[] => {
   const numMembers = memberIds.length;
   
-  if (!totalAmount || numMembers <= 1) return [];
+  if (!totalAmount || numMembers === 0) return [];
   
   const sharePerMember = Math.floor(totalAmount / numMembers);
   const remainder = totalAmount - (sharePerMember * numMembers);
   
-  return memberIds.map((memberId, index) => {
+  const paidByUser = (userId: string) => payers
+    .filter(payer => payer.userId === userId)
+    .reduce((sum, payer) => sum + payer.amount, 0);
+  
+  const memberSplits = memberIds.map((memberId, index) => {
     // Everyone has a negative share representing what they owe
     const share = -(sharePerMember + (index === 0 ? remainder : 0));
-    
-    if (memberId === payerId) {
-      // For the payer: they paid the total amount but also owe their share
-      return {
-        userId: memberId,
-        amount: totalAmount + share
-      };
-    } else {
-      // For everyone else: they just owe their share
-      return {
-        userId: memberId,
-        amount: share
-      };
-    }
+    return {
+      userId: memberId,
+      amount: paidByUser(memberId) + share
+    };
+  });
+  
+  const outsidePayerSplits = [...new Set(payers.map(payer => payer.userId))]
+    .filter(payerId => !memberIds.includes(payerId))
+    .map(payerId => ({ userId: payerId, amount: paidByUser(payerId) }));
+  
+  return [...memberSplits, ...outsidePayerSplits];
+};
+
+/**
+ * Split an amount proportionally to weights (percentages or share counts).
+ * Every share is rounded down to whole dong, then the leftover dong are handed
+ * out one at a time to the largest fractional parts; ties go to whoever comes
+ * first in `weights`, so the same input always gives the same result.
+ * @returns What each weighted member owes (positive amounts that sum to totalAmount)
+ */
+export const calculateWeightedShares = (
+  totalAmount: number,
+  weights: SplitWeight[]
+): { userId: string; amount: number }[] => {
+  const activeWeights = weights.filter(w => w.weight > 0);
+  const totalWeight = activeWeights.reduce((sum, w) => sum + w.weight, 0);
+  
+  if (!totalAmount || totalWeight <= 0) return [];
+  
+  const exactShares = activeWeights.map(w => (totalAmount * w.weight) / totalWeight);
+  const shares = exactShares.map(share => Math.floor(share));
+  let leftover = Math.round(totalAmount - shares.reduce((sum, share) => sum + share, 0));
+  
+  const byRemainder = exactShares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  
+  for (let i = 0; leftover > 0 && byRemainder.length > 0; i = (i + 1) % byRemainder.length) {
+    shares[byRemainder[i].index] += 1;
+    leftover--;
+  }
+  
+  return activeWeights.map((w, index) => ({ userId: w.userId, amount: shares[index] }));
+};
+
+/**
+ * Turn what each member owes into net splits by crediting every payer with what they paid
+ */
+const applyPayersToShares = (
+  shares: { userId: string; amount: number }[],
+  payers: Payer[]
+): { userId: string; amount: number }[] => {
+  if (shares.length === 0) return [];
+  
+  const userIds = [...new Set([...shares.map(share => share.userId), ...payers.map(payer => payer.userId)])];
+  
+  return userIds.map(userId => {
+    const paid = payers
+      .filter(payer => payer.userId === userId)
+      .reduce((sum, payer) => sum + payer.amount, 0);
+    const owed = shares.find(share => share.userId === userId)?.amount || 0;
+    return { userId, amount: paid - owed };
   });
 };
 
+/**
+ * Calculate net splits from weights, crediting every payer with what they paid
+ */
+export const calculateWeightedDistributionWithPayers = (
+  totalAmount: number,
+  weights: SplitWeight[],
+  payers: Payer[]
+): { userId: string; amount: number }[] => {
+  return applyPayersToShares(calculateWeightedShares(totalAmount, weights), payers);
+};
+
+/**
+ * Sum of the items of a bill before tax, service charge and tip
+ */
+export const getItemsSubtotal = (items: ReceiptItem[]): number => {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+};
+
+/**
+ * Sum of the tax, service charge and tip of an itemized bill
+ */
+export const getItemChargesTotal = (charges?: ItemizedCharges | null): number => {
+  return (charges?.tax || 0) + (charges?.serviceCharge || 0) + (charges?.tip || 0);
+};
+
+/**
+ * Work out what each member owes for an itemized bill.
+ * An item is split evenly among its assignees; tax, service charge and tip are
+ * then shared in proportion to each member's items. Unassigned items are ignored.
+ * @returns What each member owes (positive amounts that sum to the bill total)
+ */
+export const calculateItemizedShares = (
+  items: ReceiptItem[],
+  charges?: ItemizedCharges | null
+): { userId: string; amount: number }[] => {
+  const subtotals = new Map<string, number>();
+  
+  items.forEach(item => {
+    const assignees = [...new Set(item.assignedTo || [])];
+    calculateWeightedShares(
+      Math.round(item.price * item.quantity),
+      assignees.map(userId => ({ userId, weight: 1 }))
+    ).forEach(share => subtotals.set(share.userId, (subtotals.get(share.userId) || 0) + share.amount));
+  });
+  
+  const chargeShares = calculateWeightedShares(
+    Math.round(getItemChargesTotal(charges)),
+    [...subtotals].map(([userId, subtotal]) => ({ userId, weight: subtotal }))
+  );
+  
+  return [...subtotals].map(([userId, subtotal]) => ({
+    userId,
+    amount: subtotal + (chargeShares.find(share => share.userId === userId)?.amount || 0),
+  }));
+};
+
+/**
+ * Calculate net splits for an itemized bill, crediting every payer with what they paid.
+ * The item shares are used as weights so the splits always add up to totalAmount,
+ * even when the bill was entered in a foreign currency and converted to VND.
+ */
+export const calculateItemizedDistributionWithPayers = (
+  totalAmount: number,
+  items: ReceiptItem[],
+  charges: ItemizedCharges | null | undefined,
+  payers: Payer[]
+): { userId: string; amount: number }[] => {
+  const weights = calculateItemizedShares(items, charges).map(share => ({ userId: share.userId, weight: share.amount }));
+  return calculateWeightedDistributionWithPayers(totalAmount, weights, payers);
+};
+
+/**
+ * Calculate even distribution of amount among members
+ */
+export const calculateEvenDistribution = (
+  totalAmount: number, 
+  memberIds: string[], 
+  payerId: string
+): { userId: string; amount: number }[] => {
+  if (!totalAmount || memberIds.length <= 1) return [];
+  
+  // For the payer: they paid the total amount but also owe their share
+  return calculateEvenDistributionWithPayers(
+    totalAmount,
+    memberIds,
+    [{ userId: payerId, amount: totalAmount }]
+  ).filter(split => memberIds.includes(split.userId));
+};
+
 /**
  * Add zeros to the end of amount string
  */
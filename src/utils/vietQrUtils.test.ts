@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { buildVietQrPayload, crc16Ccitt, parseVietQrPayload } from "@/utils/vietQrUtils";
+
+// Payloads published with vietnam-qr-pay, an independent VietQR/VNPAY-QR library.
+// The MoMo and ZaloPay ones reproduce the "receive money" codes of those wallets
+// (accounts at BVBank), the VNPAY one is CellphoneS' merchant code.
+const ACB_STATIC_QR =
+  "00020101021138530010A0000007270123000697041601092576788590208QRIBFTTA53037045802VN6304AE9F";
+const ACB_DYNAMIC_QR =
+  "00020101021238530010A0000007270123000697041601092576788590208QRIBFTTA53037045405100005802VN62150811Chuyen tien630453E6";
+const MOMO_QR =
+  "00020101021138620010A00000072701320006970454011899MM24011M348750800208QRIBFTTA53037045802VN62190515MOMOW2W3487508080030466304EBC8";
+const ZALOPAY_QR =
+  "00020101021138620010A00000072701320006970454011899ZP24009M072482670208QRIBFTTA53037045802VN6304073C";
+const VNPAY_MERCHANT_QR =
+  "00020101021126280010A0000007750110010531314453037045408210900005802VN5910CELLPHONES62600312CPSHN ONLINE0517021908061613127850705ONLHN0810CellphoneS63047685";
+
+describe("crc16Ccitt", () => {
+  it("matches the CRC-16/CCITT-FALSE check value", () => {
+    expect(crc16Ccitt("123456789")).toBe("29B1");
+  });
+
+  it("always returns four uppercase hex digits", () => {
+    expect(crc16Ccitt("")).toBe("FFFF");
+    expect(crc16Ccitt("A")).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe("parseVietQrPayload", () => {
+  it("reads a static bank code", () => {
+    expect(parseVietQrPayload(ACB_STATIC_QR)).toEqual({
+      bankBin: "970416",
+      accountNumber: "257678859",
+    });
+  });
+
+  it("reads a dynamic bank code with amount and transfer content", () => {
+    expect(parseVietQrPayload(ACB_DYNAMIC_QR)).toEqual({
+      bankBin: "970416",
+      accountNumber: "257678859",
+      amount: 10000,
+      addInfo: "Chuyen tien",
+    });
+  });
+
+  it("reads e-wallet codes with a reference and extra fields", () => {
+    expect(parseVietQrPayload(MOMO_QR)).toEqual({ bankBin: "970454", accountNumber: "99MM24011M34875080" });
+    expect(parseVietQrPayload(ZALOPAY_QR)).toEqual({ bankBin: "970454", accountNumber: "99ZP24009M07248267" });
+  });
+
+  it("accepts a lowercase checksum and surrounding whitespace", () => {
+    const payload = `  ${ACB_DYNAMIC_QR.slice(0, -4)}53e6\n`;
+    expect(parseVietQrPayload(payload)?.accountNumber).toBe("257678859");
+  });
+
+  it("rejects a code whose checksum does not match", () => {
+    expect(parseVietQrPayload(`${ACB_STATIC_QR.slice(0, -4)}0000`)).toBeNull();
+    expect(parseVietQrPayload(ACB_STATIC_QR.replace("257678859", "257678858"))).toBeNull();
+  });
+
+  it("rejects merchant codes and text that is not a VietQR code", () => {
+    expect(parseVietQrPayload(VNPAY_MERCHANT_QR)).toBeNull();
+    expect(parseVietQrPayload("https://example.com")).toBeNull();
+    expect(parseVietQrPayload("")).toBeNull();
+  });
+});
+
+describe("buildVietQrPayload", () => {
+  it("builds the same payloads as another VietQR implementation", () => {
+    expect(buildVietQrPayload({ bankBin: "970416", accountNumber: "257678859" })).toBe(ACB_STATIC_QR);
+    expect(buildVietQrPayload({ bankBin: "970416", accountNumber: "257678859", amount: 10000, addInfo: "Chuyen tien" }))
+      .toBe(ACB_DYNAMIC_QR);
+    expect(buildVietQrPayload({ bankBin: "970454", accountNumber: "99ZP24009M07248267" })).toBe(ZALOPAY_QR);
+  });
+
+  it("round-trips through parseVietQrPayload", () => {
+    const payload = buildVietQrPayload({
+      bankBin: "970436",
+      accountNumber: "0011 0001 23456",
+      amount: 250000.4,
+      addInfo: "Trả tiền đi Đà Lạt",
+    });
+
+    expect(parseVietQrPayload(payload)).toEqual({
+      bankBin: "970436",
+      accountNumber: "0011000123456",
+      amount: 250000,
+      addInfo: "Tra tien di Da Lat",
+      accountName: undefined,
+    });
+  });
+
+  it("leaves out the amount of a code for any amount", () => {
+    const payload = buildVietQrPayload({ bankBin: "970436", accountNumber: "0011000123456" });
+
+    expect(payload).toContain("010211");
+    expect(parseVietQrPayload(payload)?.amount).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * VietQR payloads: the NAPAS profile of the EMVCo merchant-presented QR code,
+ * which every Vietnamese banking app can scan to prefill a transfer.
+ */
+
+// Globally unique identifier of NAPAS in the merchant account information
+const NAPAS_GUID = "A000000727";
+
+// Service code for transfers to an account number (QRIBFTTC is for card numbers)
+const ACCOUNT_TRANSFER_SERVICE = "QRIBFTTA";
+
+const VND_CURRENCY_CODE = "704";
+const COUNTRY_CODE = "VN";
+
+// Banking apps reject longer transfer content
+export const VIETQR_MAX_ADD_INFO_LENGTH = 50;
+
+// Top-level field IDs of the EMVCo payload
+const FIELD = {
+  PAYLOAD_FORMAT: "00",
+  INITIATION_METHOD: "01",
+  MERCHANT_ACCOUNT: "38",
+  CURRENCY: "53",
+  AMOUNT: "54",
+  COUNTRY: "58",
+  MERCHANT_NAME: "59",
+  ADDITIONAL_DATA: "62",
+  CRC: "63",
+};
+
+// Static codes can be reused for any amount, dynamic ones carry the amount
+const STATIC_INITIATION = "11";
+const DYNAMIC_INITIATION = "12";
+
+// Field 62 subfield holding the purpose of the transaction (the transfer content)
+const PURPOSE_SUBFIELD = "08";
+
+export interface VietQrData {
+  bankBin: string; // NAPAS bank identifier, e.g. "970436" for Vietcombank
+  accountNumber: string;
+  amount?: number; // In VND; leave out for a code without an amount
+  addInfo?: string; // Transfer content
+}
+
+export interface ScannedVietQr extends VietQrData {
+  accountName?: string; // Only present when the bank app includes the merchant name
+}
+
+/**
+ * CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF), as required by EMVCo
+ * @returns The checksum as four uppercase hex digits
+ */
+export const crc16Ccitt = (data: string): string => {
+  let crc = 0xffff;
+
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+/**
+ * One EMVCo field: two-digit ID, two-digit length, value
+ */
+const formatField = (id: string, value: string): string => {
+  if (value.length > 99) {
+    throw new Error(`VietQR field ${id} is too long`);
+  }
+  return `${id}${value.length.toString().padStart(2, "0")}${value}`;
+};
+
+/**
+ * Transfer content as banks accept it: without Vietnamese diacritics, limited to
+ * letters, digits and spaces, and at most 50 characters
+ */
+export const normalizeVietQrAddInfo = (text: string): string => {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .replace(/[^a-zA-Z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, VIETQR_MAX_ADD_INFO_LENGTH)
+    .trim();
+};
+
+/**
+ * Build the VietQR payload for a transfer to a bank account
+ * @param data - Bank BIN, account number and the optional amount and transfer content
+ * @returns The payload text to encode in a QR code
+ */
+export const buildVietQrPayload = ({ bankBin, accountNumber, amount, addInfo }: VietQrData): string => {
+  const roundedAmount = amount ? Math.round(amount) : 0;
+  const content = addInfo ? normalizeVietQrAddInfo(addInfo) : "";
+
+  const beneficiary = formatField("00", bankBin) + formatField("01", accountNumber.replace(/\s/g, ""));
+  const merchantAccount =
+    formatField("00", NAPAS_GUID) +
+    formatField("01", beneficiary) +
+    formatField("02", ACCOUNT_TRANSFER_SERVICE);
+
+  let payload =
+    formatField(FIELD.PAYLOAD_FORMAT, "01") +
+    formatField(FIELD.INITIATION_METHOD, roundedAmount > 0 ? DYNAMIC_INITIATION : STATIC_INITIATION) +
+    formatField(FIELD.MERCHANT_ACCOUNT, merchantAccount) +
+    formatField(FIELD.CURRENCY, VND_CURRENCY_CODE);
+
+  if (roundedAmount > 0) {
+    payload += formatField(FIELD.AMOUNT, roundedAmount.toString());
+  }
+
+  payload += formatField(FIELD.COUNTRY, COUNTRY_CODE);
+
+  if (content) {
+    payload += formatField(FIELD.ADDITIONAL_DATA, formatField(PURPOSE_SUBFIELD, content));
+  }
+
+  // The checksum covers everything before it, including its own ID and length
+  payload += `${FIELD.CRC}04`;
+  return payload + crc16Ccitt(payload);
+};
+
+/**
+ * Split an EMVCo string into its fields
+ * @returns Values by field ID, or null when a length runs past the end
+ */
+const parseFields = (text: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+  let position = 0;
+
+  while (position < text.length) {
+    const id = text.slice(position, position + 2);
+    const length = Number(text.slice(position + 2, position + 4));
+    const value = text.slice(position + 4, position + 4 + length);
+
+    if (id.length < 2 || !Number.isInteger(length) || value.length !== length) {
+      return null;
+    }
+
+    fields[id] = value;
+    position += 4 + length;
+  }
+
+  return fields;
+};
+
+/**
+ * Read the bank account out of a scanned VietQR code
+ * @param payload - Text decoded from the QR code
+ * @returns The bank BIN, account number and optional details, or null when the text is not
+ * a valid VietQR transfer code (wrong format, wrong checksum or not a NAPAS account)
+ */
+export const parseVietQrPayload = (payload: string): ScannedVietQr | null => {
+  const text = payload.trim();
+  const checksumStart = text.length - 4;
+
+  if (text.slice(checksumStart - 4, checksumStart) !== `${FIELD.CRC}04`) return null;
+  if (crc16Ccitt(text.slice(0, checksumStart)) !== text.slice(checksumStart).toUpperCase()) return null;
+
+  const fields = parseFields(text);
+  const merchantAccount = fields?.[FIELD.MERCHANT_ACCOUNT] && parseFields(fields[FIELD.MERCHANT_ACCOUNT]);
+  if (!merchantAccount || merchantAccount["00"] !== NAPAS_GUID || !merchantAccount["01"]) return null;
+
+  const beneficiary = parseFields(merchantAccount["01"]);
+  if (!beneficiary?.["00"] || !beneficiary["01"]) return null;
+
+  const amount = Number(fields[FIELD.AMOUNT]);
+  const additionalData = fields[FIELD.ADDITIONAL_DATA] ? parseFields(fields[FIELD.ADDITIONAL_DATA]) : null;
+
+  return {
+    bankBin: beneficiary["00"],
+    accountNumber: beneficiary["01"],
+    amount: amount > 0 ? amount : undefined,
+    addInfo: additionalData?.[PURPOSE_SUBFIELD] || undefined,
+    accountName: fields[FIELD.MERCHANT_NAME]?.trim() || undefined,
+  };
+};
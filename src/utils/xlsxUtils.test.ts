@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "node:zlib";
+import { createXlsxWorkbook } from "@/utils/xlsxUtils";
+
+interface ReadZipEntry {
+  path: string;
+  text: string;
+}
+
+/**
+ * Read a stored ZIP the way an unzip tool does: from the end of central directory record,
+ * through each central directory header to its local header, checking signatures, sizes and CRCs
+ */
+const readZip = (zip: Uint8Array): ReadZipEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  const endOffset = zip.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(view.getUint16(endOffset + 8, true)).toBe(entryCount);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const entries: ReadZipEntry[] = [];
+  let position = centralOffset;
+  for (let i = 0; i < entryCount; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // Stored
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(decoder.decode(zip.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(path);
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.push({ path, text: decoder.decode(data) });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(endOffset);
+
+  return entries;
+};
+
+const readWorkbook = async (...args: Parameters<typeof createXlsxWorkbook>) => {
+  const blob = createXlsxWorkbook(...args);
+  expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  return readZip(new Uint8Array(await blob.arrayBuffer()));
+};
+
+describe("createXlsxWorkbook", () => {
+  it("writes a valid stored ZIP with one part per sheet", async () => {
+    const entries = await readWorkbook([
+      { name: "Giao dịch", rows: [["Mô tả", "Số tiền"], ["Ăn trưa", 150000]], boldFirstRow: true },
+      { name: "Số dư", rows: [["An", -50000]] },
+    ]);
+
+    expect(entries.map(entry => entry.path)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+
+    const workbook = entries.find(entry => entry.path === "xl/workbook.xml").text;
+    expect(workbook).toContain('<sheet name="Giao dịch" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="Số dư" sheetId="2" r:id="rId2"/>');
+  });
+
+  it("writes numbers as values and text as inline strings", async () => {
+    const entries = await readWorkbook([{ name: "Sheet", rows: [["Ăn trưa", 150000, null, -2.5]], boldFirstRow: true }]);
+    const sheet = entries.find(entry => entry.path === "xl/worksheets/sheet1.xml").text;
+
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Ăn trưa</t></is></c>');
+    expect(sheet).toContain('<c r="B1" s="1"><v>150000</v></c>');
+    expect(sheet).not.toContain('r="C1"');
+    expect(sheet).toContain('<c r="D1" s="1"><v>-2.5</v></c>');
+  });
+
+  it("escapes markup and drops characters XML cannot hold", async () => {
+    const entries = await readWorkbook([
+      { name: "A&B <test>", rows: [['Tom & Jerry <b>"bữa tối"</b>', "line\u0000break\u0008\tend\r\n"]] },
+    ]);
+    const sheet = entries.find(entry => entry.path === "xl/worksheets/sheet1.xml").text;
+    const workbook = entries.find(entry => entry.path === "xl/workbook.xml").text;
+
+    expect(sheet).toContain("Tom &amp; Jerry &lt;b&gt;&quot;bữa tối&quot;&lt;/b&gt;");
+    expect(sheet).toContain("linebreak\tend\r\n");
+    expect(sheet).not.toContain("\u0000");
+    expect(sheet).not.toContain("\u0008");
+    expect(workbook).toContain('name="A&amp;B &lt;test&gt;"');
+  });
+
+  it("names columns past Z and shortens long sheet names", async () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const entries = await readWorkbook([{ name: "Một tên trang tính rất dài vượt quá giới hạn", rows: [row] }]);
+    const sheet = entries.find(entry => entry.path === "xl/worksheets/sheet1.xml").text;
+    const workbook = entries.find(entry => entry.path === "xl/workbook.xml").text;
+
+    expect(sheet).toContain('<c r="Z1"><v>25</v></c><c r="AA1"><v>26</v></c><c r="AB1"><v>27</v></c>');
+    expect(workbook).toContain(`name="${"Một tên trang tính rất dài vượt quá giới hạn".slice(0, 31)}"`);
+  });
+});